@@ -7,22 +7,68 @@
 import { createServer, IncomingMessage, ServerResponse } from "http";
 import { URL } from "url";
 import { logger } from "../utils/logger.js";
+import { getConfig } from "../utils/config.js";
 import { getArbitrageOpportunities } from "../compute/cross-exchange.js";
+import { estimateMarketImpact } from "../compute/market-impact.js";
+import { buildConsolidatedBook } from "../compute/consolidated-book.js";
 import type { MarketStore } from "../store/markets.js";
+import type { OrderBookStore } from "../store/orderbooks.js";
+import type { PositioningStore } from "../store/positioning.js";
 import type { LeaderboardStore } from "../store/leaderboards.js";
 import type { EnhancedLeaderboardStore } from "../store/enhanced-leaderboards.js";
-import type { DerivedMetrics } from "../types/unified.js";
+import {
+  CustomLeaderboardValidationError,
+  type CustomLeaderboardStore,
+  type CustomLeaderboardDefinition,
+} from "../store/custom-leaderboards.js";
+import type { DerivedMetrics, PerpSpotBasis, CompositeScores } from "../types/unified.js";
 import type { AggregatedMarket } from "../compute/cross-exchange.js";
+import type { FundingArbitrageOpportunity } from "../compute/funding-arbitrage.js";
+import type { TermStructure } from "../compute/term-structure.js";
+import type { LiquidationClusterSnapshot } from "../compute/liquidation-clusters.js";
+import type { ListingSignal, ListingSignalType } from "../connectors/listings.js";
+import type { FundingHistoryManager } from "../compute/funding-history.js";
+import { getExpressionFields } from "../compute/leaderboard-expression.js";
+
+type ScoreSortField = Exclude<keyof CompositeScores, "id" | "exchange" | "symbol" | "computedAt">;
+
+// Largest request body accepted by POST endpoints
+const MAX_BODY_BYTES = 16 * 1024;
+
+const SCORE_SORT_FIELDS: ScoreSortField[] = [
+  "momentumScore",
+  "pumpScore",
+  "liquidityScore",
+  "volatilityScore",
+  "fundingExtremenessScore",
+  "orderBookHealthScore",
+  "activityScore",
+];
 
 interface ApiServerOptions {
   port: number;
   marketStore: MarketStore;
+  spotMarketStore?: MarketStore;
+  futuresMarketStore?: MarketStore;
+  orderBookStore?: OrderBookStore;
+  positioningStore?: PositioningStore;
+  fundingHistory?: FundingHistoryManager;
   leaderboardStore: LeaderboardStore;
   enhancedLeaderboardStore?: EnhancedLeaderboardStore;
+  customLeaderboardStore?: CustomLeaderboardStore;
   getMetricsStore?: () => Map<string, DerivedMetrics>; // Function to get current metrics
+  getScores?: () => Map<string, CompositeScores>;
   aggregatedStore?: Map<string, AggregatedMarket>;
+  getFundingArbitrage?: () => FundingArbitrageOpportunity[];
+  getBasis?: () => Map<string, PerpSpotBasis>;
+  getTermStructure?: (asset: string) => TermStructure | undefined;
   bybitConnector?: unknown; // ExchangeConnector type
   binanceConnector?: unknown; // ExchangeConnector type
+  okxConnector?: unknown; // ExchangeConnector type
+  hyperliquidConnector?: unknown; // HyperliquidConnector type
+  getLiquidationClusters?: (coin: string) => LiquidationClusterSnapshot | null;
+  getLiquidationClusterCoins?: () => string[];
+  getListingSignals?: (limit: number, type?: ListingSignalType) => ListingSignal[];
   getSystemMetrics?: () => {
     startTime: number;
     lastMetricsCompute: number | null;
@@ -38,12 +84,27 @@ export class ApiServer {
   private server: ReturnType<typeof createServer> | null = null;
   private port: number;
   private marketStore: MarketStore;
+  private spotMarketStore?: MarketStore;
+  private futuresMarketStore?: MarketStore;
+  private orderBookStore?: OrderBookStore;
+  private positioningStore?: PositioningStore;
+  private fundingHistory?: FundingHistoryManager;
   private leaderboardStore: LeaderboardStore;
   private enhancedLeaderboardStore?: EnhancedLeaderboardStore;
+  private customLeaderboardStore?: CustomLeaderboardStore;
   private getMetricsStore?: () => Map<string, DerivedMetrics>;
+  private getScores?: () => Map<string, CompositeScores>;
   private aggregatedStore?: Map<string, AggregatedMarket>;
+  private getFundingArbitrage?: () => FundingArbitrageOpportunity[];
+  private getBasis?: () => Map<string, PerpSpotBasis>;
+  private getTermStructure?: (asset: string) => TermStructure | undefined;
   private bybitConnector?: unknown;
   private binanceConnector?: unknown;
+  private okxConnector?: unknown;
+  private hyperliquidConnector?: unknown;
+  private getLiquidationClusters?: (coin: string) => LiquidationClusterSnapshot | null;
+  private getLiquidationClusterCoins?: () => string[];
+  private getListingSignals?: (limit: number, type?: ListingSignalType) => ListingSignal[];
   private getSystemMetrics?: () => {
     startTime: number;
     lastMetricsCompute: number | null;
@@ -57,12 +118,27 @@ export class ApiServer {
   constructor(options: ApiServerOptions) {
     this.port = options.port;
     this.marketStore = options.marketStore;
+    this.spotMarketStore = options.spotMarketStore;
+    this.futuresMarketStore = options.futuresMarketStore;
+    this.orderBookStore = options.orderBookStore;
+    this.positioningStore = options.positioningStore;
+    this.fundingHistory = options.fundingHistory;
     this.leaderboardStore = options.leaderboardStore;
     this.enhancedLeaderboardStore = options.enhancedLeaderboardStore;
+    this.customLeaderboardStore = options.customLeaderboardStore;
     this.getMetricsStore = options.getMetricsStore;
+    this.getScores = options.getScores;
     this.aggregatedStore = options.aggregatedStore;
+    this.getFundingArbitrage = options.getFundingArbitrage;
+    this.getBasis = options.getBasis;
+    this.getTermStructure = options.getTermStructure;
     this.bybitConnector = options.bybitConnector;
     this.binanceConnector = options.binanceConnector;
+    this.okxConnector = options.okxConnector;
+    this.hyperliquidConnector = options.hyperliquidConnector;
+    this.getLiquidationClusters = options.getLiquidationClusters;
+    this.getLiquidationClusterCoins = options.getLiquidationClusterCoins;
+    this.getListingSignals = options.getListingSignals;
     this.getSystemMetrics = options.getSystemMetrics;
     this.getWebSocketStats = options.getWebSocketStats;
   }
@@ -143,6 +219,30 @@ export class ApiServer {
         this.handleMarkets(req, res, url);
       } else if (url.pathname.startsWith("/markets/")) {
         this.handleMarketById(req, res, url);
+      } else if (url.pathname === "/orderbooks") {
+        this.handleOrderBooks(req, res);
+      } else if (url.pathname.startsWith("/orderbooks/")) {
+        this.handleOrderBookById(req, res, url);
+      } else if (url.pathname.startsWith("/impact/")) {
+        this.handleImpact(req, res, url);
+      } else if (url.pathname === "/basis") {
+        this.handleBasis(req, res, url);
+      } else if (url.pathname.startsWith("/basis/")) {
+        this.handleBasisById(req, res, url);
+      } else if (url.pathname.startsWith("/term-structure/")) {
+        this.handleTermStructure(req, res, url);
+      } else if (url.pathname.startsWith("/positioning/")) {
+        this.handlePositioningById(req, res, url);
+      } else if (url.pathname.startsWith("/funding/") && url.pathname.endsWith("/history")) {
+        this.handleFundingHistory(req, res, url);
+      } else if (url.pathname === "/leaderboards/custom" && req.method === "POST") {
+        this.handleCreateCustomLeaderboard(req, res).catch((error) =>
+          this.handleError(req, res, error as Error)
+        );
+      } else if (url.pathname === "/leaderboards/custom") {
+        this.handleCustomLeaderboardsList(req, res);
+      } else if (url.pathname.startsWith("/leaderboards/custom/") && req.method === "DELETE") {
+        this.handleDeleteCustomLeaderboard(req, res, url);
       } else if (url.pathname.startsWith("/leaderboards/")) {
         this.handleLeaderboard(req, res, url);
       } else if (url.pathname === "/leaderboards") {
@@ -151,16 +251,30 @@ export class ApiServer {
         this.handleMetrics(req, res, url);
       } else if (url.pathname.startsWith("/metrics/")) {
         this.handleMetricById(req, res, url);
+      } else if (url.pathname === "/scores") {
+        this.handleScores(req, res, url);
+      } else if (url.pathname.startsWith("/scores/")) {
+        this.handleScoreById(req, res, url);
       } else if (url.pathname === "/signals") {
         this.handleSignals(req, res, url);
+      } else if (url.pathname === "/signals/listings") {
+        this.handleListingSignals(req, res, url);
       } else if (url.pathname.startsWith("/signals/")) {
         this.handleSignalType(req, res, url);
       } else if (url.pathname === "/aggregated") {
         this.handleAggregated(req, res, url);
+      } else if (url.pathname.startsWith("/aggregated/") && url.pathname.endsWith("/book")) {
+        this.handleConsolidatedBook(req, res, url);
       } else if (url.pathname.startsWith("/aggregated/")) {
         this.handleAggregatedBySymbol(req, res, url);
       } else if (url.pathname === "/arbitrage") {
         this.handleArbitrage(req, res, url);
+      } else if (url.pathname === "/arbitrage/funding") {
+        this.handleFundingArbitrage(req, res, url);
+      } else if (url.pathname === "/liquidations/clusters") {
+        this.handleLiquidationClusterCoins(req, res);
+      } else if (url.pathname.startsWith("/liquidations/clusters/")) {
+        this.handleLiquidationClusters(req, res, url);
       } else {
         this.handleNotFound(req, res);
       }
@@ -192,6 +306,34 @@ export class ApiServer {
           all: "/markets",
           single: "/markets/:id",
           example: "/markets/bybit:BTC-USDT-PERP",
+          spot: "/markets?type=spot",
+          futures: "/markets?type=quarterly",
+        },
+        basis: {
+          all: "/basis?exchange=binance&limit=20",
+          single: "/basis/:id",
+          example: "/basis/binance:BTC-USDT-PERP",
+        },
+        termStructure: {
+          single: "/term-structure/:asset",
+          example: "/term-structure/BTC",
+        },
+        orderbooks: {
+          all: "/orderbooks",
+          single: "/orderbooks/:id",
+          example: "/orderbooks/binance:BTC-USDT-PERP?levels=10",
+        },
+        impact: {
+          single: "/impact/:symbol",
+          example: "/impact/BTC-USDT-PERP?side=buy&notional=250000",
+        },
+        positioning: {
+          single: "/positioning/:id",
+          example: "/positioning/binance:BTC-USDT-PERP?limit=48",
+        },
+        funding: {
+          history: "/funding/:id/history",
+          example: "/funding/bybit:BTC-USDT-PERP/history?days=7",
         },
         leaderboards: {
           list: "/leaderboards",
@@ -199,26 +341,51 @@ export class ApiServer {
           examples: [
             "/leaderboards/gainers_1h",
             "/leaderboards/losers_1h",
+            "/leaderboards/gainers_4h",
+            "/leaderboards/cvd_positive_4h",
+            "/leaderboards/spread_blowout",
+            "/leaderboards/momentum_score",
+            "/leaderboards/pump_score",
             "/leaderboards/volume_24h",
             "/leaderboards/pumping",
             "/leaderboards/dumping",
           ],
+          custom: {
+            list: "GET /leaderboards/custom",
+            create: "POST /leaderboards/custom {name, expression, direction?: desc|asc, limit?}",
+            delete: "DELETE /leaderboards/custom/:name",
+            example: "priceChangePercent5m * volumeSurge5m where volume24hUsd > 5e6",
+          },
         },
         metrics: {
           all: "/metrics",
           single: "/metrics/:marketId",
         },
+        scores: {
+          all: "/scores?exchange=binance&sort=pumpScore&limit=50",
+          single: "/scores/:marketId",
+        },
         signals: {
           summary: "/signals",
           pumping: "/signals/pumping",
           dumping: "/signals/dumping",
           volumeSurge: "/signals/volume-surge",
+          listings: "/signals/listings?type=listing|delisting|status_change",
         },
         aggregated: {
           all: "/aggregated",
           symbol: "/aggregated/:symbol",
+          book: "/aggregated/:symbol/book?levels=50",
+        },
+        arbitrage: {
+          price: "/arbitrage?minNetProfitUsd=10&limit=20",
+          funding: "/arbitrage/funding?asset=BTC&exchange=bybit&minNetCarry=5&limit=20",
+        },
+        liquidations: {
+          clusterCoins: "/liquidations/clusters",
+          clusters: "/liquidations/clusters/:coin",
+          example: "/liquidations/clusters/BTC?maxDistance=10",
         },
-        arbitrage: "/arbitrage",
       },
       documentation: "See README.md for more information",
     };
@@ -253,6 +420,22 @@ export class ApiServer {
       }
     }
 
+    let okxHealth = null;
+    if (this.okxConnector && typeof this.okxConnector === "object" && this.okxConnector !== null) {
+      const connector = this.okxConnector as { getHealth?: () => unknown };
+      if (typeof connector.getHealth === "function") {
+        okxHealth = connector.getHealth();
+      }
+    }
+
+    let hyperliquidHealth = null;
+    if (this.hyperliquidConnector && typeof this.hyperliquidConnector === "object" && this.hyperliquidConnector !== null) {
+      const connector = this.hyperliquidConnector as { getHealth?: () => unknown };
+      if (typeof connector.getHealth === "function") {
+        hyperliquidHealth = connector.getHealth();
+      }
+    }
+
     const response = {
       status: "ok",
       timestamp: Date.now(),
@@ -263,6 +446,8 @@ export class ApiServer {
       },
       bybit: bybitHealth || { status: "connector_not_available" },
       binance: binanceHealth || { status: "connector_not_available" },
+      okx: okxHealth || { status: "connector_not_available" },
+      hyperliquid: hyperliquidHealth || { status: "connector_not_available" },
     };
 
     res.writeHead(200, { "Content-Type": "application/json" });
@@ -270,7 +455,8 @@ export class ApiServer {
   }
 
   /**
-   * Get all markets.
+   * Get all markets. ?type=spot lists spot counterparts and ?type=quarterly
+   * dated futures instead of perpetuals.
    */
   private handleMarkets(
     _req: IncomingMessage,
@@ -279,8 +465,13 @@ export class ApiServer {
   ): void {
     const exchange = url.searchParams.get("exchange");
     const symbol = url.searchParams.get("symbol");
+    const type = url.searchParams.get("type");
 
-    let markets = this.marketStore.getAll();
+    let markets = type === "spot"
+      ? this.spotMarketStore?.getAll() ?? []
+      : type === "quarterly"
+        ? this.futuresMarketStore?.getAll() ?? []
+        : this.marketStore.getAll();
 
     if (exchange) {
       markets = markets.filter((m) => m.exchange === exchange);
@@ -310,7 +501,10 @@ export class ApiServer {
       return;
     }
 
-    const market = this.marketStore.get(id);
+    const market =
+      this.marketStore.get(id) ??
+      this.spotMarketStore?.get(id) ??
+      this.futuresMarketStore?.get(id);
 
     if (!market) {
       res.writeHead(404, { "Content-Type": "application/json" });
@@ -322,6 +516,325 @@ export class ApiServer {
     res.end(JSON.stringify(market, null, 2));
   }
 
+  /**
+   * List perp-spot basis, highest premium first.
+   * Supports ?exchange= and ?limit=.
+   */
+  private handleBasis(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getBasis) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Basis data not available" }));
+      return;
+    }
+
+    const exchange = url.searchParams.get("exchange");
+    const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+
+    let basis = Array.from(this.getBasis().values());
+
+    if (exchange) {
+      basis = basis.filter((b) => b.exchange === exchange);
+    }
+
+    basis.sort((a, b) => b.basisBps - a.basisBps);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ count: basis.length, basis: basis.slice(0, limit) }, null, 2));
+  }
+
+  /**
+   * Get perp-spot basis for a perpetual market ID.
+   */
+  private handleBasisById(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getBasis) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Basis data not available" }));
+      return;
+    }
+
+    const id = url.pathname.split("/basis/")[1];
+
+    if (!id) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Market ID required" }));
+      return;
+    }
+
+    const basis = this.getBasis().get(id);
+
+    if (!basis) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "No basis for market" }));
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(basis, null, 2));
+  }
+
+  /**
+   * Get the annualized basis term structure (perp, front, next) for a base asset.
+   */
+  private handleTermStructure(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getTermStructure) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Term structure data not available" }));
+      return;
+    }
+
+    const asset = url.pathname.split("/term-structure/")[1]?.toUpperCase();
+
+    if (!asset) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Asset required" }));
+      return;
+    }
+
+    const structure = this.getTermStructure(asset);
+
+    if (!structure) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "No dated futures for asset" }));
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(structure, null, 2));
+  }
+
+  /**
+   * List order books with their depth metrics (levels omitted).
+   */
+  private handleOrderBooks(
+    _req: IncomingMessage,
+    res: ServerResponse
+  ): void {
+    if (!this.orderBookStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Order books not available" }));
+      return;
+    }
+
+    const books = this.orderBookStore.getAll().map((book) => ({
+      id: book.id,
+      exchange: book.exchange,
+      symbol: book.symbol,
+      timestamp: book.timestamp,
+      depthBid: book.depthBid,
+      depthAsk: book.depthAsk,
+      imbalance: book.imbalance,
+      liquidityScore: book.liquidityScore,
+    }));
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ count: books.length, orderbooks: books }, null, 2));
+  }
+
+  /**
+   * Get a single order book by market ID, optionally truncated to ?levels=N.
+   */
+  private handleOrderBookById(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.orderBookStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Order books not available" }));
+      return;
+    }
+
+    const id = url.pathname.split("/orderbooks/")[1];
+
+    if (!id) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Order book ID required" }));
+      return;
+    }
+
+    const book = this.orderBookStore.get(id);
+
+    if (!book) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Order book not found" }));
+      return;
+    }
+
+    const levels = parseInt(url.searchParams.get("levels") || "", 10);
+    const response = Number.isFinite(levels) && levels > 0
+      ? { ...book, bids: book.bids.slice(0, levels), asks: book.asks.slice(0, levels) }
+      : book;
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response, null, 2));
+  }
+
+  /**
+   * Estimate market order impact for a normalized symbol on every exchange
+   * with a local book, plus the optimal split across them.
+   * Requires ?notional= (USD); ?side= is "buy" (default) or "sell".
+   */
+  private handleImpact(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.orderBookStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Order books not available" }));
+      return;
+    }
+
+    const symbol = url.pathname.split("/impact/")[1];
+
+    if (!symbol) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Symbol required" }));
+      return;
+    }
+
+    const side = url.searchParams.get("side") || "buy";
+    const notional = parseFloat(url.searchParams.get("notional") || "");
+
+    if (side !== "buy" && side !== "sell") {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "side must be buy or sell" }));
+      return;
+    }
+
+    if (!Number.isFinite(notional) || notional <= 0) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "notional must be a positive number" }));
+      return;
+    }
+
+    const books = this.orderBookStore.getFullDepthBySymbol(symbol);
+
+    if (books.length === 0) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "No order books for symbol" }));
+      return;
+    }
+
+    const estimate = estimateMarketImpact(symbol, books, side, notional);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(estimate, null, 2));
+  }
+
+  /**
+   * Get long/short ratio history for a market ID, optionally the last ?limit=N samples.
+   */
+  private handlePositioningById(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.positioningStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Positioning data not available" }));
+      return;
+    }
+
+    const id = url.pathname.split("/positioning/")[1];
+
+    if (!id) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Market ID required" }));
+      return;
+    }
+
+    const latest = this.positioningStore.get(id);
+
+    if (!latest) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Positioning data not found" }));
+      return;
+    }
+
+    const limit = parseInt(url.searchParams.get("limit") || "", 10);
+    const history = this.positioningStore.getHistory(
+      id,
+      Number.isFinite(limit) && limit > 0 ? limit : undefined
+    );
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        {
+          id,
+          latest,
+          history,
+          count: history.length,
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  /**
+   * Get settled funding history and percentile stats for a market ID.
+   * Supports ?days=N (default: full retained history).
+   */
+  private handleFundingHistory(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.fundingHistory) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Funding history not available" }));
+      return;
+    }
+
+    const id = url.pathname.slice("/funding/".length, -"/history".length);
+
+    if (!id) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Market ID required" }));
+      return;
+    }
+
+    const stats = this.fundingHistory.getStats(id);
+
+    if (!stats) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Funding history not found" }));
+      return;
+    }
+
+    const days = parseFloat(url.searchParams.get("days") || "");
+    const since = Number.isFinite(days) && days > 0 ? Date.now() - days * 24 * 60 * 60 * 1000 : 0;
+    const history = this.fundingHistory.getHistory(id, since);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        {
+          id,
+          stats,
+          history,
+          count: history.length,
+        },
+        null,
+        2
+      )
+    );
+  }
+
   /**
    * Get list of all leaderboards.
    */
@@ -331,14 +844,139 @@ export class ApiServer {
   ): void {
     const store = this.enhancedLeaderboardStore || this.leaderboardStore;
     const leaderboards = store.getAvailableLeaderboards();
+    const custom = this.customLeaderboardStore?.getDefinitions().map((d) => d.name) ?? [];
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        {
+          leaderboards,
+          count: leaderboards.length,
+          custom,
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  /**
+   * Get a leaderboard.
+   */
+  private handleLeaderboard(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    const name = url.pathname.split("/leaderboards/")[1];
+
+    if (!name) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Leaderboard name required" }));
+      return;
+    }
+
+    const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+
+    const custom = this.customLeaderboardStore?.getLeaderboard(name, limit);
+    if (custom) {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(custom, null, 2));
+      return;
+    }
+
+    // Try enhanced store first, fallback to basic
+    const store = this.enhancedLeaderboardStore || this.leaderboardStore;
+    const leaderboard = store.getLeaderboard(name as any, limit);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(leaderboard, null, 2));
+  }
+
+  /**
+   * List custom leaderboard definitions and the fields expressions may use.
+   */
+  private handleCustomLeaderboardsList(
+    _req: IncomingMessage,
+    res: ServerResponse
+  ): void {
+    if (!this.customLeaderboardStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Custom leaderboards not available" }));
+      return;
+    }
+
+    const definitions = this.customLeaderboardStore.getDefinitions();
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        {
+          leaderboards: definitions,
+          count: definitions.length,
+          fields: getExpressionFields(),
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  /**
+   * Create a custom leaderboard from a JSON body.
+   */
+  private async handleCreateCustomLeaderboard(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (!this.customLeaderboardStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Custom leaderboards not available" }));
+      return;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await this.readJsonBody(req);
+    } catch (error) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: (error as Error).message }));
+      return;
+    }
 
-    res.writeHead(200, { "Content-Type": "application/json" });
+    const builtIn = (this.enhancedLeaderboardStore || this.leaderboardStore).getAvailableLeaderboards();
+    if (
+      typeof body.name === "string" &&
+      (body.name === "custom" ||
+        this.customLeaderboardStore.has(body.name) ||
+        (builtIn as string[]).includes(body.name))
+    ) {
+      res.writeHead(409, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: `Leaderboard name "${body.name}" is already in use` }));
+      return;
+    }
+
+    let definition: CustomLeaderboardDefinition;
+    try {
+      definition = this.customLeaderboardStore.create({
+        name: body.name,
+        expression: body.expression,
+        direction: body.direction,
+        limit: body.limit,
+      });
+    } catch (error) {
+      if (!(error instanceof CustomLeaderboardValidationError)) {
+        throw error;
+      }
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: error.message }));
+      return;
+    }
+
+    res.writeHead(201, { "Content-Type": "application/json" });
     res.end(
       JSON.stringify(
-        {
-          leaderboards,
-          count: leaderboards.length,
-        },
+        { ...definition, channel: `leaderboard:${definition.name}` },
         null,
         2
       )
@@ -346,29 +984,29 @@ export class ApiServer {
   }
 
   /**
-   * Get a leaderboard.
+   * Delete a custom leaderboard.
    */
-  private handleLeaderboard(
+  private handleDeleteCustomLeaderboard(
     _req: IncomingMessage,
     res: ServerResponse,
     url: URL
   ): void {
-    const name = url.pathname.split("/leaderboards/")[1];
-
-    if (!name) {
-      res.writeHead(400, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ error: "Leaderboard name required" }));
+    if (!this.customLeaderboardStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Custom leaderboards not available" }));
       return;
     }
 
-    const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+    const name = url.pathname.split("/leaderboards/custom/")[1];
 
-    // Try enhanced store first, fallback to basic
-    const store = this.enhancedLeaderboardStore || this.leaderboardStore;
-    const leaderboard = store.getLeaderboard(name as any, limit);
+    if (!this.customLeaderboardStore.delete(name)) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Custom leaderboard not found" }));
+      return;
+    }
 
-    res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(JSON.stringify(leaderboard, null, 2));
+    res.writeHead(204);
+    res.end();
   }
 
   /**
@@ -428,6 +1066,79 @@ export class ApiServer {
     res.end(JSON.stringify(metrics, null, 2));
   }
 
+  /**
+   * Get composite scores, highest first on the chosen score.
+   */
+  private handleScores(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getScores) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Scores not available" }));
+      return;
+    }
+
+    const exchange = url.searchParams.get("exchange");
+    const sort = url.searchParams.get("sort") || "momentumScore";
+    const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+
+    if (!SCORE_SORT_FIELDS.includes(sort as ScoreSortField)) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ error: `Invalid sort. Valid options: ${SCORE_SORT_FIELDS.join(", ")}` })
+      );
+      return;
+    }
+
+    const field = sort as ScoreSortField;
+    let scores = Array.from(this.getScores().values());
+
+    if (exchange) {
+      scores = scores.filter((s) => s.exchange === exchange);
+    }
+
+    scores.sort((a, b) => b[field] - a[field]);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ count: scores.length, sort: field, scores: scores.slice(0, limit) }, null, 2));
+  }
+
+  /**
+   * Get composite scores for a specific market.
+   */
+  private handleScoreById(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getScores) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Scores not available" }));
+      return;
+    }
+
+    const id = url.pathname.split("/scores/")[1];
+
+    if (!id) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Market ID required" }));
+      return;
+    }
+
+    const scores = this.getScores().get(id);
+
+    if (!scores) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Scores not found" }));
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(scores, null, 2));
+  }
+
   /**
    * Get signals summary.
    */
@@ -462,6 +1173,35 @@ export class ApiServer {
     );
   }
 
+  /**
+   * Get recent listing, delisting and status change signals.
+   */
+  private handleListingSignals(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getListingSignals) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Listing detector not available" }));
+      return;
+    }
+
+    const limit = parseInt(url.searchParams.get("limit") || "50", 10);
+    const type = url.searchParams.get("type");
+
+    if (type && type !== "listing" && type !== "delisting" && type !== "status_change") {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Invalid listing signal type" }));
+      return;
+    }
+
+    const signals = this.getListingSignals(limit, (type as ListingSignalType) || undefined);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ count: signals.length, signals }, null, 2));
+  }
+
   /**
    * Get specific signal type.
    */
@@ -555,8 +1295,49 @@ export class ApiServer {
     res.end(JSON.stringify(aggregated, null, 2));
   }
 
+  /**
+   * Get the consolidated cross-exchange order book for a symbol,
+   * optionally truncated to ?levels=N.
+   */
+  private handleConsolidatedBook(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.orderBookStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Order books not available" }));
+      return;
+    }
+
+    const symbol = url.pathname.slice("/aggregated/".length, -"/book".length);
+
+    if (!symbol) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Symbol required" }));
+      return;
+    }
+
+    const book = buildConsolidatedBook(symbol, this.orderBookStore.getBySymbol(symbol));
+
+    if (!book) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "No order books for symbol" }));
+      return;
+    }
+
+    const levels = parseInt(url.searchParams.get("levels") || "", 10);
+    const response = Number.isFinite(levels) && levels > 0
+      ? { ...book, bids: book.bids.slice(0, levels), asks: book.asks.slice(0, levels) }
+      : book;
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response, null, 2));
+  }
+
   /**
    * Get arbitrage opportunities.
+   * Supports ?minNetProfitUsd= (expected net profit at max size) and ?limit=.
    */
   private handleArbitrage(
     _req: IncomingMessage,
@@ -569,14 +1350,66 @@ export class ApiServer {
       return;
     }
 
-    const opportunities = getArbitrageOpportunities(this.aggregatedStore);
+    const minNetProfitUsd = parseFloat(url.searchParams.get("minNetProfitUsd") || "");
+    const opportunities = getArbitrageOpportunities(
+      this.aggregatedStore,
+      Number.isFinite(minNetProfitUsd) ? minNetProfitUsd : undefined
+    );
+    const limit = parseInt(url.searchParams.get("limit") || "20", 10);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        {
+          count: opportunities.length,
+          opportunities: opportunities.slice(0, limit),
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  /**
+   * Get funding carry opportunities, best net annualized carry first.
+   * Supports ?asset=, ?exchange= (either leg), ?minNetCarry= (% annualized) and ?limit=.
+   */
+  private handleFundingArbitrage(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getFundingArbitrage) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Funding arbitrage not available" }));
+      return;
+    }
+
+    const asset = url.searchParams.get("asset")?.toUpperCase();
+    const exchange = url.searchParams.get("exchange");
+    const minNetCarry = parseFloat(url.searchParams.get("minNetCarry") || "");
     const limit = parseInt(url.searchParams.get("limit") || "20", 10);
 
+    let opportunities = this.getFundingArbitrage();
+
+    if (asset) {
+      opportunities = opportunities.filter((o) => o.asset === asset);
+    }
+    if (exchange) {
+      opportunities = opportunities.filter(
+        (o) => o.longExchange === exchange || o.shortExchange === exchange
+      );
+    }
+    if (Number.isFinite(minNetCarry)) {
+      opportunities = opportunities.filter((o) => o.netCarryAnnualized >= minNetCarry);
+    }
+
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(
       JSON.stringify(
         {
           count: opportunities.length,
+          holdingPeriodHours: getConfig().arbitrage.holdingPeriodHours,
           opportunities: opportunities.slice(0, limit),
         },
         null,
@@ -585,6 +1418,65 @@ export class ApiServer {
     );
   }
 
+  /**
+   * List coins with liquidation clusters.
+   */
+  private handleLiquidationClusterCoins(
+    _req: IncomingMessage,
+    res: ServerResponse
+  ): void {
+    if (!this.getLiquidationClusterCoins) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Liquidation clusters not available" }));
+      return;
+    }
+
+    const coins = this.getLiquidationClusterCoins().sort();
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ count: coins.length, coins }, null, 2));
+  }
+
+  /**
+   * Get liquidation clusters for a coin.
+   */
+  private handleLiquidationClusters(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): void {
+    if (!this.getLiquidationClusters) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Liquidation clusters not available" }));
+      return;
+    }
+
+    const coin = url.pathname.split("/liquidations/clusters/")[1];
+
+    if (!coin) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Coin required" }));
+      return;
+    }
+
+    const snapshot = this.getLiquidationClusters(coin);
+
+    if (!snapshot) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "No liquidation clusters for coin" }));
+      return;
+    }
+
+    // Optionally restrict to levels within a distance of the current price
+    const maxDistance = parseFloat(url.searchParams.get("maxDistance") || "");
+    const clusters = Number.isFinite(maxDistance)
+      ? snapshot.clusters.filter((c) => c.distanceFromCurrentPercent <= maxDistance)
+      : snapshot.clusters;
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ...snapshot, clusters }, null, 2));
+  }
+
   /**
    * Handle 404 Not Found.
    */
@@ -596,6 +1488,44 @@ export class ApiServer {
     res.end(JSON.stringify({ error: "Not found" }));
   }
 
+  /**
+   * Read and parse a JSON object request body.
+   */
+  private readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      // Keep draining an oversized body so the error response can still be sent
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= MAX_BODY_BYTES) {
+          chunks.push(chunk);
+        }
+      });
+
+      req.on("end", () => {
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error("Request body too large"));
+          return;
+        }
+
+        try {
+          const body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+          if (typeof body !== "object" || body === null || Array.isArray(body)) {
+            reject(new Error("Request body must be a JSON object"));
+            return;
+          }
+          resolve(body);
+        } catch {
+          reject(new Error("Request body must be valid JSON"));
+        }
+      });
+
+      req.on("error", reject);
+    });
+  }
+
   /**
    * Handle errors.
    */
@@ -638,7 +1568,7 @@ export class ApiServer {
     res.setHeader("Access-Control-Allow-Origin", origin);
     res.setHeader(
       "Access-Control-Allow-Methods",
-      "GET, POST, OPTIONS"
+      "GET, POST, DELETE, OPTIONS"
     );
     res.setHeader(
       "Access-Control-Allow-Headers",
@@ -656,6 +1586,7 @@ export class ApiServer {
     res: ServerResponse
   ): void {
     const stats = this.marketStore.getStats();
+    const config = getConfig();
     const systemMetrics = this.getSystemMetrics?.() || {
       startTime: Date.now(),
       lastMetricsCompute: null,
@@ -679,9 +1610,27 @@ export class ApiServer {
       }
     }
 
+    let okxHealth = null;
+    if (this.okxConnector && typeof this.okxConnector === "object" && this.okxConnector !== null) {
+      const connector = this.okxConnector as { getHealth?: () => unknown };
+      if (typeof connector.getHealth === "function") {
+        okxHealth = connector.getHealth();
+      }
+    }
+
+    let hyperliquidHealth = null;
+    if (this.hyperliquidConnector && typeof this.hyperliquidConnector === "object" && this.hyperliquidConnector !== null) {
+      const connector = this.hyperliquidConnector as { getHealth?: () => unknown };
+      if (typeof connector.getHealth === "function") {
+        hyperliquidHealth = connector.getHealth();
+      }
+    }
+
     // Determine exchange connection states
     const bybitState = this.getConnectionState(this.bybitConnector);
     const binanceState = this.getConnectionState(this.binanceConnector);
+    const okxState = this.getConnectionState(this.okxConnector);
+    const hyperliquidState = this.getConnectionState(this.hyperliquidConnector);
 
     // Build exchanges object
     const exchanges: Record<string, unknown> = {};
@@ -696,7 +1645,7 @@ export class ApiServer {
         errors: Array<{ message: string }>;
       };
       exchanges.bybit = {
-        enabled: true,
+        enabled: config.exchanges.bybit.enabled,
         connected: health.isConnected,
         connectionState: bybitState,
         subscriptions: health.subscriptionCount,
@@ -717,7 +1666,7 @@ export class ApiServer {
         errors: Array<{ message: string }>;
       };
       exchanges.binance = {
-        enabled: true,
+        enabled: config.exchanges.binance.enabled,
         connected: health.isConnected,
         connectionState: binanceState,
         subscriptions: health.subscriptionCount,
@@ -728,6 +1677,51 @@ export class ApiServer {
       };
     }
 
+    if (okxHealth) {
+      const health = okxHealth as {
+        isConnected: boolean;
+        subscriptionCount: number;
+        messageRate: number;
+        lastMessageTime: number;
+        reconnectCount: number;
+        errors: Array<{ message: string }>;
+      };
+      exchanges.okx = {
+        enabled: config.exchanges.okx.enabled,
+        connected: health.isConnected,
+        connectionState: okxState,
+        subscriptions: health.subscriptionCount,
+        messageRate: health.messageRate,
+        lastMessageAt: health.lastMessageTime || null,
+        lastError: health.errors.length > 0 ? health.errors[health.errors.length - 1].message : null,
+        reconnectCount: health.reconnectCount,
+      };
+    }
+
+    if (hyperliquidHealth) {
+      const health = hyperliquidHealth as {
+        isConnected: boolean;
+        subscriptionCount: number;
+        messageRate: number;
+        lastMessageTime: number;
+        reconnectCount: number;
+        errors: Array<{ message: string }>;
+        extra?: Record<string, unknown>;
+      };
+      exchanges.hyperliquid = {
+        enabled: config.exchanges.hyperliquid.enabled,
+        connected: health.isConnected,
+        connectionState: hyperliquidState,
+        subscriptions: health.subscriptionCount,
+        messageRate: health.messageRate,
+        lastMessageAt: health.lastMessageTime || null,
+        lastError: health.errors.length > 0 ? health.errors[health.errors.length - 1].message : null,
+        reconnectCount: health.reconnectCount,
+        trackedAddresses: health.extra?.trackedCount ?? 0,
+        priorityAddresses: health.extra?.priorityCount ?? 0,
+      };
+    }
+
     // Determine overall status
     const exchangeHealth = Object.values(exchanges) as Array<{
       enabled: boolean;
@@ -8,14 +8,24 @@
 import { WebSocketServer, WebSocket } from "ws";
 import { EventEmitter } from "eventemitter3";
 import { logger } from "../utils/logger.js";
-import type { UnifiedMarket } from "../types/unified.js";
+import type { UnifiedMarket, UnifiedOrderBook } from "../types/unified.js";
 import type { LeaderboardEntry } from "../types/internal.js";
+import type { LiquidationClusterSnapshot } from "../compute/liquidation-clusters.js";
+import type { FundingArbitrageOpportunity } from "../compute/funding-arbitrage.js";
+import type { ConsolidatedOrderBook } from "../compute/consolidated-book.js";
 import type { WSMessage, WSClientMessage, WSClient } from "../types/websocket.js";
 
+/** Builds a symbol's consolidated book from the current venue books */
+export type ConsolidatedBookBuilder = (symbol: string) => ConsolidatedOrderBook | null;
+
 interface BroadcastQueue {
   markets: Map<string, UnifiedMarket>;
   leaderboards: Map<string, LeaderboardEntry[]>;
   signals: Array<{ type: string; data: unknown }>;
+  liquidationClusters: Map<string, LiquidationClusterSnapshot>;
+  orderBooks: Map<string, UnifiedOrderBook>;
+  consolidatedBooks: Set<string>; // Symbols with changed venue books
+  fundingArbitrage: FundingArbitrageOpportunity[] | null;
 }
 
 export class WebSocketAPI extends EventEmitter {
@@ -27,6 +37,9 @@ export class WebSocketAPI extends EventEmitter {
   private sequenceNumber = 0;
   private pingInterval: NodeJS.Timeout | null = null;
   private readonly PING_INTERVAL_MS = 30000; // 30 seconds
+  private readonly ORDERBOOK_INTERVAL_MS = 500; // Books update up to 10x/s per market
+  private lastOrderBookFlush = 0;
+  private consolidatedBookBuilder: ConsolidatedBookBuilder | null = null;
 
   constructor() {
     super();
@@ -34,6 +47,10 @@ export class WebSocketAPI extends EventEmitter {
       markets: new Map(),
       leaderboards: new Map(),
       signals: [],
+      liquidationClusters: new Map(),
+      orderBooks: new Map(),
+      consolidatedBooks: new Set(),
+      fundingArbitrage: null,
     };
   }
 
@@ -231,6 +248,44 @@ export class WebSocketAPI extends EventEmitter {
     this.broadcastQueue.leaderboards.set(name, entries.slice(0, 20));
   }
 
+  /**
+   * Broadcast liquidation clusters for a coin (queued, latest snapshot wins)
+   */
+  broadcastLiquidationClusters(snapshot: LiquidationClusterSnapshot): void {
+    this.broadcastQueue.liquidationClusters.set(snapshot.coin, snapshot);
+  }
+
+  /**
+   * Broadcast order book (queued, latest book per market wins)
+   */
+  broadcastOrderBook(book: UnifiedOrderBook): void {
+    this.broadcastQueue.orderBooks.set(book.id, book);
+  }
+
+  /**
+   * Set how consolidated books are built at flush time.
+   */
+  setConsolidatedBookBuilder(builder: ConsolidatedBookBuilder): void {
+    this.consolidatedBookBuilder = builder;
+  }
+
+  /**
+   * Mark a symbol's consolidated book stale after one of its venue books
+   * changed. It is rebuilt once per order book flush, and only when the
+   * symbol's channel has subscribers.
+   */
+  markConsolidatedBookDirty(symbol: string): void {
+    this.broadcastQueue.consolidatedBooks.add(symbol);
+  }
+
+  /**
+   * Broadcast funding carry opportunities (queued, latest list wins)
+   */
+  broadcastFundingArbitrage(opportunities: FundingArbitrageOpportunity[]): void {
+    // Only send top 50 to reduce payload
+    this.broadcastQueue.fundingArbitrage = opportunities.slice(0, 50);
+  }
+
   /**
    * Broadcast signal immediately (not queued)
    */
@@ -291,6 +346,86 @@ export class WebSocketAPI extends EventEmitter {
       this.broadcastToSubscribers(`leaderboard:${name}`, message);
     }
     this.broadcastQueue.leaderboards.clear();
+
+    // Send liquidation cluster updates
+    for (const [coin, snapshot] of this.broadcastQueue.liquidationClusters.entries()) {
+      const channel = `liquidations:clusters:${coin}`;
+      const message: WSMessage = {
+        channel,
+        event: "update",
+        data: snapshot,
+        timestamp: Date.now(),
+        sequence: this.getNextSequence(),
+      };
+      this.broadcastToSubscribers(channel, message);
+    }
+    this.broadcastQueue.liquidationClusters.clear();
+
+    // Send funding carry opportunities
+    if (this.broadcastQueue.fundingArbitrage) {
+      const message: WSMessage = {
+        channel: "arbitrage:funding",
+        event: "update",
+        data: this.broadcastQueue.fundingArbitrage,
+        timestamp: Date.now(),
+        sequence: this.getNextSequence(),
+      };
+      this.broadcastToSubscribers("arbitrage:funding", message);
+      this.broadcastQueue.fundingArbitrage = null;
+    }
+
+    // Send order book updates at a slower cadence than other channels
+    const now = Date.now();
+    if (now - this.lastOrderBookFlush >= this.ORDERBOOK_INTERVAL_MS) {
+      for (const [id, book] of this.broadcastQueue.orderBooks.entries()) {
+        const channel = `orderbook:${id}`;
+        const message: WSMessage = {
+          channel,
+          event: "update",
+          data: book,
+          timestamp: now,
+          sequence: this.getNextSequence(),
+        };
+        this.broadcastToSubscribers(channel, message);
+      }
+      this.broadcastQueue.orderBooks.clear();
+
+      for (const symbol of this.broadcastQueue.consolidatedBooks) {
+        const channel = `aggregated:book:${symbol}`;
+        if (!this.consolidatedBookBuilder || !this.hasSubscribers(channel)) {
+          continue;
+        }
+
+        const book = this.consolidatedBookBuilder(symbol);
+        if (!book) {
+          continue;
+        }
+
+        const message: WSMessage = {
+          channel,
+          event: "update",
+          data: book,
+          timestamp: now,
+          sequence: this.getNextSequence(),
+        };
+        this.broadcastToSubscribers(channel, message);
+      }
+      this.broadcastQueue.consolidatedBooks.clear();
+
+      this.lastOrderBookFlush = now;
+    }
+  }
+
+  /**
+   * True when any client is subscribed to a channel (directly or via "*")
+   */
+  private hasSubscribers(channel: string): boolean {
+    for (const client of this.clients.values()) {
+      if (client.subscriptions.has(channel) || client.subscriptions.has("*")) {
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
@@ -0,0 +1,93 @@
+/**
+ * Perp-Spot Basis
+ *
+ * Links each perpetual to the spot market with the same base and quote on
+ * the same exchange and measures the perp's premium over spot. Basis
+ * blowouts tend to lead leveraged pumps: perps get bid up before spot
+ * follows.
+ */
+
+import type { UnifiedMarket, PerpSpotBasis } from "../types/unified.js";
+import { getConfig } from "../utils/config.js";
+import { DEFAULT_FUNDING_INTERVAL_HOURS } from "../utils/funding.js";
+
+type SpotLookup = (spotId: string) => UnifiedMarket | undefined;
+
+const HOURS_PER_YEAR = 365 * 24;
+
+// Spot tickers are polled, so allow a few missed polls before dropping basis
+const SPOT_STALE_POLLS = 3;
+
+/**
+ * Spot market ID for a perpetual, e.g. "binance:BTC-USDT-PERP" → "binance:BTC-USDT-SPOT".
+ */
+export function getSpotCounterpartId(
+  perp: Pick<UnifiedMarket, "exchange" | "baseAsset" | "quoteAsset">
+): string {
+  return `${perp.exchange}:${perp.baseAsset}-${perp.quoteAsset}-SPOT`;
+}
+
+/**
+ * Basis for every perpetual with a fresh spot counterpart, keyed by perp ID.
+ */
+export function calculateAllBasis(
+  markets: UnifiedMarket[],
+  getSpotMarket: SpotLookup
+): Map<string, PerpSpotBasis> {
+  const result = new Map<string, PerpSpotBasis>();
+
+  for (const market of markets) {
+    if (market.marketType !== "perpetual") {
+      continue;
+    }
+
+    const spot = getSpotMarket(getSpotCounterpartId(market));
+    if (!spot) {
+      continue;
+    }
+
+    const basis = calculateBasis(market, spot);
+    if (basis) {
+      result.set(market.id, basis);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Perp mark price vs spot mid. Returns null when either price is missing
+ * or the spot sample is stale.
+ */
+export function calculateBasis(perp: UnifiedMarket, spot: UnifiedMarket): PerpSpotBasis | null {
+  const now = Date.now();
+  const maxSpotAgeMs = getConfig().spot.pollIntervalMs * SPOT_STALE_POLLS;
+
+  if (now - spot.updatedAt > maxSpotAgeMs) {
+    return null;
+  }
+
+  const perpPrice = perp.markPrice ?? perp.lastPrice;
+  const spotPrice = spot.midPrice > 0 ? spot.midPrice : spot.lastPrice;
+
+  if (perpPrice <= 0 || spotPrice <= 0) {
+    return null;
+  }
+
+  const basisAbsolute = perpPrice - spotPrice;
+  const basisPercent = (basisAbsolute / spotPrice) * 100;
+  const intervalHours = perp.fundingIntervalHours ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+
+  return {
+    id: perp.id,
+    exchange: perp.exchange,
+    symbol: perp.symbol,
+    spotId: spot.id,
+    perpPrice,
+    spotPrice,
+    basisAbsolute,
+    basisBps: basisPercent * 100,
+    basisAnnualized: basisPercent * (HOURS_PER_YEAR / intervalHours),
+    updatedAt: now,
+  };
+}
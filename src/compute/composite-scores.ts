@@ -0,0 +1,374 @@
+/**
+ * Composite Scores Engine
+ *
+ * Computes CompositeScores for every market on an interval. Each score
+ * blends a few factors drawn from DerivedMetrics, UnifiedMarket, order
+ * books and funding history. Factors are percentile-ranked across all
+ * markets before weighting, so every score is 0-100 relative to the
+ * current cross-section rather than to fixed thresholds.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type {
+  UnifiedMarket,
+  UnifiedOrderBook,
+  DerivedMetrics,
+  FundingStats,
+  CompositeScores,
+} from "../types/unified.js";
+import { getConfig, type CompositeScoreWeights } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+
+export interface ScoreSources {
+  getMarkets: () => UnifiedMarket[];
+  getMetrics: () => Map<string, DerivedMetrics>;
+  getOrderBook: (marketId: string) => UnifiedOrderBook | undefined;
+  getFundingStats: () => Map<string, FundingStats>;
+}
+
+type ScoreName = keyof CompositeScoreWeights;
+
+// Raw factor values per score; a missing factor is left out of the blend
+type ScoreFactors = {
+  [S in ScoreName]: Partial<Record<keyof CompositeScoreWeights[S], number>>;
+};
+
+type ScoreField = Exclude<keyof CompositeScores, "id" | "exchange" | "symbol" | "computedAt">;
+
+const SCORE_FIELDS: Record<ScoreName, ScoreField> = {
+  momentum: "momentumScore",
+  pump: "pumpScore",
+  liquidity: "liquidityScore",
+  volatility: "volatilityScore",
+  fundingExtremeness: "fundingExtremenessScore",
+  orderBookHealth: "orderBookHealthScore",
+  activity: "activityScore",
+};
+
+// Smoothing of the per-market average change in book imbalance between computes
+const IMBALANCE_EMA_ALPHA = 0.2;
+
+interface ImbalanceState {
+  last: number;
+  avgChange: number | null;
+}
+
+export class CompositeScoreEngine extends EventEmitter {
+  private sources: ScoreSources;
+  private scores: Map<string, CompositeScores> = new Map();
+  private imbalances: Map<string, ImbalanceState> = new Map();
+  private computeInterval: NodeJS.Timeout | null = null;
+
+  constructor(sources: ScoreSources) {
+    super();
+    this.sources = sources;
+  }
+
+  /**
+   * Compute scores for every market
+   */
+  computeAll(): void {
+    const startTime = Date.now();
+    const markets = this.sources.getMarkets();
+    const metrics = this.sources.getMetrics();
+    const fundingStats = this.sources.getFundingStats();
+    const weights = getConfig().scores.weights;
+
+    const factors = new Map<string, ScoreFactors>();
+    for (const market of markets) {
+      factors.set(
+        market.id,
+        this.extractFactors(
+          market,
+          metrics.get(market.id),
+          this.sources.getOrderBook(market.id),
+          fundingStats.get(market.id)
+        )
+      );
+    }
+
+    const ranked = rankFactors(factors, weights);
+    const next = new Map<string, CompositeScores>();
+
+    for (const market of markets) {
+      const marketRanks = ranked.get(market.id)!;
+      const scores: CompositeScores = {
+        id: market.id,
+        exchange: market.exchange,
+        symbol: market.symbol,
+        momentumScore: 0,
+        pumpScore: 0,
+        liquidityScore: 0,
+        volatilityScore: 0,
+        fundingExtremenessScore: 0,
+        orderBookHealthScore: 0,
+        activityScore: 0,
+        computedAt: startTime,
+      };
+
+      for (const score of Object.keys(SCORE_FIELDS) as ScoreName[]) {
+        scores[SCORE_FIELDS[score]] = blend(marketRanks[score], weights[score]);
+      }
+
+      next.set(market.id, scores);
+    }
+
+    this.scores = next;
+
+    // Drop imbalance history for markets that left the universe
+    for (const id of this.imbalances.keys()) {
+      if (!next.has(id)) {
+        this.imbalances.delete(id);
+      }
+    }
+
+    logger.debug("Computed composite scores", {
+      count: next.size,
+      durationMs: Date.now() - startTime,
+    });
+
+    this.emit("computed", { timestamp: Date.now(), count: next.size });
+  }
+
+  /**
+   * Get scores for a market
+   */
+  get(marketId: string): CompositeScores | undefined {
+    return this.scores.get(marketId);
+  }
+
+  /**
+   * Get all scores
+   */
+  getAll(): Map<string, CompositeScores> {
+    return new Map(this.scores);
+  }
+
+  /**
+   * Start periodic computation
+   */
+  start(): void {
+    const intervalMs = getConfig().compute.compositeScoreIntervalMs;
+
+    // Compute immediately
+    this.computeAll();
+
+    // Then compute periodically
+    this.computeInterval = setInterval(() => {
+      this.computeAll();
+    }, intervalMs);
+
+    logger.info("Composite score computation started", { intervalMs });
+  }
+
+  /**
+   * Stop periodic computation
+   */
+  stop(): void {
+    if (this.computeInterval) {
+      clearInterval(this.computeInterval);
+      this.computeInterval = null;
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Raw factor values for one market, oriented so higher ranks higher.
+   * Trade-derived factors are omitted for markets without trade data.
+   */
+  private extractFactors(
+    market: UnifiedMarket,
+    metrics: DerivedMetrics | undefined,
+    book: UnifiedOrderBook | undefined,
+    stats: FundingStats | undefined
+  ): ScoreFactors {
+    const hasTrades = metrics !== undefined && metrics.volume1h > 0;
+    const range24h =
+      market.lastPrice > 0 && market.high24h > 0
+        ? ((market.high24h - market.low24h) / market.lastPrice) * 100
+        : undefined;
+    const typicalHourlyVolume = market.volume24hUsd / 24;
+
+    const factors: ScoreFactors = {
+      momentum: {
+        priceChange: metrics?.priceChangePercent5m,
+        volumeSurge: hasTrades ? metrics.volumeSurge5m : undefined,
+        cvd: hasTrades && metrics.volume5m > 0 ? metrics.cvd5m / metrics.volume5m : undefined,
+      },
+      pump: {
+        priceChange: metrics?.priceChangePercent15m,
+        volumeSurge: hasTrades ? metrics.volumeSurge15m : undefined,
+        relativeVolume:
+          hasTrades && typicalHourlyVolume > 0 ? metrics.volume1h / typicalHourlyVolume : undefined,
+      },
+      liquidity: {
+        // Negated so tighter spreads rank higher
+        spread: market.spreadPercent > 0 ? -(metrics?.spreadAvg1h ?? market.spreadPercent) : undefined,
+        depth: book ? book.depthBid.pct1 + book.depthAsk.pct1 : undefined,
+        volume: market.volume24hUsd > 0 ? market.volume24hUsd : undefined,
+      },
+      volatility: {
+        range: range24h,
+        velocity: metrics ? Math.abs(metrics.priceVelocity) : undefined,
+        expansion:
+          metrics && range24h !== undefined && range24h > 0
+            ? Math.abs(metrics.priceChangePercent1h) / range24h
+            : undefined,
+      },
+      fundingExtremeness: {
+        rate: market.fundingRate8h !== null ? Math.abs(market.fundingRate8h) : undefined,
+        zScore: pickZScore(stats),
+        percentile:
+          stats && stats.fundingPercentile30d !== null
+            ? Math.abs(stats.fundingPercentile30d - 50)
+            : undefined,
+      },
+      orderBookHealth: book ? this.extractBookFactors(book) : {},
+      activity: {
+        volume: hasTrades ? metrics.volume1h : undefined,
+        priceMove: metrics ? Math.abs(metrics.priceChangePercent1h) : undefined,
+        volumeSurge: hasTrades ? metrics.volumeSurge15m : undefined,
+        oiChange:
+          metrics && market.openInterest !== null
+            ? Math.abs(metrics.oiChangePercent1h)
+            : undefined,
+      },
+    };
+
+    return factors;
+  }
+
+  /**
+   * Spread, depth balance and imbalance stability from the order book.
+   * Stability needs two computes of history.
+   */
+  private extractBookFactors(book: UnifiedOrderBook): ScoreFactors["orderBookHealth"] {
+    const bestBid = book.bids[0]?.price;
+    const bestAsk = book.asks[0]?.price;
+    const mid = bestBid !== undefined && bestAsk !== undefined ? (bestBid + bestAsk) / 2 : 0;
+
+    const bidDepth = book.depthBid.pct1;
+    const askDepth = book.depthAsk.pct1;
+    const totalDepth = bidDepth + askDepth;
+
+    const previous = this.imbalances.get(book.id);
+    const imbalance = book.imbalance.top10;
+    let avgChange: number | null = null;
+
+    if (previous) {
+      const change = Math.abs(imbalance - previous.last);
+      avgChange = previous.avgChange === null
+        ? change
+        : previous.avgChange + IMBALANCE_EMA_ALPHA * (change - previous.avgChange);
+    }
+    this.imbalances.set(book.id, { last: imbalance, avgChange });
+
+    return {
+      spread: mid > 0 ? -((bestAsk! - bestBid!) / mid) * 100 : undefined,
+      depthBalance: totalDepth > 0 ? 1 - Math.abs(bidDepth - askDepth) / totalDepth : undefined,
+      imbalanceStability: avgChange !== null ? -avgChange : undefined,
+    };
+  }
+}
+
+/**
+ * Replace every raw factor value with its percentile rank (0-100) among
+ * markets that have that factor.
+ */
+function rankFactors(
+  factors: Map<string, ScoreFactors>,
+  weights: CompositeScoreWeights
+): Map<string, ScoreFactors> {
+  const ranked = new Map<string, ScoreFactors>();
+  for (const id of factors.keys()) {
+    ranked.set(id, {
+      momentum: {},
+      pump: {},
+      liquidity: {},
+      volatility: {},
+      fundingExtremeness: {},
+      orderBookHealth: {},
+      activity: {},
+    });
+  }
+
+  for (const score of Object.keys(weights) as ScoreName[]) {
+    for (const factor of Object.keys(weights[score])) {
+      const ids: string[] = [];
+      const values: number[] = [];
+
+      for (const [id, marketFactors] of factors.entries()) {
+        const value = (marketFactors[score] as Record<string, number | undefined>)[factor];
+        if (value !== undefined && Number.isFinite(value)) {
+          ids.push(id);
+          values.push(value);
+        }
+      }
+
+      const ranks = percentileRanks(values);
+      ids.forEach((id, i) => {
+        (ranked.get(id)![score] as Record<string, number>)[factor] = ranks[i];
+      });
+    }
+  }
+
+  return ranked;
+}
+
+/**
+ * Mid-rank percentile of each value within the list (0-100). Ties share
+ * a rank; a single value ranks 50.
+ */
+function percentileRanks(values: number[]): number[] {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) {
+      end++;
+    }
+
+    const tieCount = end - start + 1;
+    const rank = ((start + tieCount / 2) / values.length) * 100;
+    for (let k = start; k <= end; k++) {
+      ranks[order[k]] = rank;
+    }
+
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Weighted mean of the available factor ranks; 0 when none are available.
+ */
+function blend(ranks: Record<string, number | undefined>, weights: Record<string, number>): number {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const [factor, weight] of Object.entries(weights)) {
+    const rank = ranks[factor];
+    if (rank === undefined || weight <= 0) {
+      continue;
+    }
+
+    weighted += rank * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weighted / totalWeight : 0;
+}
+
+/**
+ * Funding z-score magnitude, preferring the 30d window over the 7d one.
+ */
+function pickZScore(stats: FundingStats | undefined): number | undefined {
+  const zScore = stats?.fundingZScore30d ?? stats?.fundingZScore7d;
+  return zScore !== null && zScore !== undefined ? Math.abs(zScore) : undefined;
+}
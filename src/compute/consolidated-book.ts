@@ -0,0 +1,163 @@
+/**
+ * Consolidated Order Book
+ *
+ * Merges every exchange's UnifiedOrderBook for a normalized symbol into a
+ * single price ladder, keeping per-level venue attribution so consumers can
+ * see where liquidity actually rests across the market.
+ */
+
+import type {
+  Exchange,
+  UnifiedOrderBook,
+  PriceLevel,
+  DepthMetrics,
+} from "../types/unified.js";
+import { calculateImbalance, calculateLiquidityScore } from "./orderbook.js";
+
+export interface VenueLevel {
+  exchange: Exchange;
+  quantity: number;
+  quantityUsd: number;
+}
+
+export interface ConsolidatedPriceLevel extends PriceLevel {
+  venues: VenueLevel[];   // Largest contribution first
+}
+
+export interface ConsolidatedOrderBook {
+  symbol: string;
+  exchanges: Exchange[];
+
+  bids: ConsolidatedPriceLevel[];   // Sorted descending by price
+  asks: ConsolidatedPriceLevel[];   // Sorted ascending by price
+
+  bestBid: number;
+  bestBidExchange: Exchange;
+  bestAsk: number;
+  bestAskExchange: Exchange;
+  midPrice: number;
+  isCrossed: boolean;               // Best bid on one venue >= best ask on another
+
+  // Sum of each venue's depth (measured from its own mid over its full book)
+  depthBid: DepthMetrics;
+  depthAsk: DepthMetrics;
+
+  // Share of consolidated depth within 1% of mid, per exchange (0-1)
+  depthShare: Partial<Record<Exchange, number>>;
+
+  // Imbalance over the merged ladder's top N levels
+  imbalance: {
+    top5: number;
+    top10: number;
+    top20: number;
+  };
+
+  liquidityScore: number;
+
+  timestamp: number;                // Oldest contributing book
+}
+
+/**
+ * Build the consolidated book for a symbol from its per-exchange books.
+ * Returns null when no book has levels on both sides.
+ */
+export function buildConsolidatedBook(
+  symbol: string,
+  books: UnifiedOrderBook[]
+): ConsolidatedOrderBook | null {
+  const usable = books.filter((book) => book.bids.length > 0 && book.asks.length > 0);
+
+  if (usable.length === 0) {
+    return null;
+  }
+
+  const bids = mergeSide(usable, "bid");
+  const asks = mergeSide(usable, "ask");
+
+  const bestBid = bids[0].price;
+  const bestAsk = asks[0].price;
+
+  const depthBid = sumDepth(usable.map((book) => book.depthBid));
+  const depthAsk = sumDepth(usable.map((book) => book.depthAsk));
+
+  const totalDepth1Pct = depthBid.pct1 + depthAsk.pct1;
+  const depthShare: Partial<Record<Exchange, number>> = {};
+  for (const book of usable) {
+    const venueDepth = book.depthBid.pct1 + book.depthAsk.pct1;
+    depthShare[book.exchange] = totalDepth1Pct > 0 ? venueDepth / totalDepth1Pct : 0;
+  }
+
+  return {
+    symbol,
+    exchanges: usable.map((book) => book.exchange),
+    bids,
+    asks,
+    bestBid,
+    bestBidExchange: bids[0].venues[0].exchange,
+    bestAsk,
+    bestAskExchange: asks[0].venues[0].exchange,
+    midPrice: (bestBid + bestAsk) / 2,
+    isCrossed: bestBid >= bestAsk,
+    depthBid,
+    depthAsk,
+    depthShare,
+    imbalance: {
+      top5: calculateImbalance(bids, asks, 5),
+      top10: calculateImbalance(bids, asks, 10),
+      top20: calculateImbalance(bids, asks, 20),
+    },
+    liquidityScore: calculateLiquidityScore(totalDepth1Pct),
+    timestamp: Math.min(...usable.map((book) => book.timestamp)),
+  };
+}
+
+/**
+ * Merge one side of every book into price levels, best price first.
+ */
+function mergeSide(
+  books: UnifiedOrderBook[],
+  side: "bid" | "ask"
+): ConsolidatedPriceLevel[] {
+  const byPrice = new Map<number, ConsolidatedPriceLevel>();
+
+  for (const book of books) {
+    for (const level of side === "bid" ? book.bids : book.asks) {
+      const merged = byPrice.get(level.price) ?? {
+        price: level.price,
+        quantity: 0,
+        quantityUsd: 0,
+        venues: [],
+      };
+
+      merged.quantity += level.quantity;
+      merged.quantityUsd += level.quantityUsd;
+      merged.venues.push({
+        exchange: book.exchange,
+        quantity: level.quantity,
+        quantityUsd: level.quantityUsd,
+      });
+      byPrice.set(level.price, merged);
+    }
+  }
+
+  const levels = Array.from(byPrice.values());
+  for (const level of levels) {
+    level.venues.sort((a, b) => b.quantityUsd - a.quantityUsd);
+  }
+
+  return levels.sort((a, b) => (side === "bid" ? b.price - a.price : a.price - b.price));
+}
+
+function sumDepth(depths: DepthMetrics[]): DepthMetrics {
+  const total: DepthMetrics = { pct05: 0, pct1: 0, pct2: 0, pct5: 0, pct10: 0 };
+
+  for (const depth of depths) {
+    total.pct05 += depth.pct05;
+    total.pct1 += depth.pct1;
+    total.pct2 += depth.pct2;
+    total.pct5 += depth.pct5;
+    total.pct10 += depth.pct10;
+  }
+
+  return total;
+}
@@ -4,8 +4,9 @@
  * Aggregates same symbol across multiple exchanges.
  */
 
-import type { UnifiedMarket } from "../types/unified.js";
+import type { UnifiedMarket, UnifiedOrderBook, PriceLevel } from "../types/unified.js";
 import type { Exchange } from "../types/unified.js";
+import { getConfig } from "../utils/config.js";
 
 export interface AggregatedMarket {
   symbol: string;
@@ -33,22 +34,44 @@ export interface AggregatedMarket {
   
   // Arbitrage opportunity
   arbitrageOpportunity: {
-    exists: boolean;
+    exists: boolean;            // Top-of-book prices cross (before fees)
     buyExchange: Exchange;
     sellExchange: Exchange;
-    profitPercent: number;
+    profitPercent: number;      // Top-of-book, before fees
     buyPrice: number;
     sellPrice: number;
+    
+    // Executable sizing after walking both books and paying taker fees
+    buyFeePercent: number;
+    sellFeePercent: number;
+    netProfitPercent: number;   // Top-of-book, after fees
+    maxSize: number;            // Base units that stay profitable after fees
+    maxSizeUsd: number;         // Notional bought at that size
+    expectedNetProfitUsd: number;
+    avgBuyPrice: number;        // Volume-weighted fill prices at maxSize
+    avgSellPrice: number;
+    depthSource: "orderbook" | "top_of_book";
+    
+    // Persistence of the current buy/sell pair
+    firstSeenAt: number | null;
+    persistedMs: number;
   };
   
   updatedAt: number;
 }
 
+type OrderBookLookup = (marketId: string) => UnifiedOrderBook | undefined;
+
+// First time each symbol's current buy/sell pair was seen crossed
+const opportunitySince = new Map<string, { pair: string; since: number }>();
+
 /**
- * Aggregate markets by symbol across exchanges
+ * Aggregate markets by symbol across exchanges. getOrderBook should return
+ * full-depth books so arbitrage sizing is not capped at the published depth.
  */
 export function aggregateMarketsBySymbol(
-  markets: UnifiedMarket[]
+  markets: UnifiedMarket[],
+  getOrderBook?: OrderBookLookup
 ): Map<string, AggregatedMarket> {
   const bySymbol = new Map<string, UnifiedMarket[]>();
 
@@ -67,10 +90,17 @@ export function aggregateMarketsBySymbol(
       continue; // Need at least 2 exchanges
     }
 
-    const aggregatedMarket = aggregateSymbolMarkets(symbol, symbolMarkets);
+    const aggregatedMarket = aggregateSymbolMarkets(symbol, symbolMarkets, getOrderBook);
     aggregated.set(symbol, aggregatedMarket);
   }
 
+  // Forget persistence for symbols that are no longer aggregated
+  for (const symbol of opportunitySince.keys()) {
+    if (!aggregated.has(symbol)) {
+      opportunitySince.delete(symbol);
+    }
+  }
+
   return aggregated;
 }
 
@@ -79,27 +109,31 @@ export function aggregateMarketsBySymbol(
  */
 function aggregateSymbolMarkets(
   symbol: string,
-  markets: UnifiedMarket[]
+  markets: UnifiedMarket[],
+  getOrderBook?: OrderBookLookup
 ): AggregatedMarket {
   const exchanges = markets.map((m) => m.exchange);
 
   // Find best bid/ask across exchanges
   let bestBid = 0;
-  let bestBidExchange: Exchange = markets[0].exchange;
+  let bestBidMarket = markets[0];
   let bestAsk = Infinity;
-  let bestAskExchange: Exchange = markets[0].exchange;
+  let bestAskMarket = markets[0];
 
   for (const market of markets) {
     if (market.bestBid > bestBid) {
       bestBid = market.bestBid;
-      bestBidExchange = market.exchange;
+      bestBidMarket = market;
     }
     if (market.bestAsk < bestAsk) {
       bestAsk = market.bestAsk;
-      bestAskExchange = market.exchange;
+      bestAskMarket = market;
     }
   }
 
+  const bestBidExchange = bestBidMarket.exchange;
+  const bestAskExchange = bestAskMarket.exchange;
+
   // Calculate averages
   const prices = markets.map((m) => m.lastPrice);
   const averagePrice = prices.reduce((sum, p) => sum + p, 0) / prices.length;
@@ -137,10 +171,10 @@ function aggregateSymbolMarkets(
 
   // Arbitrage opportunity
   const arbitrageOpportunity = calculateArbitrage(
-    bestBid,
-    bestBidExchange,
-    bestAsk,
-    bestAskExchange
+    symbol,
+    bestBidMarket,
+    bestAskMarket,
+    getOrderBook
   );
 
   return {
@@ -164,51 +198,182 @@ function aggregateSymbolMarkets(
 }
 
 /**
- * Calculate arbitrage opportunity
+ * Configured taker fee for an exchange, in percent per fill.
+ */
+export function getTakerFeePercent(exchange: Exchange): number {
+  const { takerFeePercent, defaultTakerFeePercent } = getConfig().arbitrage;
+  return takerFeePercent[exchange] ?? defaultTakerFeePercent;
+}
+
+/**
+ * Calculate arbitrage opportunity, sized against both order books when
+ * available and net of taker fees on each leg
  */
 function calculateArbitrage(
-  bestBid: number,
-  bestBidExchange: Exchange,
-  bestAsk: number,
-  bestAskExchange: Exchange
+  symbol: string,
+  bestBidMarket: UnifiedMarket,
+  bestAskMarket: UnifiedMarket,
+  getOrderBook?: OrderBookLookup
 ): AggregatedMarket["arbitrageOpportunity"] {
+  const bestBid = bestBidMarket.bestBid;
+  const bestAsk = bestAskMarket.bestAsk;
+  const buyExchange = bestAskMarket.exchange; // Buy at lowest ask
+  const sellExchange = bestBidMarket.exchange; // Sell at highest bid
+  const buyFeePercent = getTakerFeePercent(buyExchange);
+  const sellFeePercent = getTakerFeePercent(sellExchange);
+
   // Arbitrage exists if we can buy lower than we can sell
-  if (bestBid > bestAsk && bestBidExchange !== bestAskExchange) {
-    const profit = bestBid - bestAsk;
-    const profitPercent = (profit / bestAsk) * 100;
+  const exists = bestBid > bestAsk && buyExchange !== sellExchange;
+
+  if (!exists) {
+    opportunitySince.delete(symbol);
 
     return {
-      exists: true,
-      buyExchange: bestAskExchange, // Buy at lowest ask
-      sellExchange: bestBidExchange, // Sell at highest bid
-      profitPercent,
+      exists: false,
+      buyExchange,
+      sellExchange,
+      profitPercent: 0,
       buyPrice: bestAsk,
       sellPrice: bestBid,
+      buyFeePercent,
+      sellFeePercent,
+      netProfitPercent: 0,
+      maxSize: 0,
+      maxSizeUsd: 0,
+      expectedNetProfitUsd: 0,
+      avgBuyPrice: bestAsk,
+      avgSellPrice: bestBid,
+      depthSource: "top_of_book",
+      firstSeenAt: null,
+      persistedMs: 0,
     };
   }
 
+  const profitPercent = ((bestBid - bestAsk) / bestAsk) * 100;
+  const netProfitPercent =
+    ((bestBid * (1 - sellFeePercent / 100) - bestAsk * (1 + buyFeePercent / 100)) /
+      bestAsk) *
+    100;
+
+  // Prefer full books; fall back to the top-of-book level from the ticker
+  const buyBook = getOrderBook?.(bestAskMarket.id);
+  const sellBook = getOrderBook?.(bestBidMarket.id);
+  const depthSource =
+    buyBook && sellBook && buyBook.asks.length > 0 && sellBook.bids.length > 0
+      ? "orderbook"
+      : "top_of_book";
+
+  const asks: PriceLevel[] =
+    depthSource === "orderbook"
+      ? buyBook!.asks
+      : [{ price: bestAsk, quantity: bestAskMarket.bestAskQty, quantityUsd: bestAsk * bestAskMarket.bestAskQty }];
+  const bids: PriceLevel[] =
+    depthSource === "orderbook"
+      ? sellBook!.bids
+      : [{ price: bestBid, quantity: bestBidMarket.bestBidQty, quantityUsd: bestBid * bestBidMarket.bestBidQty }];
+
+  const fill = walkBooks(asks, bids, buyFeePercent, sellFeePercent);
+
+  // Persistence resets when the buy/sell pair changes
+  const now = Date.now();
+  const pair = `${buyExchange}:${sellExchange}`;
+  const seen = opportunitySince.get(symbol);
+  const since = seen && seen.pair === pair ? seen.since : now;
+  opportunitySince.set(symbol, { pair, since });
+
   return {
-    exists: false,
-    buyExchange: bestBidExchange,
-    sellExchange: bestAskExchange,
-    profitPercent: 0,
+    exists: true,
+    buyExchange,
+    sellExchange,
+    profitPercent,
     buyPrice: bestAsk,
     sellPrice: bestBid,
+    buyFeePercent,
+    sellFeePercent,
+    netProfitPercent,
+    maxSize: fill.size,
+    maxSizeUsd: fill.buyCost,
+    expectedNetProfitUsd: fill.netProfit,
+    avgBuyPrice: fill.size > 0 ? fill.buyCost / fill.size : bestAsk,
+    avgSellPrice: fill.size > 0 ? fill.sellProceeds / fill.size : bestBid,
+    depthSource,
+    firstSeenAt: since,
+    persistedMs: now - since,
   };
 }
 
 /**
- * Get arbitrage opportunities (sorted by profit)
+ * Walk asks on the buy venue against bids on the sell venue, level by
+ * level, while each additional unit still clears both taker fees.
+ */
+function walkBooks(
+  asks: PriceLevel[],
+  bids: PriceLevel[],
+  buyFeePercent: number,
+  sellFeePercent: number
+): { size: number; buyCost: number; sellProceeds: number; netProfit: number } {
+  const buyFee = buyFeePercent / 100;
+  const sellFee = sellFeePercent / 100;
+
+  let size = 0;
+  let buyCost = 0;
+  let sellProceeds = 0;
+  let netProfit = 0;
+
+  let askIndex = 0;
+  let bidIndex = 0;
+  let askRemaining = asks[0]?.quantity ?? 0;
+  let bidRemaining = bids[0]?.quantity ?? 0;
+
+  while (askIndex < asks.length && bidIndex < bids.length) {
+    const ask = asks[askIndex].price;
+    const bid = bids[bidIndex].price;
+    const unitProfit = bid * (1 - sellFee) - ask * (1 + buyFee);
+
+    if (unitProfit <= 0) {
+      break;
+    }
+
+    const quantity = Math.min(askRemaining, bidRemaining);
+    size += quantity;
+    buyCost += quantity * ask;
+    sellProceeds += quantity * bid;
+    netProfit += quantity * unitProfit;
+
+    askRemaining -= quantity;
+    bidRemaining -= quantity;
+
+    if (askRemaining <= 0) {
+      askIndex++;
+      askRemaining = asks[askIndex]?.quantity ?? 0;
+    }
+    if (bidRemaining <= 0) {
+      bidIndex++;
+      bidRemaining = bids[bidIndex]?.quantity ?? 0;
+    }
+  }
+
+  return { size, buyCost, sellProceeds, netProfit };
+}
+
+/**
+ * Get arbitrage opportunities (sorted by profit), optionally only those
+ * whose expected net profit at max size reaches minNetProfitUsd
  */
 export function getArbitrageOpportunities(
-  aggregated: Map<string, AggregatedMarket>
+  aggregated: Map<string, AggregatedMarket>,
+  minNetProfitUsd?: number
 ): AggregatedMarket[] {
   return Array.from(aggregated.values())
-    .filter((m) => m.arbitrageOpportunity.exists)
+    .filter(
+      (m) =>
+        m.arbitrageOpportunity.exists &&
+        (minNetProfitUsd === undefined ||
+          m.arbitrageOpportunity.expectedNetProfitUsd >= minNetProfitUsd)
+    )
     .sort(
       (a, b) =>
         b.arbitrageOpportunity.profitPercent -
         a.arbitrageOpportunity.profitPercent
     );
 }
-
@@ -1,74 +1,114 @@
 /**
  * Derived Metrics Calculator
  * 
- * Calculates derived metrics from raw market data and rolling windows.
+ * Calculates derived metrics from raw market data and the tiered time series.
  * 
  * DATA QUALITY NOTES:
  * - Price-based metrics (priceChange, priceVelocity, priceAcceleration) work with ticker data ✓
- * - Volume-based metrics (CVD, volumeSurge, takerBuyRatio) require trade subscriptions ✗
- * - Volume windows are only populated when trade events are received via updateTrade()
- * - Currently, trade subscriptions are not implemented, so volume metrics will be 0
+ * - Volume-based metrics (CVD, volumeSurge, takerBuyRatio) require trade subscriptions
+ * - Volume fields of the series are only populated when trade events are received via updateTrade()
+ * - Markets on exchanges without trade subscriptions will report volume metrics as 0
  * - Leaderboards that depend on volume metrics should filter out zero values
+ * - Liquidation metrics come from sampled CEX streams and undercount real totals
+ * - OI change metrics need history covering the period; they report 0 until then
+ * - 4h/24h price changes measure from the first recorded price until the series spans the period
+ * - The 24h spread percentile ranks the current spread against 5m average spreads
+ * - Binance OI is polled every 30s, so short-period OI changes are coarser there
  */
 
-import type { UnifiedMarket } from "../types/unified.js";
+import type { UnifiedMarket, OIQuadrant } from "../types/unified.js";
 import type { DerivedMetrics } from "../types/unified.js";
-import type { PriceBucket, VolumeBucket } from "./rolling-window.js";
-import type { RollingWindow } from "./rolling-window.js";
+import type { MarketSeries } from "./time-series.js";
 
 export interface MetricsContext {
   market: UnifiedMarket;
-  priceWindow1m: RollingWindow<PriceBucket>;
-  priceWindow5m: RollingWindow<PriceBucket>;
-  priceWindow15m: RollingWindow<PriceBucket>;
-  priceWindow1h: RollingWindow<PriceBucket>;
-  volumeWindow1m: RollingWindow<VolumeBucket>;
-  volumeWindow5m: RollingWindow<VolumeBucket>;
-  volumeWindow15m: RollingWindow<VolumeBucket>;
-  volumeWindow1h: RollingWindow<VolumeBucket>;
+  series: MarketSeries;
 }
 
+const MINUTE_MS = 60000;
+
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Volume surge compares the last few seconds against the window average
+const SURGE_RECENT_MS = 5000;
+const SURGE_MIN_TRADES = 20;
+
+// Spread percentile uses 5m average spreads and needs an hour of them
+const SPREAD_BUCKET_MS = 5 * MINUTE_MS;
+const SPREAD_MIN_BUCKETS = 12;
+
+// Moves smaller than these are classified as "neutral"
+const OI_QUADRANT_MIN_OI_CHANGE_PERCENT = 0.5;
+const OI_QUADRANT_MIN_PRICE_CHANGE_PERCENT = 0.1;
+
 /**
  * Calculate all derived metrics for a market
  */
 export function calculateDerivedMetrics(context: MetricsContext): DerivedMetrics {
   const { market } = context;
 
+  const { series } = context;
+  const now = Date.now();
+
   // Price changes
-  const priceChange1m = calculatePriceChange(context.priceWindow1m);
-  const priceChange5m = calculatePriceChange(context.priceWindow5m);
-  const priceChange15m = calculatePriceChange(context.priceWindow15m);
-  const priceChange1h = calculatePriceChange(context.priceWindow1h);
+  const priceChange1m = calculatePriceChange(series, MINUTE_MS, now);
+  const priceChange5m = calculatePriceChange(series, 5 * MINUTE_MS, now);
+  const priceChange15m = calculatePriceChange(series, 15 * MINUTE_MS, now);
+  const priceChange1h = calculatePriceChange(series, HOUR_MS, now);
+  const priceChange4h = calculatePriceChange(series, 4 * HOUR_MS, now);
+  const priceChange24h = calculatePriceChange(series, DAY_MS, now);
 
-  // Price velocity (rate of change per minute)
-  const priceVelocity = calculatePriceVelocity(context.priceWindow1m);
-  const priceAcceleration = calculatePriceAcceleration(context.priceWindow1m);
+  // Price velocity (rate of change per minute) over the last minute vs the one before
+  const priceVelocity = calculatePriceVelocity(series, now - MINUTE_MS, now);
+  const priceAcceleration = calculatePriceAcceleration(series, now);
 
   // CVD (Cumulative Volume Delta)
-  const cvd1m = calculateCVD(context.volumeWindow1m);
-  const cvd5m = calculateCVD(context.volumeWindow5m);
-  const cvd15m = calculateCVD(context.volumeWindow15m);
-  const cvd1h = calculateCVD(context.volumeWindow1h);
+  const cvd1m = calculateCVD(series, MINUTE_MS, now);
+  const cvd5m = calculateCVD(series, 5 * MINUTE_MS, now);
+  const cvd15m = calculateCVD(series, 15 * MINUTE_MS, now);
+  const cvd1h = calculateCVD(series, HOUR_MS, now);
+  const cvd4h = calculateCVD(series, 4 * HOUR_MS, now);
+  const cvd24h = calculateCVD(series, DAY_MS, now);
 
   // Volume metrics
-  const volume1m = getTotalVolume(context.volumeWindow1m);
-  const volume5m = getTotalVolume(context.volumeWindow5m);
-  const volume15m = getTotalVolume(context.volumeWindow15m);
-  const volume1h = getTotalVolume(context.volumeWindow1h);
+  const volume1m = series.sum("totalVolume", MINUTE_MS, now);
+  const volume5m = series.sum("totalVolume", 5 * MINUTE_MS, now);
+  const volume15m = series.sum("totalVolume", 15 * MINUTE_MS, now);
+  const volume1h = series.sum("totalVolume", HOUR_MS, now);
+  const volume4h = series.sum("totalVolume", 4 * HOUR_MS, now);
+  const volume24h = series.sum("totalVolume", DAY_MS, now);
 
   // Volume surge
-  const volumeSurge1m = calculateVolumeSurge(context.volumeWindow1m);
-  const volumeSurge5m = calculateVolumeSurge(context.volumeWindow5m);
-  const volumeSurge15m = calculateVolumeSurge(context.volumeWindow15m);
+  const volumeSurge1m = calculateVolumeSurge(series, MINUTE_MS, now);
+  const volumeSurge5m = calculateVolumeSurge(series, 5 * MINUTE_MS, now);
+  const volumeSurge15m = calculateVolumeSurge(series, 15 * MINUTE_MS, now);
 
   // Taker buy ratio
-  const takerBuyRatio1m = calculateTakerBuyRatio(context.volumeWindow1m);
-  const takerBuyRatio5m = calculateTakerBuyRatio(context.volumeWindow5m);
-  const takerBuyRatio1h = calculateTakerBuyRatio(context.volumeWindow1h);
+  const takerBuyRatio1m = calculateTakerBuyRatio(series, MINUTE_MS, now);
+  const takerBuyRatio5m = calculateTakerBuyRatio(series, 5 * MINUTE_MS, now);
+  const takerBuyRatio1h = calculateTakerBuyRatio(series, HOUR_MS, now);
 
   // CVD percentage
   const cvdPercent1h = volume1h > 0 ? (cvd1h / volume1h) * 100 : 0;
 
+  // Liquidations
+  const liquidations1h = sumLiquidations(series, HOUR_MS, now);
+  const liquidations24h = sumLiquidations(series, DAY_MS, now);
+
+  // Open interest changes
+  const oiChange5m = calculateOIChange(series, 5 * MINUTE_MS, now);
+  const oiChange15m = calculateOIChange(series, 15 * MINUTE_MS, now);
+  const oiChange1h = calculateOIChange(series, HOUR_MS, now);
+  const oiChange4h = calculateOIChange(series, 4 * HOUR_MS, now);
+
+  // Spread
+  const spreadAvg1h = calculateSpreadAverage(series, HOUR_MS, now, market.spreadPercent);
+  const spreadAvg24h = calculateSpreadAverage(series, DAY_MS, now, market.spreadPercent);
+  const spreadPercentile24h = calculateSpreadPercentile(series, now, market.spreadPercent);
+
+  const oiQuadrant1h = classifyOIQuadrant(priceChange1h.percent, oiChange1h.percent);
+
   const metrics: DerivedMetrics = {
     id: market.id,
     exchange: market.exchange,
@@ -79,13 +119,15 @@ export function calculateDerivedMetrics(context: MetricsContext): DerivedMetrics
     priceChange5m: priceChange5m.absolute,
     priceChange15m: priceChange15m.absolute,
     priceChange1h: priceChange1h.absolute,
-    priceChange4h: 0, // Would need 4h window
+    priceChange4h: priceChange4h.absolute,
+    priceChange24h: priceChange24h.absolute,
 
     priceChangePercent1m: priceChange1m.percent,
     priceChangePercent5m: priceChange5m.percent,
     priceChangePercent15m: priceChange15m.percent,
     priceChangePercent1h: priceChange1h.percent,
-    priceChangePercent4h: 0,
+    priceChangePercent4h: priceChange4h.percent,
+    priceChangePercent24h: priceChange24h.percent,
 
     priceVelocity,
     priceAcceleration,
@@ -95,7 +137,8 @@ export function calculateDerivedMetrics(context: MetricsContext): DerivedMetrics
     cvd5m,
     cvd15m,
     cvd1h,
-    cvd4h: 0,
+    cvd4h,
+    cvd24h,
     cvdPercent1h,
 
     // Volume
@@ -103,6 +146,8 @@ export function calculateDerivedMetrics(context: MetricsContext): DerivedMetrics
     volume5m,
     volume15m,
     volume1h,
+    volume4h,
+    volume24h,
     volumeSurge1m,
     volumeSurge5m,
     volumeSurge15m,
@@ -110,44 +155,61 @@ export function calculateDerivedMetrics(context: MetricsContext): DerivedMetrics
     takerBuyRatio5m,
     takerBuyRatio1h,
 
-    // Liquidations (would need liquidation data)
-    liquidationsLong1h: 0,
-    liquidationsShort1h: 0,
-    liquidationsNet1h: 0,
-    liquidationsLong24h: 0,
-    liquidationsShort24h: 0,
+    // Liquidations
+    liquidationsLong1h: liquidations1h.longUsd,
+    liquidationsShort1h: liquidations1h.shortUsd,
+    liquidationsNet1h: liquidations1h.longUsd - liquidations1h.shortUsd,
+    liquidationsLong24h: liquidations24h.longUsd,
+    liquidationsShort24h: liquidations24h.shortUsd,
+
+    // Open interest
+    oiChange5m: oiChange5m.absolute,
+    oiChange15m: oiChange15m.absolute,
+    oiChange1h: oiChange1h.absolute,
+    oiChange4h: oiChange4h.absolute,
+    oiChangePercent5m: oiChange5m.percent,
+    oiChangePercent15m: oiChange15m.percent,
+    oiChangePercent1h: oiChange1h.percent,
+    oiChangePercent4h: oiChange4h.percent,
+    oiChangeUsd1h: oiChange1h.usd,
+    oiQuadrant1h,
 
     // Spread
-    spreadPercentile24h: 0, // Would need spread history
-    spreadAvg1h: market.spreadPercent,
-    spreadAvg24h: market.spreadPercent,
+    spreadPercentile24h,
+    spreadAvg1h,
+    spreadAvg24h,
+
+    // History coverage
+    coverage4h: series.getCoverage(4 * HOUR_MS, now),
+    coverage24h: series.getCoverage(DAY_MS, now),
 
-    computedAt: Date.now(),
+    computedAt: now,
   };
 
   return metrics;
 }
 
 /**
- * Calculate price change from window
+ * Calculate price change over a period. Until the series covers the
+ * period, the change is measured from the first recorded price.
  */
-function calculatePriceChange(window: RollingWindow<PriceBucket>): {
+function calculatePriceChange(
+  series: MarketSeries,
+  periodMs: number,
+  now: number
+): {
   absolute: number;
   percent: number;
 } {
-  const buckets = window.getRange(
-    Date.now() - window["bucketSizeMs"] * window["bucketCount"],
-    Date.now()
-  );
-
-  if (buckets.length < 2) {
+  const firstTime = series.getFirstTime("price");
+  if (firstTime === null) {
     return { absolute: 0, percent: 0 };
   }
 
-  const first = buckets[0].value.close;
-  const last = buckets[buckets.length - 1].value.close;
+  const first = series.valueAt("price", Math.max(now - periodMs, firstTime));
+  const last = series.latest("price");
 
-  if (first === 0) {
+  if (!(first > 0) || !(last > 0)) {
     return { absolute: 0, percent: 0 };
   }
 
@@ -158,20 +220,20 @@ function calculatePriceChange(window: RollingWindow<PriceBucket>): {
 }
 
 /**
- * Calculate price velocity (% per minute)
+ * Calculate price velocity (% per minute) between two times
  */
-function calculatePriceVelocity(window: RollingWindow<PriceBucket>): number {
-  const buckets = window.getRange(Date.now() - 60000, Date.now());
-
-  if (buckets.length < 2) {
+function calculatePriceVelocity(series: MarketSeries, from: number, to: number): number {
+  const firstTime = series.getFirstTime("price");
+  if (firstTime === null || firstTime >= to) {
     return 0;
   }
 
-  const first = buckets[0].value.close;
-  const last = buckets[buckets.length - 1].value.close;
-  const timeDiff = (buckets[buckets.length - 1].timestamp - buckets[0].timestamp) / 60000; // minutes
+  const start = Math.max(from, firstTime);
+  const first = series.valueAt("price", start);
+  const last = series.valueAt("price", to);
+  const timeDiff = (to - start) / MINUTE_MS; // minutes
 
-  if (first === 0 || timeDiff === 0) {
+  if (!(first > 0) || !(last > 0) || timeDiff === 0) {
     return 0;
   }
 
@@ -179,72 +241,156 @@ function calculatePriceVelocity(window: RollingWindow<PriceBucket>): number {
 }
 
 /**
- * Calculate price acceleration (change in velocity)
+ * Calculate price acceleration: last minute's velocity minus the previous
+ * minute's. Zero until the series covers both minutes.
  */
-function calculatePriceAcceleration(window: RollingWindow<PriceBucket>): number {
-  // Simplified: compare velocity over two time periods
-  const recent = calculatePriceVelocity(window);
-  const older = calculatePriceVelocity(window); // Would need separate calculation
+function calculatePriceAcceleration(series: MarketSeries, now: number): number {
+  const firstTime = series.getFirstTime("price");
+  if (firstTime === null || firstTime > now - 2 * MINUTE_MS) {
+    return 0;
+  }
+
+  const recent = calculatePriceVelocity(series, now - MINUTE_MS, now);
+  const older = calculatePriceVelocity(series, now - 2 * MINUTE_MS, now - MINUTE_MS);
   return recent - older;
 }
 
 /**
  * Calculate Cumulative Volume Delta (buy - sell)
  */
-function calculateCVD(window: RollingWindow<VolumeBucket>): number {
-  const buckets = window.getRange(
-    Date.now() - window["bucketSizeMs"] * window["bucketCount"],
-    Date.now()
-  );
-
-  return buckets.reduce((sum: number, bucket) => {
-    return sum + (bucket.value.buyVolume - bucket.value.sellVolume);
-  }, 0);
+function calculateCVD(series: MarketSeries, periodMs: number, now: number): number {
+  return series.sum("buyVolume", periodMs, now) - series.sum("sellVolume", periodMs, now);
 }
 
 /**
- * Get total volume from window
+ * Calculate volume surge: recent volume rate vs the average rate over the
+ * period (or since the first trade, if more recent)
  */
-function getTotalVolume(window: RollingWindow<VolumeBucket>): number {
-  const buckets = window.getRange(
-    Date.now() - window["bucketSizeMs"] * window["bucketCount"],
-    Date.now()
-  );
+function calculateVolumeSurge(series: MarketSeries, periodMs: number, now: number): number {
+  const firstTime = series.getFirstTime("totalVolume");
+
+  if (firstTime === null || series.sum("tradeCount", periodMs, now) < SURGE_MIN_TRADES) {
+    return 1.0; // Not enough data
+  }
+
+  const coveredMs = Math.min(periodMs, now - firstTime);
+  if (coveredMs <= SURGE_RECENT_MS) {
+    return 1.0;
+  }
 
-  return buckets.reduce((sum: number, bucket) => sum + bucket.value.totalVolume, 0);
+  const recent = series.sum("totalVolume", SURGE_RECENT_MS, now) / SURGE_RECENT_MS;
+  const average = series.sum("totalVolume", periodMs, now) / coveredMs;
+
+  return average > 0 ? recent / average : 1.0;
 }
 
 /**
- * Calculate volume surge (current vs average)
+ * Calculate taker buy ratio
  */
-function calculateVolumeSurge(window: RollingWindow<VolumeBucket>): number {
-  const buckets = window.getRange(
-    Date.now() - window["bucketSizeMs"] * window["bucketCount"],
-    Date.now()
-  );
+function calculateTakerBuyRatio(series: MarketSeries, periodMs: number, now: number): number {
+  const total = series.sum("totalVolume", periodMs, now);
+  const buy = series.sum("buyVolume", periodMs, now);
 
-  if (buckets.length < 20) {
-    return 1.0; // Not enough data
+  return total > 0 ? buy / total : 0.5;
+}
+
+/**
+ * Sum liquidations over a period
+ */
+function sumLiquidations(
+  series: MarketSeries,
+  periodMs: number,
+  now: number
+): { longUsd: number; shortUsd: number; count: number } {
+  return {
+    longUsd: series.sum("liquidationsLong", periodMs, now),
+    shortUsd: series.sum("liquidationsShort", periodMs, now),
+    count: series.sum("liquidationCount", periodMs, now),
+  };
+}
+
+/**
+ * Calculate OI change over a period: latest sample vs the sample as of the
+ * period start. Returns zeros until the series covers the period.
+ */
+function calculateOIChange(
+  series: MarketSeries,
+  periodMs: number,
+  now: number
+): { absolute: number; percent: number; usd: number } {
+  const first = series.valueAt("openInterest", now - periodMs);
+  const last = series.latest("openInterest");
+
+  // Not enough history to span the period
+  if (!(first > 0) || Number.isNaN(last)) {
+    return { absolute: 0, percent: 0, usd: 0 };
   }
 
-  const recent = buckets.slice(-5).reduce((sum: number, b) => sum + b.value.totalVolume, 0) / 5;
-  const average = buckets.reduce((sum: number, b) => sum + b.value.totalVolume, 0) / buckets.length;
+  const absolute = last - first;
+  const percent = (absolute / first) * 100;
+  const usd =
+    series.latest("openInterestUsd") - series.valueAt("openInterestUsd", now - periodMs);
 
-  return average > 0 ? recent / average : 1.0;
+  return { absolute, percent, usd };
 }
 
 /**
- * Calculate taker buy ratio
+ * Average sampled spread over a period, or the current spread before any samples
  */
-function calculateTakerBuyRatio(window: RollingWindow<VolumeBucket>): number {
-  const buckets = window.getRange(
-    Date.now() - window["bucketSizeMs"] * window["bucketCount"],
-    Date.now()
-  );
+function calculateSpreadAverage(
+  series: MarketSeries,
+  periodMs: number,
+  now: number,
+  currentSpread: number
+): number {
+  const samples = series.sum("spreadSamples", periodMs, now);
+  return samples > 0 ? series.sum("spreadSum", periodMs, now) / samples : currentSpread;
+}
 
-  const total = buckets.reduce((sum: number, b) => sum + b.value.totalVolume, 0);
-  const buy = buckets.reduce((sum: number, b) => sum + b.value.buyVolume, 0);
+/**
+ * Mid-rank of the current spread among the 24h of 5m average spreads
+ * (0-100). Mid-rank keeps tick-bound markets, whose spread rarely moves,
+ * near 50 rather than pinned at 100.
+ */
+function calculateSpreadPercentile(
+  series: MarketSeries,
+  now: number,
+  currentSpread: number
+): number {
+  const sums = series.bucketSums("spreadSum", SPREAD_BUCKET_MS, DAY_MS, now);
+  const samples = series.bucketSums("spreadSamples", SPREAD_BUCKET_MS, DAY_MS, now);
+
+  const averages: number[] = [];
+  for (let i = 0; i < sums.length; i++) {
+    if (samples[i] > 0) {
+      averages.push(sums[i] / samples[i]);
+    }
+  }
 
-  return total > 0 ? buy / total : 0.5;
+  if (currentSpread <= 0 || averages.length < SPREAD_MIN_BUCKETS) {
+    return 0;
+  }
+
+  const below = averages.filter((avg) => avg < currentSpread).length;
+  const equal = averages.filter((avg) => avg === currentSpread).length;
+
+  return ((below + equal / 2) / averages.length) * 100;
 }
 
+/**
+ * Classify the OI vs price regime
+ */
+function classifyOIQuadrant(priceChangePercent: number, oiChangePercent: number): OIQuadrant {
+  if (
+    Math.abs(priceChangePercent) < OI_QUADRANT_MIN_PRICE_CHANGE_PERCENT ||
+    Math.abs(oiChangePercent) < OI_QUADRANT_MIN_OI_CHANGE_PERCENT
+  ) {
+    return "neutral";
+  }
+
+  if (priceChangePercent > 0) {
+    return oiChangePercent > 0 ? "long_buildup" : "short_covering";
+  }
+
+  return oiChangePercent > 0 ? "short_buildup" : "long_liquidation";
+}
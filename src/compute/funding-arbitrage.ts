@@ -0,0 +1,180 @@
+/**
+ * Funding Carry Arbitrage
+ *
+ * Pairs perpetual legs on different exchanges for the same base asset:
+ * long where funding is lowest, short where it is highest, so the short
+ * leg collects more funding than the long leg pays. Carry is projected
+ * over a holding period from each leg's funding interval and time to
+ * next funding, then netted against round-trip taker fees and the entry
+ * basis between the two legs.
+ */
+
+import type { UnifiedMarket, Exchange } from "../types/unified.js";
+import { getTakerFeePercent } from "./cross-exchange.js";
+import { getConfig } from "../utils/config.js";
+
+export interface FundingArbitrageOpportunity {
+  asset: string;                    // Base asset, e.g. "BTC"
+
+  longMarketId: string;
+  longExchange: Exchange;
+  longFundingRate: number;          // Per interval
+  longFundingRate8h: number;
+  longFundingIntervalHours: number;
+  longTimeToFunding: number | null; // ms
+  longPrice: number;                // Entry price (best ask)
+
+  shortMarketId: string;
+  shortExchange: Exchange;
+  shortFundingRate: number;
+  shortFundingRate8h: number;
+  shortFundingIntervalHours: number;
+  shortTimeToFunding: number | null;
+  shortPrice: number;               // Entry price (best bid)
+
+  // Short minus long funding, 8h-equivalent, in percent
+  fundingDifferential8h: number;
+
+  // Entry basis: (short entry - long entry) / long entry, in percent.
+  // Positive basis is captured if the legs converge.
+  basisPercent: number;
+
+  // Projected over the holding period, in percent of notional per leg
+  holdingPeriodHours: number;
+  expectedCarryPercent: number;     // Funding received minus funding paid
+  feesPercent: number;              // Round-trip taker fees on both legs
+  netCarryPercent: number;          // Carry - fees + basis
+
+  grossCarryAnnualized: number;     // From normalized rates, percent
+  netCarryAnnualized: number;       // netCarryPercent scaled to a year, percent
+
+  updatedAt: number;
+}
+
+const HOURS_PER_YEAR = 365 * 24;
+
+/**
+ * Find funding carry opportunities across exchanges, best net carry first.
+ */
+export function calculateFundingArbitrage(
+  markets: UnifiedMarket[]
+): FundingArbitrageOpportunity[] {
+  const { holdingPeriodHours, minNetCarryAnnualized } = getConfig().arbitrage;
+  const byAsset = new Map<string, UnifiedMarket[]>();
+
+  for (const market of markets) {
+    if (
+      market.marketType !== "perpetual" ||
+      !market.isFresh ||
+      market.fundingRate === null ||
+      market.fundingRatePerHour === null ||
+      market.fundingIntervalHours === null
+    ) {
+      continue;
+    }
+
+    const existing = byAsset.get(market.baseAsset) || [];
+    existing.push(market);
+    byAsset.set(market.baseAsset, existing);
+  }
+
+  const opportunities: FundingArbitrageOpportunity[] = [];
+
+  for (const [asset, assetMarkets] of byAsset.entries()) {
+    for (let i = 0; i < assetMarkets.length; i++) {
+      for (let j = i + 1; j < assetMarkets.length; j++) {
+        const a = assetMarkets[i];
+        const b = assetMarkets[j];
+        if (a.exchange === b.exchange) {
+          continue;
+        }
+
+        // Long the leg with the lower hourly funding, short the higher one
+        const [long, short] =
+          a.fundingRatePerHour! <= b.fundingRatePerHour! ? [a, b] : [b, a];
+
+        const opportunity = evaluatePair(asset, long, short, holdingPeriodHours);
+        if (opportunity && opportunity.netCarryAnnualized >= minNetCarryAnnualized) {
+          opportunities.push(opportunity);
+        }
+      }
+    }
+  }
+
+  return opportunities.sort((a, b) => b.netCarryAnnualized - a.netCarryAnnualized);
+}
+
+/**
+ * Project carry, fees and basis for one long/short pair.
+ */
+function evaluatePair(
+  asset: string,
+  long: UnifiedMarket,
+  short: UnifiedMarket,
+  holdingPeriodHours: number
+): FundingArbitrageOpportunity | null {
+  const longPrice = long.bestAsk;
+  const shortPrice = short.bestBid;
+  if (longPrice <= 0 || shortPrice <= 0) {
+    return null;
+  }
+
+  // Longs pay positive funding and shorts receive it
+  const fundingReceived =
+    countSettlements(short, holdingPeriodHours) * short.fundingRate! * 100;
+  const fundingPaid =
+    countSettlements(long, holdingPeriodHours) * long.fundingRate! * 100;
+  const expectedCarryPercent = fundingReceived - fundingPaid;
+
+  // Open and close both legs at taker fees
+  const feesPercent = 2 * (getTakerFeePercent(long.exchange) + getTakerFeePercent(short.exchange));
+
+  const basisPercent = ((shortPrice - longPrice) / longPrice) * 100;
+  const netCarryPercent = expectedCarryPercent - feesPercent + basisPercent;
+
+  const hourlyDifferential = short.fundingRatePerHour! - long.fundingRatePerHour!;
+
+  return {
+    asset,
+    longMarketId: long.id,
+    longExchange: long.exchange,
+    longFundingRate: long.fundingRate!,
+    longFundingRate8h: long.fundingRate8h!,
+    longFundingIntervalHours: long.fundingIntervalHours!,
+    longTimeToFunding: long.timeToFunding,
+    longPrice,
+    shortMarketId: short.id,
+    shortExchange: short.exchange,
+    shortFundingRate: short.fundingRate!,
+    shortFundingRate8h: short.fundingRate8h!,
+    shortFundingIntervalHours: short.fundingIntervalHours!,
+    shortTimeToFunding: short.timeToFunding,
+    shortPrice,
+    fundingDifferential8h: hourlyDifferential * 8 * 100,
+    basisPercent,
+    holdingPeriodHours,
+    expectedCarryPercent,
+    feesPercent,
+    netCarryPercent,
+    grossCarryAnnualized: hourlyDifferential * HOURS_PER_YEAR * 100,
+    netCarryAnnualized: netCarryPercent * (HOURS_PER_YEAR / holdingPeriodHours),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Number of funding settlements a leg goes through within the holding
+ * period, assuming the current rate holds. Unknown time to funding is
+ * treated as a full interval away.
+ */
+function countSettlements(market: UnifiedMarket, holdingPeriodHours: number): number {
+  const intervalMs = market.fundingIntervalHours! * 3600000;
+  const holdingMs = holdingPeriodHours * 3600000;
+  const firstSettlementMs = market.timeToFunding ?? intervalMs;
+
+  if (firstSettlementMs > holdingMs) {
+    return 0;
+  }
+
+  return Math.floor((holdingMs - firstSettlementMs) / intervalMs) + 1;
+}
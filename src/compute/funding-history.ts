@@ -0,0 +1,411 @@
+/**
+ * Funding History Manager
+ *
+ * Backfills settled funding rates per market from exchange REST history,
+ * keeps them current with periodic incremental fetches, and compares the
+ * live funding rate against the 7d/30d distribution. Each settlement keeps
+ * the interval it was paid over, so the distribution compares 8h-equivalent
+ * rates across funding interval changes. Also emits a "flip"
+ * when a market's live funding rate changes sign.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { Exchange, UnifiedMarket, FundingStats } from "../types/unified.js";
+import type { FundingRateRecord, FundingSettlement } from "../types/exchanges.js";
+import { getConfig } from "../utils/config.js";
+import { normalizeFundingRate, DEFAULT_FUNDING_INTERVAL_HOURS } from "../utils/funding.js";
+import { logger } from "../utils/logger.js";
+
+export interface FundingFlip {
+  id: string;
+  exchange: Exchange;
+  symbol: string;
+  previousRate: number;
+  fundingRate: number;
+  direction: "to_positive" | "to_negative";
+  detectedAt: number;
+}
+
+type FundingHistoryFetcher = (
+  exchangeSymbol: string,
+  startTime: number
+) => Promise<FundingRateRecord[]>;
+
+interface TrackedMarket {
+  exchange: Exchange;
+  symbol: string;
+  exchangeSymbol: string;
+  currentRate: number | null;
+  intervalHours: number | null;
+  lastNonZeroRate: number | null;
+  settlements: FundingSettlement[];
+  isBackfilled: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_FUNDING_INTERVAL_HOURS = 8;
+
+export class FundingHistoryManager extends EventEmitter {
+  private fetchers: Map<Exchange, FundingHistoryFetcher> = new Map();
+  private markets: Map<string, TrackedMarket> = new Map();
+  private backfillQueue: string[] = [];
+  private isProcessingQueue = false;
+  private refreshInterval: NodeJS.Timeout | null = null;
+  private isRefreshing = false;
+
+  /**
+   * Register an exchange's funding history fetcher.
+   */
+  register(exchange: Exchange, fetchHistory: FundingHistoryFetcher): void {
+    this.fetchers.set(exchange, fetchHistory);
+  }
+
+  /**
+   * Track a market's live funding rate. New markets on registered
+   * exchanges are queued for backfill.
+   */
+  updateMarket(market: UnifiedMarket): void {
+    let tracked = this.markets.get(market.id);
+
+    if (!tracked) {
+      tracked = {
+        exchange: market.exchange,
+        symbol: market.symbol,
+        exchangeSymbol: market.exchangeSymbol,
+        currentRate: null,
+        intervalHours: null,
+        lastNonZeroRate: null,
+        settlements: [],
+        isBackfilled: false,
+      };
+      this.markets.set(market.id, tracked);
+
+      if (this.fetchers.has(market.exchange)) {
+        this.backfillQueue.push(market.id);
+        void this.processBackfillQueue();
+      }
+    }
+
+    tracked.currentRate = market.fundingRate;
+    tracked.intervalHours = market.fundingIntervalHours;
+
+    if (market.fundingRate === null || market.fundingRate === 0) {
+      return;
+    }
+
+    const previous = tracked.lastNonZeroRate;
+    tracked.lastNonZeroRate = market.fundingRate;
+
+    if (previous !== null && Math.sign(previous) !== Math.sign(market.fundingRate)) {
+      const flip: FundingFlip = {
+        id: market.id,
+        exchange: market.exchange,
+        symbol: market.symbol,
+        previousRate: previous,
+        fundingRate: market.fundingRate,
+        direction: market.fundingRate > 0 ? "to_positive" : "to_negative",
+        detectedAt: Date.now(),
+      };
+
+      logger.info("Funding flip detected", {
+        marketId: flip.id,
+        previousRate: flip.previousRate,
+        fundingRate: flip.fundingRate,
+      });
+      this.emit("flip", flip);
+    }
+  }
+
+  /**
+   * Drop funding state for a market that left the universe.
+   */
+  removeMarket(marketId: string): void {
+    this.markets.delete(marketId);
+    this.backfillQueue = this.backfillQueue.filter((id) => id !== marketId);
+  }
+
+  /**
+   * Settled funding for a market, oldest first, optionally since a time.
+   */
+  getHistory(marketId: string, since: number = 0): FundingSettlement[] {
+    const tracked = this.markets.get(marketId);
+    if (!tracked) {
+      return [];
+    }
+
+    return tracked.settlements.filter((s) => s.fundingTime >= since);
+  }
+
+  /**
+   * Current funding vs settled history for a market.
+   */
+  getStats(marketId: string): FundingStats | null {
+    const tracked = this.markets.get(marketId);
+    if (!tracked || !tracked.isBackfilled) {
+      return null;
+    }
+
+    return this.calculateStats(marketId, tracked);
+  }
+
+  /**
+   * Stats for every backfilled market, keyed by market ID.
+   */
+  getAllStats(): Map<string, FundingStats> {
+    const stats = new Map<string, FundingStats>();
+
+    for (const [id, tracked] of this.markets.entries()) {
+      if (tracked.isBackfilled) {
+        stats.set(id, this.calculateStats(id, tracked));
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Start periodic incremental refreshes.
+   */
+  start(): void {
+    if (this.refreshInterval) {
+      return;
+    }
+
+    const intervalMs = getConfig().funding.refreshIntervalMs;
+
+    this.refreshInterval = setInterval(() => {
+      void this.refreshAll();
+    }, intervalMs);
+
+    logger.info("Funding history refresh started", { intervalMs });
+  }
+
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  getStatus(): {
+    trackedMarkets: number;
+    backfilledMarkets: number;
+    pendingBackfills: number;
+  } {
+    let backfilledMarkets = 0;
+    for (const tracked of this.markets.values()) {
+      if (tracked.isBackfilled) backfilledMarkets++;
+    }
+
+    return {
+      trackedMarkets: this.markets.size,
+      backfilledMarkets,
+      pendingBackfills: this.backfillQueue.length,
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Backfill queued markets one at a time to respect REST rate limits.
+   */
+  private async processBackfillQueue(): Promise<void> {
+    if (this.isProcessingQueue) {
+      return;
+    }
+
+    this.isProcessingQueue = true;
+    const { historyDays, requestDelayMs } = getConfig().funding;
+
+    try {
+      while (this.backfillQueue.length > 0) {
+        const marketId = this.backfillQueue.shift()!;
+        const tracked = this.markets.get(marketId);
+        if (!tracked) {
+          continue;
+        }
+
+        try {
+          await this.fetchSettlements(tracked, Date.now() - historyDays * DAY_MS);
+          tracked.isBackfilled = true;
+        } catch (error) {
+          logger.warn("Failed to backfill funding history", {
+            marketId,
+            error: (error as Error).message,
+          });
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, requestDelayMs));
+      }
+    } finally {
+      this.isProcessingQueue = false;
+    }
+  }
+
+  /**
+   * Fetch settlements after the latest known one for every backfilled
+   * market; markets whose backfill failed are queued again.
+   */
+  private async refreshAll(): Promise<void> {
+    if (this.isRefreshing) {
+      return;
+    }
+
+    this.isRefreshing = true;
+    const { historyDays, requestDelayMs } = getConfig().funding;
+
+    try {
+      for (const [marketId, tracked] of Array.from(this.markets.entries())) {
+        if (!this.fetchers.has(tracked.exchange)) {
+          continue;
+        }
+
+        if (!tracked.isBackfilled) {
+          if (!this.backfillQueue.includes(marketId)) {
+            this.backfillQueue.push(marketId);
+          }
+          continue;
+        }
+
+        const last = tracked.settlements[tracked.settlements.length - 1];
+        const since = last ? last.fundingTime + 1 : Date.now() - historyDays * DAY_MS;
+
+        try {
+          await this.fetchSettlements(tracked, since);
+        } catch (error) {
+          logger.debug("Failed to refresh funding history", {
+            marketId,
+            error: (error as Error).message,
+          });
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, requestDelayMs));
+      }
+    } finally {
+      this.isRefreshing = false;
+    }
+
+    void this.processBackfillQueue();
+  }
+
+  /**
+   * Fetch and merge settlements, trimming anything past the retention window.
+   */
+  private async fetchSettlements(tracked: TrackedMarket, since: number): Promise<void> {
+    const fetchHistory = this.fetchers.get(tracked.exchange)!;
+    const fetched = await fetchHistory(tracked.exchangeSymbol, since);
+
+    const last = tracked.settlements[tracked.settlements.length - 1];
+    const fresh: FundingSettlement[] = [];
+    let previousTime = last?.fundingTime;
+
+    for (const record of fetched) {
+      if (previousTime !== undefined && record.fundingTime <= previousTime) {
+        continue;
+      }
+
+      fresh.push({
+        ...record,
+        intervalHours: inferIntervalHours(previousTime, record.fundingTime, tracked.intervalHours),
+      });
+      previousTime = record.fundingTime;
+    }
+
+    const cutoff = Date.now() - getConfig().funding.historyDays * DAY_MS;
+    tracked.settlements = [...tracked.settlements, ...fresh].filter(
+      (s) => s.fundingTime >= cutoff
+    );
+  }
+
+  /**
+   * Percentiles and z-scores use 8h-equivalent rates so a change of funding
+   * interval does not shift the distribution. Cumulative funding sums the
+   * raw rates actually paid.
+   */
+  private calculateStats(marketId: string, tracked: TrackedMarket): FundingStats {
+    const now = Date.now();
+    const settlements7d = tracked.settlements.filter((s) => s.fundingTime >= now - 7 * DAY_MS);
+    const settlements30d = tracked.settlements.filter((s) => s.fundingTime >= now - 30 * DAY_MS);
+    const rates7d = settlements7d.map(toRate8h);
+    const rates30d = settlements30d.map(toRate8h);
+
+    const currentRate8h = normalizeFundingRate(
+      tracked.currentRate,
+      tracked.intervalHours ?? DEFAULT_FUNDING_INTERVAL_HOURS
+    ).fundingRate8h;
+
+    const last = tracked.settlements[tracked.settlements.length - 1];
+
+    return {
+      id: marketId,
+      exchange: tracked.exchange,
+      symbol: tracked.symbol,
+      currentRate: tracked.currentRate,
+      fundingIntervalHours: tracked.intervalHours,
+      currentRate8h,
+      fundingPercentile7d: calculatePercentile(rates7d, currentRate8h),
+      fundingPercentile30d: calculatePercentile(rates30d, currentRate8h),
+      fundingZScore7d: calculateZScore(rates7d, currentRate8h),
+      fundingZScore30d: calculateZScore(rates30d, currentRate8h),
+      cumulativeFunding7d: settlements7d.reduce((sum, s) => sum + s.rate, 0) * 100,
+      cumulativeFunding30d: settlements30d.reduce((sum, s) => sum + s.rate, 0) * 100,
+      settlementCount7d: settlements7d.length,
+      settlementCount30d: settlements30d.length,
+      lastSettlementTime: last ? last.fundingTime : null,
+      computedAt: now,
+    };
+  }
+}
+
+/**
+ * Interval a settlement was paid over, from the gap to the previous
+ * settlement. Falls back to the market's current interval for the first
+ * settlement or when the gap implies missing history.
+ */
+function inferIntervalHours(
+  previousTime: number | undefined,
+  fundingTime: number,
+  currentIntervalHours: number | null
+): number {
+  const fallback = currentIntervalHours ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+  if (previousTime === undefined) {
+    return fallback;
+  }
+
+  const gapHours = Math.round((fundingTime - previousTime) / HOUR_MS);
+  return gapHours >= 1 && gapHours <= MAX_FUNDING_INTERVAL_HOURS ? gapHours : fallback;
+}
+
+function toRate8h(settlement: FundingSettlement): number {
+  return (settlement.rate / settlement.intervalHours) * 8;
+}
+
+/**
+ * Share of historical rates at or below the current rate (0-100).
+ */
+function calculatePercentile(rates: number[], current: number | null): number | null {
+  if (current === null || rates.length === 0) {
+    return null;
+  }
+
+  const atOrBelow = rates.filter((rate) => rate <= current).length;
+  return (atOrBelow / rates.length) * 100;
+}
+
+/**
+ * Standard deviations between the current rate and the historical mean.
+ */
+function calculateZScore(rates: number[], current: number | null): number | null {
+  if (current === null || rates.length < 2) {
+    return null;
+  }
+
+  const mean = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+  const variance = rates.reduce((sum, rate) => sum + (rate - mean) ** 2, 0) / rates.length;
+  const stdDev = Math.sqrt(variance);
+
+  return stdDev > 0 ? (current - mean) / stdDev : 0;
+}
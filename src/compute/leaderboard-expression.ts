@@ -0,0 +1,411 @@
+/**
+ * Leaderboard Expressions
+ *
+ * A small arithmetic language for user-defined leaderboards, compiled to
+ * closures over a market and its derived metrics. There is no access to
+ * anything but whitelisted numeric fields and a handful of math functions,
+ * so definitions received over the API can be evaluated safely.
+ *
+ *   priceChangePercent5m * volumeSurge5m where volume24hUsd > 5e6
+ *
+ * The part before `where` is the ranked value; the optional part after it
+ * filters markets. Both support + - * / %, comparisons, and/or/not,
+ * parentheses and abs/min/max/sqrt/log/sign. Comparisons yield 1 or 0.
+ * Fields present on both the market and its metrics resolve to the market
+ * (exchange ticker); prefix with `metrics.` or `market.` to choose.
+ */
+
+import type { UnifiedMarket, DerivedMetrics } from "../types/unified.js";
+
+export interface ExpressionScope {
+  market: UnifiedMarket;
+  metrics: DerivedMetrics | undefined;
+}
+
+type Evaluator = (scope: ExpressionScope) => number;
+
+export interface CompiledExpression {
+  value: Evaluator;
+  filter: Evaluator | null;
+  fields: string[];   // Fields referenced, as written
+}
+
+type NumericField<T> = {
+  [K in keyof T]: T[K] extends number | null ? K : never;
+}[keyof T] & string;
+
+const MARKET_FIELDS: NumericField<UnifiedMarket>[] = [
+  "lastPrice", "markPrice", "indexPrice", "bestBid", "bestBidQty", "bestAsk", "bestAskQty",
+  "midPrice", "spreadAbsolute", "spreadPercent",
+  "fundingRate", "fundingRateNext", "fundingRateAnnualized", "fundingRatePerHour",
+  "fundingRate8h", "timeToFunding", "fundingIntervalHours",
+  "volume24h", "volume24hBase", "volume24hUsd", "tradeCount24h",
+  "openInterest", "openInterestUsd",
+  "high24h", "low24h", "open24h", "priceChange24h", "priceChangePercent24h",
+  "dataAge",
+];
+
+const METRIC_FIELDS: NumericField<DerivedMetrics>[] = [
+  "priceChange1m", "priceChange5m", "priceChange15m", "priceChange1h", "priceChange4h",
+  "priceChange24h",
+  "priceChangePercent1m", "priceChangePercent5m", "priceChangePercent15m",
+  "priceChangePercent1h", "priceChangePercent4h", "priceChangePercent24h",
+  "priceVelocity", "priceAcceleration",
+  "cvd1m", "cvd5m", "cvd15m", "cvd1h", "cvd4h", "cvd24h", "cvdPercent1h",
+  "volume1m", "volume5m", "volume15m", "volume1h", "volume4h", "volume24h",
+  "volumeSurge1m", "volumeSurge5m", "volumeSurge15m",
+  "takerBuyRatio1m", "takerBuyRatio5m", "takerBuyRatio1h",
+  "liquidationsLong1h", "liquidationsShort1h", "liquidationsNet1h",
+  "liquidationsLong24h", "liquidationsShort24h",
+  "oiChange5m", "oiChange15m", "oiChange1h", "oiChange4h",
+  "oiChangePercent5m", "oiChangePercent15m", "oiChangePercent1h", "oiChangePercent4h",
+  "oiChangeUsd1h",
+  "spreadPercentile24h", "spreadAvg1h", "spreadAvg24h",
+  "coverage4h", "coverage24h",
+];
+
+const MARKET_FIELD_SET = new Set<string>(MARKET_FIELDS);
+const METRIC_FIELD_SET = new Set<string>(METRIC_FIELDS);
+
+interface ExpressionFunction {
+  arity: [number, number];
+  fn: (...args: number[]) => number;
+}
+
+const FUNCTIONS = new Map<string, ExpressionFunction>([
+  ["abs", { arity: [1, 1], fn: Math.abs }],
+  ["sqrt", { arity: [1, 1], fn: Math.sqrt }],
+  ["log", { arity: [1, 1], fn: Math.log10 }],
+  ["sign", { arity: [1, 1], fn: Math.sign }],
+  ["min", { arity: [2, 8], fn: Math.min }],
+  ["max", { arity: [2, 8], fn: Math.max }],
+]);
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+type TokenType = "number" | "ident" | "op" | "lparen" | "rparen" | "comma" | "end";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+/**
+ * Names of every field an expression may reference.
+ */
+export function getExpressionFields(): { market: string[]; metrics: string[] } {
+  return { market: [...MARKET_FIELDS], metrics: [...METRIC_FIELDS] };
+}
+
+/**
+ * Compile an expression. Throws an Error describing the first problem
+ * when the source is invalid.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const parser = new Parser(tokenize(source));
+  const value = parser.parseExpression();
+  let filter: Evaluator | null = null;
+
+  if (parser.acceptKeyword("where")) {
+    filter = parser.parseExpression();
+  }
+
+  parser.expectEnd();
+
+  return { value, filter, fields: parser.getFields() };
+}
+
+/**
+ * Evaluate a compiled expression for one market. Returns null when the
+ * market fails the filter or the value is not a finite number (missing
+ * fields evaluate to NaN and propagate).
+ */
+export function evaluateExpression(
+  expression: CompiledExpression,
+  scope: ExpressionScope
+): number | null {
+  if (expression.filter && !isTruthy(expression.filter(scope))) {
+    return null;
+  }
+
+  const value = expression.value(scope);
+  return Number.isFinite(value) ? value : null;
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// PRIVATE HELPERS
+// ══════════════════════════════════════════════════════════════════════
+
+function isTruthy(value: number): boolean {
+  return !Number.isNaN(value) && value !== 0;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern =
+    /(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)?)|(>=|<=|==|!=|&&|\|\||[-+*/%<>!])|(\()|(\))|(,)/y;
+
+  let position = 0;
+  while (position < source.length) {
+    if (/\s/.test(source[position])) {
+      position++;
+      continue;
+    }
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new Error(`Unexpected character "${source[position]}" at position ${position}`);
+    }
+
+    const text = match[0];
+    const type: TokenType =
+      match[1] !== undefined ? "number"
+      : match[2] !== undefined ? "ident"
+      : match[3] !== undefined ? "op"
+      : match[4] !== undefined ? "lparen"
+      : match[5] !== undefined ? "rparen"
+      : "comma";
+
+    tokens.push({ type, text, position });
+    position += text.length;
+  }
+
+  tokens.push({ type: "end", text: "", position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser producing closures. Precedence, lowest first:
+ * or, and, not, comparison, additive, multiplicative, unary minus.
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private fields = new Set<string>();
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  getFields(): string[] {
+    return Array.from(this.fields);
+  }
+
+  parseExpression(): Evaluator {
+    return this.parseOr();
+  }
+
+  acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === "ident" && token.text.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new Error(`Unexpected "${token.text}" at position ${token.position}`);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private acceptOp(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token.type === "op" && ops.includes(token.text)) {
+      this.index++;
+      return token.text;
+    }
+    return null;
+  }
+
+  private parseOr(): Evaluator {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("or") || this.acceptOp("||")) {
+      const lhs = left;
+      const rhs = this.parseAnd();
+      left = (scope) => (isTruthy(lhs(scope)) || isTruthy(rhs(scope)) ? 1 : 0);
+    }
+    return left;
+  }
+
+  private parseAnd(): Evaluator {
+    let left = this.parseNot();
+    while (this.acceptKeyword("and") || this.acceptOp("&&")) {
+      const lhs = left;
+      const rhs = this.parseNot();
+      left = (scope) => (isTruthy(lhs(scope)) && isTruthy(rhs(scope)) ? 1 : 0);
+    }
+    return left;
+  }
+
+  private parseNot(): Evaluator {
+    if (this.acceptKeyword("not") || this.acceptOp("!")) {
+      const operand = this.parseNot();
+      return (scope) => (isTruthy(operand(scope)) ? 0 : 1);
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Evaluator {
+    const left = this.parseAdditive();
+    const op = this.acceptOp(">", ">=", "<", "<=", "==", "!=");
+    if (!op) {
+      return left;
+    }
+
+    const right = this.parseAdditive();
+    switch (op) {
+      case ">": return (scope) => (left(scope) > right(scope) ? 1 : 0);
+      case ">=": return (scope) => (left(scope) >= right(scope) ? 1 : 0);
+      case "<": return (scope) => (left(scope) < right(scope) ? 1 : 0);
+      case "<=": return (scope) => (left(scope) <= right(scope) ? 1 : 0);
+      case "==": return (scope) => (left(scope) === right(scope) ? 1 : 0);
+      default: return (scope) => (left(scope) !== right(scope) ? 1 : 0);
+    }
+  }
+
+  private parseAdditive(): Evaluator {
+    let left = this.parseMultiplicative();
+    let op: string | null;
+    while ((op = this.acceptOp("+", "-"))) {
+      const lhs = left;
+      const rhs = this.parseMultiplicative();
+      left = op === "+"
+        ? (scope) => lhs(scope) + rhs(scope)
+        : (scope) => lhs(scope) - rhs(scope);
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Evaluator {
+    let left = this.parseUnary();
+    let op: string | null;
+    while ((op = this.acceptOp("*", "/", "%"))) {
+      const lhs = left;
+      const rhs = this.parseUnary();
+      if (op === "*") left = (scope) => lhs(scope) * rhs(scope);
+      else if (op === "/") left = (scope) => lhs(scope) / rhs(scope);
+      else left = (scope) => lhs(scope) % rhs(scope);
+    }
+    return left;
+  }
+
+  private parseUnary(): Evaluator {
+    if (this.acceptOp("-")) {
+      const operand = this.parseUnary();
+      return (scope) => -operand(scope);
+    }
+    if (this.acceptOp("+")) {
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Evaluator {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number": {
+        const value = Number(token.text);
+        return () => value;
+      }
+
+      case "lparen": {
+        const inner = this.parseExpression();
+        if (this.next().type !== "rparen") {
+          throw new Error(`Missing ")" for "(" at position ${token.position}`);
+        }
+        return inner;
+      }
+
+      case "ident":
+        if (this.peek().type === "lparen") {
+          return this.parseCall(token);
+        }
+        return this.resolveField(token);
+
+      case "end":
+        throw new Error("Unexpected end of expression");
+
+      default:
+        throw new Error(`Unexpected "${token.text}" at position ${token.position}`);
+    }
+  }
+
+  private parseCall(name: Token): Evaluator {
+    const spec = FUNCTIONS.get(name.text);
+    if (!spec) {
+      throw new Error(`Unknown function "${name.text}" at position ${name.position}`);
+    }
+
+    this.next(); // (
+    const args: Evaluator[] = [];
+    if (this.peek().type !== "rparen") {
+      args.push(this.parseExpression());
+      while (this.peek().type === "comma") {
+        this.next();
+        args.push(this.parseExpression());
+      }
+    }
+
+    if (this.next().type !== "rparen") {
+      throw new Error(`Missing ")" after arguments to ${name.text}`);
+    }
+
+    const [minArgs, maxArgs] = spec.arity;
+    if (args.length < minArgs || args.length > maxArgs) {
+      throw new Error(
+        minArgs === maxArgs
+          ? `${name.text} takes ${minArgs} argument${minArgs === 1 ? "" : "s"}`
+          : `${name.text} takes ${minArgs} to ${maxArgs} arguments`
+      );
+    }
+
+    return (scope) => spec.fn(...args.map((arg) => arg(scope)));
+  }
+
+  private resolveField(token: Token): Evaluator {
+    const [prefix, qualified] = token.text.includes(".")
+      ? token.text.split(".")
+      : [null, token.text];
+
+    let source: "market" | "metrics";
+    if (prefix === "market" && MARKET_FIELD_SET.has(qualified)) {
+      source = "market";
+    } else if (prefix === "metrics" && METRIC_FIELD_SET.has(qualified)) {
+      source = "metrics";
+    } else if (prefix === null && MARKET_FIELD_SET.has(qualified)) {
+      source = "market";
+    } else if (prefix === null && METRIC_FIELD_SET.has(qualified)) {
+      source = "metrics";
+    } else {
+      throw new Error(`Unknown field "${token.text}" at position ${token.position}`);
+    }
+
+    this.fields.add(token.text);
+
+    if (source === "market") {
+      const field = qualified as NumericField<UnifiedMarket>;
+      return (scope) => scope.market[field] ?? NaN;
+    }
+
+    const field = qualified as NumericField<DerivedMetrics>;
+    return (scope) => scope.metrics?.[field] ?? NaN;
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Liquidation Cluster Engine
+ *
+ * Buckets scanned positions' liquidation prices into price levels per coin.
+ * Bucket width adapts to the coin's price and tick size, and clusters are
+ * recomputed whenever positions or the mark price change.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { HyperliquidPosition, LiquidationCluster } from "../types/unified.js";
+import { getRiskLevel } from "../connectors/hyperliquid/normalizer.js";
+import { getConfig } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+
+export interface LiquidationClusterSnapshot {
+  coin: string;
+  currentPrice: number;
+  bucketSize: number;
+  positionCount: number;
+  totalLongLiquidationUsd: number;
+  totalShortLiquidationUsd: number;
+  clusters: LiquidationCluster[];
+  updatedAt: number;
+}
+
+interface CoinPriceInfo {
+  price: number;
+  tickSize: number;
+}
+
+/**
+ * Pick a bucket width near `bucketPercent` of price, snapped to a 1/2/5
+ * step so levels stay put as the price drifts, and never finer than a tick.
+ */
+export function getClusterBucketSize(
+  price: number,
+  tickSize: number,
+  bucketPercent: number
+): number {
+  if (price <= 0) {
+    return tickSize > 0 ? tickSize : 1;
+  }
+
+  const target = (price * bucketPercent) / 100;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(target)));
+  const normalized = target / magnitude;
+  const step = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  const bucketSize = step * magnitude;
+
+  if (tickSize > 0 && bucketSize < tickSize) {
+    return tickSize;
+  }
+  return tickSize > 0 ? Math.round(bucketSize / tickSize) * tickSize : bucketSize;
+}
+
+/**
+ * Aggregate positions into liquidation clusters, ordered by price level.
+ * Liquidation USD is valued at the liquidation price.
+ */
+export function buildLiquidationClusters(
+  coin: string,
+  positions: HyperliquidPosition[],
+  currentPrice: number,
+  bucketSize: number,
+  atRiskThresholdPercent: number
+): LiquidationCluster[] {
+  const clusters: Map<number, LiquidationCluster> = new Map();
+
+  for (const position of positions) {
+    if (position.coin !== coin || position.liquidationPrice <= 0) {
+      continue;
+    }
+
+    const bucketIndex = Math.round(position.liquidationPrice / bucketSize);
+    let cluster = clusters.get(bucketIndex);
+    if (!cluster) {
+      // Avoid float noise such as 0.30000000000000004 in level prices
+      const priceLevel = parseFloat((bucketIndex * bucketSize).toPrecision(12));
+      const distance = currentPrice > 0
+        ? (Math.abs(priceLevel - currentPrice) / currentPrice) * 100
+        : 0;
+
+      cluster = {
+        coin,
+        priceLevel,
+        longLiquidationUsd: 0,
+        shortLiquidationUsd: 0,
+        totalLiquidationUsd: 0,
+        longPositionCount: 0,
+        shortPositionCount: 0,
+        distanceFromCurrentPercent: distance,
+        riskLevel: getRiskLevel(distance, atRiskThresholdPercent),
+      };
+      clusters.set(bucketIndex, cluster);
+    }
+
+    const liquidationUsd = position.size * position.liquidationPrice;
+    if (position.side === "long") {
+      cluster.longLiquidationUsd += liquidationUsd;
+      cluster.longPositionCount++;
+    } else {
+      cluster.shortLiquidationUsd += liquidationUsd;
+      cluster.shortPositionCount++;
+    }
+    cluster.totalLiquidationUsd += liquidationUsd;
+  }
+
+  return Array.from(clusters.values()).sort((a, b) => a.priceLevel - b.priceLevel);
+}
+
+export class LiquidationClusterEngine extends EventEmitter {
+  private positions: Map<string, HyperliquidPosition[]> = new Map(); // address -> positions
+  private prices: Map<string, CoinPriceInfo> = new Map(); // coin -> price info
+  private snapshots: Map<string, LiquidationClusterSnapshot> = new Map(); // coin -> clusters
+  private dirtyCoins: Set<string> = new Set();
+  private updateInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Replace the tracked positions of an address
+   */
+  setAddressPositions(address: string, positions: HyperliquidPosition[]): void {
+    const previous = this.positions.get(address) ?? [];
+    previous.forEach((position) => this.dirtyCoins.add(position.coin));
+    positions.forEach((position) => this.dirtyCoins.add(position.coin));
+
+    if (positions.length > 0) {
+      this.positions.set(address, positions);
+    } else {
+      this.positions.delete(address);
+    }
+  }
+
+  /**
+   * Stop tracking an address
+   */
+  removeAddress(address: string): void {
+    this.setAddressPositions(address, []);
+  }
+
+  /**
+   * Update a coin's mark price and tick size
+   */
+  updatePrice(coin: string, price: number, tickSize: number): void {
+    const previous = this.prices.get(coin);
+    this.prices.set(coin, { price, tickSize });
+
+    if (previous?.price !== price && this.snapshots.has(coin)) {
+      this.dirtyCoins.add(coin);
+    }
+  }
+
+  /**
+   * Get clusters for a coin, computing them if stale
+   */
+  getClusters(coin: string): LiquidationClusterSnapshot | null {
+    if (this.dirtyCoins.has(coin)) {
+      this.recompute(coin);
+    }
+    return this.snapshots.get(coin) ?? null;
+  }
+
+  /**
+   * Get all coins with at least one cluster
+   */
+  getCoins(): string[] {
+    return Array.from(this.snapshots.keys());
+  }
+
+  /**
+   * Start periodic recomputation of changed coins
+   */
+  start(): void {
+    this.stop();
+
+    const intervalMs = getConfig().hyperliquid.clusterUpdateIntervalMs;
+    this.updateInterval = setInterval(() => {
+      this.recomputeDirty();
+    }, intervalMs);
+
+    logger.info("Liquidation cluster engine started", { intervalMs });
+  }
+
+  /**
+   * Stop periodic recomputation
+   */
+  stop(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private recomputeDirty(): void {
+    for (const coin of Array.from(this.dirtyCoins)) {
+      const snapshot = this.recompute(coin);
+      this.emit("update", snapshot ?? this.emptySnapshot(coin));
+    }
+  }
+
+  private recompute(coin: string): LiquidationClusterSnapshot | null {
+    this.dirtyCoins.delete(coin);
+
+    const coinPositions: HyperliquidPosition[] = [];
+    for (const positions of this.positions.values()) {
+      for (const position of positions) {
+        if (position.coin === coin && position.liquidationPrice > 0) {
+          coinPositions.push(position);
+        }
+      }
+    }
+
+    if (coinPositions.length === 0) {
+      this.snapshots.delete(coin);
+      return null;
+    }
+
+    const config = getConfig().hyperliquid;
+    const priceInfo = this.prices.get(coin);
+    // Fall back to the price seen at scan time until a mark price arrives
+    const currentPrice = priceInfo?.price ?? coinPositions[0].currentPrice;
+    const bucketSize = getClusterBucketSize(
+      currentPrice,
+      priceInfo?.tickSize ?? 0,
+      config.clusterBucketPercent
+    );
+
+    const clusters = buildLiquidationClusters(
+      coin,
+      coinPositions,
+      currentPrice,
+      bucketSize,
+      config.atRiskThresholdPercent
+    );
+
+    const snapshot: LiquidationClusterSnapshot = {
+      coin,
+      currentPrice,
+      bucketSize,
+      positionCount: coinPositions.length,
+      totalLongLiquidationUsd: clusters.reduce((sum, c) => sum + c.longLiquidationUsd, 0),
+      totalShortLiquidationUsd: clusters.reduce((sum, c) => sum + c.shortLiquidationUsd, 0),
+      clusters,
+      updatedAt: Date.now(),
+    };
+
+    this.snapshots.set(coin, snapshot);
+    return snapshot;
+  }
+
+  private emptySnapshot(coin: string): LiquidationClusterSnapshot {
+    return {
+      coin,
+      currentPrice: this.prices.get(coin)?.price ?? 0,
+      bucketSize: 0,
+      positionCount: 0,
+      totalLongLiquidationUsd: 0,
+      totalShortLiquidationUsd: 0,
+      clusters: [],
+      updatedAt: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Market Impact Estimator
+ *
+ * Walks UnifiedOrderBook levels to estimate what a market order of a given
+ * USD notional would cost on each exchange, and how to split the same order
+ * across exchanges to get the best fee-adjusted average price.
+ *
+ * Pass full-depth books (OrderBookStore.getFullDepthBySymbol); published
+ * books stop at the subscribed depth and understate what can be filled.
+ */
+
+import type { Exchange, UnifiedOrderBook, PriceLevel } from "../types/unified.js";
+import { getTakerFeePercent } from "./cross-exchange.js";
+
+export type ImpactSide = "buy" | "sell";
+
+export interface VenueImpact {
+  marketId: string;
+  exchange: Exchange;
+  midPrice: number;
+  avgFillPrice: number | null;   // Null when nothing could be filled
+  slippageBps: number | null;    // Avg fill vs mid, positive = worse than mid
+  levelsConsumed: number;
+  levelsAvailable: number;       // Levels on this side of the book walked
+  filledNotional: number;        // USD actually filled
+  filledQuantity: number;        // Base units
+  takerFeePercent: number;
+  feeUsd: number;
+  isFilled: boolean;             // Book was deep enough for the full notional
+  bookTimestamp: number;
+}
+
+export interface ImpactAllocation {
+  marketId: string;
+  exchange: Exchange;
+  notional: number;
+  quantity: number;
+  avgFillPrice: number;
+  levelsConsumed: number;
+  feeUsd: number;
+}
+
+export interface MarketImpactEstimate {
+  symbol: string;
+  side: ImpactSide;
+  notional: number;
+  venues: VenueImpact[];         // Best average fill first
+  optimalSplit: {
+    allocations: ImpactAllocation[];
+    avgFillPrice: number | null;
+    referencePrice: number;      // Best mid across venues for this side
+    slippageBps: number | null;
+    filledNotional: number;
+    feeUsd: number;
+    isFilled: boolean;
+  };
+  computedAt: number;
+}
+
+// Tolerance for floating point dust when comparing filled vs requested notional
+const NOTIONAL_EPSILON = 1e-6;
+
+/**
+ * Estimate per-venue impact and the optimal cross-venue split for a market
+ * order of `notional` USD against the given books (one per exchange).
+ */
+export function estimateMarketImpact(
+  symbol: string,
+  books: UnifiedOrderBook[],
+  side: ImpactSide,
+  notional: number
+): MarketImpactEstimate {
+  const usable = books.filter((book) => levelsFor(book, side).length > 0);
+
+  const venues = usable
+    .map((book) => estimateVenue(book, side, notional))
+    .sort(
+      (a, b) =>
+        Number(b.isFilled) - Number(a.isFilled) ||
+        compareFills(a.avgFillPrice, b.avgFillPrice, side)
+    );
+
+  const mids = venues.map((v) => v.midPrice).filter((mid) => mid > 0);
+  const referencePrice =
+    mids.length === 0 ? 0 : side === "buy" ? Math.min(...mids) : Math.max(...mids);
+
+  return {
+    symbol,
+    side,
+    notional,
+    venues,
+    optimalSplit: calculateOptimalSplit(usable, side, notional, referencePrice),
+    computedAt: Date.now(),
+  };
+}
+
+/**
+ * Walk one venue's book for the full notional.
+ */
+function estimateVenue(
+  book: UnifiedOrderBook,
+  side: ImpactSide,
+  notional: number
+): VenueImpact {
+  const levels = levelsFor(book, side);
+  const midPrice = getMidPrice(book);
+  const takerFeePercent = getTakerFeePercent(book.exchange);
+
+  let filledNotional = 0;
+  let filledQuantity = 0;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (filledNotional >= notional - NOTIONAL_EPSILON) {
+      break;
+    }
+
+    const take = Math.min(level.quantityUsd, notional - filledNotional);
+    filledNotional += take;
+    filledQuantity += take / level.price;
+    levelsConsumed++;
+  }
+
+  const avgFillPrice = filledQuantity > 0 ? filledNotional / filledQuantity : null;
+
+  return {
+    marketId: book.id,
+    exchange: book.exchange,
+    midPrice,
+    avgFillPrice,
+    slippageBps: calculateSlippageBps(avgFillPrice, midPrice, side),
+    levelsConsumed,
+    levelsAvailable: levels.length,
+    filledNotional,
+    filledQuantity,
+    takerFeePercent,
+    feeUsd: filledNotional * (takerFeePercent / 100),
+    isFilled: filledNotional >= notional - NOTIONAL_EPSILON,
+    bookTimestamp: book.timestamp,
+  };
+}
+
+/**
+ * Greedily take the best fee-adjusted level across all venues until the
+ * notional is filled. Since each book is already sorted best-first, this
+ * yields the cheapest total cost for a buy (highest proceeds for a sell).
+ */
+function calculateOptimalSplit(
+  books: UnifiedOrderBook[],
+  side: ImpactSide,
+  notional: number,
+  referencePrice: number
+): MarketImpactEstimate["optimalSplit"] {
+  const candidates: Array<{ book: UnifiedOrderBook; level: PriceLevel; effectivePrice: number }> = [];
+
+  for (const book of books) {
+    const fee = getTakerFeePercent(book.exchange) / 100;
+    for (const level of levelsFor(book, side)) {
+      const effectivePrice = side === "buy" ? level.price * (1 + fee) : level.price * (1 - fee);
+      candidates.push({ book, level, effectivePrice });
+    }
+  }
+
+  candidates.sort((a, b) =>
+    side === "buy" ? a.effectivePrice - b.effectivePrice : b.effectivePrice - a.effectivePrice
+  );
+
+  const allocations = new Map<string, ImpactAllocation>();
+  let filledNotional = 0;
+  let filledQuantity = 0;
+  let feeUsd = 0;
+
+  for (const { book, level } of candidates) {
+    if (filledNotional >= notional - NOTIONAL_EPSILON) {
+      break;
+    }
+
+    const take = Math.min(level.quantityUsd, notional - filledNotional);
+    const quantity = take / level.price;
+    const fee = take * (getTakerFeePercent(book.exchange) / 100);
+
+    const allocation = allocations.get(book.id) ?? {
+      marketId: book.id,
+      exchange: book.exchange,
+      notional: 0,
+      quantity: 0,
+      avgFillPrice: 0,
+      levelsConsumed: 0,
+      feeUsd: 0,
+    };
+    allocation.notional += take;
+    allocation.quantity += quantity;
+    allocation.avgFillPrice = allocation.notional / allocation.quantity;
+    allocation.levelsConsumed++;
+    allocation.feeUsd += fee;
+    allocations.set(book.id, allocation);
+
+    filledNotional += take;
+    filledQuantity += quantity;
+    feeUsd += fee;
+  }
+
+  const avgFillPrice = filledQuantity > 0 ? filledNotional / filledQuantity : null;
+
+  return {
+    allocations: Array.from(allocations.values()).sort((a, b) => b.notional - a.notional),
+    avgFillPrice,
+    referencePrice,
+    slippageBps: calculateSlippageBps(avgFillPrice, referencePrice, side),
+    filledNotional,
+    feeUsd,
+    isFilled: filledNotional >= notional - NOTIONAL_EPSILON,
+  };
+}
+
+function levelsFor(book: UnifiedOrderBook, side: ImpactSide): PriceLevel[] {
+  // Buys lift asks, sells hit bids
+  return side === "buy" ? book.asks : book.bids;
+}
+
+function getMidPrice(book: UnifiedOrderBook): number {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+
+  if (bestBid === undefined || bestAsk === undefined) {
+    return bestBid ?? bestAsk ?? 0;
+  }
+
+  return (bestBid + bestAsk) / 2;
+}
+
+function calculateSlippageBps(
+  avgFillPrice: number | null,
+  referencePrice: number,
+  side: ImpactSide
+): number | null {
+  if (avgFillPrice === null || referencePrice <= 0) {
+    return null;
+  }
+
+  const diff = side === "buy" ? avgFillPrice - referencePrice : referencePrice - avgFillPrice;
+  return (diff / referencePrice) * 10000;
+}
+
+/**
+ * Order by average fill, best first; venues that filled nothing go last.
+ */
+function compareFills(a: number | null, b: number | null, side: ImpactSide): number {
+  if (a === null || b === null) {
+    return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  }
+
+  return side === "buy" ? a - b : b - a;
+}
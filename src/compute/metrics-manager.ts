@@ -5,15 +5,10 @@
  */
 
 import { EventEmitter } from "eventemitter3";
-import type { UnifiedMarket, UnifiedTrade } from "../types/unified.js";
+import type { UnifiedMarket, UnifiedTrade, UnifiedLiquidation } from "../types/unified.js";
 import type { DerivedMetrics } from "../types/unified.js";
 import { calculateDerivedMetrics, type MetricsContext } from "./derived-metrics.js";
-import {
-  createPriceWindow,
-  createVolumeWindow,
-  type PriceBucket,
-  type VolumeBucket,
-} from "./rolling-window.js";
+import { createMarketSeries } from "./time-series.js";
 import { getConfig } from "../utils/config.js";
 import { logger } from "../utils/logger.js";
 
@@ -28,21 +23,22 @@ export class MetricsManager extends EventEmitter {
   initializeMarket(market: UnifiedMarket): void {
     const context: MetricsContext = {
       market,
-      priceWindow1m: createPriceWindow(1000, 60), // 1 minute
-      priceWindow5m: createPriceWindow(1000, 300), // 5 minutes
-      priceWindow15m: createPriceWindow(1000, 900), // 15 minutes
-      priceWindow1h: createPriceWindow(1000, 3600), // 1 hour
-      volumeWindow1m: createVolumeWindow(1000, 60),
-      volumeWindow5m: createVolumeWindow(1000, 300),
-      volumeWindow15m: createVolumeWindow(1000, 900),
-      volumeWindow1h: createVolumeWindow(1000, 3600),
+      series: createMarketSeries(), // 1s / 1m / 5m tiers
     };
 
     this.contexts.set(market.id, context);
   }
 
   /**
-   * Update market data in rolling windows
+   * Drop metrics state for a market that left the universe
+   */
+  removeMarket(marketId: string): void {
+    this.contexts.delete(marketId);
+    this.metrics.delete(marketId);
+  }
+
+  /**
+   * Update market data in the time series
    */
   updateMarket(market: UnifiedMarket): void {
     const context = this.contexts.get(market.id);
@@ -51,51 +47,61 @@ export class MetricsManager extends EventEmitter {
       return;
     }
 
-    // Update price windows
-    const priceBucket: PriceBucket = {
-      open: market.lastPrice,
-      high: market.lastPrice,
-      low: market.lastPrice,
-      close: market.lastPrice,
-      volume: 0,
-    };
-
-    context.priceWindow1m.add(priceBucket);
-    context.priceWindow5m.add(priceBucket);
-    context.priceWindow15m.add(priceBucket);
-    context.priceWindow1h.add(priceBucket);
+    // OI is only sampled when present (Binance OI arrives via REST polling, so samples can be sparse)
+    const spread = market.spreadPercent > 0
+      ? { spreadSum: market.spreadPercent, spreadSamples: 1 }
+      : {};
+
+    context.series.add(
+      market.openInterest !== null
+        ? {
+            price: market.lastPrice,
+            openInterest: market.openInterest,
+            openInterestUsd: market.openInterestUsd ?? 0,
+            ...spread,
+          }
+        : { price: market.lastPrice, ...spread }
+    );
 
     // Update context market reference
     context.market = market;
   }
 
   /**
-   * Update trade data in rolling windows
-   * 
-   * NOTE: This method is only called when trade subscriptions are active.
-   * Currently, connectors do not implement subscribeToTrades(), so this
-   * method is never called, and volume windows remain empty.
+   * Update trade data in the time series
    * 
-   * When trade subscriptions are implemented, connectors should emit 'trade'
-   * events that trigger this method.
+   * Called for every 'trade' event from connectors with active trade
+   * subscriptions. Markets without trades keep empty volume fields.
    */
   updateTrade(trade: UnifiedTrade): void {
-    const context = this.contexts.get(trade.id.split(":")[0] + ":" + trade.symbol);
+    // Market IDs are "{exchange}:{symbol}"; trade IDs carry exchange-specific suffixes
+    const context = this.contexts.get(`${trade.exchange}:${trade.symbol}`);
     if (!context) {
       return;
     }
 
-    const volumeBucket: VolumeBucket = {
+    context.series.add({
       buyVolume: trade.side === "buy" ? trade.quoteQuantity : 0,
       sellVolume: trade.side === "sell" ? trade.quoteQuantity : 0,
       totalVolume: trade.quoteQuantity,
       tradeCount: 1,
-    };
+    });
+  }
+
+  /**
+   * Update liquidation data in the time series
+   */
+  updateLiquidation(liquidation: UnifiedLiquidation): void {
+    const context = this.contexts.get(`${liquidation.exchange}:${liquidation.symbol}`);
+    if (!context) {
+      return;
+    }
 
-    context.volumeWindow1m.add(volumeBucket);
-    context.volumeWindow5m.add(volumeBucket);
-    context.volumeWindow15m.add(volumeBucket);
-    context.volumeWindow1h.add(volumeBucket);
+    context.series.add({
+      liquidationsLong: liquidation.side === "long" ? liquidation.quoteQuantity : 0,
+      liquidationsShort: liquidation.side === "short" ? liquidation.quoteQuantity : 0,
+      liquidationCount: 1,
+    });
   }
 
   /**
@@ -0,0 +1,240 @@
+/**
+ * Local Order Book
+ *
+ * Maintains a full price → quantity book from exchange snapshots and diffs,
+ * and computes the depth, imbalance and liquidity metrics carried by
+ * UnifiedOrderBook.
+ */
+
+import type {
+  Exchange,
+  UnifiedOrderBook,
+  PriceLevel,
+  DepthMetrics,
+} from "../types/unified.js";
+
+/** Raw [price, quantity] level as sent by exchanges */
+export type RawPriceLevel = [string, string];
+
+// Depth bands as fractions of mid price
+const DEPTH_BANDS: Array<[keyof DepthMetrics, number]> = [
+  ["pct05", 0.005],
+  ["pct1", 0.01],
+  ["pct2", 0.02],
+  ["pct5", 0.05],
+  ["pct10", 0.1],
+];
+
+// Liquidity score: $10k within 1% of mid → 0, $1B → 100 (log scale)
+const LIQUIDITY_SCORE_MIN_LOG = 4;
+const LIQUIDITY_SCORE_MAX_LOG = 9;
+
+export class LocalOrderBook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  lastUpdateId: number = 0;
+  timestamp: number = 0;
+
+  /**
+   * Replace the whole book with a snapshot.
+   */
+  applySnapshot(
+    bids: RawPriceLevel[],
+    asks: RawPriceLevel[],
+    updateId: number,
+    timestamp: number
+  ): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.lastUpdateId = updateId;
+    this.timestamp = timestamp;
+  }
+
+  /**
+   * Apply an incremental update. A zero quantity removes the level.
+   */
+  applyDelta(
+    bids: RawPriceLevel[],
+    asks: RawPriceLevel[],
+    updateId: number,
+    timestamp: number
+  ): void {
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.lastUpdateId = updateId;
+    this.timestamp = timestamp;
+  }
+
+  clear(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = 0;
+    this.timestamp = 0;
+  }
+
+  bestBid(): number {
+    let best = 0;
+    for (const price of this.bids.keys()) {
+      if (price > best) best = price;
+    }
+    return best;
+  }
+
+  bestAsk(): number {
+    let best = Infinity;
+    for (const price of this.asks.keys()) {
+      if (price < best) best = price;
+    }
+    return best === Infinity ? 0 : best;
+  }
+
+  /**
+   * True when the best bid is at or above the best ask (book is corrupt).
+   */
+  isCrossed(): boolean {
+    const bestBid = this.bestBid();
+    const bestAsk = this.bestAsk();
+    return bestBid > 0 && bestAsk > 0 && bestBid >= bestAsk;
+  }
+
+  isEmpty(): boolean {
+    return this.bids.size === 0 || this.asks.size === 0;
+  }
+
+  /**
+   * Build a UnifiedOrderBook with the top `depth` levels per side and
+   * metrics computed over the full local book.
+   */
+  toUnified(
+    exchange: Exchange,
+    symbol: string,
+    depth: number
+  ): UnifiedOrderBook {
+    const bids = sortLevels(this.bids, "desc");
+    const asks = sortLevels(this.asks, "asc");
+
+    const mid = bids.length > 0 && asks.length > 0
+      ? (bids[0].price + asks[0].price) / 2
+      : 0;
+
+    const depthBid = calculateDepth(bids, mid, "bid");
+    const depthAsk = calculateDepth(asks, mid, "ask");
+
+    return {
+      id: `${exchange}:${symbol}`,
+      exchange,
+      symbol,
+      bids: bids.slice(0, depth),
+      asks: asks.slice(0, depth),
+      lastUpdateId: this.lastUpdateId,
+      timestamp: this.timestamp,
+      depthBid,
+      depthAsk,
+      imbalance: {
+        top5: calculateImbalance(bids, asks, 5),
+        top10: calculateImbalance(bids, asks, 10),
+        top20: calculateImbalance(bids, asks, 20),
+      },
+      liquidityScore: calculateLiquidityScore(depthBid.pct1 + depthAsk.pct1),
+    };
+  }
+
+  private applyLevels(side: Map<number, number>, levels: RawPriceLevel[]): void {
+    for (const [priceStr, quantityStr] of levels) {
+      const price = parseFloat(priceStr);
+      const quantity = parseFloat(quantityStr);
+
+      if (quantity === 0) {
+        side.delete(price);
+      } else {
+        side.set(price, quantity);
+      }
+    }
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// METRICS
+// ══════════════════════════════════════════════════════════════════════
+
+function sortLevels(side: Map<number, number>, order: "asc" | "desc"): PriceLevel[] {
+  const levels: PriceLevel[] = [];
+  for (const [price, quantity] of side.entries()) {
+    levels.push({ price, quantity, quantityUsd: price * quantity });
+  }
+  levels.sort((a, b) => (order === "asc" ? a.price - b.price : b.price - a.price));
+  return levels;
+}
+
+/**
+ * USD resting within each band of mid. Levels must be sorted best-first.
+ */
+export function calculateDepth(
+  levels: PriceLevel[],
+  mid: number,
+  side: "bid" | "ask"
+): DepthMetrics {
+  const depth: DepthMetrics = { pct05: 0, pct1: 0, pct2: 0, pct5: 0, pct10: 0 };
+
+  if (mid <= 0) {
+    return depth;
+  }
+
+  for (const level of levels) {
+    const distance = side === "bid"
+      ? (mid - level.price) / mid
+      : (level.price - mid) / mid;
+
+    if (distance > 0.1) {
+      break;
+    }
+
+    for (const [key, band] of DEPTH_BANDS) {
+      if (distance <= band) {
+        depth[key] += level.quantityUsd;
+      }
+    }
+  }
+
+  return depth;
+}
+
+/**
+ * (bidUsd - askUsd) / (bidUsd + askUsd) over the top N levels, -1 to 1.
+ */
+export function calculateImbalance(
+  bids: PriceLevel[],
+  asks: PriceLevel[],
+  levels: number
+): number {
+  let bidUsd = 0;
+  let askUsd = 0;
+
+  for (let i = 0; i < Math.min(levels, bids.length); i++) {
+    bidUsd += bids[i].quantityUsd;
+  }
+  for (let i = 0; i < Math.min(levels, asks.length); i++) {
+    askUsd += asks[i].quantityUsd;
+  }
+
+  const total = bidUsd + askUsd;
+  return total > 0 ? (bidUsd - askUsd) / total : 0;
+}
+
+/**
+ * Log-scaled 0-100 score from total USD depth within 1% of mid.
+ */
+export function calculateLiquidityScore(depthUsd: number): number {
+  if (depthUsd <= 0) {
+    return 0;
+  }
+
+  const scaled =
+    ((Math.log10(depthUsd) - LIQUIDITY_SCORE_MIN_LOG) /
+      (LIQUIDITY_SCORE_MAX_LOG - LIQUIDITY_SCORE_MIN_LOG)) *
+    100;
+
+  return Math.max(0, Math.min(100, scaled));
+}
@@ -0,0 +1,254 @@
+/**
+ * Basis Term Structure
+ *
+ * Lines up each exchange's perpetual and dated futures for a base asset
+ * against a common reference price and annualizes their premiums, so the
+ * curve (perp, front, next) can be compared across tenors. A flip between
+ * contango and backwardation is a regime signal: leveraged longs pay up
+ * for exposure in contango and unwind into backwardation.
+ */
+
+import type { Exchange, UnifiedMarket } from "../types/unified.js";
+import { getSpotCounterpartId } from "./basis.js";
+import { getConfig } from "../utils/config.js";
+import { daysToExpiry } from "../utils/expiry.js";
+
+export type TermStructureShape = "contango" | "backwardation" | "mixed";
+
+export interface TermStructurePoint {
+  marketId: string;
+  symbol: string;
+  marketType: "perpetual" | "quarterly";
+  expiryTime: number | null;
+  daysToExpiry: number | null;
+
+  price: number;                    // Mark price (mid when unavailable)
+  basisPercent: number;             // (price - reference) / reference * 100
+
+  // Perp: annualized funding. Dated: basisPercent * 365 / daysToExpiry.
+  annualizedPercent: number;
+}
+
+export interface ExchangeTermStructure {
+  exchange: Exchange;
+  referencePrice: number;
+  referenceSource: "index" | "spot";
+
+  perp: TermStructurePoint | null;
+  front: TermStructurePoint | null; // Nearest unexpired dated contract
+  next: TermStructurePoint | null;  // Second nearest
+  curve: TermStructurePoint[];      // Every dated contract, nearest first
+
+  shape: TermStructureShape;
+}
+
+export interface TermStructure {
+  asset: string;
+  exchanges: ExchangeTermStructure[];
+  shape: TermStructureShape;        // Consensus across exchanges
+  updatedAt: number;
+}
+
+type SpotLookup = (spotId: string) => UnifiedMarket | undefined;
+
+const DAYS_PER_YEAR = 365;
+
+// Futures tickers are polled, so allow a few missed polls before dropping a contract
+const FUTURES_STALE_POLLS = 3;
+
+/**
+ * Term structure for every base asset with at least one dated contract,
+ * keyed by asset.
+ */
+export function calculateAllTermStructures(
+  perps: UnifiedMarket[],
+  futures: UnifiedMarket[],
+  getSpotMarket: SpotLookup
+): Map<string, TermStructure> {
+  const result = new Map<string, TermStructure>();
+  const assets = new Set(futures.map((market) => market.baseAsset));
+
+  for (const asset of assets) {
+    const structure = calculateTermStructure(asset, perps, futures, getSpotMarket);
+    if (structure) {
+      result.set(asset, structure);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Term structure for one base asset. Returns null when no exchange has a
+ * usable reference price and at least one fresh dated contract.
+ */
+export function calculateTermStructure(
+  asset: string,
+  perps: UnifiedMarket[],
+  futures: UnifiedMarket[],
+  getSpotMarket: SpotLookup
+): TermStructure | null {
+  const now = Date.now();
+  const maxFuturesAgeMs = getConfig().futures.pollIntervalMs * FUTURES_STALE_POLLS;
+
+  const datedByExchange = new Map<Exchange, UnifiedMarket[]>();
+  for (const market of futures) {
+    if (
+      market.baseAsset !== asset ||
+      market.expiryTime === null ||
+      market.expiryTime <= now ||
+      now - market.updatedAt > maxFuturesAgeMs
+    ) {
+      continue;
+    }
+
+    const existing = datedByExchange.get(market.exchange) || [];
+    existing.push(market);
+    datedByExchange.set(market.exchange, existing);
+  }
+
+  const exchanges: ExchangeTermStructure[] = [];
+
+  for (const [exchange, dated] of datedByExchange.entries()) {
+    // Prefer the perp quoted in the same currency as the dated contracts
+    const perp =
+      perps.find(
+        (market) =>
+          market.exchange === exchange &&
+          market.baseAsset === asset &&
+          market.quoteAsset === dated[0].quoteAsset &&
+          market.marketType === "perpetual"
+      ) ?? null;
+
+    const reference = getReferencePrice(perp, dated, getSpotMarket);
+    if (!reference) {
+      continue;
+    }
+
+    const curve = dated
+      .sort((a, b) => a.expiryTime! - b.expiryTime!)
+      .map((market) => toDatedPoint(market, reference.price, now))
+      .filter((point): point is TermStructurePoint => point !== null);
+
+    if (curve.length === 0) {
+      continue;
+    }
+
+    const perpPoint = perp ? toPerpPoint(perp, reference.price) : null;
+
+    exchanges.push({
+      exchange,
+      referencePrice: reference.price,
+      referenceSource: reference.source,
+      perp: perpPoint,
+      front: curve[0],
+      next: curve[1] ?? null,
+      curve,
+      shape: classifyShape(perpPoint ? [perpPoint, ...curve] : curve),
+    });
+  }
+
+  if (exchanges.length === 0) {
+    return null;
+  }
+
+  const shapes = new Set(exchanges.map((structure) => structure.shape));
+
+  return {
+    asset,
+    exchanges,
+    shape: shapes.size === 1 ? exchanges[0].shape : "mixed",
+    updatedAt: now,
+  };
+}
+
+/**
+ * Reference price for an exchange's curve: perp index price, then spot
+ * mid, then the index price carried on the dated contracts.
+ */
+function getReferencePrice(
+  perp: UnifiedMarket | null,
+  dated: UnifiedMarket[],
+  getSpotMarket: SpotLookup
+): { price: number; source: "index" | "spot" } | null {
+  if (perp && perp.indexPrice !== null && perp.indexPrice > 0) {
+    return { price: perp.indexPrice, source: "index" };
+  }
+
+  const spot = getSpotMarket(getSpotCounterpartId(dated[0]));
+  if (spot && spot.midPrice > 0) {
+    return { price: spot.midPrice, source: "spot" };
+  }
+
+  const indexed = dated.find((market) => market.indexPrice !== null && market.indexPrice > 0);
+  if (indexed) {
+    return { price: indexed.indexPrice!, source: "index" };
+  }
+
+  return null;
+}
+
+function toPerpPoint(perp: UnifiedMarket, referencePrice: number): TermStructurePoint {
+  const price = getContractPrice(perp);
+
+  return {
+    marketId: perp.id,
+    symbol: perp.symbol,
+    marketType: "perpetual",
+    expiryTime: null,
+    daysToExpiry: null,
+    price,
+    basisPercent: price > 0 ? ((price - referencePrice) / referencePrice) * 100 : 0,
+    annualizedPercent: perp.fundingRateAnnualized ?? 0,
+  };
+}
+
+function toDatedPoint(
+  market: UnifiedMarket,
+  referencePrice: number,
+  now: number
+): TermStructurePoint | null {
+  const price = getContractPrice(market);
+  const days = daysToExpiry(market.expiryTime!, now);
+
+  if (price <= 0 || days <= 0) {
+    return null;
+  }
+
+  const basisPercent = ((price - referencePrice) / referencePrice) * 100;
+
+  return {
+    marketId: market.id,
+    symbol: market.symbol,
+    marketType: "quarterly",
+    expiryTime: market.expiryTime,
+    daysToExpiry: days,
+    price,
+    basisPercent,
+    annualizedPercent: basisPercent * (DAYS_PER_YEAR / days),
+  };
+}
+
+function getContractPrice(market: UnifiedMarket): number {
+  if (market.markPrice !== null && market.markPrice > 0) {
+    return market.markPrice;
+  }
+
+  return market.midPrice > 0 ? market.midPrice : market.lastPrice;
+}
+
+/**
+ * Contango when every tenor trades at an annualized premium, backwardation
+ * when every tenor trades at a discount, mixed otherwise.
+ */
+function classifyShape(points: TermStructurePoint[]): TermStructureShape {
+  if (points.every((point) => point.annualizedPercent > 0)) {
+    return "contango";
+  }
+
+  if (points.every((point) => point.annualizedPercent < 0)) {
+    return "backwardation";
+  }
+
+  return "mixed";
+}
@@ -0,0 +1,318 @@
+/**
+ * Tiered Time Series
+ *
+ * One multi-resolution series per market: 1s buckets roll up into 1m and
+ * 5m tiers, each a fixed ring buffer covering a configured span. Every
+ * bucket stores a snapshot of the series state as of the bucket's end:
+ * running totals for additive fields (volumes, counts) and the latest
+ * value for gauge fields (price, open interest). A window sum is then one
+ * subtraction of two snapshots, and a point-in-time value is one lookup,
+ * regardless of the window length.
+ */
+
+import { getConfig } from "../utils/config.js";
+
+/** "sum" fields accumulate per sample; "last" fields keep the latest sample */
+export type FieldKind = "sum" | "last";
+
+export type SeriesSchema = Record<string, FieldKind>;
+
+type FieldsOfKind<S extends SeriesSchema, K extends FieldKind> = {
+  [F in keyof S]: S[F] extends K ? F : never;
+}[keyof S] & string;
+
+export type SumField<S extends SeriesSchema> = FieldsOfKind<S, "sum">;
+export type LastField<S extends SeriesSchema> = FieldsOfKind<S, "last">;
+
+export type SeriesSample<S extends SeriesSchema> = Partial<Record<keyof S & string, number>>;
+
+export interface TierSpec {
+  bucketMs: number;
+  spanMs: number;
+}
+
+interface Tier {
+  bucketMs: number;
+  capacity: number;
+  snapshots: Float64Array;  // capacity * fieldCount, slot-major
+  lastIndex: number;        // Absolute bucket index (timestamp / bucketMs) of the newest slot
+}
+
+export class TieredTimeSeries<S extends SeriesSchema> {
+  private fields: Array<keyof S & string>;
+  private fieldIndex: Map<string, number>;
+  private kinds: FieldKind[];
+  private tiers: Tier[];              // Finest first
+  private state: Float64Array;        // Running totals and latest gauges
+  private firstTimes: Float64Array;   // First sample time per field, NaN until seen
+  private startTime: number | null = null;
+  private lastTime = 0;
+
+  constructor(schema: S, tiers: TierSpec[]) {
+    this.fields = Object.keys(schema) as Array<keyof S & string>;
+    this.fieldIndex = new Map(this.fields.map((field, i) => [field, i]));
+    this.kinds = this.fields.map((field) => schema[field]);
+
+    this.state = new Float64Array(this.fields.length);
+    this.firstTimes = new Float64Array(this.fields.length).fill(NaN);
+    this.kinds.forEach((kind, i) => {
+      if (kind === "last") this.state[i] = NaN;
+    });
+
+    this.tiers = [...tiers]
+      .sort((a, b) => a.bucketMs - b.bucketMs)
+      .map((spec) => {
+        // One extra slot so a full-span window still has its starting snapshot
+        const capacity = Math.ceil(spec.spanMs / spec.bucketMs) + 1;
+        return {
+          bucketMs: spec.bucketMs,
+          capacity,
+          snapshots: new Float64Array(capacity * this.fields.length),
+          lastIndex: -1,
+        };
+      });
+  }
+
+  /**
+   * Record a sample. Fields omitted from the sample are left unchanged.
+   * Late samples are treated as arriving at the newest recorded time.
+   */
+  add(sample: SeriesSample<S>, timestamp: number = Date.now()): void {
+    const time = Math.max(timestamp, this.lastTime);
+
+    if (this.startTime === null) {
+      this.startTime = time;
+    }
+
+    // Carry the pre-sample state into any buckets skipped since the last sample
+    for (const tier of this.tiers) {
+      this.advanceTier(tier, Math.floor(time / tier.bucketMs));
+    }
+
+    for (const [field, value] of Object.entries(sample)) {
+      const i = this.fieldIndex.get(field);
+      if (i === undefined || value === undefined || !Number.isFinite(value)) {
+        continue;
+      }
+
+      if (this.kinds[i] === "sum") {
+        this.state[i] += value;
+      } else {
+        this.state[i] = value;
+      }
+
+      if (Number.isNaN(this.firstTimes[i])) {
+        this.firstTimes[i] = time;
+      }
+    }
+
+    for (const tier of this.tiers) {
+      this.writeSlot(tier, tier.lastIndex);
+    }
+
+    this.lastTime = time;
+  }
+
+  /**
+   * Total of a "sum" field over (now - periodMs, now], at the resolution of
+   * the finest tier that still holds the window start. Only the covered part
+   * of the window is counted; check getCoverage() for long windows.
+   */
+  sum(field: SumField<S>, periodMs: number, now: number = Date.now()): number {
+    const i = this.indexOf(field);
+    return this.snapshotAt(i, now) - this.snapshotAt(i, now - periodMs);
+  }
+
+  /**
+   * Per-bucket totals of a "sum" field over (now - periodMs, now] on the
+   * tier with the given bucket size, oldest first. Empty when no tier has
+   * that bucket size or nothing has been recorded.
+   */
+  bucketSums(
+    field: SumField<S>,
+    bucketMs: number,
+    periodMs: number,
+    now: number = Date.now()
+  ): number[] {
+    const tier = this.tiers.find((t) => t.bucketMs === bucketMs);
+    if (!tier || this.startTime === null) {
+      return [];
+    }
+
+    const i = this.indexOf(field);
+    const firstBucket = Math.floor(this.startTime / bucketMs);
+    const base = Math.max(
+      Math.floor((now - periodMs) / bucketMs),
+      tier.lastIndex - tier.capacity + 1
+    );
+
+    let previous = base < firstBucket ? 0 : this.readSlot(tier, i, base);
+    const sums: number[] = [];
+
+    const newest = Math.floor(now / bucketMs);
+    for (let bucket = Math.max(base + 1, firstBucket); bucket <= newest; bucket++) {
+      const value = this.readSlot(tier, i, bucket);
+      sums.push(value - previous);
+      previous = value;
+    }
+
+    return sums;
+  }
+
+  /**
+   * Value of a "last" field as of the bucket containing the timestamp.
+   * NaN when the field had not been sampled by then.
+   */
+  valueAt(field: LastField<S>, timestamp: number): number {
+    return this.snapshotAt(this.indexOf(field), timestamp);
+  }
+
+  /**
+   * Latest value of a "last" field, or running total of a "sum" field.
+   */
+  latest(field: keyof S & string): number {
+    return this.state[this.indexOf(field)];
+  }
+
+  /**
+   * Share of (now - periodMs, now] the series holds, from 0 to 1. Below 1
+   * while the series is younger than the window or when the window reaches
+   * past the coarsest tier's retention; sum() and valueAt() then answer for
+   * the covered part only.
+   */
+  getCoverage(periodMs: number, now: number = Date.now()): number {
+    if (this.startTime === null) {
+      return 0;
+    }
+    if (periodMs <= 0) {
+      return 1;
+    }
+
+    const coarsest = this.tiers[this.tiers.length - 1];
+    const retentionStart = (coarsest.lastIndex - coarsest.capacity + 1) * coarsest.bucketMs;
+    const coveredFrom = Math.max(now - periodMs, this.startTime, retentionStart);
+
+    return Math.min(Math.max((now - coveredFrom) / periodMs, 0), 1);
+  }
+
+  /**
+   * Time of the first sample that carried the field, or null.
+   */
+  getFirstTime(field: keyof S & string): number | null {
+    const first = this.firstTimes[this.indexOf(field)];
+    return Number.isNaN(first) ? null : first;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private indexOf(field: string): number {
+    const i = this.fieldIndex.get(field);
+    if (i === undefined) {
+      throw new Error(`Unknown series field: ${field}`);
+    }
+    return i;
+  }
+
+  /**
+   * Move a tier's head to a bucket index, filling skipped slots with the
+   * current state (nothing happened in them).
+   */
+  private advanceTier(tier: Tier, index: number): void {
+    if (tier.lastIndex === -1) {
+      tier.lastIndex = index;
+      this.writeSlot(tier, index);
+      return;
+    }
+
+    if (index <= tier.lastIndex) {
+      return;
+    }
+
+    // Only the last `capacity` buckets survive, so skip the rest of a long gap
+    const from = Math.max(tier.lastIndex + 1, index - tier.capacity + 1);
+    for (let bucket = from; bucket <= index; bucket++) {
+      this.writeSlot(tier, bucket);
+    }
+
+    tier.lastIndex = index;
+  }
+
+  private writeSlot(tier: Tier, bucket: number): void {
+    tier.snapshots.set(this.state, (bucket % tier.capacity) * this.fields.length);
+  }
+
+  /**
+   * One field's snapshot for a retained bucket; the head bucket and anything
+   * newer read the live state.
+   */
+  private readSlot(tier: Tier, i: number, bucket: number): number {
+    if (bucket >= tier.lastIndex) {
+      return this.state[i];
+    }
+
+    return tier.snapshots[(bucket % tier.capacity) * this.fields.length + i];
+  }
+
+  /**
+   * State of one field as of the end of the bucket containing the timestamp.
+   * Before the first sample, sums are 0 and gauges NaN. Timestamps older than
+   * every tier's retention fall back to the oldest retained snapshot, which
+   * getCoverage() reports.
+   */
+  private snapshotAt(i: number, timestamp: number): number {
+    if (this.startTime === null || timestamp < this.startTime) {
+      return this.kinds[i] === "sum" ? 0 : NaN;
+    }
+
+    if (timestamp >= this.lastTime) {
+      return this.state[i];
+    }
+
+    for (const tier of this.tiers) {
+      const index = Math.floor(timestamp / tier.bucketMs);
+
+      if (index > tier.lastIndex - tier.capacity) {
+        return this.readSlot(tier, i, index);
+      }
+    }
+
+    const coarsest = this.tiers[this.tiers.length - 1];
+    return this.readSlot(coarsest, i, coarsest.lastIndex - coarsest.capacity + 1);
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// MARKET SERIES
+// ══════════════════════════════════════════════════════════════════════
+
+export const MARKET_SERIES_SCHEMA = {
+  price: "last",
+  buyVolume: "sum",
+  sellVolume: "sum",
+  totalVolume: "sum",
+  tradeCount: "sum",
+  liquidationsLong: "sum",    // USD of long positions liquidated
+  liquidationsShort: "sum",   // USD of short positions liquidated
+  liquidationCount: "sum",
+  openInterest: "last",       // Base units
+  openInterestUsd: "last",
+  spreadSum: "sum",           // Sum of sampled spread percents, for averages
+  spreadSamples: "sum",
+} as const satisfies SeriesSchema;
+
+export type MarketSeries = TieredTimeSeries<typeof MARKET_SERIES_SCHEMA>;
+
+/**
+ * Create the per-market series with tier spans from config.
+ */
+export function createMarketSeries(): MarketSeries {
+  const { secondTierSpanMs, minuteTierSpanMs, fiveMinuteTierSpanMs } = getConfig().rolling;
+
+  return new TieredTimeSeries(MARKET_SERIES_SCHEMA, [
+    { bucketMs: 1000, spanMs: secondTierSpanMs },
+    { bucketMs: 60000, spanMs: minuteTierSpanMs },
+    { bucketMs: 300000, spanMs: fiveMinuteTierSpanMs },
+  ]);
+}
@@ -15,21 +15,39 @@ import type {
   ConnectorError,
 } from "../../types/exchanges.js";
 import { BinanceWebSocketManager } from "./websocket.js";
+import { BinanceOrderBookManager } from "./orderbook.js";
 import {
   normalizeBinanceTicker,
   validateBinanceTicker,
   normalizeBinanceSymbol,
+  normalizeBinanceAggTrade,
+  validateBinanceAggTrade,
+  normalizeBinanceForceOrder,
+  validateBinanceForceOrder,
+  normalizeBinanceSpotTicker,
+  normalizeBinanceFuturesTicker,
+  parseNormalizedSymbol,
 } from "./normalizer.js";
 import {
   fetchBinanceSymbols,
+  fetchBinanceFundingIntervals,
   fetchOpenInterest,
+  fetchBinanceSpotTickers,
+  fetchBinanceFuturesSymbols,
+  fetchAllMarkPrices,
+  fetchAll24hrTickers,
+  fetchAllBookTickers,
 } from "./rest.js";
+import { getConfig } from "../../utils/config.js";
 import { logger } from "../../utils/logger.js";
 import type {
   BinanceTickerMessage,
   BinanceMarkPriceMessage,
   BinanceBookTickerMessage,
+  BinanceDepthUpdateMessage,
+  BinanceOpenInterest,
 } from "../../types/binance.js";
+import type { UnifiedOrderBook } from "../../types/unified.js";
 
 interface BinanceStreamMessage {
   stream: string;
@@ -43,6 +61,7 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
   readonly type: "cex" | "dex" = "cex";
 
   private wsManager: BinanceWebSocketManager;
+  private orderBookManager: BinanceOrderBookManager;
   private symbols: Map<string, SymbolInfo> = new Map();
   private isInitialized = false;
   private isStarted = false;
@@ -51,20 +70,38 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
   private reconnectCount = 0;
   private errors: ConnectorError[] = [];
   private subscribedSymbols: Set<string> = new Set();
+  private tradeSymbols: Set<string> = new Set();
+  private liquidationSymbols: Set<string> = new Set();
+  private orderBookSymbols: Set<string> = new Set();
 
   // Data caches for combining multiple streams
   private tickerCache: Map<string, BinanceTickerMessage> = new Map();
   private markPriceCache: Map<string, BinanceMarkPriceMessage> = new Map();
   private bookTickerCache: Map<string, BinanceBookTickerMessage> = new Map();
+  private openInterestCache: Map<string, BinanceOpenInterest> = new Map();
 
   // REST polling
   private oiPollingInterval: NodeJS.Timeout | null = null;
   private oiPollingIntervalMs = 30000; // 30 seconds
+  private isPollingOI = false;
+  private fundingIntervalInterval: NodeJS.Timeout | null = null;
+  private fundingIntervalRefreshMs = 3600000; // 1 hour
+  private spotPollingInterval: NodeJS.Timeout | null = null;
+  private isPollingSpot = false;
+  private futuresPollingInterval: NodeJS.Timeout | null = null;
+  private isPollingFutures = false;
+
+  // Dated futures contracts, keyed by exchange symbol (e.g. BTCUSDT_250627)
+  private futuresSymbols: Map<string, SymbolInfo> = new Map();
+  private futuresSymbolsLoadedAt = 0;
+  private futuresSymbolsRefreshMs = 3600000; // 1 hour
 
   constructor() {
     super();
     this.wsManager = new BinanceWebSocketManager();
+    this.orderBookManager = new BinanceOrderBookManager();
     this.setupWebSocketHandlers();
+    this.setupOrderBookHandlers();
   }
 
   // ══════════════════════════════════════════════════════════════════════
@@ -111,6 +148,9 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
 
     this.wsManager.connect();
     this.startOIPolling();
+    this.startFundingIntervalRefresh();
+    this.startSpotPolling();
+    this.startFuturesPolling();
 
     this.isStarted = true;
   }
@@ -120,6 +160,9 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
 
     await this.unsubscribeAll();
     this.stopOIPolling();
+    this.stopFundingIntervalRefresh();
+    this.stopSpotPolling();
+    this.stopFuturesPolling();
     this.wsManager.disconnect();
 
     this.isStarted = false;
@@ -146,6 +189,9 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
         wsConnections: stats.totalConnections,
         wsConnectedCount: stats.connectedCount,
         totalStreams: stats.totalStreams,
+        tradeSubscriptions: this.tradeSymbols.size,
+        liquidationSubscriptions: this.liquidationSymbols.size,
+        orderBooks: this.orderBookManager.getStats(),
       },
     };
   }
@@ -161,6 +207,27 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
     return Array.from(this.symbols.values());
   }
 
+  /**
+   * Re-fetch the instrument list so new listings become known. Symbols
+   * missing from the fresh list are kept for normalization but marked
+   * inactive. Throws on failure, leaving the current list in place.
+   */
+  async refreshSymbols(): Promise<SymbolInfo[]> {
+    const symbolList = await fetchBinanceSymbols();
+    const fresh = new Set(symbolList.map((symbol) => symbol.exchangeSymbol));
+
+    for (const [exchangeSymbol, info] of this.symbols.entries()) {
+      if (!fresh.has(exchangeSymbol)) {
+        this.symbols.set(exchangeSymbol, { ...info, isActive: false });
+      }
+    }
+    for (const symbol of symbolList) {
+      this.symbols.set(symbol.exchangeSymbol, symbol);
+    }
+
+    return Array.from(this.symbols.values());
+  }
+
   normalizeSymbol(exchangeSymbol: string): string {
     const symbolInfo = this.symbols.get(exchangeSymbol);
     if (symbolInfo) {
@@ -184,6 +251,15 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
     return normalizedSymbol;
   }
 
+  /**
+   * Order book with every locally maintained level for a normalized symbol.
+   * Published books stop at the subscribed depth; impact and arbitrage
+   * sizing read this instead.
+   */
+  getFullDepthOrderBook(normalizedSymbol: string): UnifiedOrderBook | undefined {
+    return this.orderBookManager.getFullDepthBook(this.denormalizeSymbol(normalizedSymbol));
+  }
+
   // ══════════════════════════════════════════════════════════════════════
   // DATA SUBSCRIPTIONS
   // ══════════════════════════════════════════════════════════════════════
@@ -222,42 +298,150 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
     });
   }
 
+  /**
+   * Subscribe to locally maintained order books via {symbol}@depth@100ms.
+   * 
+   * Diffs are buffered until a REST snapshot arrives; `depth` is the number
+   * of levels per side included in emitted books.
+   */
   async subscribeToOrderBooks(
-    _symbols: string[],
-    _depth: number = 20
+    symbols: string[],
+    depth: number = 20
   ): Promise<void> {
-    logger.warn("Order book subscriptions not implemented in Phase 1B");
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    this.orderBookManager.setDepth(depth);
+
+    // Track before subscribing so the first diffs are buffered
+    exchangeSymbols.forEach((symbol) => {
+      this.orderBookManager.track(symbol);
+      this.orderBookSymbols.add(symbol);
+    });
+
+    const streams = exchangeSymbols.map((symbol) => `${symbol.toLowerCase()}@depth@100ms`);
+
+    this.wsManager.subscribe(streams);
+
+    logger.info("Subscribed to Binance order books", {
+      symbolCount: exchangeSymbols.length,
+      depth,
+    });
   }
 
   /**
-   * Subscribe to trade events.
-   * 
-   * NOTE: Trade subscriptions are not yet implemented.
-   * This means metrics that depend on trade data will be zero or unavailable:
-   * - CVD (Cumulative Volume Delta) - all timeframes
-   * - Taker buy ratio - all timeframes
-   * - Volume surge - requires trade volume data
-   * - Volume windows (1m, 5m, 15m, 1h) - not populated
+   * Subscribe to trade events via {symbol}@aggTrade streams.
    * 
-   * Metrics that work with ticker data only:
-   * - Price changes (1m, 5m, 15m, 1h) ✓
-   * - Price velocity and acceleration ✓
-   * - Funding rates ✓
-   * - Spread metrics ✓
+   * Trades feed the volume windows behind CVD, taker buy ratio and
+   * volume surge metrics.
+   */
+  async subscribeToTrades(symbols: string[]): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    const streams = exchangeSymbols.map((symbol) => `${symbol.toLowerCase()}@aggTrade`);
+
+    this.wsManager.subscribe(streams);
+
+    exchangeSymbols.forEach((symbol) => this.tradeSymbols.add(symbol));
+
+    logger.info("Subscribed to Binance trades", {
+      symbolCount: exchangeSymbols.length,
+    });
+  }
+
+  /**
+   * Subscribe to liquidation events via {symbol}@forceOrder streams.
    * 
-   * To implement: Subscribe to Binance {symbol}@aggTrade WebSocket streams.
+   * Binance only pushes the latest liquidation per symbol each second,
+   * so liquidation totals are a lower bound.
    */
-  async subscribeToTrades(_symbols: string[]): Promise<void> {
-    logger.warn("Trade subscriptions not implemented - CVD, volume surge, and taker buy ratio metrics will be unavailable");
+  async subscribeToLiquidations(symbols: string[]): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    const streams = exchangeSymbols.map((symbol) => `${symbol.toLowerCase()}@forceOrder`);
+
+    this.wsManager.subscribe(streams);
+
+    exchangeSymbols.forEach((symbol) => this.liquidationSymbols.add(symbol));
+
+    logger.info("Subscribed to Binance liquidations", {
+      symbolCount: exchangeSymbols.length,
+    });
   }
 
-  async subscribeToLiquidations(_symbols: string[]): Promise<void> {
-    logger.warn("Liquidation subscriptions not implemented in Phase 1B");
+  /**
+   * Unsubscribe every stream for the given symbols and drop cached state.
+   */
+  async unsubscribeSymbols(symbols: string[]): Promise<void> {
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    const streams: string[] = [];
+
+    for (const symbol of exchangeSymbols) {
+      const lowerSymbol = symbol.toLowerCase();
+      streams.push(`${lowerSymbol}@ticker`);
+      streams.push(`${lowerSymbol}@markPrice@1s`);
+      streams.push(`${lowerSymbol}@bookTicker`);
+      streams.push(`${lowerSymbol}@aggTrade`);
+      streams.push(`${lowerSymbol}@forceOrder`);
+      streams.push(`${lowerSymbol}@depth@100ms`);
+
+      this.subscribedSymbols.delete(symbol);
+      this.tradeSymbols.delete(symbol);
+      this.liquidationSymbols.delete(symbol);
+      this.orderBookSymbols.delete(symbol);
+      this.orderBookManager.untrack(symbol);
+      this.tickerCache.delete(symbol);
+      this.markPriceCache.delete(symbol);
+      this.bookTickerCache.delete(symbol);
+      this.openInterestCache.delete(symbol);
+    }
+
+    this.wsManager.unsubscribe(streams);
+
+    logger.info("Unsubscribed from Binance symbols", {
+      symbolCount: exchangeSymbols.length,
+    });
   }
 
   async unsubscribeAll(): Promise<void> {
     this.wsManager.unsubscribeAll();
     this.subscribedSymbols.clear();
+    this.tradeSymbols.clear();
+    this.liquidationSymbols.clear();
+    this.orderBookSymbols.clear();
+    this.orderBookManager.clear();
     logger.info("Unsubscribed from all Binance streams");
   }
 
@@ -278,6 +462,16 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
           intervalMs: this.oiPollingIntervalMs,
           symbols: Array.from(this.subscribedSymbols),
         },
+        {
+          name: "spotTickers",
+          intervalMs: getConfig().spot.pollIntervalMs,
+          symbols: Array.from(this.subscribedSymbols),
+        },
+        {
+          name: "futuresTickers",
+          intervalMs: getConfig().futures.pollIntervalMs,
+          symbols: Array.from(this.futuresSymbols.keys()),
+        },
       ],
     };
   }
@@ -308,6 +502,16 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
     });
   }
 
+  private setupOrderBookHandlers(): void {
+    this.orderBookManager.on("orderbook", (book: UnifiedOrderBook) => {
+      this.emit("orderbook", book);
+    });
+
+    this.orderBookManager.on("error", (error: Error) => {
+      this.recordError("orderbook_snapshot_error", error.message);
+    });
+  }
+
   private handleStreamMessage(msg: BinanceStreamMessage): void {
     this.messageCount++;
     this.lastMessageTime = Date.now();
@@ -339,6 +543,20 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
         this.bookTickerCache.set(symbol, bookTickerData);
         this.emitMarketUpdate(symbol);
       }
+    } else if (streamType === "aggTrade") {
+      if (validateBinanceAggTrade(msg.data)) {
+        const threshold = getConfig().compute.largeTradeThresholdUsd;
+        this.emit("trade", normalizeBinanceAggTrade(msg.data, threshold));
+      }
+    } else if (streamType === "depth") {
+      const depthData = msg.data as BinanceDepthUpdateMessage;
+      if (depthData.e === "depthUpdate") {
+        this.orderBookManager.handleDepthUpdate(depthData);
+      }
+    } else if (streamType === "forceOrder") {
+      if (validateBinanceForceOrder(msg.data)) {
+        this.emit("liquidation", normalizeBinanceForceOrder(msg.data));
+      }
     }
   }
 
@@ -357,7 +575,9 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
         ticker,
         markPrice,
         undefined, // Index price not in separate stream
-        bookTicker
+        bookTicker,
+        this.openInterestCache.get(symbol),
+        this.symbols.get(symbol)?.fundingIntervalHours
       );
 
       this.emit("market", market);
@@ -372,20 +592,36 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
   private startOIPolling(): void {
     this.stopOIPolling();
 
-    this.oiPollingInterval = setInterval(async () => {
-      if (this.subscribedSymbols.size === 0) {
-        return;
-      }
+    this.oiPollingInterval = setInterval(() => {
+      void this.pollOpenInterest();
+    }, this.oiPollingIntervalMs);
+
+    logger.info("Started Open Interest polling", {
+      intervalMs: this.oiPollingIntervalMs,
+    });
+  }
+
+  /**
+   * Fetch OI for every subscribed symbol and re-emit the market with it.
+   * A full pass over 100 symbols takes ~10s, well inside the interval.
+   */
+  private async pollOpenInterest(): Promise<void> {
+    if (this.isPollingOI || this.subscribedSymbols.size === 0) {
+      return;
+    }
 
-      // Poll OI for subscribed symbols (rate limit: ~10 req/sec)
-      const symbols = Array.from(this.subscribedSymbols).slice(0, 10); // Limit to 10 per interval
+    this.isPollingOI = true;
 
-      for (const symbol of symbols) {
+    try {
+      for (const symbol of Array.from(this.subscribedSymbols)) {
         try {
           const oi = await fetchOpenInterest(symbol);
-          // Update market with OI data
-          // This would require updating the market store directly or emitting an OI update event
-          logger.debug("Fetched open interest", { symbol, oi: oi.openInterest });
+
+          // Skip symbols unsubscribed while the request was in flight
+          if (this.subscribedSymbols.has(symbol)) {
+            this.openInterestCache.set(symbol, oi);
+            this.emitMarketUpdate(symbol);
+          }
         } catch (error) {
           logger.warn("Failed to fetch open interest", { symbol, error });
         }
@@ -393,11 +629,173 @@ export class BinanceConnector extends EventEmitter implements ExchangeConnector
         // Rate limit: wait 100ms between requests
         await new Promise((resolve) => setTimeout(resolve, 100));
       }
-    }, this.oiPollingIntervalMs);
+    } finally {
+      this.isPollingOI = false;
+    }
+  }
 
-    logger.info("Started Open Interest polling", {
-      intervalMs: this.oiPollingIntervalMs,
-    });
+  /**
+   * Binance shortens funding intervals for volatile symbols, so the
+   * intervals loaded at initialize are refreshed periodically.
+   */
+  private startFundingIntervalRefresh(): void {
+    this.stopFundingIntervalRefresh();
+
+    this.fundingIntervalInterval = setInterval(async () => {
+      try {
+        const intervals = await fetchBinanceFundingIntervals();
+        for (const [symbol, info] of this.symbols.entries()) {
+          info.fundingIntervalHours = intervals.get(symbol) ?? 8;
+        }
+      } catch (error) {
+        logger.warn("Failed to refresh Binance funding intervals", { error });
+      }
+    }, this.fundingIntervalRefreshMs);
+  }
+
+  private stopFundingIntervalRefresh(): void {
+    if (this.fundingIntervalInterval) {
+      clearInterval(this.fundingIntervalInterval);
+      this.fundingIntervalInterval = null;
+    }
+  }
+
+  private startSpotPolling(): void {
+    this.stopSpotPolling();
+
+    const intervalMs = getConfig().spot.pollIntervalMs;
+
+    this.spotPollingInterval = setInterval(() => {
+      void this.pollSpotTickers();
+    }, intervalMs);
+
+    logger.info("Started Binance spot ticker polling", { intervalMs });
+  }
+
+  /**
+   * Fetch every spot ticker in one request and emit "spot" for the
+   * counterpart (same base and quote) of each subscribed perpetual.
+   * Perps without a spot pair, e.g. 1000PEPEUSDT, are skipped.
+   */
+  private async pollSpotTickers(): Promise<void> {
+    if (this.isPollingSpot || this.subscribedSymbols.size === 0) {
+      return;
+    }
+
+    this.isPollingSpot = true;
+
+    try {
+      const tickers = await fetchBinanceSpotTickers();
+      const bySymbol = new Map(tickers.map((ticker) => [ticker.symbol, ticker]));
+
+      for (const symbol of this.subscribedSymbols) {
+        const { baseAsset, quoteAsset } =
+          this.symbols.get(symbol) ?? parseNormalizedSymbol(normalizeBinanceSymbol(symbol));
+        const ticker = bySymbol.get(`${baseAsset}${quoteAsset}`);
+
+        if (ticker && parseFloat(ticker.bidPrice) > 0 && parseFloat(ticker.askPrice) > 0) {
+          this.emit("spot", normalizeBinanceSpotTicker(ticker, baseAsset, quoteAsset));
+        }
+      }
+    } catch (error) {
+      logger.warn("Failed to fetch Binance spot tickers", { error });
+      this.recordError("spot_polling_error", (error as Error).message);
+    } finally {
+      this.isPollingSpot = false;
+    }
+  }
+
+  private stopSpotPolling(): void {
+    if (this.spotPollingInterval) {
+      clearInterval(this.spotPollingInterval);
+      this.spotPollingInterval = null;
+    }
+  }
+
+  private startFuturesPolling(): void {
+    this.stopFuturesPolling();
+
+    const intervalMs = getConfig().futures.pollIntervalMs;
+
+    this.futuresPollingInterval = setInterval(() => {
+      void this.pollFuturesTickers();
+    }, intervalMs);
+
+    logger.info("Started Binance dated futures polling", { intervalMs });
+  }
+
+  /**
+   * Emit "futures" for every quarterly contract whose base asset has a
+   * subscribed perpetual. The contract list is reloaded hourly so rolls
+   * pick up the newly listed quarter.
+   */
+  private async pollFuturesTickers(): Promise<void> {
+    if (this.isPollingFutures || this.subscribedSymbols.size === 0) {
+      return;
+    }
+
+    this.isPollingFutures = true;
+
+    try {
+      if (Date.now() - this.futuresSymbolsLoadedAt > this.futuresSymbolsRefreshMs) {
+        const contracts = await fetchBinanceFuturesSymbols();
+        this.futuresSymbols = new Map(contracts.map((info) => [info.exchangeSymbol, info]));
+        this.futuresSymbolsLoadedAt = Date.now();
+      }
+
+      const subscribedAssets = new Set(
+        Array.from(this.subscribedSymbols).map(
+          (symbol) =>
+            (this.symbols.get(symbol) ?? parseNormalizedSymbol(normalizeBinanceSymbol(symbol)))
+              .baseAsset
+        )
+      );
+
+      const contracts = Array.from(this.futuresSymbols.values()).filter((info) =>
+        subscribedAssets.has(info.baseAsset)
+      );
+      if (contracts.length === 0) {
+        return;
+      }
+
+      const [markPrices, tickers, bookTickers] = await Promise.all([
+        fetchAllMarkPrices(),
+        fetchAll24hrTickers(),
+        fetchAllBookTickers(),
+      ]);
+      const markBySymbol = new Map(markPrices.map((mark) => [mark.symbol, mark]));
+      const tickerBySymbol = new Map(tickers.map((ticker) => [ticker.symbol, ticker]));
+      const bookBySymbol = new Map(bookTickers.map((book) => [book.symbol, book]));
+
+      for (const info of contracts) {
+        const ticker = tickerBySymbol.get(info.exchangeSymbol);
+        if (!ticker) {
+          continue;
+        }
+
+        this.emit(
+          "futures",
+          normalizeBinanceFuturesTicker(
+            info,
+            ticker,
+            markBySymbol.get(info.exchangeSymbol),
+            bookBySymbol.get(info.exchangeSymbol)
+          )
+        );
+      }
+    } catch (error) {
+      logger.warn("Failed to fetch Binance dated futures", { error });
+      this.recordError("futures_polling_error", (error as Error).message);
+    } finally {
+      this.isPollingFutures = false;
+    }
+  }
+
+  private stopFuturesPolling(): void {
+    if (this.futuresPollingInterval) {
+      clearInterval(this.futuresPollingInterval);
+      this.futuresPollingInterval = null;
+    }
   }
 
   private stopOIPolling(): void {
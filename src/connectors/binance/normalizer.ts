@@ -4,13 +4,27 @@
  * Transforms Binance Futures data into the unified UnifiedMarket schema.
  */
 
-import type { UnifiedMarket } from "../../types/unified.js";
+import type {
+  UnifiedMarket,
+  UnifiedTrade,
+  UnifiedLiquidation,
+  PositioningSnapshot,
+} from "../../types/unified.js";
 import type {
   BinanceTickerMessage,
   BinanceMarkPriceMessage,
   BinanceIndexPriceMessage,
   BinanceBookTickerMessage,
+  BinanceAggTradeMessage,
+  BinanceForceOrderMessage,
+  BinanceOpenInterest,
+  BinanceLongShortRatio,
+  Binance24hrTicker,
+  BinanceMarkPrice,
+  BinanceBookTicker,
 } from "../../types/binance.js";
+import type { SymbolInfo } from "../../types/exchanges.js";
+import { normalizeFundingRate, DEFAULT_FUNDING_INTERVAL_HOURS } from "../../utils/funding.js";
 
 // ══════════════════════════════════════════════════════════════════════
 // NORMALIZATION FUNCTIONS
@@ -69,7 +83,9 @@ export function normalizeBinanceTicker(
   tickerData: BinanceTickerMessage,
   markPriceData?: BinanceMarkPriceMessage,
   indexPriceData?: BinanceIndexPriceMessage,
-  bookTickerData?: BinanceBookTickerMessage
+  bookTickerData?: BinanceBookTickerMessage,
+  openInterestData?: BinanceOpenInterest,
+  fundingIntervalHours: number = DEFAULT_FUNDING_INTERVAL_HOURS
 ): UnifiedMarket {
   const normalizedSymbol = normalizeBinanceSymbol(exchangeSymbol);
   const { baseAsset, quoteAsset } = parseNormalizedSymbol(normalizedSymbol);
@@ -112,12 +128,9 @@ export function normalizeBinanceTicker(
   const nextFundingTime = markPriceData ? markPriceData.T : null;
   const timeToFunding = nextFundingTime ? Math.max(0, nextFundingTime - now) : null;
 
-  // Calculate annualized funding rate (assuming 8-hour intervals)
-  const fundingIntervalHours = 8;
-  const intervalsPerYear = (365 * 24) / fundingIntervalHours;
-  const fundingRateAnnualized = fundingRate !== null
-    ? fundingRate * intervalsPerYear * 100
-    : null;
+  // Normalize funding using the interval from /fapi/v1/fundingInfo
+  const { fundingRatePerHour, fundingRate8h, fundingRateAnnualized } =
+    normalizeFundingRate(fundingRate, fundingIntervalHours);
 
   // Volume data
   const volume24hBase = parseFloat(tickerData.v) || 0;
@@ -125,9 +138,11 @@ export function normalizeBinanceTicker(
   const volume24hUsd = volume24h; // Binance uses USDT, which is ~USD
   const tradeCount24h = tickerData.n || null;
 
-  // Open interest will be updated via REST polling
-  const openInterest = null;
-  const openInterestUsd = null;
+  // Open interest (from REST polling, in contracts = base asset)
+  const openInterest = openInterestData ? parseFloat(openInterestData.openInterest) : null;
+  const openInterestUsd = openInterest !== null
+    ? openInterest * (markPrice ?? lastPrice)
+    : null;
 
   // Create unified market
   const market: UnifiedMarket = {
@@ -138,6 +153,7 @@ export function normalizeBinanceTicker(
     baseAsset,
     quoteAsset,
     marketType: "perpetual",
+    expiryTime: null,
     exchangeSymbol,
 
     // Price data
@@ -156,6 +172,8 @@ export function normalizeBinanceTicker(
     fundingRate,
     fundingRateNext: null, // Not available in ticker
     fundingRateAnnualized,
+    fundingRatePerHour,
+    fundingRate8h,
     nextFundingTime,
     timeToFunding,
     fundingIntervalHours: fundingRate !== null ? fundingIntervalHours : null,
@@ -191,6 +209,178 @@ export function normalizeBinanceTicker(
   return market;
 }
 
+/**
+ * Convert a Binance spot 24hr REST ticker to a spot UnifiedMarket.
+ * Base and quote come from the linked perpetual, e.g. BTCUSDT → "BTC-USDT-SPOT".
+ */
+export function normalizeBinanceSpotTicker(
+  ticker: Binance24hrTicker,
+  baseAsset: string,
+  quoteAsset: string
+): UnifiedMarket {
+  const normalizedSymbol = `${baseAsset}-${quoteAsset}-SPOT`;
+  const now = Date.now();
+
+  const lastPrice = parseFloat(ticker.lastPrice) || 0;
+  const bestBid = parseFloat(ticker.bidPrice) || 0;
+  const bestBidQty = parseFloat(ticker.bidQty) || 0;
+  const bestAsk = parseFloat(ticker.askPrice) || 0;
+  const bestAskQty = parseFloat(ticker.askQty) || 0;
+
+  const midPrice = (bestBid + bestAsk) / 2;
+  const spreadAbsolute = bestAsk - bestBid;
+  const spreadPercent = midPrice > 0 ? (spreadAbsolute / midPrice) * 100 : 0;
+
+  const volume24h = parseFloat(ticker.quoteVolume) || 0;
+
+  return {
+    // Identifiers
+    id: `binance:${normalizedSymbol}`,
+    exchange: "binance",
+    symbol: normalizedSymbol,
+    baseAsset,
+    quoteAsset,
+    marketType: "spot",
+    expiryTime: null,
+    exchangeSymbol: ticker.symbol,
+
+    // Price data
+    lastPrice,
+    markPrice: null,
+    indexPrice: null,
+    bestBid,
+    bestBidQty,
+    bestAsk,
+    bestAskQty,
+    midPrice,
+    spreadAbsolute,
+    spreadPercent,
+
+    // Funding (not applicable to spot)
+    fundingRate: null,
+    fundingRateNext: null,
+    fundingRateAnnualized: null,
+    fundingRatePerHour: null,
+    fundingRate8h: null,
+    nextFundingTime: null,
+    timeToFunding: null,
+    fundingIntervalHours: null,
+
+    // Volume & OI
+    volume24h,
+    volume24hBase: parseFloat(ticker.volume) || 0,
+    volume24hUsd: volume24h, // USDT quote, which is ~USD
+    tradeCount24h: ticker.count || null,
+    openInterest: null,
+    openInterestUsd: null,
+
+    // 24h statistics
+    high24h: parseFloat(ticker.highPrice) || 0,
+    low24h: parseFloat(ticker.lowPrice) || 0,
+    open24h: parseFloat(ticker.openPrice) || 0,
+    priceChange24h: parseFloat(ticker.priceChange) || 0,
+    priceChangePercent24h: parseFloat(ticker.priceChangePercent) || 0,
+
+    // Metadata
+    updatedAt: now,
+    dataAge: 0,
+    isFresh: true,
+
+    // Data quality flags
+    flags: {
+      hasRealTimeOI: false,
+      hasFullLiquidations: false,
+      hasFunding: false,
+    },
+  };
+}
+
+/**
+ * Convert a Binance quarterly contract's REST data to a dated-futures
+ * UnifiedMarket, e.g. BTCUSDT_250627 → "BTC-USDT-250627".
+ */
+export function normalizeBinanceFuturesTicker(
+  info: SymbolInfo,
+  ticker: Binance24hrTicker,
+  markPriceData?: BinanceMarkPrice,
+  bookTicker?: BinanceBookTicker
+): UnifiedMarket {
+  const now = Date.now();
+
+  const lastPrice = parseFloat(ticker.lastPrice) || 0;
+  const bestBid = bookTicker ? parseFloat(bookTicker.bidPrice) || 0 : 0;
+  const bestBidQty = bookTicker ? parseFloat(bookTicker.bidQty) || 0 : 0;
+  const bestAsk = bookTicker ? parseFloat(bookTicker.askPrice) || 0 : 0;
+  const bestAskQty = bookTicker ? parseFloat(bookTicker.askQty) || 0 : 0;
+
+  const midPrice = bestBid > 0 && bestAsk > 0 ? (bestBid + bestAsk) / 2 : lastPrice;
+  const spreadAbsolute = bestBid > 0 && bestAsk > 0 ? bestAsk - bestBid : 0;
+  const spreadPercent = midPrice > 0 ? (spreadAbsolute / midPrice) * 100 : 0;
+
+  const volume24h = parseFloat(ticker.quoteVolume) || 0;
+
+  return {
+    // Identifiers
+    id: `binance:${info.normalizedSymbol}`,
+    exchange: "binance",
+    symbol: info.normalizedSymbol,
+    baseAsset: info.baseAsset,
+    quoteAsset: info.quoteAsset,
+    marketType: "quarterly",
+    expiryTime: info.expiryTime ?? null,
+    exchangeSymbol: info.exchangeSymbol,
+
+    // Price data
+    lastPrice,
+    markPrice: markPriceData ? parseFloat(markPriceData.markPrice) || null : null,
+    indexPrice: markPriceData ? parseFloat(markPriceData.indexPrice) || null : null,
+    bestBid,
+    bestBidQty,
+    bestAsk,
+    bestAskQty,
+    midPrice,
+    spreadAbsolute,
+    spreadPercent,
+
+    // Funding (dated futures do not fund)
+    fundingRate: null,
+    fundingRateNext: null,
+    fundingRateAnnualized: null,
+    fundingRatePerHour: null,
+    fundingRate8h: null,
+    nextFundingTime: null,
+    timeToFunding: null,
+    fundingIntervalHours: null,
+
+    // Volume & OI
+    volume24h,
+    volume24hBase: parseFloat(ticker.volume) || 0,
+    volume24hUsd: volume24h,
+    tradeCount24h: ticker.count || null,
+    openInterest: null,
+    openInterestUsd: null,
+
+    // 24h statistics
+    high24h: parseFloat(ticker.highPrice) || 0,
+    low24h: parseFloat(ticker.lowPrice) || 0,
+    open24h: parseFloat(ticker.openPrice) || 0,
+    priceChange24h: parseFloat(ticker.priceChange) || 0,
+    priceChangePercent24h: parseFloat(ticker.priceChangePercent) || 0,
+
+    // Metadata
+    updatedAt: now,
+    dataAge: 0,
+    isFresh: true,
+
+    // Data quality flags
+    flags: {
+      hasRealTimeOI: false,
+      hasFullLiquidations: false,
+      hasFunding: false,
+    },
+  };
+}
+
 /**
  * Validate Binance ticker data structure.
  */
@@ -210,3 +400,126 @@ export function validateBinanceTicker(data: unknown): data is BinanceTickerMessa
   );
 }
 
+/**
+ * Convert a Binance aggregate trade to UnifiedTrade.
+ *
+ * When the buyer is the maker (`m`), the aggressor sold.
+ */
+export function normalizeBinanceAggTrade(
+  trade: BinanceAggTradeMessage,
+  largeTradeThresholdUsd: number
+): UnifiedTrade {
+  const price = parseFloat(trade.p);
+  const quantity = parseFloat(trade.q);
+  const quoteQuantity = price * quantity;
+
+  return {
+    id: `binance:${trade.s}:${trade.a}`,
+    exchange: "binance",
+    symbol: normalizeBinanceSymbol(trade.s),
+    price,
+    quantity,
+    quoteQuantity,
+    side: trade.m ? "sell" : "buy",
+    timestamp: trade.T,
+    isLargeTrade: quoteQuantity >= largeTradeThresholdUsd,
+  };
+}
+
+/**
+ * Validate Binance aggregate trade data structure.
+ */
+export function validateBinanceAggTrade(data: unknown): data is BinanceAggTradeMessage {
+  if (!data || typeof data !== "object") {
+    return false;
+  }
+
+  const trade = data as Record<string, unknown>;
+
+  return (
+    trade.e === "aggTrade" &&
+    typeof trade.s === "string" &&
+    typeof trade.p === "string" &&
+    typeof trade.q === "string" &&
+    typeof trade.m === "boolean"
+  );
+}
+
+/**
+ * Convert a Binance forceOrder event to UnifiedLiquidation.
+ *
+ * A SELL liquidation order closes a long position. Binance pushes at most
+ * one liquidation per symbol per second, so the data is sampled.
+ */
+export function normalizeBinanceForceOrder(
+  message: BinanceForceOrderMessage
+): UnifiedLiquidation {
+  const order = message.o;
+  const price = parseFloat(order.ap) || parseFloat(order.p);
+  const quantity = parseFloat(order.z) || parseFloat(order.q);
+
+  return {
+    id: `binance:${order.s}:${order.T}`,
+    exchange: "binance",
+    symbol: normalizeBinanceSymbol(order.s),
+    side: order.S === "SELL" ? "long" : "short",
+    price,
+    quantity,
+    quoteQuantity: price * quantity,
+    timestamp: order.T,
+    isComplete: false,
+  };
+}
+
+/**
+ * Validate Binance forceOrder data structure.
+ */
+export function validateBinanceForceOrder(data: unknown): data is BinanceForceOrderMessage {
+  if (!data || typeof data !== "object") {
+    return false;
+  }
+
+  const message = data as Record<string, unknown>;
+  const order = message.o as Record<string, unknown> | undefined;
+
+  return (
+    message.e === "forceOrder" &&
+    !!order &&
+    typeof order.s === "string" &&
+    (order.S === "BUY" || order.S === "SELL") &&
+    typeof order.p === "string"
+  );
+}
+
+/**
+ * Convert Binance long/short ratio entries to a PositioningSnapshot.
+ * The top-trader position ratio is optional.
+ */
+export function normalizeBinanceLongShortRatio(
+  exchangeSymbol: string,
+  accountRatio: BinanceLongShortRatio,
+  topPositionRatio: BinanceLongShortRatio | null,
+  period: string
+): PositioningSnapshot {
+  const normalizedSymbol = normalizeBinanceSymbol(exchangeSymbol);
+
+  return {
+    id: `binance:${normalizedSymbol}`,
+    exchange: "binance",
+    symbol: normalizedSymbol,
+    period,
+    longShortAccountRatio: parseFloat(accountRatio.longShortRatio) || 0,
+    longAccountPercent: (parseFloat(accountRatio.longAccount) || 0) * 100,
+    shortAccountPercent: (parseFloat(accountRatio.shortAccount) || 0) * 100,
+    topTraderLongShortPositionRatio: topPositionRatio
+      ? parseFloat(topPositionRatio.longShortRatio) || 0
+      : null,
+    topTraderLongPercent: topPositionRatio
+      ? (parseFloat(topPositionRatio.longAccount) || 0) * 100
+      : null,
+    topTraderShortPercent: topPositionRatio
+      ? (parseFloat(topPositionRatio.shortAccount) || 0) * 100
+      : null,
+    timestamp: accountRatio.timestamp,
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Binance Local Order Book Manager
+ *
+ * Maintains full-depth books from {symbol}@depth@100ms diff streams,
+ * following Binance's documented sync procedure:
+ * 1. Buffer diffs while a REST snapshot is fetched
+ * 2. Drop buffered diffs with u < snapshot lastUpdateId
+ * 3. First applied diff must satisfy U <= lastUpdateId <= u
+ * 4. Every later diff must have pu equal to the previous diff's u
+ *
+ * Any gap discards the book and starts again from a fresh snapshot.
+ */
+
+import axios from "axios";
+import { EventEmitter } from "eventemitter3";
+import { LocalOrderBook } from "../../compute/orderbook.js";
+import { fetchOrderBookSnapshot } from "./rest.js";
+import { normalizeBinanceSymbol } from "./normalizer.js";
+import { logger } from "../../utils/logger.js";
+import type { UnifiedOrderBook } from "../../types/unified.js";
+import type {
+  BinanceDepthUpdateMessage,
+  BinanceDepthSnapshot,
+} from "../../types/binance.js";
+
+const SNAPSHOT_LIMIT = 1000;
+const SNAPSHOT_WEIGHT = 20; // Request weight of a limit=1000 depth snapshot
+const WEIGHT_WINDOW_MS = 60000;
+const WEIGHT_BUDGET_PER_WINDOW = 1200; // Half the 2400/min IP limit, the rest is left for polling
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+const RATE_LIMIT_DEFAULT_DELAY_MS = 60000; // 429/418 without a Retry-After header
+const MAX_BUFFERED_UPDATES = 500;
+
+interface BookState {
+  book: LocalOrderBook;
+  status: "pending" | "synced";
+  buffer: BinanceDepthUpdateMessage[];
+  awaitingFirstUpdate: boolean;
+}
+
+export class BinanceOrderBookManager extends EventEmitter {
+  private books: Map<string, BookState> = new Map();
+  private snapshotQueue: string[] = [];
+  private isProcessingQueue = false;
+  private spentWeight: Array<{ at: number; weight: number }> = [];
+  private backoffUntil = 0;
+  private consecutiveFailures = 0;
+  private isStopped = false;
+  private depth: number;
+  private resyncCount = 0;
+
+  constructor(depth: number = 20) {
+    super();
+    this.depth = depth;
+  }
+
+  /**
+   * Start tracking a symbol. Diffs are buffered until the snapshot lands.
+   */
+  track(symbol: string): void {
+    if (this.books.has(symbol)) {
+      return;
+    }
+
+    this.isStopped = false;
+    this.books.set(symbol, {
+      book: new LocalOrderBook(),
+      status: "pending",
+      buffer: [],
+      awaitingFirstUpdate: true,
+    });
+    this.enqueueSnapshot(symbol);
+  }
+
+  /**
+   * Stop tracking a symbol and drop its book.
+   */
+  untrack(symbol: string): void {
+    this.books.delete(symbol);
+    this.snapshotQueue = this.snapshotQueue.filter((s) => s !== symbol);
+  }
+
+  setDepth(depth: number): void {
+    this.depth = depth;
+  }
+
+  /**
+   * Drop all books and pending snapshots.
+   */
+  clear(): void {
+    this.isStopped = true;
+    this.books.clear();
+    this.snapshotQueue = [];
+  }
+
+  /**
+   * Handle a depthUpdate event from the diff stream.
+   */
+  handleDepthUpdate(update: BinanceDepthUpdateMessage): void {
+    const state = this.books.get(update.s);
+    if (!state) {
+      return;
+    }
+
+    if (state.status === "pending") {
+      state.buffer.push(update);
+      if (state.buffer.length > MAX_BUFFERED_UPDATES) {
+        state.buffer.shift();
+      }
+      return;
+    }
+
+    if (!this.applyUpdate(state, update)) {
+      this.resync(update.s, "sequence gap");
+      return;
+    }
+
+    this.emitBook(update.s, state);
+  }
+
+  /**
+   * The synced book with every local level (up to the snapshot limit plus
+   * diffs), not cut to the published depth. Undefined until synced.
+   */
+  getFullDepthBook(symbol: string): UnifiedOrderBook | undefined {
+    const state = this.books.get(symbol);
+    if (!state || state.status !== "synced" || state.book.isEmpty()) {
+      return undefined;
+    }
+
+    return state.book.toUnified("binance", normalizeBinanceSymbol(symbol), Infinity);
+  }
+
+  getStats(): {
+    trackedBooks: number;
+    syncedBooks: number;
+    pendingSnapshots: number;
+    resyncCount: number;
+  } {
+    let syncedBooks = 0;
+    for (const state of this.books.values()) {
+      if (state.status === "synced") syncedBooks++;
+    }
+
+    return {
+      trackedBooks: this.books.size,
+      syncedBooks,
+      pendingSnapshots: this.snapshotQueue.length,
+      resyncCount: this.resyncCount,
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Apply a diff if it continues the sequence. Returns false on a gap.
+   */
+  private applyUpdate(state: BookState, update: BinanceDepthUpdateMessage): boolean {
+    const lastUpdateId = state.book.lastUpdateId;
+
+    if (state.awaitingFirstUpdate) {
+      if (update.u < lastUpdateId) {
+        return true; // Already contained in the snapshot
+      }
+      if (update.U > lastUpdateId) {
+        return false; // Snapshot is older than the first diff
+      }
+      state.awaitingFirstUpdate = false;
+    } else if (update.pu !== lastUpdateId) {
+      return false;
+    }
+
+    state.book.applyDelta(update.b, update.a, update.u, update.T);
+    return true;
+  }
+
+  private applySnapshot(symbol: string, snapshot: BinanceDepthSnapshot): void {
+    const state = this.books.get(symbol);
+    if (!state) {
+      return; // Untracked while fetching
+    }
+
+    state.book.applySnapshot(snapshot.bids, snapshot.asks, snapshot.lastUpdateId, snapshot.T);
+    state.awaitingFirstUpdate = true;
+
+    const buffered = state.buffer;
+    state.buffer = [];
+
+    for (const update of buffered) {
+      if (!this.applyUpdate(state, update)) {
+        this.resync(symbol, "snapshot does not cover buffered updates");
+        return;
+      }
+    }
+
+    state.status = "synced";
+    this.emitBook(symbol, state);
+
+    logger.debug("Binance order book synced", {
+      symbol,
+      lastUpdateId: state.book.lastUpdateId,
+      bufferedUpdates: buffered.length,
+    });
+  }
+
+  private resync(symbol: string, reason: string): void {
+    const state = this.books.get(symbol);
+    if (!state) {
+      return;
+    }
+
+    this.resyncCount++;
+    logger.warn("Resyncing Binance order book", { symbol, reason });
+
+    state.book.clear();
+    state.status = "pending";
+    state.buffer = [];
+    state.awaitingFirstUpdate = true;
+    this.enqueueSnapshot(symbol);
+  }
+
+  private emitBook(symbol: string, state: BookState): void {
+    if (state.book.isEmpty()) {
+      return;
+    }
+
+    this.emit(
+      "orderbook",
+      state.book.toUnified("binance", normalizeBinanceSymbol(symbol), this.depth)
+    );
+  }
+
+  private enqueueSnapshot(symbol: string): void {
+    if (!this.snapshotQueue.includes(symbol)) {
+      this.snapshotQueue.push(symbol);
+    }
+    void this.processSnapshotQueue();
+  }
+
+  /**
+   * Fetch snapshots one at a time, spending at most WEIGHT_BUDGET_PER_WINDOW
+   * weight per minute and backing off after failures.
+   */
+  private async processSnapshotQueue(): Promise<void> {
+    if (this.isProcessingQueue) {
+      return;
+    }
+
+    this.isProcessingQueue = true;
+
+    while (this.snapshotQueue.length > 0 && !this.isStopped) {
+      const waitMs = this.getSnapshotWaitMs(Date.now());
+      if (waitMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+        continue;
+      }
+
+      const symbol = this.snapshotQueue.shift()!;
+      if (!this.books.has(symbol)) {
+        continue;
+      }
+
+      this.spentWeight.push({ at: Date.now(), weight: SNAPSHOT_WEIGHT });
+
+      try {
+        const snapshot = await fetchOrderBookSnapshot(symbol, SNAPSHOT_LIMIT);
+        this.consecutiveFailures = 0;
+        this.applySnapshot(symbol, snapshot);
+      } catch (error) {
+        // Retry after the rest of the queue, once the backoff has passed
+        this.consecutiveFailures++;
+        const delayMs =
+          getRateLimitDelayMs(error) ??
+          Math.min(RETRY_BASE_DELAY_MS * 2 ** (this.consecutiveFailures - 1), RETRY_MAX_DELAY_MS);
+        this.backoffUntil = Date.now() + delayMs;
+
+        this.emit("error", error as Error);
+        if (this.books.has(symbol)) {
+          this.snapshotQueue.push(symbol);
+        }
+      }
+    }
+
+    this.isProcessingQueue = false;
+  }
+
+  /**
+   * Time until the next snapshot may be requested: the end of any backoff,
+   * or until enough weight has left the rolling window.
+   */
+  private getSnapshotWaitMs(now: number): number {
+    this.spentWeight = this.spentWeight.filter((entry) => now - entry.at < WEIGHT_WINDOW_MS);
+
+    let waitMs = Math.max(0, this.backoffUntil - now);
+
+    let spent = this.spentWeight.reduce((sum, entry) => sum + entry.weight, 0);
+    for (const entry of this.spentWeight) {
+      if (spent + SNAPSHOT_WEIGHT <= WEIGHT_BUDGET_PER_WINDOW) {
+        break;
+      }
+      spent -= entry.weight;
+      waitMs = Math.max(waitMs, entry.at + WEIGHT_WINDOW_MS - now);
+    }
+
+    return waitMs;
+  }
+}
+
+/**
+ * Backoff for a rate-limited request (429, or 418 once the IP is banned),
+ * honouring Retry-After. Null for any other failure.
+ */
+function getRateLimitDelayMs(error: unknown): number | null {
+  if (!axios.isAxiosError(error)) {
+    return null;
+  }
+
+  const status = error.response?.status;
+  if (status !== 429 && status !== 418) {
+    return null;
+  }
+
+  const retryAfter = Number(error.response?.headers["retry-after"]);
+  return Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : RATE_LIMIT_DEFAULT_DELAY_MS;
+}
@@ -11,29 +11,47 @@ import type {
   BinanceOpenInterest,
   BinanceMarkPrice,
   Binance24hrTicker,
+  BinanceDepthSnapshot,
+  BinanceLongShortRatio,
+  BinanceFundingRate,
+  BinanceFundingInfo,
+  BinanceBookTicker,
 } from "../../types/binance.js";
-import type { SymbolInfo } from "../../types/exchanges.js";
+import type {
+  SymbolInfo,
+  InstrumentStatus,
+  FundingRateRecord,
+} from "../../types/exchanges.js";
+import { normalizeDatedSymbol } from "../../utils/expiry.js";
 
 const REST_BASE_URL = "https://fapi.binance.com";
+const SPOT_REST_BASE_URL = "https://api.binance.com";
 
 /**
- * Fetch exchange info (symbols list)
+ * Fetch raw exchange info (every contract, every status)
  */
-export async function fetchBinanceSymbols(): Promise<SymbolInfo[]> {
+async function fetchExchangeInfo(): Promise<BinanceExchangeInfo> {
   const url = `${REST_BASE_URL}/fapi/v1/exchangeInfo`;
 
-  try {
-    logger.info("Fetching Binance symbols", { url });
+  const response = await axios.get<BinanceExchangeInfo>(url, {
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Accept": "application/json",
+    },
+  });
 
-    const response = await axios.get<BinanceExchangeInfo>(url, {
-      timeout: 10000,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
-        "Accept": "application/json",
-      },
-    });
+  return response.data;
+}
+
+/**
+ * Fetch exchange info (symbols list)
+ */
+export async function fetchBinanceSymbols(): Promise<SymbolInfo[]> {
+  try {
+    logger.info("Fetching Binance symbols");
 
-    const symbols = response.data.symbols;
+    const symbols = (await fetchExchangeInfo()).symbols;
 
     // Filter for active perpetual contracts
     const perpetuals = symbols.filter(
@@ -47,6 +65,14 @@ export async function fetchBinanceSymbols(): Promise<SymbolInfo[]> {
       perpetuals: perpetuals.length,
     });
 
+    // Symbols missing from fundingInfo use the default 8h interval
+    let fundingIntervals = new Map<string, number>();
+    try {
+      fundingIntervals = await fetchBinanceFundingIntervals();
+    } catch (error) {
+      logger.warn("Failed to fetch Binance funding intervals, assuming 8h", { error });
+    }
+
     // Convert to SymbolInfo
     const symbolInfos: SymbolInfo[] = perpetuals.map((symbol) => ({
       exchangeSymbol: symbol.symbol,
@@ -55,6 +81,7 @@ export async function fetchBinanceSymbols(): Promise<SymbolInfo[]> {
       quoteAsset: symbol.quoteAsset,
       contractType: "perpetual",
       isActive: symbol.status === "TRADING",
+      fundingIntervalHours: fundingIntervals.get(symbol.symbol) ?? 8,
     }));
 
     return symbolInfos;
@@ -64,6 +91,70 @@ export async function fetchBinanceSymbols(): Promise<SymbolInfo[]> {
   }
 }
 
+/**
+ * Fetch funding intervals (hours) for symbols whose interval was adjusted.
+ * Binance only lists adjusted symbols; every other perpetual funds every 8h.
+ */
+export async function fetchBinanceFundingIntervals(): Promise<Map<string, number>> {
+  const url = `${REST_BASE_URL}/fapi/v1/fundingInfo`;
+
+  const response = await axios.get<BinanceFundingInfo[]>(url, {
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Accept": "application/json",
+    },
+  });
+
+  return new Map(
+    response.data
+      .filter((info) => info.fundingIntervalHours > 0)
+      .map((info) => [info.symbol, info.fundingIntervalHours])
+  );
+}
+
+/**
+ * Fetch trading quarterly contracts (current and next quarter).
+ */
+export async function fetchBinanceFuturesSymbols(): Promise<SymbolInfo[]> {
+  const symbols = (await fetchExchangeInfo()).symbols;
+
+  return symbols
+    .filter(
+      (symbol) =>
+        symbol.status === "TRADING" &&
+        (symbol.contractType === "CURRENT_QUARTER" || symbol.contractType === "NEXT_QUARTER") &&
+        symbol.deliveryDate > 0
+    )
+    .map((symbol) => ({
+      exchangeSymbol: symbol.symbol,
+      normalizedSymbol: normalizeDatedSymbol(symbol.baseAsset, symbol.quoteAsset, symbol.deliveryDate),
+      baseAsset: symbol.baseAsset,
+      quoteAsset: symbol.quoteAsset,
+      contractType: "quarterly",
+      isActive: true,
+      expiryTime: symbol.deliveryDate,
+    }));
+}
+
+/**
+ * Fetch every perpetual with its status (PENDING_TRADING, TRADING,
+ * SETTLING, CLOSE, ...) for listing detection.
+ */
+export async function fetchBinanceInstrumentStatuses(): Promise<InstrumentStatus[]> {
+  const symbols = (await fetchExchangeInfo()).symbols;
+
+  return symbols
+    .filter((symbol) => symbol.contractType === "PERPETUAL")
+    .map((symbol) => ({
+      exchangeSymbol: symbol.symbol,
+      normalizedSymbol: normalizeBinanceSymbol(symbol.symbol),
+      status: symbol.status,
+      isActive: symbol.status === "TRADING",
+      launchTime: symbol.onboardDate || undefined,
+    }));
+}
+
 /**
  * Normalize Binance symbol to unified format.
  * Example: "BTCUSDT" → "BTC-USDT-PERP"
@@ -110,6 +201,99 @@ export async function fetchOpenInterest(symbol: string): Promise<BinanceOpenInte
   }
 }
 
+/**
+ * Fetch settled funding rates since `startTime`, oldest first.
+ * One page of 1000 covers 30 days even for 1h funding intervals.
+ */
+export async function fetchFundingRateHistory(
+  symbol: string,
+  startTime: number
+): Promise<FundingRateRecord[]> {
+  const url = `${REST_BASE_URL}/fapi/v1/fundingRate`;
+
+  const response = await axios.get<BinanceFundingRate[]>(url, {
+    params: { symbol, startTime, limit: 1000 },
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  return response.data
+    .map((entry) => ({
+      fundingTime: entry.fundingTime,
+      rate: parseFloat(entry.fundingRate) || 0,
+    }))
+    .sort((a, b) => a.fundingTime - b.fundingTime);
+}
+
+/**
+ * Fetch the latest entry of a futures/data long/short ratio series.
+ * Returns null when the symbol has no data for the period yet.
+ */
+async function fetchLongShortRatio(
+  path: string,
+  symbol: string,
+  period: string
+): Promise<BinanceLongShortRatio | null> {
+  const url = `${REST_BASE_URL}/futures/data/${path}`;
+
+  const response = await axios.get<BinanceLongShortRatio[]>(url, {
+    params: { symbol, period, limit: 1 },
+    timeout: 5000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  return response.data[response.data.length - 1] ?? null;
+}
+
+/**
+ * Fetch the long/short account ratio across all accounts
+ */
+export async function fetchGlobalLongShortAccountRatio(
+  symbol: string,
+  period: string
+): Promise<BinanceLongShortRatio | null> {
+  return fetchLongShortRatio("globalLongShortAccountRatio", symbol, period);
+}
+
+/**
+ * Fetch the long/short position ratio of top traders
+ */
+export async function fetchTopLongShortPositionRatio(
+  symbol: string,
+  period: string
+): Promise<BinanceLongShortRatio | null> {
+  return fetchLongShortRatio("topLongShortPositionRatio", symbol, period);
+}
+
+/**
+ * Fetch order book snapshot for a symbol
+ */
+export async function fetchOrderBookSnapshot(
+  symbol: string,
+  limit: number = 1000
+): Promise<BinanceDepthSnapshot> {
+  const url = `${REST_BASE_URL}/fapi/v1/depth`;
+
+  try {
+    const response = await axios.get<BinanceDepthSnapshot>(url, {
+      params: { symbol, limit },
+      timeout: 5000,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      },
+    });
+
+    return response.data;
+  } catch (error) {
+    logger.error("Failed to fetch order book snapshot", error as Error, { symbol });
+    throw error;
+  }
+}
+
 /**
  * Fetch mark price for a symbol
  */
@@ -158,25 +342,96 @@ export async function fetch24hrTicker(symbol: string): Promise<Binance24hrTicker
   }
 }
 
+/**
+ * Fetch 24hr tickers (with best bid/ask) for every spot symbol in one request.
+ */
+export async function fetchBinanceSpotTickers(): Promise<Binance24hrTicker[]> {
+  const url = `${SPOT_REST_BASE_URL}/api/v3/ticker/24hr`;
+
+  const response = await axios.get<Binance24hrTicker[]>(url, {
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  return response.data;
+}
+
+/**
+ * Fetch mark and index prices for every contract in one request.
+ */
+export async function fetchAllMarkPrices(): Promise<BinanceMarkPrice[]> {
+  const url = `${REST_BASE_URL}/fapi/v1/premiumIndex`;
+
+  const response = await axios.get<BinanceMarkPrice[]>(url, {
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  return response.data;
+}
+
+/**
+ * Fetch 24hr statistics for every contract in one request.
+ */
+export async function fetchAll24hrTickers(): Promise<Binance24hrTicker[]> {
+  const url = `${REST_BASE_URL}/fapi/v1/ticker/24hr`;
+
+  const response = await axios.get<Binance24hrTicker[]>(url, {
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  return response.data;
+}
+
+/**
+ * Fetch best bid/ask for every contract in one request.
+ */
+export async function fetchAllBookTickers(): Promise<BinanceBookTicker[]> {
+  const url = `${REST_BASE_URL}/fapi/v1/ticker/bookTicker`;
+
+  const response = await axios.get<BinanceBookTicker[]>(url, {
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  return response.data;
+}
+
+/**
+ * Fetch all USDT symbols ranked by 24h quote volume, highest first.
+ * Throws on API failure so callers can decide on a fallback.
+ */
+export async function getRankedBinanceSymbols(): Promise<string[]> {
+  const url = `${REST_BASE_URL}/fapi/v1/ticker/24hr`;
+  const response = await axios.get<Binance24hrTicker[]>(url, {
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  // Sort by quote volume (USDT volume) descending
+  return response.data
+    .filter((ticker) => ticker.symbol.endsWith("USDT"))
+    .sort((a, b) => parseFloat(b.quoteVolume) - parseFloat(a.quoteVolume))
+    .map((ticker) => ticker.symbol);
+}
+
 /**
  * Get top symbols by 24h volume
  */
 export async function getTopBinanceSymbols(count: number = 50): Promise<string[]> {
   try {
-    const url = `${REST_BASE_URL}/fapi/v1/ticker/24hr`;
-    const response = await axios.get<Binance24hrTicker[]>(url, {
-      timeout: 10000,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
-      },
-    });
-
-    // Sort by quote volume (USDT volume) descending
-    const sorted = response.data
-      .filter((ticker) => ticker.symbol.endsWith("USDT"))
-      .sort((a, b) => parseFloat(b.quoteVolume) - parseFloat(a.quoteVolume))
-      .slice(0, count)
-      .map((ticker) => ticker.symbol);
+    const sorted = (await getRankedBinanceSymbols()).slice(0, count);
 
     logger.info("Fetched top Binance symbols by volume", { count: sorted.length });
     return sorted;
@@ -6,7 +6,7 @@
 
 import { EventEmitter } from "eventemitter3";
 import type { ExchangeConnector } from "../interface.js";
-import type { Exchange } from "../../types/unified.js";
+import type { Exchange, UnifiedOrderBook } from "../../types/unified.js";
 import type {
   SymbolInfo,
   ConnectorHealth,
@@ -15,12 +15,34 @@ import type {
   ConnectorError,
 } from "../../types/exchanges.js";
 import { BybitWebSocketManager } from "./websocket.js";
-import { normalizeBybitTicker, validateBybitTicker } from "./normalizer.js";
-import { fetchBybitSymbols } from "./symbols.js";
+import { BybitOrderBookManager } from "./orderbook.js";
+import type { BybitOrderBookData } from "./orderbook.js";
+import {
+  normalizeBybitTicker,
+  validateBybitTicker,
+  normalizeBybitTrade,
+  validateBybitTrade,
+  normalizeBybitLiquidation,
+  validateBybitLiquidation,
+  normalizeBybitSpotTicker,
+  normalizeBybitFuturesTicker,
+  normalizeBybitSymbol,
+  parseNormalizedSymbol,
+} from "./normalizer.js";
+import {
+  fetchBybitSymbols,
+  fetchBybitFundingIntervals,
+  fetchBybitSpotTickers,
+  fetchBybitFuturesSymbols,
+  fetchBybitLinearTickers,
+} from "./symbols.js";
+import { getConfig } from "../../utils/config.js";
 import { logger } from "../../utils/logger.js";
 
-interface BybitTickerMessage {
+interface BybitTopicMessage {
   topic: string;
+  type?: string; // "snapshot" | "delta" for orderbook topics
+  ts?: number;
   data: unknown;
 }
 
@@ -30,6 +52,7 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
   readonly type: "cex" | "dex" = "cex";
 
   private wsManager: BybitWebSocketManager;
+  private orderBookManager: BybitOrderBookManager;
   private symbols: Map<string, SymbolInfo> = new Map(); // exchangeSymbol -> SymbolInfo
   private isInitialized = false;
   private isStarted = false;
@@ -38,11 +61,27 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
   private reconnectCount = 0;
   private errors: ConnectorError[] = [];
   private subscribedTickers: Set<string> = new Set();
+  private subscribedTrades: Set<string> = new Set();
+  private subscribedLiquidations: Set<string> = new Set();
+  private subscribedOrderBooks: Set<string> = new Set();
+  private fundingIntervalInterval: NodeJS.Timeout | null = null;
+  private fundingIntervalRefreshMs = 3600000; // 1 hour
+  private spotPollingInterval: NodeJS.Timeout | null = null;
+  private isPollingSpot = false;
+  private futuresPollingInterval: NodeJS.Timeout | null = null;
+  private isPollingFutures = false;
+
+  // Dated futures contracts, keyed by exchange symbol (e.g. BTCUSDT-27JUN25)
+  private futuresSymbols: Map<string, SymbolInfo> = new Map();
+  private futuresSymbolsLoadedAt = 0;
+  private futuresSymbolsRefreshMs = 3600000; // 1 hour
 
   constructor() {
     super();
     this.wsManager = new BybitWebSocketManager();
+    this.orderBookManager = new BybitOrderBookManager();
     this.setupWebSocketHandlers();
+    this.setupOrderBookHandlers();
   }
 
   // ══════════════════════════════════════════════════════════════════════
@@ -95,6 +134,9 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
 
     // Connect WebSocket
     this.wsManager.connect();
+    this.startFundingIntervalRefresh();
+    this.startSpotPolling();
+    this.startFuturesPolling();
 
     this.isStarted = true;
   }
@@ -105,6 +147,10 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
     // Unsubscribe from all
     await this.unsubscribeAll();
 
+    this.stopFundingIntervalRefresh();
+    this.stopSpotPolling();
+    this.stopFuturesPolling();
+
     // Disconnect WebSocket
     this.wsManager.disconnect();
 
@@ -126,6 +172,12 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
       lastMessageTime: this.lastMessageTime,
       reconnectCount: this.reconnectCount,
       errors: [...this.errors].slice(-10), // Last 10 errors
+      extra: {
+        topicCount: this.wsManager.getSubscriptions().length,
+        tradeSubscriptions: this.subscribedTrades.size,
+        liquidationSubscriptions: this.subscribedLiquidations.size,
+        orderBooks: this.orderBookManager.getStats(),
+      },
     };
   }
 
@@ -140,6 +192,27 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
     return Array.from(this.symbols.values());
   }
 
+  /**
+   * Re-fetch the instrument list so new listings become known. Symbols
+   * missing from the fresh list are kept for normalization but marked
+   * inactive. Throws on failure, leaving the current list in place.
+   */
+  async refreshSymbols(): Promise<SymbolInfo[]> {
+    const symbolList = await fetchBybitSymbols();
+    const fresh = new Set(symbolList.map((symbol) => symbol.exchangeSymbol));
+
+    for (const [exchangeSymbol, info] of this.symbols.entries()) {
+      if (!fresh.has(exchangeSymbol)) {
+        this.symbols.set(exchangeSymbol, { ...info, isActive: false });
+      }
+    }
+    for (const symbol of symbolList) {
+      this.symbols.set(symbol.exchangeSymbol, symbol);
+    }
+
+    return Array.from(this.symbols.values());
+  }
+
   normalizeSymbol(exchangeSymbol: string): string {
     const symbolInfo = this.symbols.get(exchangeSymbol);
     if (symbolInfo) {
@@ -182,6 +255,15 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
     return normalizedSymbol;
   }
 
+  /**
+   * Order book with every locally maintained level for a normalized symbol.
+   * Published books stop at the subscribed depth; impact and arbitrage
+   * sizing read this instead.
+   */
+  getFullDepthOrderBook(normalizedSymbol: string): UnifiedOrderBook | undefined {
+    return this.orderBookManager.getFullDepthBook(this.denormalizeSymbol(normalizedSymbol));
+  }
+
   // ══════════════════════════════════════════════════════════════════════
   // DATA SUBSCRIPTIONS
   // ══════════════════════════════════════════════════════════════════════
@@ -216,44 +298,146 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
     });
   }
 
+  /**
+   * Subscribe to order books via orderbook.{N}.{symbol} topics.
+   * 
+   * N is the smallest Bybit depth covering `depth`; emitted books carry
+   * `depth` levels per side.
+   */
   async subscribeToOrderBooks(
-    _symbols: string[],
-    _depth: number = 20
+    symbols: string[],
+    depth: number = 20
   ): Promise<void> {
-    // Not implemented in Phase 1A
-    logger.warn("Order book subscriptions not implemented in Phase 1A");
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    this.orderBookManager.setDepth(depth);
+    exchangeSymbols.forEach((symbol) => this.orderBookManager.track(symbol));
+
+    // Build topic list: "orderbook.50.BTCUSDT"
+    const topics = exchangeSymbols.map((symbol) => this.getOrderBookTopic(symbol));
+
+    this.wsManager.subscribe(topics);
+
+    exchangeSymbols.forEach((symbol) => this.subscribedOrderBooks.add(symbol));
+
+    logger.info("Subscribed to Bybit order books", {
+      symbolCount: exchangeSymbols.length,
+      topicDepth: this.orderBookManager.getTopicDepth(),
+    });
   }
 
   /**
-   * Subscribe to trade events.
-   * 
-   * NOTE: Trade subscriptions are not yet implemented.
-   * This means metrics that depend on trade data will be zero or unavailable:
-   * - CVD (Cumulative Volume Delta) - all timeframes
-   * - Taker buy ratio - all timeframes
-   * - Volume surge - requires trade volume data
-   * - Volume windows (1m, 5m, 15m, 1h) - not populated
+   * Subscribe to trade events via publicTrade.{symbol} topics.
    * 
-   * Metrics that work with ticker data only:
-   * - Price changes (1m, 5m, 15m, 1h) ✓
-   * - Price velocity and acceleration ✓
-   * - Funding rates ✓
-   * - Spread metrics ✓
-   * 
-   * To implement: Subscribe to Bybit publicTrade.{symbol} WebSocket topic.
+   * Trades feed the volume windows behind CVD, taker buy ratio and
+   * volume surge metrics.
+   */
+  async subscribeToTrades(symbols: string[]): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    // Build topic list: "publicTrade.BTCUSDT"
+    const topics = exchangeSymbols.map((symbol) => `publicTrade.${symbol}`);
+
+    this.wsManager.subscribe(topics);
+
+    exchangeSymbols.forEach((symbol) => this.subscribedTrades.add(symbol));
+
+    logger.info("Subscribed to Bybit trades", {
+      symbolCount: exchangeSymbols.length,
+    });
+  }
+
+  /**
+   * Subscribe to liquidation events via allLiquidation.{symbol} topics.
    */
-  async subscribeToTrades(_symbols: string[]): Promise<void> {
-    logger.warn("Trade subscriptions not implemented - CVD, volume surge, and taker buy ratio metrics will be unavailable");
+  async subscribeToLiquidations(symbols: string[]): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    // Build topic list: "allLiquidation.BTCUSDT"
+    const topics = exchangeSymbols.map((symbol) => `allLiquidation.${symbol}`);
+
+    this.wsManager.subscribe(topics);
+
+    exchangeSymbols.forEach((symbol) => this.subscribedLiquidations.add(symbol));
+
+    logger.info("Subscribed to Bybit liquidations", {
+      symbolCount: exchangeSymbols.length,
+    });
   }
 
-  async subscribeToLiquidations(_symbols: string[]): Promise<void> {
-    // Not implemented in Phase 1A
-    logger.warn("Liquidation subscriptions not implemented in Phase 1A");
+  /**
+   * Unsubscribe every topic for the given symbols.
+   */
+  async unsubscribeSymbols(symbols: string[]): Promise<void> {
+    const exchangeSymbols = symbols.map((symbol) => {
+      if (this.symbols.has(symbol)) {
+        return symbol;
+      }
+      return this.denormalizeSymbol(symbol);
+    });
+
+    // Only unsubscribe topics that were subscribed, Bybit rejects the rest
+    const subscribed = new Set(this.wsManager.getSubscriptions());
+    const topics = exchangeSymbols
+      .flatMap((symbol) => [
+        `tickers.${symbol}`,
+        `publicTrade.${symbol}`,
+        `allLiquidation.${symbol}`,
+        this.getOrderBookTopic(symbol),
+      ])
+      .filter((topic) => subscribed.has(topic));
+
+    if (topics.length > 0) {
+      this.wsManager.unsubscribe(topics);
+    }
+
+    for (const symbol of exchangeSymbols) {
+      this.subscribedTickers.delete(symbol);
+      this.subscribedTrades.delete(symbol);
+      this.subscribedLiquidations.delete(symbol);
+      this.subscribedOrderBooks.delete(symbol);
+      this.orderBookManager.untrack(symbol);
+    }
+
+    logger.info("Unsubscribed from Bybit symbols", {
+      symbolCount: exchangeSymbols.length,
+    });
   }
 
   async unsubscribeAll(): Promise<void> {
     this.wsManager.unsubscribeAll();
     this.subscribedTickers.clear();
+    this.subscribedTrades.clear();
+    this.subscribedLiquidations.clear();
+    this.subscribedOrderBooks.clear();
+    this.orderBookManager.clear();
     logger.info("Unsubscribed from all Bybit topics");
   }
 
@@ -262,13 +446,24 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
   // ══════════════════════════════════════════════════════════════════════
 
   async pollRestData(): Promise<void> {
-    // Bybit ticker includes OI and funding, so no REST polling needed for Phase 1A
+    // Bybit ticker includes OI and funding; spot polling is handled by startSpotPolling()
     logger.debug("No REST polling required for Bybit tickers");
   }
 
   getPollingConfig(): PollingConfig {
     return {
-      endpoints: [],
+      endpoints: [
+        {
+          name: "spotTickers",
+          intervalMs: getConfig().spot.pollIntervalMs,
+          symbols: Array.from(this.subscribedTickers),
+        },
+        {
+          name: "futuresTickers",
+          intervalMs: getConfig().futures.pollIntervalMs,
+          symbols: Array.from(this.futuresSymbols.keys()),
+        },
+      ],
     };
   }
 
@@ -286,8 +481,8 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
     });
 
     // Handle incoming messages
-    this.wsManager.on("message", (msg: BybitTickerMessage) => {
-      this.handleTickerMessage(msg);
+    this.wsManager.on("message", (msg: BybitTopicMessage) => {
+      this.handleTopicMessage(msg);
     });
 
     // Handle errors
@@ -301,32 +496,71 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
     });
   }
 
-  private handleTickerMessage(msg: BybitTickerMessage): void {
+  private setupOrderBookHandlers(): void {
+    this.orderBookManager.on("orderbook", (book: UnifiedOrderBook) => {
+      this.emit("orderbook", book);
+    });
+
+    // Resubscribing makes Bybit push a fresh snapshot
+    this.orderBookManager.on("resync", (symbol: string) => {
+      this.recordError("orderbook_integrity", `Order book resync for ${symbol}`);
+      const topic = this.getOrderBookTopic(symbol);
+      this.wsManager.unsubscribe([topic]);
+      this.wsManager.subscribe([topic]);
+    });
+  }
+
+  private getOrderBookTopic(symbol: string): string {
+    return `orderbook.${this.orderBookManager.getTopicDepth()}.${symbol}`;
+  }
+
+  private handleTopicMessage(msg: BybitTopicMessage): void {
     // Update message tracking
     this.messageCount++;
     this.lastMessageTime = Date.now();
 
-    // Extract symbol from topic: "tickers.BTCUSDT"
+    // Route by topic prefix: "tickers.BTCUSDT", "publicTrade.BTCUSDT",
+    // "allLiquidation.BTCUSDT", "orderbook.50.BTCUSDT"
     const topicParts = msg.topic.split(".");
-    if (topicParts.length < 2 || topicParts[0] !== "tickers") {
+    if (topicParts.length < 2) {
       logger.warn("Unknown topic format", { topic: msg.topic });
       return;
     }
 
-    const exchangeSymbol = topicParts[1];
+    if (topicParts[0] === "tickers") {
+      this.handleTickerMessage(topicParts[1], msg.data);
+    } else if (topicParts[0] === "publicTrade") {
+      this.handleTradeMessage(msg.data);
+    } else if (topicParts[0] === "allLiquidation") {
+      this.handleLiquidationMessage(msg.data);
+    } else if (topicParts[0] === "orderbook") {
+      this.orderBookManager.handleMessage(
+        msg.type,
+        msg.data as BybitOrderBookData,
+        msg.ts ?? Date.now()
+      );
+    } else {
+      logger.warn("Unknown topic format", { topic: msg.topic });
+    }
+  }
 
+  private handleTickerMessage(exchangeSymbol: string, data: unknown): void {
     // Validate and normalize ticker data
-    if (!validateBybitTicker(msg.data)) {
+    if (!validateBybitTicker(data)) {
       logger.warn("Invalid ticker data", {
         symbol: exchangeSymbol,
-        data: msg.data,
+        data,
       });
       return;
     }
 
     try {
       // Normalize to UnifiedMarket
-      const market = normalizeBybitTicker(exchangeSymbol, msg.data);
+      const market = normalizeBybitTicker(
+        exchangeSymbol,
+        data,
+        this.symbols.get(exchangeSymbol)?.fundingIntervalHours
+      );
 
       // Emit normalized market data
       this.emit("market", market);
@@ -338,6 +572,181 @@ export class BybitConnector extends EventEmitter implements ExchangeConnector {
     }
   }
 
+  /**
+   * Bybit moves volatile symbols to shorter funding intervals, so the
+   * intervals loaded at initialize are refreshed periodically.
+   */
+  private startFundingIntervalRefresh(): void {
+    this.stopFundingIntervalRefresh();
+
+    this.fundingIntervalInterval = setInterval(async () => {
+      try {
+        const intervals = await fetchBybitFundingIntervals();
+        for (const [symbol, info] of this.symbols.entries()) {
+          info.fundingIntervalHours = intervals.get(symbol) ?? info.fundingIntervalHours;
+        }
+      } catch (error) {
+        logger.warn("Failed to refresh Bybit funding intervals", { error });
+      }
+    }, this.fundingIntervalRefreshMs);
+  }
+
+  private stopFundingIntervalRefresh(): void {
+    if (this.fundingIntervalInterval) {
+      clearInterval(this.fundingIntervalInterval);
+      this.fundingIntervalInterval = null;
+    }
+  }
+
+  private startSpotPolling(): void {
+    this.stopSpotPolling();
+
+    const intervalMs = getConfig().spot.pollIntervalMs;
+
+    this.spotPollingInterval = setInterval(() => {
+      void this.pollSpotTickers();
+    }, intervalMs);
+
+    logger.info("Started Bybit spot ticker polling", { intervalMs });
+  }
+
+  /**
+   * Fetch every spot ticker in one request and emit "spot" for the
+   * counterpart (same base and quote) of each subscribed perpetual.
+   */
+  private async pollSpotTickers(): Promise<void> {
+    if (this.isPollingSpot || this.subscribedTickers.size === 0) {
+      return;
+    }
+
+    this.isPollingSpot = true;
+
+    try {
+      const tickers = await fetchBybitSpotTickers();
+      const bySymbol = new Map(tickers.map((ticker) => [ticker.symbol, ticker]));
+
+      for (const symbol of this.subscribedTickers) {
+        const { baseAsset, quoteAsset } =
+          this.symbols.get(symbol) ?? parseNormalizedSymbol(normalizeBybitSymbol(symbol));
+        const ticker = bySymbol.get(`${baseAsset}${quoteAsset}`);
+
+        if (ticker && parseFloat(ticker.bid1Price) > 0 && parseFloat(ticker.ask1Price) > 0) {
+          this.emit("spot", normalizeBybitSpotTicker(ticker, baseAsset, quoteAsset));
+        }
+      }
+    } catch (error) {
+      logger.warn("Failed to fetch Bybit spot tickers", { error });
+      this.recordError("spot_polling_error", (error as Error).message);
+    } finally {
+      this.isPollingSpot = false;
+    }
+  }
+
+  private stopSpotPolling(): void {
+    if (this.spotPollingInterval) {
+      clearInterval(this.spotPollingInterval);
+      this.spotPollingInterval = null;
+    }
+  }
+
+  private startFuturesPolling(): void {
+    this.stopFuturesPolling();
+
+    const intervalMs = getConfig().futures.pollIntervalMs;
+
+    this.futuresPollingInterval = setInterval(() => {
+      void this.pollFuturesTickers();
+    }, intervalMs);
+
+    logger.info("Started Bybit dated futures polling", { intervalMs });
+  }
+
+  /**
+   * Emit "futures" for every dated linear contract whose base asset has a
+   * subscribed perpetual. The contract list is reloaded hourly so newly
+   * listed expiries are picked up.
+   */
+  private async pollFuturesTickers(): Promise<void> {
+    if (this.isPollingFutures || this.subscribedTickers.size === 0) {
+      return;
+    }
+
+    this.isPollingFutures = true;
+
+    try {
+      if (Date.now() - this.futuresSymbolsLoadedAt > this.futuresSymbolsRefreshMs) {
+        const contracts = await fetchBybitFuturesSymbols();
+        this.futuresSymbols = new Map(contracts.map((info) => [info.exchangeSymbol, info]));
+        this.futuresSymbolsLoadedAt = Date.now();
+      }
+
+      const subscribedAssets = new Set(
+        Array.from(this.subscribedTickers).map(
+          (symbol) =>
+            (this.symbols.get(symbol) ?? parseNormalizedSymbol(normalizeBybitSymbol(symbol)))
+              .baseAsset
+        )
+      );
+
+      const contracts = Array.from(this.futuresSymbols.values()).filter((info) =>
+        subscribedAssets.has(info.baseAsset)
+      );
+      if (contracts.length === 0) {
+        return;
+      }
+
+      const tickers = await fetchBybitLinearTickers();
+      const bySymbol = new Map(tickers.map((ticker) => [ticker.symbol, ticker]));
+
+      for (const info of contracts) {
+        const ticker = bySymbol.get(info.exchangeSymbol);
+        if (ticker) {
+          this.emit("futures", normalizeBybitFuturesTicker(info, ticker));
+        }
+      }
+    } catch (error) {
+      logger.warn("Failed to fetch Bybit dated futures", { error });
+      this.recordError("futures_polling_error", (error as Error).message);
+    } finally {
+      this.isPollingFutures = false;
+    }
+  }
+
+  private stopFuturesPolling(): void {
+    if (this.futuresPollingInterval) {
+      clearInterval(this.futuresPollingInterval);
+      this.futuresPollingInterval = null;
+    }
+  }
+
+  private handleTradeMessage(data: unknown): void {
+    // Trades arrive in batches
+    if (!Array.isArray(data)) {
+      return;
+    }
+
+    const threshold = getConfig().compute.largeTradeThresholdUsd;
+
+    for (const trade of data) {
+      if (validateBybitTrade(trade)) {
+        this.emit("trade", normalizeBybitTrade(trade, threshold));
+      }
+    }
+  }
+
+  private handleLiquidationMessage(data: unknown): void {
+    // Liquidations arrive in batches
+    if (!Array.isArray(data)) {
+      return;
+    }
+
+    for (const liquidation of data) {
+      if (validateBybitLiquidation(liquidation)) {
+        this.emit("liquidation", normalizeBybitLiquidation(liquidation));
+      }
+    }
+  }
+
   private recordError(code: string, message: string): void {
     const error: ConnectorError = {
       code,
@@ -1,16 +1,23 @@
 /**
  * Bybit → UnifiedMarket Normalizer
  * 
- * Transforms Bybit V5 ticker data into the unified UnifiedMarket schema.
+ * Transforms Bybit V5 ticker, trade and liquidation data into the unified schemas.
  */
 
-import type { UnifiedMarket } from "../../types/unified.js";
+import type {
+  UnifiedMarket,
+  UnifiedTrade,
+  UnifiedLiquidation,
+  PositioningSnapshot,
+} from "../../types/unified.js";
+import type { SymbolInfo } from "../../types/exchanges.js";
+import { normalizeFundingRate, DEFAULT_FUNDING_INTERVAL_HOURS } from "../../utils/funding.js";
 
 // ══════════════════════════════════════════════════════════════════════
 // BYBIT TICKER DATA STRUCTURE
 // ══════════════════════════════════════════════════════════════════════
 
-interface BybitTickerData {
+export interface BybitTickerData {
   symbol: string;
   lastPrice: string;
   markPrice: string;
@@ -31,6 +38,62 @@ interface BybitTickerData {
   prevPrice24h: string;
 }
 
+// ══════════════════════════════════════════════════════════════════════
+// BYBIT SPOT TICKER DATA STRUCTURE
+// ══════════════════════════════════════════════════════════════════════
+
+export interface BybitSpotTickerData {
+  symbol: string;
+  lastPrice: string;
+  bid1Price: string;
+  bid1Size: string;
+  ask1Price: string;
+  ask1Size: string;
+  volume24h: string;
+  turnover24h: string;
+  price24hPcnt: string;
+  highPrice24h: string;
+  lowPrice24h: string;
+  prevPrice24h: string;
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// BYBIT TRADE DATA STRUCTURE
+// ══════════════════════════════════════════════════════════════════════
+
+interface BybitTradeData {
+  T: number;           // Trade timestamp (ms)
+  s: string;           // Symbol
+  S: "Buy" | "Sell";   // Taker side
+  v: string;           // Trade size
+  p: string;           // Trade price
+  i: string;           // Trade ID
+  BT?: boolean;        // Block trade
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// BYBIT LIQUIDATION DATA STRUCTURE
+// ══════════════════════════════════════════════════════════════════════
+
+interface BybitLiquidationData {
+  T: number;           // Update timestamp (ms)
+  s: string;           // Symbol
+  S: "Buy" | "Sell";   // Position side liquidated ("Buy" = long)
+  v: string;           // Executed size
+  p: string;           // Bankruptcy price
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// BYBIT ACCOUNT RATIO DATA STRUCTURE
+// ══════════════════════════════════════════════════════════════════════
+
+export interface BybitAccountRatio {
+  symbol: string;
+  buyRatio: string;    // Fraction of accounts long (0-1)
+  sellRatio: string;   // Fraction of accounts short (0-1)
+  timestamp: string;   // ms
+}
+
 // ══════════════════════════════════════════════════════════════════════
 // NORMALIZATION FUNCTIONS
 // ══════════════════════════════════════════════════════════════════════
@@ -91,7 +154,8 @@ export function parseNormalizedSymbol(normalizedSymbol: string): {
  */
 export function normalizeBybitTicker(
   exchangeSymbol: string,
-  tickerData: BybitTickerData
+  tickerData: BybitTickerData,
+  fundingIntervalHours: number = DEFAULT_FUNDING_INTERVAL_HOURS
 ): UnifiedMarket {
   const normalizedSymbol = normalizeBybitSymbol(exchangeSymbol);
   const { baseAsset, quoteAsset } = parseNormalizedSymbol(normalizedSymbol);
@@ -117,12 +181,9 @@ export function normalizeBybitTicker(
   const nextFundingTime = tickerData.nextFundingTime ? parseInt(tickerData.nextFundingTime) : null;
   const timeToFunding = nextFundingTime ? Math.max(0, nextFundingTime - now) : null;
   
-  // Calculate annualized funding rate (assuming 8-hour intervals)
-  const fundingIntervalHours = 8;
-  const intervalsPerYear = (365 * 24) / fundingIntervalHours;
-  const fundingRateAnnualized = fundingRate !== null
-    ? fundingRate * intervalsPerYear * 100
-    : null;
+  // Normalize funding using the interval from instrument info
+  const { fundingRatePerHour, fundingRate8h, fundingRateAnnualized } =
+    normalizeFundingRate(fundingRate, fundingIntervalHours);
   
   // Volume and OI
   const volume24hBase = parseFloat(tickerData.volume24h) || 0;
@@ -149,6 +210,7 @@ export function normalizeBybitTicker(
     baseAsset,
     quoteAsset,
     marketType: "perpetual",
+    expiryTime: null,
     exchangeSymbol,
     
     // Price data
@@ -167,6 +229,8 @@ export function normalizeBybitTicker(
     fundingRate,
     fundingRateNext: null, // Not available in ticker
     fundingRateAnnualized,
+    fundingRatePerHour,
+    fundingRate8h,
     nextFundingTime,
     timeToFunding,
     fundingIntervalHours: fundingRate !== null ? fundingIntervalHours : null,
@@ -202,6 +266,180 @@ export function normalizeBybitTicker(
   return market;
 }
 
+/**
+ * Convert a Bybit linear dated-futures ticker to UnifiedMarket,
+ * e.g. BTCUSDT-27JUN25 → "BTC-USDT-250627".
+ */
+export function normalizeBybitFuturesTicker(
+  info: SymbolInfo,
+  tickerData: BybitTickerData
+): UnifiedMarket {
+  const now = Date.now();
+  
+  const lastPrice = parseFloat(tickerData.lastPrice) || 0;
+  const bestBid = parseFloat(tickerData.bid1Price) || 0;
+  const bestBidQty = parseFloat(tickerData.bid1Size) || 0;
+  const bestAsk = parseFloat(tickerData.ask1Price) || 0;
+  const bestAskQty = parseFloat(tickerData.ask1Size) || 0;
+  
+  const midPrice = bestBid > 0 && bestAsk > 0 ? (bestBid + bestAsk) / 2 : lastPrice;
+  const spreadAbsolute = bestBid > 0 && bestAsk > 0 ? bestAsk - bestBid : 0;
+  const spreadPercent = midPrice > 0 ? (spreadAbsolute / midPrice) * 100 : 0;
+  
+  const volume24h = parseFloat(tickerData.turnover24h) || 0;
+  const open24h = parseFloat(tickerData.prevPrice24h) || 0;
+  
+  return {
+    // Identifiers
+    id: `bybit:${info.normalizedSymbol}`,
+    exchange: "bybit",
+    symbol: info.normalizedSymbol,
+    baseAsset: info.baseAsset,
+    quoteAsset: info.quoteAsset,
+    marketType: "quarterly",
+    expiryTime: info.expiryTime ?? null,
+    exchangeSymbol: info.exchangeSymbol,
+    
+    // Price data
+    lastPrice,
+    markPrice: parseFloat(tickerData.markPrice) || null,
+    indexPrice: parseFloat(tickerData.indexPrice) || null,
+    bestBid,
+    bestBidQty,
+    bestAsk,
+    bestAskQty,
+    midPrice,
+    spreadAbsolute,
+    spreadPercent,
+    
+    // Funding (dated futures do not fund)
+    fundingRate: null,
+    fundingRateNext: null,
+    fundingRateAnnualized: null,
+    fundingRatePerHour: null,
+    fundingRate8h: null,
+    nextFundingTime: null,
+    timeToFunding: null,
+    fundingIntervalHours: null,
+    
+    // Volume & OI
+    volume24h,
+    volume24hBase: parseFloat(tickerData.volume24h) || 0,
+    volume24hUsd: volume24h,
+    tradeCount24h: null,
+    openInterest: tickerData.openInterest ? parseFloat(tickerData.openInterest) : null,
+    openInterestUsd: tickerData.openInterestValue
+      ? parseFloat(tickerData.openInterestValue)
+      : null,
+    
+    // 24h statistics
+    high24h: parseFloat(tickerData.highPrice24h) || 0,
+    low24h: parseFloat(tickerData.lowPrice24h) || 0,
+    open24h,
+    priceChange24h: lastPrice - open24h,
+    priceChangePercent24h: parseFloat(tickerData.price24hPcnt) * 100 || 0,
+    
+    // Metadata
+    updatedAt: now,
+    dataAge: 0,
+    isFresh: true,
+    
+    // Data quality flags
+    flags: {
+      hasRealTimeOI: false,
+      hasFullLiquidations: false,
+      hasFunding: false,
+    },
+  };
+}
+
+/**
+ * Convert a Bybit spot ticker to a spot UnifiedMarket.
+ * Base and quote come from the linked perpetual, e.g. BTCUSDT → "BTC-USDT-SPOT".
+ */
+export function normalizeBybitSpotTicker(
+  tickerData: BybitSpotTickerData,
+  baseAsset: string,
+  quoteAsset: string
+): UnifiedMarket {
+  const normalizedSymbol = `${baseAsset}-${quoteAsset}-SPOT`;
+  const now = Date.now();
+  
+  const lastPrice = parseFloat(tickerData.lastPrice) || 0;
+  const bestBid = parseFloat(tickerData.bid1Price) || 0;
+  const bestBidQty = parseFloat(tickerData.bid1Size) || 0;
+  const bestAsk = parseFloat(tickerData.ask1Price) || 0;
+  const bestAskQty = parseFloat(tickerData.ask1Size) || 0;
+  
+  const midPrice = (bestBid + bestAsk) / 2;
+  const spreadAbsolute = bestAsk - bestBid;
+  const spreadPercent = midPrice > 0 ? (spreadAbsolute / midPrice) * 100 : 0;
+  
+  const volume24h = parseFloat(tickerData.turnover24h) || 0; // Quote currency
+  const open24h = parseFloat(tickerData.prevPrice24h) || 0;
+  
+  return {
+    // Identifiers
+    id: `bybit:${normalizedSymbol}`,
+    exchange: "bybit",
+    symbol: normalizedSymbol,
+    baseAsset,
+    quoteAsset,
+    marketType: "spot",
+    expiryTime: null,
+    exchangeSymbol: tickerData.symbol,
+    
+    // Price data
+    lastPrice,
+    markPrice: null,
+    indexPrice: null,
+    bestBid,
+    bestBidQty,
+    bestAsk,
+    bestAskQty,
+    midPrice,
+    spreadAbsolute,
+    spreadPercent,
+    
+    // Funding (not applicable to spot)
+    fundingRate: null,
+    fundingRateNext: null,
+    fundingRateAnnualized: null,
+    fundingRatePerHour: null,
+    fundingRate8h: null,
+    nextFundingTime: null,
+    timeToFunding: null,
+    fundingIntervalHours: null,
+    
+    // Volume & OI
+    volume24h,
+    volume24hBase: parseFloat(tickerData.volume24h) || 0,
+    volume24hUsd: volume24h, // USDT quote, which is ~USD
+    tradeCount24h: null,
+    openInterest: null,
+    openInterestUsd: null,
+    
+    // 24h statistics
+    high24h: parseFloat(tickerData.highPrice24h) || 0,
+    low24h: parseFloat(tickerData.lowPrice24h) || 0,
+    open24h,
+    priceChange24h: lastPrice - open24h,
+    priceChangePercent24h: parseFloat(tickerData.price24hPcnt) * 100 || 0,
+    
+    // Metadata
+    updatedAt: now,
+    dataAge: 0,
+    isFresh: true,
+    
+    // Data quality flags
+    flags: {
+      hasRealTimeOI: false,
+      hasFullLiquidations: false,
+      hasFunding: false,
+    },
+  };
+}
+
 /**
  * Validate Bybit ticker data structure.
  */
@@ -219,3 +457,113 @@ export function validateBybitTicker(data: unknown): data is BybitTickerData {
   );
 }
 
+/**
+ * Convert a Bybit public trade to UnifiedTrade.
+ * `S` is already the taker (aggressor) side.
+ */
+export function normalizeBybitTrade(
+  trade: BybitTradeData,
+  largeTradeThresholdUsd: number
+): UnifiedTrade {
+  const price = parseFloat(trade.p);
+  const quantity = parseFloat(trade.v);
+  const quoteQuantity = price * quantity;
+
+  return {
+    id: `bybit:${trade.s}:${trade.i}`,
+    exchange: "bybit",
+    symbol: normalizeBybitSymbol(trade.s),
+    price,
+    quantity,
+    quoteQuantity,
+    side: trade.S === "Buy" ? "buy" : "sell",
+    timestamp: trade.T,
+    isLargeTrade: quoteQuantity >= largeTradeThresholdUsd,
+  };
+}
+
+/**
+ * Validate Bybit trade data structure.
+ */
+export function validateBybitTrade(data: unknown): data is BybitTradeData {
+  if (!data || typeof data !== "object") {
+    return false;
+  }
+
+  const trade = data as Record<string, unknown>;
+
+  return (
+    typeof trade.s === "string" &&
+    typeof trade.p === "string" &&
+    typeof trade.v === "string" &&
+    (trade.S === "Buy" || trade.S === "Sell")
+  );
+}
+
+/**
+ * Convert a Bybit allLiquidation entry to UnifiedLiquidation.
+ * Bybit pushes liquidations in batches but still samples them.
+ */
+export function normalizeBybitLiquidation(
+  liquidation: BybitLiquidationData
+): UnifiedLiquidation {
+  const price = parseFloat(liquidation.p);
+  const quantity = parseFloat(liquidation.v);
+
+  return {
+    id: `bybit:${liquidation.s}:${liquidation.T}:${liquidation.S}:${liquidation.v}`,
+    exchange: "bybit",
+    symbol: normalizeBybitSymbol(liquidation.s),
+    side: liquidation.S === "Buy" ? "long" : "short",
+    price,
+    quantity,
+    quoteQuantity: price * quantity,
+    timestamp: liquidation.T,
+    isComplete: false,
+  };
+}
+
+/**
+ * Validate Bybit liquidation data structure.
+ */
+export function validateBybitLiquidation(data: unknown): data is BybitLiquidationData {
+  if (!data || typeof data !== "object") {
+    return false;
+  }
+
+  const liquidation = data as Record<string, unknown>;
+
+  return (
+    typeof liquidation.s === "string" &&
+    typeof liquidation.p === "string" &&
+    typeof liquidation.v === "string" &&
+    (liquidation.S === "Buy" || liquidation.S === "Sell")
+  );
+}
+
+/**
+ * Convert a Bybit account-ratio entry to a PositioningSnapshot.
+ * Bybit has no top-trader series, so those fields are null.
+ */
+export function normalizeBybitAccountRatio(
+  ratio: BybitAccountRatio,
+  period: string
+): PositioningSnapshot {
+  const normalizedSymbol = normalizeBybitSymbol(ratio.symbol);
+  const longFraction = parseFloat(ratio.buyRatio) || 0;
+  const shortFraction = parseFloat(ratio.sellRatio) || 0;
+
+  return {
+    id: `bybit:${normalizedSymbol}`,
+    exchange: "bybit",
+    symbol: normalizedSymbol,
+    period,
+    longShortAccountRatio: shortFraction > 0 ? longFraction / shortFraction : 0,
+    longAccountPercent: longFraction * 100,
+    shortAccountPercent: shortFraction * 100,
+    topTraderLongShortPositionRatio: null,
+    topTraderLongPercent: null,
+    topTraderShortPercent: null,
+    timestamp: parseInt(ratio.timestamp, 10) || Date.now(),
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Bybit Local Order Book Manager
+ *
+ * Maintains books from orderbook.{depth}.{symbol} topics. Bybit sends a
+ * snapshot on subscribe, then deltas whose update id `u` increments by one.
+ * A missing update, a stale cross sequence or a crossed book marks the
+ * book invalid and asks the connector to resubscribe for a fresh snapshot.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import { LocalOrderBook } from "../../compute/orderbook.js";
+import type { RawPriceLevel } from "../../compute/orderbook.js";
+import { normalizeBybitSymbol } from "./normalizer.js";
+import { logger } from "../../utils/logger.js";
+import type { UnifiedOrderBook } from "../../types/unified.js";
+
+// ══════════════════════════════════════════════════════════════════════
+// BYBIT ORDER BOOK DATA STRUCTURE
+// ══════════════════════════════════════════════════════════════════════
+
+export interface BybitOrderBookData {
+  s: string;               // Symbol
+  b: RawPriceLevel[];      // Bids [price, size], size "0" removes the level
+  a: RawPriceLevel[];      // Asks [price, size]
+  u: number;               // Update ID (1 means the service restarted)
+  seq: number;             // Cross sequence
+}
+
+/** Depths supported by Bybit linear orderbook topics */
+export const BYBIT_ORDERBOOK_DEPTHS = [1, 50, 200, 500];
+
+interface BookState {
+  book: LocalOrderBook;
+  isValid: boolean;
+  lastSeq: number;
+}
+
+export class BybitOrderBookManager extends EventEmitter {
+  private books: Map<string, BookState> = new Map();
+  private depth: number;
+  private resyncCount = 0;
+
+  constructor(depth: number = 20) {
+    super();
+    this.depth = depth;
+  }
+
+  setDepth(depth: number): void {
+    this.depth = depth;
+  }
+
+  /**
+   * Smallest Bybit topic depth that covers the requested number of levels.
+   */
+  getTopicDepth(): number {
+    return (
+      BYBIT_ORDERBOOK_DEPTHS.find((supported) => supported >= this.depth) ??
+      BYBIT_ORDERBOOK_DEPTHS[BYBIT_ORDERBOOK_DEPTHS.length - 1]
+    );
+  }
+
+  track(symbol: string): void {
+    if (!this.books.has(symbol)) {
+      this.books.set(symbol, { book: new LocalOrderBook(), isValid: false, lastSeq: 0 });
+    }
+  }
+
+  untrack(symbol: string): void {
+    this.books.delete(symbol);
+  }
+
+  clear(): void {
+    this.books.clear();
+  }
+
+  /**
+   * Handle an orderbook topic message.
+   */
+  handleMessage(type: string | undefined, data: BybitOrderBookData, timestamp: number): void {
+    const state = this.books.get(data.s);
+    if (!state) {
+      return;
+    }
+
+    // u === 1 means Bybit restarted the book; treat it as a snapshot
+    if (type === "snapshot" || data.u === 1) {
+      state.book.applySnapshot(data.b, data.a, data.u, timestamp);
+      state.lastSeq = data.seq;
+      state.isValid = true;
+    } else {
+      if (!state.isValid) {
+        return; // Waiting for the snapshot after a resubscribe
+      }
+
+      if (data.u !== state.book.lastUpdateId + 1) {
+        this.invalidate(data.s, state, "missing update");
+        return;
+      }
+
+      if (data.seq < state.lastSeq) {
+        this.invalidate(data.s, state, "stale sequence");
+        return;
+      }
+
+      state.book.applyDelta(data.b, data.a, data.u, timestamp);
+      state.lastSeq = data.seq;
+    }
+
+    if (state.book.isCrossed()) {
+      this.invalidate(data.s, state, "crossed book");
+      return;
+    }
+
+    if (!state.book.isEmpty()) {
+      this.emit(
+        "orderbook",
+        state.book.toUnified("bybit", normalizeBybitSymbol(data.s), this.depth)
+      );
+    }
+  }
+
+  /**
+   * The valid book with every local level (the full topic depth), not cut
+   * to the published depth. Undefined until a snapshot has arrived.
+   */
+  getFullDepthBook(symbol: string): UnifiedOrderBook | undefined {
+    const state = this.books.get(symbol);
+    if (!state || !state.isValid || state.book.isEmpty()) {
+      return undefined;
+    }
+
+    return state.book.toUnified("bybit", normalizeBybitSymbol(symbol), Infinity);
+  }
+
+  getStats(): {
+    trackedBooks: number;
+    validBooks: number;
+    resyncCount: number;
+  } {
+    let validBooks = 0;
+    for (const state of this.books.values()) {
+      if (state.isValid) validBooks++;
+    }
+
+    return {
+      trackedBooks: this.books.size,
+      validBooks,
+      resyncCount: this.resyncCount,
+    };
+  }
+
+  private invalidate(symbol: string, state: BookState, reason: string): void {
+    this.resyncCount++;
+    logger.warn("Bybit order book integrity check failed, resubscribing", {
+      symbol,
+      reason,
+    });
+
+    state.book.clear();
+    state.isValid = false;
+    state.lastSeq = 0;
+    this.emit("resync", symbol);
+  }
+}
@@ -6,8 +6,18 @@
 
 import axios from "axios";
 import { logger } from "../../utils/logger.js";
-import type { SymbolInfo } from "../../types/exchanges.js";
+import type {
+  SymbolInfo,
+  InstrumentStatus,
+  FundingRateRecord,
+} from "../../types/exchanges.js";
 import { normalizeBybitSymbol } from "./normalizer.js";
+import type {
+  BybitAccountRatio,
+  BybitSpotTickerData,
+  BybitTickerData,
+} from "./normalizer.js";
+import { normalizeDatedSymbol } from "../../utils/expiry.js";
 
 interface BybitInstrument {
   symbol: string;
@@ -18,12 +28,68 @@ interface BybitInstrument {
   launchTime: string;
   deliveryTime: string;
   deliveryFeeRate: string;
+  fundingInterval: number;   // Minutes
   priceScale: string;
   leverageFilter: unknown;
   priceFilter: unknown;
   lotSizeFilter: unknown;
 }
 
+interface BybitTicker {
+  symbol: string;
+  turnover24h: string;
+}
+
+interface BybitTickersResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: BybitTicker[];
+  };
+}
+
+interface BybitLinearTickersResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: BybitTickerData[];
+  };
+}
+
+interface BybitSpotTickersResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: BybitSpotTickerData[];
+  };
+}
+
+interface BybitFundingHistoryEntry {
+  symbol: string;
+  fundingRate: string;
+  fundingRateTimestamp: string;
+}
+
+interface BybitFundingHistoryResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: BybitFundingHistoryEntry[];  // Newest first
+  };
+}
+
+interface BybitAccountRatioResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    list: BybitAccountRatio[];
+  };
+}
+
 interface BybitInstrumentsResponse {
   retCode: number;
   retMsg: string;
@@ -33,31 +99,39 @@ interface BybitInstrumentsResponse {
   };
 }
 
+/**
+ * Fetch all linear instruments (every status) from Bybit.
+ */
+async function fetchBybitInstruments(): Promise<BybitInstrument[]> {
+  const url = "https://api.bybit.com/v5/market/instruments-info";
+
+  const response = await axios.get<BybitInstrumentsResponse>(url, {
+    params: {
+      category: "linear",
+      limit: 1000,
+    },
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Accept": "application/json",
+    },
+  });
+
+  if (response.data.retCode !== 0) {
+    throw new Error(`Bybit API error: ${response.data.retMsg}`);
+  }
+
+  return response.data.result.list;
+}
+
 /**
  * Fetch available perpetual symbols from Bybit.
  */
 export async function fetchBybitSymbols(): Promise<SymbolInfo[]> {
-  const url = "https://api.bybit.com/v5/market/instruments-info";
-  
   try {
-    logger.info("Fetching Bybit symbols", { url });
+    logger.info("Fetching Bybit symbols");
     
-    const response = await axios.get<BybitInstrumentsResponse>(url, {
-      params: {
-        category: "linear",
-      },
-      timeout: 10000,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
-        "Accept": "application/json",
-      },
-    });
-    
-    if (response.data.retCode !== 0) {
-      throw new Error(`Bybit API error: ${response.data.retMsg}`);
-    }
-    
-    const instruments = response.data.result.list;
+    const instruments = await fetchBybitInstruments();
     
     // Filter for active perpetual contracts
     const perpetuals = instruments.filter(
@@ -79,6 +153,7 @@ export async function fetchBybitSymbols(): Promise<SymbolInfo[]> {
       quoteAsset: inst.quoteCoin,
       contractType: "perpetual",
       isActive: inst.status === "Trading",
+      fundingIntervalHours: inst.fundingInterval > 0 ? inst.fundingInterval / 60 : undefined,
     }));
     
     return symbols;
@@ -89,20 +164,243 @@ export async function fetchBybitSymbols(): Promise<SymbolInfo[]> {
 }
 
 /**
- * Get top N symbols by volume (for initial subscription).
- * This is a placeholder - in production, you'd want to fetch 24h volume
- * and sort by that. For now, we'll just return the first N active symbols.
+ * Fetch trading linear dated futures (weekly, monthly and quarterly).
+ */
+export async function fetchBybitFuturesSymbols(): Promise<SymbolInfo[]> {
+  const instruments = await fetchBybitInstruments();
+
+  return instruments
+    .filter(
+      (inst) =>
+        inst.status === "Trading" &&
+        inst.contractType === "LinearFutures" &&
+        parseInt(inst.deliveryTime, 10) > 0
+    )
+    .map((inst) => {
+      const expiryTime = parseInt(inst.deliveryTime, 10);
+      return {
+        exchangeSymbol: inst.symbol,
+        normalizedSymbol: normalizeDatedSymbol(inst.baseCoin, inst.quoteCoin, expiryTime),
+        baseAsset: inst.baseCoin,
+        quoteAsset: inst.quoteCoin,
+        contractType: "quarterly",
+        isActive: true,
+        expiryTime,
+      };
+    });
+}
+
+/**
+ * Fetch the funding interval (hours) of every linear perpetual.
+ * Bybit moves volatile symbols to shorter intervals, so this is refreshed.
+ */
+export async function fetchBybitFundingIntervals(): Promise<Map<string, number>> {
+  const instruments = await fetchBybitInstruments();
+
+  return new Map(
+    instruments
+      .filter((inst) => inst.contractType === "LinearPerpetual" && inst.fundingInterval > 0)
+      .map((inst) => [inst.symbol, inst.fundingInterval / 60])
+  );
+}
+
+/**
+ * Fetch every linear perpetual with its status (PreLaunch, Trading,
+ * Settling, Delivering, Closed) for listing detection.
+ */
+export async function fetchBybitInstrumentStatuses(): Promise<InstrumentStatus[]> {
+  const instruments = await fetchBybitInstruments();
+
+  return instruments
+    .filter((inst) => inst.contractType === "LinearPerpetual")
+    .map((inst) => ({
+      exchangeSymbol: inst.symbol,
+      normalizedSymbol: normalizeBybitSymbol(inst.symbol),
+      status: inst.status,
+      isActive: inst.status === "Trading",
+      launchTime: parseInt(inst.launchTime, 10) || undefined,
+    }));
+}
+
+/**
+ * Fetch all linear symbols ranked by 24h turnover (USD), highest first.
+ * Throws on API failure so callers can decide on a fallback.
+ */
+export async function getRankedBybitSymbols(): Promise<string[]> {
+  const url = "https://api.bybit.com/v5/market/tickers";
+
+  const response = await axios.get<BybitTickersResponse>(url, {
+    params: {
+      category: "linear",
+    },
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Accept": "application/json",
+    },
+  });
+
+  if (response.data.retCode !== 0) {
+    throw new Error(`Bybit API error: ${response.data.retMsg}`);
+  }
+
+  return response.data.result.list
+    .map((ticker) => ({
+      symbol: ticker.symbol,
+      turnover: parseFloat(ticker.turnover24h) || 0,
+    }))
+    .sort((a, b) => b.turnover - a.turnover)
+    .map((ticker) => ticker.symbol);
+}
+
+/**
+ * Fetch tickers for every linear contract (perpetuals and dated futures)
+ * in one request.
+ */
+export async function fetchBybitLinearTickers(): Promise<BybitTickerData[]> {
+  const url = "https://api.bybit.com/v5/market/tickers";
+
+  const response = await axios.get<BybitLinearTickersResponse>(url, {
+    params: {
+      category: "linear",
+    },
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Accept": "application/json",
+    },
+  });
+
+  if (response.data.retCode !== 0) {
+    throw new Error(`Bybit API error: ${response.data.retMsg}`);
+  }
+
+  return response.data.result.list;
+}
+
+/**
+ * Fetch tickers for every spot symbol in one request.
+ */
+export async function fetchBybitSpotTickers(): Promise<BybitSpotTickerData[]> {
+  const url = "https://api.bybit.com/v5/market/tickers";
+
+  const response = await axios.get<BybitSpotTickersResponse>(url, {
+    params: {
+      category: "spot",
+    },
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Accept": "application/json",
+    },
+  });
+
+  if (response.data.retCode !== 0) {
+    throw new Error(`Bybit API error: ${response.data.retMsg}`);
+  }
+
+  return response.data.result.list;
+}
+
+/**
+ * Fetch settled funding rates since `startTime`, oldest first.
+ * Pages backwards from now in steps of 200 (the endpoint maximum).
+ */
+export async function fetchBybitFundingHistory(
+  symbol: string,
+  startTime: number
+): Promise<FundingRateRecord[]> {
+  const url = "https://api.bybit.com/v5/market/funding/history";
+  const settlements: FundingRateRecord[] = [];
+  let endTime = Date.now();
+
+  while (endTime > startTime) {
+    const response = await axios.get<BybitFundingHistoryResponse>(url, {
+      params: {
+        category: "linear",
+        symbol,
+        startTime,
+        endTime,
+        limit: 200,
+      },
+      timeout: 10000,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+        "Accept": "application/json",
+      },
+    });
+
+    if (response.data.retCode !== 0) {
+      throw new Error(`Bybit API error: ${response.data.retMsg}`);
+    }
+
+    const page = response.data.result.list.map((entry) => ({
+      fundingTime: parseInt(entry.fundingRateTimestamp, 10),
+      rate: parseFloat(entry.fundingRate) || 0,
+    }));
+
+    settlements.push(...page);
+
+    if (page.length < 200) {
+      break;
+    }
+
+    endTime = Math.min(...page.map((entry) => entry.fundingTime)) - 1;
+  }
+
+  return settlements.sort((a, b) => a.fundingTime - b.fundingTime);
+}
+
+/**
+ * Fetch the latest long/short account ratio for a symbol.
+ * `period` uses the shared "5m"/"1h" form and is mapped to Bybit's "5min".
+ */
+export async function fetchBybitAccountRatio(
+  symbol: string,
+  period: string
+): Promise<BybitAccountRatio | null> {
+  const url = "https://api.bybit.com/v5/market/account-ratio";
+
+  const response = await axios.get<BybitAccountRatioResponse>(url, {
+    params: {
+      category: "linear",
+      symbol,
+      period: period.endsWith("m") ? `${period}in` : period,
+      limit: 1,
+    },
+    timeout: 5000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Accept": "application/json",
+    },
+  });
+
+  if (response.data.retCode !== 0) {
+    throw new Error(`Bybit API error: ${response.data.retMsg}`);
+  }
+
+  return response.data.result.list[0] ?? null;
+}
+
+/**
+ * Get top N perpetual symbols by 24h turnover.
  */
 export async function getTopBybitSymbols(count: number = 50): Promise<string[]> {
   try {
-    const symbols = await fetchBybitSymbols();
-    
-    // For Phase 1A, just return first N active symbols
-    // In production, you'd sort by volume24h
-    return symbols
-      .filter((s) => s.isActive)
-      .slice(0, count)
-      .map((s) => s.exchangeSymbol);
+    const [ranked, symbols] = await Promise.all([
+      getRankedBybitSymbols(),
+      fetchBybitSymbols(),
+    ]);
+
+    // Tickers include dated futures, so keep only active perpetuals
+    const perpetuals = new Set(
+      symbols.filter((s) => s.isActive).map((s) => s.exchangeSymbol)
+    );
+
+    const top = ranked.filter((symbol) => perpetuals.has(symbol)).slice(0, count);
+
+    logger.info("Fetched top Bybit symbols by turnover", { count: top.length });
+    return top;
   } catch (error) {
     // Fallback: return common symbols if API fails
     logger.warn("Failed to fetch symbols from API, using fallback list", { error });
@@ -13,12 +13,15 @@ interface BybitWebSocketMessage {
   op?: string;
   topic?: string;
   type?: string;
+  ts?: number;
   data?: unknown;
   success?: boolean;
   ret_msg?: string;
   conn_id?: string;
 }
 
+// Bybit rejects subscribe/unsubscribe requests with too many args
+const ARGS_PER_REQUEST = 10;
 
 export class BybitWebSocketManager extends EventEmitter {
   private ws: WebSocket | null = null;
@@ -132,13 +135,8 @@ export class BybitWebSocketManager extends EventEmitter {
       return;
     }
 
-    const message = {
-      op: "subscribe",
-      args: newTopics,
-    };
-
     logger.debug("Subscribing to topics", { topics: newTopics, count: newTopics.length });
-    this.ws.send(JSON.stringify(message));
+    this.sendOperation("subscribe", newTopics);
 
     // Track subscriptions
     newTopics.forEach((topic) => this.subscriptions.add(topic));
@@ -148,21 +146,16 @@ export class BybitWebSocketManager extends EventEmitter {
    * Unsubscribe from topics
    */
   unsubscribe(topics: string[]): void {
+    // Remove from tracking first so a reconnect does not resubscribe them
+    topics.forEach((topic) => this.subscriptions.delete(topic));
+
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       logger.warn("Cannot unsubscribe: WebSocket not connected");
       return;
     }
 
-    const message = {
-      op: "unsubscribe",
-      args: topics,
-    };
-
     logger.debug("Unsubscribing from topics", { topics, count: topics.length });
-    this.ws.send(JSON.stringify(message));
-
-    // Remove from tracking
-    topics.forEach((topic) => this.subscriptions.delete(topic));
+    this.sendOperation("unsubscribe", topics);
   }
 
   /**
@@ -238,6 +231,8 @@ export class BybitWebSocketManager extends EventEmitter {
       if (message.topic && message.data) {
         this.emit("message", {
           topic: message.topic,
+          type: message.type,
+          ts: message.ts,
           data: message.data,
         });
       }
@@ -307,7 +302,25 @@ export class BybitWebSocketManager extends EventEmitter {
       logger.info("Resubscribing to topics", {
         count: this.subscriptions.size,
       });
-      this.subscribe(Array.from(this.subscriptions));
+      // Topics are already tracked, so send directly rather than via subscribe()
+      this.sendOperation("subscribe", Array.from(this.subscriptions));
+    }
+  }
+
+  /**
+   * Send a subscribe/unsubscribe operation, split to respect the args limit
+   */
+  private sendOperation(op: "subscribe" | "unsubscribe", topics: string[]): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    for (let i = 0; i < topics.length; i += ARGS_PER_REQUEST) {
+      const message = {
+        op,
+        args: topics.slice(i, i + ARGS_PER_REQUEST),
+      };
+      this.ws.send(JSON.stringify(message));
     }
   }
 }
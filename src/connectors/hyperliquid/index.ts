@@ -0,0 +1,694 @@
+/**
+ * Hyperliquid Connector Implementation
+ *
+ * Implements the HyperliquidConnector interface: market data is polled from
+ * the info endpoint, top of book is streamed over WebSocket, and tracked
+ * addresses are scanned for positions near liquidation.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { HyperliquidConnector as IHyperliquidConnector } from "../interface.js";
+import type {
+  Exchange,
+  HyperliquidPosition,
+  LiquidationCluster,
+} from "../../types/unified.js";
+import type {
+  SymbolInfo,
+  ConnectorHealth,
+  PollingConfig,
+  ConnectorError,
+  LiquidationRisk,
+} from "../../types/exchanges.js";
+import type {
+  HyperliquidAssetMeta,
+  HyperliquidAssetCtx,
+  HyperliquidWsBbo,
+} from "../../types/hyperliquid.js";
+import {
+  fetchMetaAndAssetCtxs,
+  fetchClearinghouseState,
+  fetchLeaderboardAddresses,
+  META_AND_ASSET_CTXS_WEIGHT,
+  CLEARINGHOUSE_STATE_WEIGHT,
+} from "./rest.js";
+import {
+  normalizeHyperliquidMarket,
+  normalizeHyperliquidBbo,
+  normalizeHyperliquidSymbol,
+  denormalizeHyperliquidSymbol,
+  normalizeHyperliquidPosition,
+  repricePosition,
+  toLiquidationRisk,
+  getRiskLevel,
+  getHyperliquidTickSize,
+  type HyperliquidTopOfBook,
+} from "./normalizer.js";
+import { HyperliquidWebSocketManager } from "./websocket.js";
+import { HyperliquidScanner, runWithConcurrency } from "./scanner.js";
+import {
+  LiquidationClusterEngine,
+  type LiquidationClusterSnapshot,
+} from "../../compute/liquidation-clusters.js";
+import { getConfig } from "../../utils/config.js";
+import { logger } from "../../utils/logger.js";
+
+// Size changes below this fraction are not reported as position updates
+const POSITION_CHANGE_THRESHOLD = 0.01;
+
+// Retry cadence for the leaderboard seed after a failed fetch
+const LEADERBOARD_RETRY_MS = 300000;
+
+export class HyperliquidConnector extends EventEmitter implements IHyperliquidConnector {
+  readonly exchangeId: Exchange = "hyperliquid";
+  readonly displayName = "Hyperliquid";
+  readonly type: "cex" | "dex" = "dex";
+
+  private wsManager: HyperliquidWebSocketManager;
+  private scanner: HyperliquidScanner;
+  private clusterEngine: LiquidationClusterEngine;
+  private symbols: Map<string, SymbolInfo> = new Map(); // coin -> SymbolInfo
+  private assets: Map<string, HyperliquidAssetMeta> = new Map(); // coin -> meta
+  private markPrices: Map<string, number> = new Map(); // coin -> mark price
+  private topOfBook: Map<string, HyperliquidTopOfBook> = new Map(); // coin -> latest bbo
+  private positions: Map<string, HyperliquidPosition[]> = new Map(); // address -> positions
+  private isInitialized = false;
+  private isStarted = false;
+  private isUniverseLoaded = false;
+  private isSubscribeAllPending = false;
+  private isLeaderboardSeedPending = false;
+  private lastLeaderboardAttemptAt = 0;
+  private messageCount = 0;
+  private lastMessageTime = 0;
+  private reconnectCount = 0;
+  private errors: ConnectorError[] = [];
+  private subscribedSymbols: Set<string> = new Set();
+  private marketPollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  constructor() {
+    super();
+
+    this.wsManager = new HyperliquidWebSocketManager();
+    this.setupWebSocketHandlers();
+
+    // Scans get whatever weight market polling leaves in the budget
+    const config = getConfig().hyperliquid;
+    const marketPollWeight = META_AND_ASSET_CTXS_WEIGHT * (60000 / config.marketPollIntervalMs);
+    this.scanner = new HyperliquidScanner(
+      {
+        priorityScanIntervalMs: config.priorityScanIntervalMs,
+        backgroundScanIntervalMs: config.backgroundScanIntervalMs,
+        maxParallelScans: config.maxParallelScans,
+        weightPerScan: CLEARINGHOUSE_STATE_WEIGHT,
+        weightBudgetPerMinute: Math.max(0, config.requestWeightBudgetPerMinute - marketPollWeight),
+      },
+      (address) => this.scanAddress(address).then(() => undefined)
+    );
+
+    this.clusterEngine = new LiquidationClusterEngine();
+    this.clusterEngine.on("update", (snapshot: LiquidationClusterSnapshot) => {
+      this.emit("liquidationClusters", snapshot);
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // LIFECYCLE
+  // ══════════════════════════════════════════════════════════════════════
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      logger.warn("Hyperliquid connector already initialized");
+      return;
+    }
+
+    logger.info("Initializing Hyperliquid connector");
+
+    // An unreachable info endpoint must not take down the other exchanges:
+    // start degraded and let the poll loop load the universe later
+    try {
+      const [meta, contexts] = await fetchMetaAndAssetCtxs();
+      this.loadUniverse(meta.universe, contexts);
+
+      logger.info("Hyperliquid connector initialized", {
+        symbolCount: this.symbols.size,
+      });
+    } catch (error) {
+      logger.warn("Hyperliquid asset universe unavailable, starting degraded", {
+        error: (error as Error).message,
+      });
+      this.recordError("init_error", (error as Error).message);
+    }
+
+    this.isInitialized = true;
+  }
+
+  async start(): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("Hyperliquid connector must be initialized before starting");
+    }
+
+    if (this.isStarted) {
+      logger.warn("Hyperliquid connector already started");
+      return;
+    }
+
+    logger.info("Starting Hyperliquid connector");
+
+    const intervalMs = getConfig().hyperliquid.marketPollIntervalMs;
+    this.marketPollInterval = setInterval(() => {
+      void this.pollRestData().then(() => this.retryPendingSetup());
+    }, intervalMs);
+
+    this.wsManager.connect();
+    this.scanner.start();
+    this.clusterEngine.start();
+
+    this.isStarted = true;
+    this.emit("connection", "connected");
+  }
+
+  async stop(): Promise<void> {
+    logger.info("Stopping Hyperliquid connector");
+
+    if (this.marketPollInterval) {
+      clearInterval(this.marketPollInterval);
+      this.marketPollInterval = null;
+    }
+    this.scanner.stop();
+    this.clusterEngine.stop();
+    await this.unsubscribeAll();
+    this.wsManager.disconnect();
+
+    this.isStarted = false;
+    this.emit("connection", "disconnected");
+  }
+
+  getHealth(): ConnectorHealth {
+    const now = Date.now();
+    const messageRate =
+      this.lastMessageTime > 0 && now > this.lastMessageTime
+        ? this.messageCount / ((now - this.lastMessageTime) / 1000)
+        : 0;
+
+    // REST-only: healthy while polls keep succeeding
+    const staleAfterMs = getConfig().hyperliquid.marketPollIntervalMs * 3;
+
+    return {
+      isConnected: this.isStarted && now - this.lastMessageTime < staleAfterMs,
+      connectionCount: 0, // No persistent connection
+      subscriptionCount: this.subscribedSymbols.size,
+      messageRate,
+      lastMessageTime: this.lastMessageTime,
+      reconnectCount: this.reconnectCount,
+      errors: [...this.errors].slice(-10),
+      extra: {
+        websocketState: this.wsManager.getState(),
+        topOfBookCoins: this.topOfBook.size,
+        ...this.scanner.getStats(),
+        addressesWithPositions: this.positions.size,
+        clusterCoins: this.clusterEngine.getCoins().length,
+      },
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // SYMBOL MANAGEMENT
+  // ══════════════════════════════════════════════════════════════════════
+
+  async getAvailableSymbols(): Promise<SymbolInfo[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    return Array.from(this.symbols.values());
+  }
+
+  normalizeSymbol(exchangeSymbol: string): string {
+    const symbolInfo = this.symbols.get(exchangeSymbol);
+    if (symbolInfo) {
+      return symbolInfo.normalizedSymbol;
+    }
+    return normalizeHyperliquidSymbol(exchangeSymbol);
+  }
+
+  denormalizeSymbol(normalizedSymbol: string): string {
+    return denormalizeHyperliquidSymbol(normalizedSymbol);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // DATA SUBSCRIPTIONS
+  // ══════════════════════════════════════════════════════════════════════
+
+  async subscribeToTickers(symbols: string[]): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    // Contexts for every asset arrive in one poll, so subscribing only filters
+    const coins = symbols.map((symbol) =>
+      this.symbols.has(symbol) ? symbol : this.denormalizeSymbol(symbol)
+    );
+    coins.forEach((coin) => this.subscribedSymbols.add(coin));
+    this.wsManager.subscribe(coins.map((coin) => ({ type: "bbo", coin })));
+
+    logger.info("Subscribed to Hyperliquid markets", {
+      symbolCount: coins.length,
+    });
+
+    await this.pollRestData();
+  }
+
+  /**
+   * Subscribe to every active coin. Before the asset universe has loaded
+   * (degraded start), the subscription is made after the first good poll.
+   */
+  async subscribeToAllTickers(): Promise<void> {
+    if (!this.isUniverseLoaded) {
+      this.isSubscribeAllPending = true;
+      logger.warn("Hyperliquid asset universe not loaded, subscribing once it is");
+      return;
+    }
+
+    this.isSubscribeAllPending = false;
+    const coins = Array.from(this.symbols.values())
+      .filter((symbol) => symbol.isActive)
+      .map((symbol) => symbol.exchangeSymbol);
+    await this.subscribeToTickers(coins);
+  }
+
+  async subscribeToOrderBooks(
+    _symbols: string[],
+    _depth: number = 20
+  ): Promise<void> {
+    logger.warn("Hyperliquid order book subscriptions not implemented");
+  }
+
+  async subscribeToTrades(_symbols: string[]): Promise<void> {
+    logger.warn("Hyperliquid trade subscriptions not implemented");
+  }
+
+  async subscribeToLiquidations(_symbols: string[]): Promise<void> {
+    logger.warn("Hyperliquid liquidation subscriptions not implemented");
+  }
+
+  async unsubscribeSymbols(symbols: string[]): Promise<void> {
+    const coins = symbols.map((symbol) =>
+      this.symbols.has(symbol) ? symbol : this.denormalizeSymbol(symbol)
+    );
+    coins.forEach((coin) => {
+      this.subscribedSymbols.delete(coin);
+      this.topOfBook.delete(coin);
+    });
+    this.wsManager.unsubscribe(coins.map((coin) => ({ type: "bbo", coin })));
+
+    logger.info("Unsubscribed from Hyperliquid markets", {
+      symbolCount: coins.length,
+    });
+  }
+
+  async unsubscribeAll(): Promise<void> {
+    this.subscribedSymbols.clear();
+    this.topOfBook.clear();
+    this.wsManager.unsubscribeAll();
+    logger.info("Unsubscribed from all Hyperliquid markets");
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // REST POLLING
+  // ══════════════════════════════════════════════════════════════════════
+
+  async pollRestData(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const [meta, contexts] = await fetchMetaAndAssetCtxs();
+      this.messageCount++;
+      this.lastMessageTime = Date.now();
+
+      if (!this.isUniverseLoaded) {
+        this.loadUniverse(meta.universe, contexts);
+        logger.info("Hyperliquid asset universe loaded", { symbolCount: this.symbols.size });
+      }
+
+      meta.universe.forEach((asset, index) => {
+        const ctx = contexts[index];
+        if (!ctx) {
+          return;
+        }
+
+        const markPrice = parseFloat(ctx.markPx);
+        if (markPrice > 0) {
+          this.markPrices.set(asset.name, markPrice);
+          this.clusterEngine.updatePrice(
+            asset.name,
+            markPrice,
+            getHyperliquidTickSize(markPrice, asset.szDecimals)
+          );
+        }
+
+        if (!this.subscribedSymbols.has(asset.name) || asset.isDelisted) {
+          return;
+        }
+
+        try {
+          this.emit(
+            "market",
+            normalizeHyperliquidMarket(asset, ctx, this.topOfBook.get(asset.name) ?? null)
+          );
+        } catch (error) {
+          logger.error("Failed to normalize Hyperliquid asset context", error as Error, {
+            coin: asset.name,
+          });
+          this.recordError("normalization_error", (error as Error).message);
+        }
+      });
+
+      this.repriceCachedPositions();
+    } catch (error) {
+      this.recordError("poll_error", (error as Error).message);
+      this.emit("error", {
+        code: "poll_error",
+        message: (error as Error).message,
+        timestamp: Date.now(),
+      });
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  getPollingConfig(): PollingConfig {
+    return {
+      endpoints: [
+        {
+          name: "metaAndAssetCtxs",
+          intervalMs: getConfig().hyperliquid.marketPollIntervalMs,
+          symbols: "all",
+        },
+      ],
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // POSITION SCANNING
+  // ══════════════════════════════════════════════════════════════════════
+
+  async scanAddresses(addresses: string[]): Promise<HyperliquidPosition[]> {
+    const results: HyperliquidPosition[] = [];
+
+    await runWithConcurrency(
+      addresses.map((address) => address.toLowerCase()),
+      getConfig().hyperliquid.maxParallelScans,
+      async (address) => {
+        results.push(...(await this.scanAddress(address)));
+      }
+    );
+
+    return results;
+  }
+
+  async getAddressPositions(address: string): Promise<HyperliquidPosition[]> {
+    const normalized = address.toLowerCase();
+    const cached = this.positions.get(normalized);
+    if (cached) {
+      return cached;
+    }
+    return this.scanAddress(normalized);
+  }
+
+  async checkLiquidationRisk(address: string): Promise<LiquidationRisk> {
+    const positions = await this.getAddressPositions(address);
+    if (positions.length === 0) {
+      throw new Error(`No open Hyperliquid positions for ${address}`);
+    }
+
+    const riskiest = positions.reduce((closest, position) =>
+      position.distanceToLiqPercent < closest.distanceToLiqPercent ? position : closest
+    );
+
+    return toLiquidationRisk(riskiest, getConfig().hyperliquid.atRiskThresholdPercent);
+  }
+
+  async getLiquidationClusters(coin: string): Promise<LiquidationCluster[]> {
+    return this.clusterEngine.getClusters(coin)?.clusters ?? [];
+  }
+
+  /**
+   * Get clusters for a coin together with price and bucket context
+   */
+  getLiquidationClusterSnapshot(coin: string): LiquidationClusterSnapshot | null {
+    return this.clusterEngine.getClusters(coin);
+  }
+
+  /**
+   * Get all coins that currently have liquidation clusters
+   */
+  getClusterCoins(): string[] {
+    return this.clusterEngine.getCoins();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // ADDRESS MANAGEMENT
+  // ══════════════════════════════════════════════════════════════════════
+
+  async getLeaderboardAddresses(): Promise<string[]> {
+    return fetchLeaderboardAddresses(getConfig().exchanges.hyperliquid.addressScanCount);
+  }
+
+  /**
+   * Seed the scanner with leaderboard accounts. A failed fetch is logged
+   * and retried from the poll loop every LEADERBOARD_RETRY_MS.
+   */
+  async trackLeaderboardAddresses(): Promise<void> {
+    this.lastLeaderboardAttemptAt = Date.now();
+
+    try {
+      this.addTrackedAddresses(await this.getLeaderboardAddresses());
+      this.isLeaderboardSeedPending = false;
+    } catch (error) {
+      this.isLeaderboardSeedPending = true;
+      logger.warn("Hyperliquid leaderboard unavailable, will retry", {
+        error: (error as Error).message,
+        retryInMs: LEADERBOARD_RETRY_MS,
+      });
+      this.recordError("leaderboard_error", (error as Error).message);
+    }
+  }
+
+  addTrackedAddresses(addresses: string[]): void {
+    this.scanner.addAddresses(addresses.map((address) => address.toLowerCase()));
+  }
+
+  removeTrackedAddresses(addresses: string[]): void {
+    const normalized = addresses.map((address) => address.toLowerCase());
+    this.scanner.removeAddresses(normalized);
+    normalized.forEach((address) => {
+      this.positions.delete(address);
+      this.clusterEngine.removeAddress(address);
+    });
+  }
+
+  getTrackedAddresses(): string[] {
+    return this.scanner.getAddresses();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Record asset metadata, symbols and initial mark prices
+   */
+  private loadUniverse(
+    universe: HyperliquidAssetMeta[],
+    contexts: HyperliquidAssetCtx[]
+  ): void {
+    universe.forEach((asset, index) => {
+      this.assets.set(asset.name, asset);
+      this.symbols.set(asset.name, {
+        exchangeSymbol: asset.name,
+        normalizedSymbol: normalizeHyperliquidSymbol(asset.name),
+        baseAsset: asset.name,
+        quoteAsset: "USDC",
+        contractType: "perpetual",
+        isActive: !asset.isDelisted,
+      });
+
+      const markPrice = contexts[index] ? parseFloat(contexts[index].markPx) : 0;
+      if (markPrice > 0) {
+        this.markPrices.set(asset.name, markPrice);
+      }
+    });
+
+    this.isUniverseLoaded = true;
+  }
+
+  /**
+   * Finish setup that a degraded start could not: the pending
+   * subscribe-all once the universe loads, and the leaderboard seed
+   */
+  private async retryPendingSetup(): Promise<void> {
+    if (this.isSubscribeAllPending && this.isUniverseLoaded) {
+      await this.subscribeToAllTickers();
+    }
+
+    if (
+      this.isLeaderboardSeedPending &&
+      Date.now() - this.lastLeaderboardAttemptAt >= LEADERBOARD_RETRY_MS
+    ) {
+      await this.trackLeaderboardAddresses();
+    }
+  }
+
+  /**
+   * Track top of book from the bbo feed. Quotes are dropped while the
+   * socket is down so markets fall back to an unknown spread rather than
+   * a stale one.
+   */
+  private setupWebSocketHandlers(): void {
+    this.wsManager.on("message", (message: { channel: string; data: unknown }) => {
+      if (message.channel !== "bbo") {
+        return;
+      }
+
+      const bbo = message.data as HyperliquidWsBbo;
+      const top = normalizeHyperliquidBbo(bbo);
+      if (top && this.subscribedSymbols.has(bbo.coin)) {
+        this.topOfBook.set(bbo.coin, top);
+      } else {
+        this.topOfBook.delete(bbo.coin);
+      }
+    });
+
+    this.wsManager.on("connection", (state) => {
+      if (state !== "connected") {
+        this.topOfBook.clear();
+      }
+    });
+
+    this.wsManager.on("error", (error: Error) => {
+      this.recordError("websocket_error", error.message);
+    });
+  }
+
+  /**
+   * Fetch and normalize an address's positions, emitting changes and risk
+   */
+  private async scanAddress(address: string): Promise<HyperliquidPosition[]> {
+    const threshold = getConfig().hyperliquid.atRiskThresholdPercent;
+
+    let state;
+    try {
+      state = await fetchClearinghouseState(address);
+    } catch (error) {
+      this.recordError("scan_error", (error as Error).message);
+      throw error;
+    }
+
+    const previous = this.positions.get(address) ?? [];
+    const positions = state.assetPositions
+      .map((assetPosition) =>
+        normalizeHyperliquidPosition(
+          address,
+          assetPosition.position,
+          this.markPrices.get(assetPosition.position.coin) ?? null,
+          threshold
+        )
+      )
+      .filter((position) => position.size > 0);
+
+    for (const position of positions) {
+      const prior = previous.find((p) => p.coin === position.coin);
+      if (this.hasPositionChanged(prior, position)) {
+        this.emit("position", position);
+      }
+      if (position.isAtRisk && (!prior?.isAtRisk || this.riskLevelChanged(prior, position))) {
+        this.emit("liquidationRisk", toLiquidationRisk(position, threshold));
+      }
+    }
+
+    if (positions.length > 0) {
+      this.positions.set(address, positions);
+    } else {
+      this.positions.delete(address);
+    }
+    this.clusterEngine.setAddressPositions(address, positions);
+    this.updatePriority(address, positions);
+
+    return positions;
+  }
+
+  /**
+   * Refresh cached positions against the latest mark prices so priority
+   * promotion does not wait for the next background scan
+   */
+  private repriceCachedPositions(): void {
+    const threshold = getConfig().hyperliquid.atRiskThresholdPercent;
+
+    for (const [address, positions] of this.positions.entries()) {
+      const repriced = positions.map((position) => {
+        const markPrice = this.markPrices.get(position.coin);
+        return markPrice ? repricePosition(position, markPrice, threshold) : position;
+      });
+
+      repriced.forEach((position, index) => {
+        if (position.isAtRisk && !positions[index].isAtRisk) {
+          this.emit("liquidationRisk", toLiquidationRisk(position, threshold));
+        }
+      });
+
+      this.positions.set(address, repriced);
+      this.updatePriority(address, repriced);
+    }
+  }
+
+  /**
+   * Addresses with a position within twice the at-risk threshold are
+   * scanned on the priority tier
+   */
+  private updatePriority(address: string, positions: HyperliquidPosition[]): void {
+    const threshold = getConfig().hyperliquid.atRiskThresholdPercent;
+    const isPriority = positions.some(
+      (position) =>
+        position.liquidationPrice > 0 && position.distanceToLiqPercent < threshold * 2
+    );
+    this.scanner.setPriority(address, isPriority);
+  }
+
+  private hasPositionChanged(
+    prior: HyperliquidPosition | undefined,
+    current: HyperliquidPosition
+  ): boolean {
+    if (!prior || prior.side !== current.side) {
+      return true;
+    }
+    if (prior.liquidationPrice !== current.liquidationPrice) {
+      return true;
+    }
+    return Math.abs(current.size - prior.size) / prior.size > POSITION_CHANGE_THRESHOLD;
+  }
+
+  private riskLevelChanged(prior: HyperliquidPosition, current: HyperliquidPosition): boolean {
+    const threshold = getConfig().hyperliquid.atRiskThresholdPercent;
+    return (
+      getRiskLevel(prior.distanceToLiqPercent, threshold) !==
+      getRiskLevel(current.distanceToLiqPercent, threshold)
+    );
+  }
+
+  private recordError(code: string, message: string): void {
+    const error: ConnectorError = {
+      code,
+      message,
+      timestamp: Date.now(),
+    };
+
+    this.errors.push(error);
+
+    if (this.errors.length > 100) {
+      this.errors = this.errors.slice(-100);
+    }
+  }
+}
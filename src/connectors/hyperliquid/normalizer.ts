@@ -0,0 +1,332 @@
+/**
+ * Hyperliquid → Unified Normalizer
+ *
+ * Transforms Hyperliquid asset contexts into UnifiedMarket and account
+ * positions into HyperliquidPosition / LiquidationRisk.
+ */
+
+import type {
+  UnifiedMarket,
+  HyperliquidPosition,
+  RiskLevel,
+} from "../../types/unified.js";
+import type { LiquidationRisk } from "../../types/exchanges.js";
+import type {
+  HyperliquidAssetMeta,
+  HyperliquidAssetCtx,
+  HyperliquidRawPosition,
+  HyperliquidWsBbo,
+} from "../../types/hyperliquid.js";
+import { normalizeFundingRate } from "../../utils/funding.js";
+
+// Hyperliquid funds every hour
+const FUNDING_INTERVAL_HOURS = 1;
+
+// ══════════════════════════════════════════════════════════════════════
+// SYMBOL NORMALIZATION
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Normalize Hyperliquid coin to unified format.
+ * Example: "BTC" → "BTC-USDC-PERP" (perps are USDC margined)
+ */
+export function normalizeHyperliquidSymbol(coin: string): string {
+  return `${coin}-USDC-PERP`;
+}
+
+/**
+ * Convert normalized symbol back to a Hyperliquid coin.
+ * Example: "BTC-USDC-PERP" → "BTC"
+ */
+export function denormalizeHyperliquidSymbol(normalizedSymbol: string): string {
+  return normalizedSymbol.split("-")[0];
+}
+
+/**
+ * Price tick for a coin: prices carry at most 5 significant figures and
+ * at most (6 - szDecimals) decimals.
+ */
+export function getHyperliquidTickSize(price: number, szDecimals: number): number {
+  const decimalTick = Math.pow(10, -(6 - szDecimals));
+  if (price <= 0) {
+    return decimalTick;
+  }
+  const sigFigTick = Math.pow(10, Math.floor(Math.log10(price)) - 4);
+  return Math.max(sigFigTick, decimalTick);
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// MARKET NORMALIZATION
+// ══════════════════════════════════════════════════════════════════════
+
+export interface HyperliquidTopOfBook {
+  bestBid: number;
+  bestBidQty: number;
+  bestAsk: number;
+  bestAskQty: number;
+  time: number;
+}
+
+/**
+ * Convert a "bbo" message to top of book. Returns null when either side
+ * of the book is empty.
+ */
+export function normalizeHyperliquidBbo(data: HyperliquidWsBbo): HyperliquidTopOfBook | null {
+  const [bid, ask] = data.bbo;
+  if (!bid || !ask) {
+    return null;
+  }
+
+  const bestBid = parseFloat(bid.px);
+  const bestAsk = parseFloat(ask.px);
+  if (!(bestBid > 0) || !(bestAsk > 0)) {
+    return null;
+  }
+
+  return {
+    bestBid,
+    bestBidQty: parseFloat(bid.sz) || 0,
+    bestAsk,
+    bestAskQty: parseFloat(ask.sz) || 0,
+    time: data.time,
+  };
+}
+
+/**
+ * Convert a Hyperliquid asset context to UnifiedMarket.
+ *
+ * The context has no top of book (its impact prices are fills for a fixed
+ * notional, not the best levels), so best bid/ask come from the bbo feed.
+ * Without it both are set to mid and the spread is reported as 0 (unknown),
+ * which spread consumers already skip.
+ */
+export function normalizeHyperliquidMarket(
+  asset: HyperliquidAssetMeta,
+  ctx: HyperliquidAssetCtx,
+  topOfBook: HyperliquidTopOfBook | null = null
+): UnifiedMarket {
+  const normalizedSymbol = normalizeHyperliquidSymbol(asset.name);
+  const now = Date.now();
+
+  // Price data
+  const markPrice = parseFloat(ctx.markPx) || null;
+  const indexPrice = parseFloat(ctx.oraclePx) || null;
+  const mid = ctx.midPx ? parseFloat(ctx.midPx) || 0 : 0;
+  const lastPrice = mid || markPrice || 0;
+  const bestBid = topOfBook?.bestBid ?? mid;
+  const bestAsk = topOfBook?.bestAsk ?? mid;
+
+  // Calculate mid price and spread (0 when top of book is unknown)
+  const midPrice = (bestBid + bestAsk) / 2;
+  const spreadAbsolute = bestAsk - bestBid;
+  const spreadPercent = midPrice > 0 ? (spreadAbsolute / midPrice) * 100 : 0;
+
+  // Funding (hourly)
+  const fundingRate = ctx.funding !== undefined ? parseFloat(ctx.funding) : null;
+  const nextFundingTime = Math.ceil(now / 3600000) * 3600000;
+  const timeToFunding = nextFundingTime - now;
+  const { fundingRatePerHour, fundingRate8h, fundingRateAnnualized } =
+    normalizeFundingRate(fundingRate, FUNDING_INTERVAL_HOURS);
+
+  // Volume and OI
+  const volume24h = parseFloat(ctx.dayNtlVlm) || 0; // Notional in USDC
+  const volume24hUsd = volume24h;
+  const volume24hBase = ctx.dayBaseVlm
+    ? parseFloat(ctx.dayBaseVlm) || 0
+    : lastPrice > 0 ? volume24h / lastPrice : 0;
+  const openInterest = parseFloat(ctx.openInterest) || 0; // Base currency
+  const openInterestUsd = openInterest * (markPrice ?? lastPrice);
+
+  // 24h statistics (high/low not provided by the context)
+  const open24h = parseFloat(ctx.prevDayPx) || 0;
+  const priceChange24h = open24h > 0 ? lastPrice - open24h : 0;
+  const priceChangePercent24h = open24h > 0 ? (priceChange24h / open24h) * 100 : 0;
+
+  const market: UnifiedMarket = {
+    // Identifiers
+    id: `hyperliquid:${normalizedSymbol}`,
+    exchange: "hyperliquid",
+    symbol: normalizedSymbol,
+    baseAsset: asset.name,
+    quoteAsset: "USDC",
+    marketType: "perpetual",
+    expiryTime: null,
+    exchangeSymbol: asset.name,
+
+    // Price data
+    lastPrice,
+    markPrice,
+    indexPrice,
+    bestBid,
+    bestBidQty: topOfBook?.bestBidQty ?? 0,
+    bestAsk,
+    bestAskQty: topOfBook?.bestAskQty ?? 0,
+    midPrice,
+    spreadAbsolute,
+    spreadPercent,
+
+    // Funding
+    fundingRate,
+    fundingRateNext: null,
+    fundingRateAnnualized,
+    fundingRatePerHour,
+    fundingRate8h,
+    nextFundingTime,
+    timeToFunding,
+    fundingIntervalHours: fundingRate !== null ? FUNDING_INTERVAL_HOURS : null,
+
+    // Volume & OI
+    volume24h,
+    volume24hBase,
+    volume24hUsd,
+    tradeCount24h: null,
+    openInterest,
+    openInterestUsd,
+
+    // 24h statistics
+    high24h: Math.max(lastPrice, open24h),
+    low24h: open24h > 0 ? Math.min(lastPrice, open24h) : lastPrice,
+    open24h,
+    priceChange24h,
+    priceChangePercent24h,
+
+    // Metadata
+    updatedAt: now,
+    dataAge: 0,
+    isFresh: true,
+
+    // Data quality flags
+    flags: {
+      hasRealTimeOI: true,        // OI is part of every asset context
+      hasFullLiquidations: true,  // On-chain, nothing is sampled
+      hasFunding: fundingRate !== null,
+    },
+  };
+
+  return market;
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// POSITION NORMALIZATION
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Map distance-to-liquidation onto a risk level, relative to the
+ * configured at-risk threshold.
+ */
+export function getRiskLevel(
+  distanceToLiqPercent: number,
+  atRiskThresholdPercent: number
+): RiskLevel {
+  if (distanceToLiqPercent <= atRiskThresholdPercent * 0.4) {
+    return "critical";
+  }
+  if (distanceToLiqPercent <= atRiskThresholdPercent) {
+    return "high";
+  }
+  if (distanceToLiqPercent <= atRiskThresholdPercent * 2) {
+    return "medium";
+  }
+  return "low";
+}
+
+/**
+ * Convert a raw clearinghouse position to HyperliquidPosition.
+ *
+ * Positions without a liquidation price (over-collateralized) get
+ * liquidationPrice 0 and a 100% distance so they never count as at risk.
+ */
+export function normalizeHyperliquidPosition(
+  address: string,
+  raw: HyperliquidRawPosition,
+  currentPrice: number | null,
+  atRiskThresholdPercent: number
+): HyperliquidPosition {
+  const signedSize = parseFloat(raw.szi) || 0;
+  const size = Math.abs(signedSize);
+  const side = signedSize >= 0 ? "long" : "short";
+  const sizeUsd = parseFloat(raw.positionValue) || 0;
+
+  // Prefer the live mark price, otherwise back it out of position value
+  const price = currentPrice && currentPrice > 0
+    ? currentPrice
+    : size > 0 ? sizeUsd / size : 0;
+
+  const liquidationPrice = raw.liquidationPx ? parseFloat(raw.liquidationPx) || 0 : 0;
+
+  let distanceToLiqPercent = 100;
+  if (liquidationPrice > 0 && price > 0) {
+    distanceToLiqPercent = side === "long"
+      ? ((price - liquidationPrice) / price) * 100
+      : ((liquidationPrice - price) / price) * 100;
+    distanceToLiqPercent = Math.max(0, distanceToLiqPercent);
+  }
+
+  return {
+    address,
+    coin: raw.coin,
+    side,
+    size,
+    sizeUsd,
+    entryPrice: raw.entryPx ? parseFloat(raw.entryPx) || 0 : 0,
+    currentPrice: price,
+    liquidationPrice,
+    leverage: raw.leverage?.value ?? 0,
+    marginUsed: parseFloat(raw.marginUsed) || 0,
+    unrealizedPnl: parseFloat(raw.unrealizedPnl) || 0,
+    distanceToLiqPercent,
+    isAtRisk: liquidationPrice > 0 && distanceToLiqPercent < atRiskThresholdPercent,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Build a LiquidationRisk summary for a position.
+ */
+export function toLiquidationRisk(
+  position: HyperliquidPosition,
+  atRiskThresholdPercent: number
+): LiquidationRisk {
+  return {
+    address: position.address,
+    coin: position.coin,
+    side: position.side,
+    distanceToLiqPercent: position.distanceToLiqPercent,
+    positionSizeUsd: position.sizeUsd,
+    liquidationPrice: position.liquidationPrice,
+    currentPrice: position.currentPrice,
+    riskLevel: position.liquidationPrice > 0
+      ? getRiskLevel(position.distanceToLiqPercent, atRiskThresholdPercent)
+      : "low",
+  };
+}
+
+/**
+ * Recompute price-dependent fields of a position for a new mark price,
+ * so risk stays current between account scans.
+ */
+export function repricePosition(
+  position: HyperliquidPosition,
+  currentPrice: number,
+  atRiskThresholdPercent: number
+): HyperliquidPosition {
+  if (currentPrice <= 0) {
+    return position;
+  }
+
+  let distanceToLiqPercent = 100;
+  if (position.liquidationPrice > 0) {
+    distanceToLiqPercent = position.side === "long"
+      ? ((currentPrice - position.liquidationPrice) / currentPrice) * 100
+      : ((position.liquidationPrice - currentPrice) / currentPrice) * 100;
+    distanceToLiqPercent = Math.max(0, distanceToLiqPercent);
+  }
+
+  return {
+    ...position,
+    currentPrice,
+    sizeUsd: position.size * currentPrice,
+    distanceToLiqPercent,
+    isAtRisk: position.liquidationPrice > 0 && distanceToLiqPercent < atRiskThresholdPercent,
+  };
+}
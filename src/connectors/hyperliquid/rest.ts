@@ -0,0 +1,100 @@
+/**
+ * Hyperliquid REST API Client
+ *
+ * Handles info endpoint calls for market contexts, account state and
+ * leaderboard addresses.
+ */
+
+import axios from "axios";
+import { logger } from "../../utils/logger.js";
+import type {
+  HyperliquidMetaAndAssetCtxs,
+  HyperliquidClearinghouseState,
+  HyperliquidLeaderboardResponse,
+} from "../../types/hyperliquid.js";
+
+const INFO_URL = "https://api.hyperliquid.xyz/info";
+
+// Request weights counted against Hyperliquid's per-IP limit (1200 per minute)
+export const META_AND_ASSET_CTXS_WEIGHT = 20;
+export const CLEARINGHOUSE_STATE_WEIGHT = 2;
+const LEADERBOARD_URL = "https://stats-data.hyperliquid.xyz/Mainnet/leaderboard";
+
+/**
+ * POST a request to the info endpoint
+ */
+async function postInfo<T>(body: Record<string, unknown>, timeout: number = 5000): Promise<T> {
+  const response = await axios.post<T>(INFO_URL, body, {
+    timeout,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+      "Content-Type": "application/json",
+    },
+  });
+
+  return response.data;
+}
+
+/**
+ * Fetch perpetual metadata together with live asset contexts
+ */
+export async function fetchMetaAndAssetCtxs(): Promise<HyperliquidMetaAndAssetCtxs> {
+  try {
+    return await postInfo<HyperliquidMetaAndAssetCtxs>({ type: "metaAndAssetCtxs" }, 10000);
+  } catch (error) {
+    logger.error("Failed to fetch Hyperliquid asset contexts", error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the perpetuals account state (positions, margin) for an address
+ */
+export async function fetchClearinghouseState(
+  address: string
+): Promise<HyperliquidClearinghouseState> {
+  try {
+    return await postInfo<HyperliquidClearinghouseState>({
+      type: "clearinghouseState",
+      user: address,
+    });
+  } catch (error) {
+    logger.debug("Failed to fetch Hyperliquid clearinghouse state", {
+      address,
+      error: (error as Error).message,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Fetch leaderboard addresses, largest accounts first
+ */
+export async function fetchLeaderboardAddresses(count: number): Promise<string[]> {
+  try {
+    logger.info("Fetching Hyperliquid leaderboard", { url: LEADERBOARD_URL });
+
+    const response = await axios.get<HyperliquidLeaderboardResponse>(LEADERBOARD_URL, {
+      timeout: 15000,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+        "Accept": "application/json",
+      },
+    });
+
+    const addresses = response.data.leaderboardRows
+      .sort((a, b) => parseFloat(b.accountValue) - parseFloat(a.accountValue))
+      .slice(0, count)
+      .map((row) => row.ethAddress.toLowerCase());
+
+    logger.info("Fetched Hyperliquid leaderboard addresses", {
+      total: response.data.leaderboardRows.length,
+      selected: addresses.length,
+    });
+
+    return addresses;
+  } catch (error) {
+    logger.error("Failed to fetch Hyperliquid leaderboard", error as Error);
+    throw error;
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Hyperliquid Address Scanner
+ *
+ * Schedules position scans over tracked addresses in two tiers:
+ * - Priority: addresses holding positions near liquidation, rescanned often
+ * - Background: every tracked address, scanned in pages on a slower cadence
+ *
+ * Both tiers share a request weight budget per minute. The priority tier
+ * may use up to half of it; background pages are sized from what remains,
+ * so a large address list stretches the background pass instead of
+ * exceeding the exchange's rate limit. Each pass runs at most
+ * `maxParallelScans` requests concurrently and a tier never overlaps with
+ * its own previous pass.
+ */
+
+import { logger } from "../../utils/logger.js";
+
+export interface ScannerOptions {
+  priorityScanIntervalMs: number;
+  backgroundScanIntervalMs: number;   // Shortest time for a full background pass
+  maxParallelScans: number;
+  weightPerScan: number;              // Request weight of one address scan
+  weightBudgetPerMinute: number;      // Weight both tiers may use together
+}
+
+export interface ScannerStats {
+  trackedCount: number;
+  priorityCount: number;
+  lastPriorityScanAt: number | null;
+  lastBackgroundScanAt: number | null;
+  lastBackgroundScanDurationMs: number | null;
+  backgroundPageSize: number;
+  scanCount: number;
+  failedScanCount: number;
+}
+
+const MINUTE_MS = 60000;
+
+// Background pages are scheduled at this cadence
+const BACKGROUND_PAGE_MS = 5000;
+
+/**
+ * Run an async task over items with a concurrency limit.
+ * Failures are counted, not thrown, so one bad address cannot stall a pass.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<{ succeeded: number; failed: number }> {
+  let index = 0;
+  let succeeded = 0;
+  let failed = 0;
+
+  const worker = async (): Promise<void> => {
+    while (index < items.length) {
+      const item = items[index++];
+      try {
+        await task(item);
+        succeeded++;
+      } catch {
+        failed++;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return { succeeded, failed };
+}
+
+export class HyperliquidScanner {
+  private options: ScannerOptions;
+  private scanAddress: (address: string) => Promise<void>;
+  private trackedAddresses: Set<string> = new Set();
+  private priorityAddresses: Set<string> = new Set();
+  private priorityInterval: NodeJS.Timeout | null = null;
+  private backgroundInterval: NodeJS.Timeout | null = null;
+  private isPriorityScanRunning = false;
+  private isBackgroundScanRunning = false;
+  private lastPriorityScanAt: number | null = null;
+  private lastBackgroundScanAt: number | null = null;
+  private lastBackgroundScanDurationMs: number | null = null;
+  private priorityCursor = 0;
+  private backgroundCursor = 0;
+  private backgroundPassStartedAt = 0;
+  private scanCount = 0;
+  private failedScanCount = 0;
+
+  constructor(options: ScannerOptions, scanAddress: (address: string) => Promise<void>) {
+    this.options = options;
+    this.scanAddress = scanAddress;
+  }
+
+  /**
+   * Start both scan tiers
+   */
+  start(): void {
+    this.stop();
+
+    this.priorityInterval = setInterval(() => {
+      void this.runPriorityScan();
+    }, this.options.priorityScanIntervalMs);
+
+    this.backgroundInterval = setInterval(() => {
+      void this.runBackgroundScan();
+    }, BACKGROUND_PAGE_MS);
+
+    // Kick off an initial background page so positions are available quickly
+    void this.runBackgroundScan();
+
+    logger.info("Hyperliquid scanner started", {
+      priorityScanIntervalMs: this.options.priorityScanIntervalMs,
+      backgroundScanIntervalMs: this.options.backgroundScanIntervalMs,
+      maxParallelScans: this.options.maxParallelScans,
+      weightBudgetPerMinute: this.options.weightBudgetPerMinute,
+    });
+  }
+
+  /**
+   * Stop both scan tiers
+   */
+  stop(): void {
+    if (this.priorityInterval) {
+      clearInterval(this.priorityInterval);
+      this.priorityInterval = null;
+    }
+    if (this.backgroundInterval) {
+      clearInterval(this.backgroundInterval);
+      this.backgroundInterval = null;
+    }
+  }
+
+  addAddresses(addresses: string[]): void {
+    addresses.forEach((address) => this.trackedAddresses.add(address));
+  }
+
+  removeAddresses(addresses: string[]): void {
+    addresses.forEach((address) => {
+      this.trackedAddresses.delete(address);
+      this.priorityAddresses.delete(address);
+    });
+  }
+
+  getAddresses(): string[] {
+    return Array.from(this.trackedAddresses);
+  }
+
+  /**
+   * Promote or demote an address to/from the priority tier
+   */
+  setPriority(address: string, isPriority: boolean): void {
+    if (isPriority && this.trackedAddresses.has(address)) {
+      this.priorityAddresses.add(address);
+    } else {
+      this.priorityAddresses.delete(address);
+    }
+  }
+
+  getStats(): ScannerStats {
+    return {
+      trackedCount: this.trackedAddresses.size,
+      priorityCount: this.priorityAddresses.size,
+      lastPriorityScanAt: this.lastPriorityScanAt,
+      lastBackgroundScanAt: this.lastBackgroundScanAt,
+      lastBackgroundScanDurationMs: this.lastBackgroundScanDurationMs,
+      backgroundPageSize: this.getBackgroundPageSize(),
+      scanCount: this.scanCount,
+      failedScanCount: this.failedScanCount,
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Scan up to the priority capacity. When more addresses are at risk than
+   * fit in one pass, each pass continues where the last stopped so every
+   * priority address is rescanned in turn.
+   */
+  private async runPriorityScan(): Promise<void> {
+    if (this.isPriorityScanRunning || this.priorityAddresses.size === 0) {
+      return;
+    }
+
+    const addresses = Array.from(this.priorityAddresses);
+    const count = Math.min(this.getPriorityCapacity(), addresses.length);
+    if (this.priorityCursor >= addresses.length) {
+      this.priorityCursor = 0;
+    }
+
+    const batch: string[] = [];
+    for (let i = 0; i < count; i++) {
+      batch.push(addresses[(this.priorityCursor + i) % addresses.length]);
+    }
+    this.priorityCursor = (this.priorityCursor + count) % addresses.length;
+
+    this.isPriorityScanRunning = true;
+    try {
+      await this.scan(batch);
+      this.lastPriorityScanAt = Date.now();
+    } finally {
+      this.isPriorityScanRunning = false;
+    }
+  }
+
+  /**
+   * Scan the next background page. Skipped while the previous page is
+   * still in flight, so a slow page delays the pass rather than stacking
+   * requests on top of it.
+   */
+  private async runBackgroundScan(): Promise<void> {
+    if (this.isBackgroundScanRunning || this.trackedAddresses.size === 0) {
+      return;
+    }
+
+    const pageSize = this.getBackgroundPageSize();
+    if (pageSize === 0) {
+      return;
+    }
+
+    const addresses = Array.from(this.trackedAddresses);
+    if (this.backgroundCursor >= addresses.length) {
+      this.backgroundCursor = 0;
+    }
+    if (this.backgroundCursor === 0) {
+      this.backgroundPassStartedAt = Date.now();
+    }
+
+    this.isBackgroundScanRunning = true;
+    try {
+      const page = addresses.slice(this.backgroundCursor, this.backgroundCursor + pageSize);
+      await this.scan(page);
+      this.backgroundCursor += page.length;
+
+      if (this.backgroundCursor >= addresses.length) {
+        this.lastBackgroundScanAt = Date.now();
+        this.lastBackgroundScanDurationMs = this.lastBackgroundScanAt - this.backgroundPassStartedAt;
+
+        logger.debug("Hyperliquid background scan complete", {
+          addresses: addresses.length,
+          durationMs: this.lastBackgroundScanDurationMs,
+        });
+      }
+    } finally {
+      this.isBackgroundScanRunning = false;
+    }
+  }
+
+  /**
+   * Priority addresses scanned per pass: at most half the weight budget
+   */
+  private getPriorityCapacity(): number {
+    const { weightBudgetPerMinute, weightPerScan, priorityScanIntervalMs } = this.options;
+    const passesPerMinute = MINUTE_MS / priorityScanIntervalMs;
+    return Math.floor(weightBudgetPerMinute / 2 / passesPerMinute / weightPerScan);
+  }
+
+  /**
+   * Addresses per background page: the budget left after the priority
+   * tier, but no faster than one full pass per backgroundScanIntervalMs
+   */
+  private getBackgroundPageSize(): number {
+    const { weightBudgetPerMinute, weightPerScan, priorityScanIntervalMs } = this.options;
+
+    const priorityCount = Math.min(this.priorityAddresses.size, this.getPriorityCapacity());
+    const priorityWeight = priorityCount * weightPerScan * (MINUTE_MS / priorityScanIntervalMs);
+    const pageWeight = (weightBudgetPerMinute - priorityWeight) * (BACKGROUND_PAGE_MS / MINUTE_MS);
+
+    const byBudget = Math.floor(pageWeight / weightPerScan);
+    const byInterval = Math.ceil(
+      this.trackedAddresses.size * (BACKGROUND_PAGE_MS / this.options.backgroundScanIntervalMs)
+    );
+
+    return Math.max(0, Math.min(byBudget, byInterval));
+  }
+
+  private async scan(addresses: string[]): Promise<void> {
+    const result = await runWithConcurrency(
+      addresses,
+      this.options.maxParallelScans,
+      this.scanAddress
+    );
+
+    this.scanCount += result.succeeded;
+    this.failedScanCount += result.failed;
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Hyperliquid WebSocket Connection Manager
+ *
+ * Handles the WebSocket connection, per-coin subscriptions, message routing
+ * and auto-reconnect. Used for the `bbo` feed only: asset contexts carry a
+ * mid and impact prices but no top of book. Subscriptions are
+ * { type, coin } objects and keep-alive is a JSON { method: "ping" }.
+ */
+
+import WebSocket from "ws";
+import { EventEmitter } from "eventemitter3";
+import { logger } from "../../utils/logger.js";
+import type { ConnectionState } from "../../types/exchanges.js";
+import type { HyperliquidSubscription } from "../../types/hyperliquid.js";
+
+interface HyperliquidWebSocketMessage {
+  channel?: string;
+  data?: unknown;
+}
+
+export class HyperliquidWebSocketManager extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private url: string;
+  private state: ConnectionState = "disconnected";
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 10;
+  private reconnectDelay = 1000; // Start with 1 second
+  private maxReconnectDelay = 30000; // Max 30 seconds
+  private pingInterval: NodeJS.Timeout | null = null;
+  private pingIntervalMs = 30000; // Hyperliquid closes connections idle for 60 seconds
+  private subscriptions = new Map<string, HyperliquidSubscription>(); // "type:coin" -> subscription
+  private isManualClose = false;
+
+  constructor(url: string = "wss://api.hyperliquid.xyz/ws") {
+    super();
+    this.url = url;
+  }
+
+  /**
+   * Connect to Hyperliquid WebSocket
+   */
+  connect(): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      logger.warn("Hyperliquid WebSocket already connected");
+      return;
+    }
+
+    this.isManualClose = false;
+    this.setState("connecting");
+
+    logger.info("Connecting to Hyperliquid WebSocket", { url: this.url });
+
+    try {
+      this.ws = new WebSocket(this.url);
+
+      this.ws.on("open", () => {
+        logger.info("Hyperliquid WebSocket connected");
+        this.setState("connected");
+        this.reconnectAttempts = 0;
+        this.reconnectDelay = 1000;
+        this.startPingInterval();
+
+        // Re-subscribe to all previous subscriptions
+        if (this.subscriptions.size > 0) {
+          this.resubscribeAll();
+        }
+      });
+
+      this.ws.on("message", (data: WebSocket.Data) => {
+        this.handleMessage(data);
+      });
+
+      this.ws.on("error", (error: Error) => {
+        logger.error("Hyperliquid WebSocket error", error);
+        this.emit("error", error);
+      });
+
+      this.ws.on("close", (code: number, reason: Buffer) => {
+        logger.warn("Hyperliquid WebSocket closed", {
+          code,
+          reason: reason.toString(),
+          reconnectAttempts: this.reconnectAttempts,
+        });
+        this.stopPingInterval();
+        this.setState("disconnected");
+
+        // Auto-reconnect unless manually closed
+        if (!this.isManualClose) {
+          this.scheduleReconnect();
+        }
+      });
+    } catch (error) {
+      logger.error("Failed to create Hyperliquid WebSocket connection", error as Error);
+      this.setState("error");
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Disconnect from WebSocket
+   */
+  disconnect(): void {
+    this.isManualClose = true;
+    this.stopPingInterval();
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    this.setState("disconnected");
+    logger.info("Hyperliquid WebSocket disconnected");
+  }
+
+  /**
+   * Subscribe to feeds
+   */
+  subscribe(subscriptions: HyperliquidSubscription[]): void {
+    const added = subscriptions.filter((sub) => !this.subscriptions.has(this.getKey(sub)));
+
+    if (added.length === 0) {
+      logger.debug("All Hyperliquid feeds already subscribed");
+      return;
+    }
+
+    // Track subscriptions (queued until connected if necessary)
+    added.forEach((sub) => this.subscriptions.set(this.getKey(sub), sub));
+
+    if (!this.isConnected()) {
+      logger.warn("Cannot subscribe: Hyperliquid WebSocket not connected, queued for reconnect");
+      return;
+    }
+
+    added.forEach((sub) => this.send("subscribe", sub));
+  }
+
+  /**
+   * Unsubscribe from feeds
+   */
+  unsubscribe(subscriptions: HyperliquidSubscription[]): void {
+    const removed = subscriptions.filter((sub) => this.subscriptions.delete(this.getKey(sub)));
+
+    if (!this.isConnected()) {
+      return;
+    }
+
+    removed.forEach((sub) => this.send("unsubscribe", sub));
+  }
+
+  /**
+   * Unsubscribe from all feeds
+   */
+  unsubscribeAll(): void {
+    if (this.subscriptions.size > 0) {
+      this.unsubscribe(Array.from(this.subscriptions.values()));
+    }
+  }
+
+  /**
+   * Get current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Check if connected
+   */
+  isConnected(): boolean {
+    return this.state === "connected" && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Get subscribed feeds
+   */
+  getSubscriptions(): HyperliquidSubscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private getKey(sub: HyperliquidSubscription): string {
+    return `${sub.type}:${sub.coin}`;
+  }
+
+  private send(method: "subscribe" | "unsubscribe", subscription: HyperliquidSubscription): void {
+    this.ws?.send(JSON.stringify({ method, subscription }));
+  }
+
+  private setState(newState: ConnectionState): void {
+    if (this.state !== newState) {
+      const oldState = this.state;
+      this.state = newState;
+      logger.debug("Connection state changed", { from: oldState, to: newState });
+      this.emit("connection", newState);
+    }
+  }
+
+  private handleMessage(data: WebSocket.Data): void {
+    const raw = data.toString();
+
+    try {
+      const message: HyperliquidWebSocketMessage = JSON.parse(raw);
+
+      switch (message.channel) {
+        case "pong":
+          logger.debug("Received Hyperliquid pong");
+          return;
+
+        case "subscriptionResponse":
+          logger.debug("Hyperliquid subscription acknowledged", { data: message.data });
+          return;
+
+        case "error":
+          logger.warn("Hyperliquid WebSocket request failed", { error: message.data });
+          this.emit("error", new Error(`Hyperliquid error: ${String(message.data)}`));
+          return;
+
+        default:
+          if (message.channel && message.data !== undefined) {
+            this.emit("message", { channel: message.channel, data: message.data });
+          }
+      }
+    } catch (error) {
+      logger.error("Failed to parse Hyperliquid WebSocket message", error as Error, {
+        data: raw.substring(0, 200),
+      });
+    }
+  }
+
+  private startPingInterval(): void {
+    this.stopPingInterval();
+
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(JSON.stringify({ method: "ping" }));
+        logger.debug("Sent Hyperliquid ping");
+      }
+    }, this.pingIntervalMs);
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      const error = new Error("Max reconnect attempts reached");
+      logger.error("Max Hyperliquid reconnect attempts reached", error, {
+        reconnectAttempts: this.reconnectAttempts,
+      });
+      this.setState("error");
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
+      this.maxReconnectDelay
+    );
+
+    logger.info("Scheduling Hyperliquid reconnect", {
+      attempt: this.reconnectAttempts,
+      delayMs: delay,
+    });
+
+    this.setState("reconnecting");
+
+    setTimeout(() => {
+      if (!this.isManualClose) {
+        logger.info("Attempting to reconnect to Hyperliquid", {
+          attempt: this.reconnectAttempts,
+        });
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private resubscribeAll(): void {
+    logger.info("Resubscribing to Hyperliquid feeds", {
+      count: this.subscriptions.size,
+    });
+    this.subscriptions.forEach((sub) => this.send("subscribe", sub));
+  }
+}
@@ -23,6 +23,7 @@ import type {
   LiquidationCluster,
 } from "../types/unified.js";
 import type { LiquidationRisk } from "../types/exchanges.js";
+import type { LiquidationClusterSnapshot } from "../compute/liquidation-clusters.js";
 
 // ══════════════════════════════════════════════════════════════════════
 // BASE EXCHANGE CONNECTOR INTERFACE
@@ -87,6 +88,9 @@ export interface ExchangeConnector extends EventEmitter {
   /** Subscribe to liquidations (if available) */
   subscribeToLiquidations(symbols: string[]): Promise<void>;
   
+  /** Unsubscribe every stream for specific symbols */
+  unsubscribeSymbols(symbols: string[]): Promise<void>;
+  
   /** Unsubscribe from all */
   unsubscribeAll(): Promise<void>;
 
@@ -107,6 +111,12 @@ export interface ExchangeConnector extends EventEmitter {
   /** Emitted when normalized market data is ready */
   on(event: "market", callback: (data: UnifiedMarket) => void): this;
   
+  /** Emitted when a subscribed perpetual's spot counterpart updates (where supported) */
+  on(event: "spot", callback: (data: UnifiedMarket) => void): this;
+  
+  /** Emitted when a dated futures contract on a subscribed base asset updates (where supported) */
+  on(event: "futures", callback: (data: UnifiedMarket) => void): this;
+  
   /** Emitted when order book update is ready */
   on(event: "orderbook", callback: (data: UnifiedOrderBook) => void): this;
   
@@ -190,5 +200,8 @@ export interface HyperliquidConnector extends Omit<ExchangeConnector, "on"> {
   
   /** Emitted when a position approaches liquidation */
   on(event: "liquidationRisk", callback: (data: LiquidationRisk) => void): this;
+  
+  /** Emitted when a coin's liquidation clusters are recomputed */
+  on(event: "liquidationClusters", callback: (data: LiquidationClusterSnapshot) => void): this;
 }
 
@@ -0,0 +1,185 @@
+/**
+ * Listing Detector
+ *
+ * Periodically diffs each exchange's instrument list to detect new
+ * listings, delistings and status transitions (e.g. Trading → Settling).
+ * The first poll per exchange only records a baseline.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { Exchange } from "../types/unified.js";
+import type { InstrumentStatus } from "../types/exchanges.js";
+import { getConfig } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+
+export type ListingSignalType = "listing" | "delisting" | "status_change";
+
+export interface ListingSignal {
+  type: ListingSignalType;
+  exchange: Exchange;
+  symbol: string;             // Exchange symbol
+  normalizedSymbol: string;
+  marketId: string;
+  previousStatus: string | null;
+  status: string | null;      // null once the instrument disappears
+  isActive: boolean;
+  launchTime?: number;
+  detectedAt: number;
+}
+
+const MAX_SIGNALS = 500;
+
+export class ListingDetector extends EventEmitter {
+  private sources: Map<Exchange, () => Promise<InstrumentStatus[]>> = new Map();
+  private known: Map<Exchange, Map<string, InstrumentStatus>> = new Map();
+  private signals: ListingSignal[] = [];
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking = false;
+
+  /**
+   * Register an exchange's instrument status fetcher.
+   */
+  register(exchange: Exchange, fetchStatuses: () => Promise<InstrumentStatus[]>): void {
+    this.sources.set(exchange, fetchStatuses);
+  }
+
+  /**
+   * Poll every registered exchange once and emit "signal" for each change.
+   */
+  async checkAll(): Promise<ListingSignal[]> {
+    if (this.isChecking) {
+      return [];
+    }
+
+    this.isChecking = true;
+    const detected: ListingSignal[] = [];
+
+    try {
+      for (const [exchange, fetchStatuses] of this.sources.entries()) {
+        try {
+          const instruments = await fetchStatuses();
+          detected.push(...this.diff(exchange, instruments));
+        } catch (error) {
+          logger.warn("Failed to check listings", { exchange, error });
+        }
+      }
+    } finally {
+      this.isChecking = false;
+    }
+
+    for (const signal of detected) {
+      this.signals.push(signal);
+      logger.info("Listing signal detected", {
+        type: signal.type,
+        marketId: signal.marketId,
+        previousStatus: signal.previousStatus,
+        status: signal.status,
+      });
+      this.emit("signal", signal);
+    }
+
+    if (this.signals.length > MAX_SIGNALS) {
+      this.signals = this.signals.slice(-MAX_SIGNALS);
+    }
+
+    return detected;
+  }
+
+  /**
+   * Start periodic checks. The first check records the baseline.
+   */
+  async start(): Promise<void> {
+    if (this.checkInterval) {
+      return;
+    }
+
+    await this.checkAll();
+
+    const intervalMs = getConfig().universe.listingCheckIntervalMs;
+
+    this.checkInterval = setInterval(() => {
+      void this.checkAll();
+    }, intervalMs);
+
+    logger.info("Listing detector started", {
+      intervalMs,
+      exchanges: Array.from(this.sources.keys()),
+    });
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Most recent signals first, optionally filtered by type.
+   */
+  getRecent(limit: number = 50, type?: ListingSignalType): ListingSignal[] {
+    const filtered = type ? this.signals.filter((s) => s.type === type) : this.signals;
+    return filtered.slice(-limit).reverse();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private diff(exchange: Exchange, instruments: InstrumentStatus[]): ListingSignal[] {
+    const current = new Map(instruments.map((inst) => [inst.exchangeSymbol, inst]));
+    const previous = this.known.get(exchange);
+    this.known.set(exchange, current);
+
+    if (!previous) {
+      logger.info("Listing baseline recorded", { exchange, instruments: current.size });
+      return [];
+    }
+
+    const detected: ListingSignal[] = [];
+    const now = Date.now();
+
+    for (const [symbol, inst] of current.entries()) {
+      const before = previous.get(symbol);
+
+      if (!before) {
+        detected.push(this.createSignal("listing", exchange, inst, null, now));
+      } else if (before.status !== inst.status) {
+        detected.push(this.createSignal("status_change", exchange, inst, before.status, now));
+      }
+    }
+
+    for (const [symbol, before] of previous.entries()) {
+      if (!current.has(symbol)) {
+        detected.push({
+          ...this.createSignal("delisting", exchange, before, before.status, now),
+          status: null,
+          isActive: false,
+        });
+      }
+    }
+
+    return detected;
+  }
+
+  private createSignal(
+    type: ListingSignalType,
+    exchange: Exchange,
+    inst: InstrumentStatus,
+    previousStatus: string | null,
+    detectedAt: number
+  ): ListingSignal {
+    return {
+      type,
+      exchange,
+      symbol: inst.exchangeSymbol,
+      normalizedSymbol: inst.normalizedSymbol,
+      marketId: `${exchange}:${inst.normalizedSymbol}`,
+      previousStatus,
+      status: inst.status,
+      isActive: inst.isActive,
+      launchTime: inst.launchTime,
+      detectedAt,
+    };
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * OKX Connector Implementation
+ *
+ * Implements the ExchangeConnector interface for OKX V5 perpetual swaps.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { ExchangeConnector } from "../interface.js";
+import type { Exchange } from "../../types/unified.js";
+import type {
+  SymbolInfo,
+  ConnectorHealth,
+  PollingConfig,
+  ConnectionState,
+  ConnectorError,
+} from "../../types/exchanges.js";
+import { OkxWebSocketManager } from "./websocket.js";
+import {
+  normalizeOkxTicker,
+  validateOkxTicker,
+  normalizeOkxSymbol,
+  denormalizeOkxSymbol,
+  getOkxContractSpec,
+  type OkxContractSpec,
+} from "./normalizer.js";
+import { fetchOkxInstruments, toOkxSymbolInfo } from "./rest.js";
+import { logger } from "../../utils/logger.js";
+import type {
+  OkxChannelArg,
+  OkxTicker,
+  OkxMarkPrice,
+  OkxFundingRate,
+  OkxOpenInterest,
+} from "../../types/okx.js";
+
+interface OkxChannelMessage {
+  arg: OkxChannelArg;
+  data: unknown[];
+}
+
+// Linear USDT swaps are the common case when instrument discovery is unavailable
+const FALLBACK_CONTRACT_SPEC: OkxContractSpec = { ctVal: 1, ctMult: 1, ctType: "linear" };
+
+export class OkxConnector extends EventEmitter implements ExchangeConnector {
+  readonly exchangeId: Exchange = "okx";
+  readonly displayName = "OKX";
+  readonly type: "cex" | "dex" = "cex";
+
+  private wsManager: OkxWebSocketManager;
+  private symbols: Map<string, SymbolInfo> = new Map(); // instId -> SymbolInfo
+  private contractSpecs: Map<string, OkxContractSpec> = new Map(); // instId -> ctVal sizing
+  private isInitialized = false;
+  private isStarted = false;
+  private messageCount = 0;
+  private lastMessageTime = 0;
+  private reconnectCount = 0;
+  private errors: ConnectorError[] = [];
+  private subscribedSymbols: Set<string> = new Set();
+
+  // Data caches for combining multiple channels
+  private tickerCache: Map<string, OkxTicker> = new Map();
+  private markPriceCache: Map<string, OkxMarkPrice> = new Map();
+  private fundingCache: Map<string, OkxFundingRate> = new Map();
+  private openInterestCache: Map<string, OkxOpenInterest> = new Map();
+
+  constructor() {
+    super();
+    this.wsManager = new OkxWebSocketManager();
+    this.setupWebSocketHandlers();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // LIFECYCLE
+  // ══════════════════════════════════════════════════════════════════════
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      logger.warn("OKX connector already initialized");
+      return;
+    }
+
+    logger.info("Initializing OKX connector");
+
+    try {
+      const instruments = await fetchOkxInstruments();
+
+      for (const instrument of instruments) {
+        this.symbols.set(instrument.instId, toOkxSymbolInfo(instrument));
+        this.contractSpecs.set(instrument.instId, getOkxContractSpec(instrument));
+      }
+
+      logger.info("OKX connector initialized", {
+        symbolCount: this.symbols.size,
+      });
+
+      this.isInitialized = true;
+    } catch (error) {
+      // Without instruments, contract sizes fall back to 1 and USD figures may be off
+      logger.warn("Failed to fetch OKX instruments, contract sizing unavailable", { error });
+      this.isInitialized = true;
+    }
+  }
+
+  async start(): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("OKX connector must be initialized before starting");
+    }
+
+    if (this.isStarted) {
+      logger.warn("OKX connector already started");
+      return;
+    }
+
+    logger.info("Starting OKX connector");
+
+    this.wsManager.connect();
+
+    this.isStarted = true;
+  }
+
+  async stop(): Promise<void> {
+    logger.info("Stopping OKX connector");
+
+    await this.unsubscribeAll();
+    this.wsManager.disconnect();
+
+    this.isStarted = false;
+  }
+
+  getHealth(): ConnectorHealth {
+    const now = Date.now();
+    const messageRate =
+      this.lastMessageTime > 0 && now > this.lastMessageTime
+        ? this.messageCount / ((now - this.lastMessageTime) / 1000)
+        : 0;
+
+    return {
+      isConnected: this.wsManager.isConnected(),
+      connectionCount: 1, // Single WebSocket connection
+      subscriptionCount: this.subscribedSymbols.size,
+      messageRate,
+      lastMessageTime: this.lastMessageTime,
+      reconnectCount: this.reconnectCount,
+      errors: [...this.errors].slice(-10),
+      extra: {
+        channelCount: this.wsManager.getSubscriptions().length,
+        instrumentsWithContractSpec: this.contractSpecs.size,
+      },
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // SYMBOL MANAGEMENT
+  // ══════════════════════════════════════════════════════════════════════
+
+  async getAvailableSymbols(): Promise<SymbolInfo[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    return Array.from(this.symbols.values());
+  }
+
+  /**
+   * Re-fetch live instruments so new listings become known. Instruments
+   * missing from the fresh list are kept for normalization and contract
+   * sizing but marked inactive. Throws on failure.
+   */
+  async refreshSymbols(): Promise<SymbolInfo[]> {
+    const instruments = await fetchOkxInstruments();
+    const fresh = new Set(instruments.map((instrument) => instrument.instId));
+
+    for (const [instId, info] of this.symbols.entries()) {
+      if (!fresh.has(instId)) {
+        this.symbols.set(instId, { ...info, isActive: false });
+      }
+    }
+    for (const instrument of instruments) {
+      this.symbols.set(instrument.instId, toOkxSymbolInfo(instrument));
+      this.contractSpecs.set(instrument.instId, getOkxContractSpec(instrument));
+    }
+
+    return Array.from(this.symbols.values());
+  }
+
+  normalizeSymbol(exchangeSymbol: string): string {
+    const symbolInfo = this.symbols.get(exchangeSymbol);
+    if (symbolInfo) {
+      return symbolInfo.normalizedSymbol;
+    }
+    return normalizeOkxSymbol(exchangeSymbol);
+  }
+
+  denormalizeSymbol(normalizedSymbol: string): string {
+    for (const [exchangeSymbol, info] of this.symbols.entries()) {
+      if (info.normalizedSymbol === normalizedSymbol) {
+        return exchangeSymbol;
+      }
+    }
+
+    return denormalizeOkxSymbol(normalizedSymbol);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // DATA SUBSCRIPTIONS
+  // ══════════════════════════════════════════════════════════════════════
+
+  async subscribeToTickers(symbols: string[]): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error("Connector must be started before subscribing");
+    }
+
+    const instIds = symbols.map((symbol) => this.toInstId(symbol));
+
+    // OKX splits market data across channels: tickers, mark-price, funding-rate, open-interest
+    const args: OkxChannelArg[] = [];
+
+    for (const instId of instIds) {
+      args.push({ channel: "tickers", instId });
+      args.push({ channel: "mark-price", instId });
+      args.push({ channel: "funding-rate", instId });
+      args.push({ channel: "open-interest", instId });
+    }
+
+    this.wsManager.subscribe(args);
+
+    instIds.forEach((instId) => this.subscribedSymbols.add(instId));
+
+    logger.info("Subscribed to OKX tickers", {
+      symbolCount: instIds.length,
+      channelCount: args.length,
+    });
+  }
+
+  async subscribeToOrderBooks(
+    _symbols: string[],
+    _depth: number = 20
+  ): Promise<void> {
+    logger.warn("OKX order book subscriptions not implemented");
+  }
+
+  async subscribeToTrades(_symbols: string[]): Promise<void> {
+    logger.warn("OKX trade subscriptions not implemented");
+  }
+
+  async subscribeToLiquidations(_symbols: string[]): Promise<void> {
+    logger.warn("OKX liquidation subscriptions not implemented");
+  }
+
+  async unsubscribeSymbols(symbols: string[]): Promise<void> {
+    const instIds = symbols.map((symbol) => this.toInstId(symbol));
+
+    const args: OkxChannelArg[] = [];
+
+    for (const instId of instIds) {
+      args.push({ channel: "tickers", instId });
+      args.push({ channel: "mark-price", instId });
+      args.push({ channel: "funding-rate", instId });
+      args.push({ channel: "open-interest", instId });
+
+      this.subscribedSymbols.delete(instId);
+      this.tickerCache.delete(instId);
+      this.markPriceCache.delete(instId);
+      this.fundingCache.delete(instId);
+      this.openInterestCache.delete(instId);
+    }
+
+    this.wsManager.unsubscribe(args);
+
+    logger.info("Unsubscribed from OKX symbols", {
+      symbolCount: instIds.length,
+    });
+  }
+
+  async unsubscribeAll(): Promise<void> {
+    this.wsManager.unsubscribeAll();
+    this.subscribedSymbols.clear();
+    logger.info("Unsubscribed from all OKX channels");
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // REST POLLING
+  // ══════════════════════════════════════════════════════════════════════
+
+  async pollRestData(): Promise<void> {
+    // Funding and open interest are pushed over WebSocket
+    logger.debug("No REST polling required for OKX");
+  }
+
+  getPollingConfig(): PollingConfig {
+    return {
+      endpoints: [],
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private toInstId(symbol: string): string {
+    if (this.symbols.has(symbol) || symbol.endsWith("-SWAP")) {
+      return symbol;
+    }
+    return this.denormalizeSymbol(symbol);
+  }
+
+  private setupWebSocketHandlers(): void {
+    this.wsManager.on("connection", (state: ConnectionState) => {
+      if (state === "connected") {
+        this.reconnectCount++;
+      }
+      this.emit("connection", state);
+    });
+
+    this.wsManager.on("message", (msg: OkxChannelMessage) => {
+      this.handleChannelMessage(msg);
+    });
+
+    this.wsManager.on("error", (error: Error) => {
+      this.recordError("websocket_error", error.message);
+      this.emit("error", {
+        code: "websocket_error",
+        message: error.message,
+        timestamp: Date.now(),
+      });
+    });
+  }
+
+  private handleChannelMessage(msg: OkxChannelMessage): void {
+    this.messageCount++;
+    this.lastMessageTime = Date.now();
+
+    const { channel, instId } = msg.arg;
+    const data = msg.data[0];
+    if (!data) {
+      return;
+    }
+
+    // Route message by channel
+    if (channel === "tickers") {
+      if (validateOkxTicker(data)) {
+        this.tickerCache.set(instId, data);
+        this.emitMarketUpdate(instId);
+      }
+    } else if (channel === "mark-price") {
+      this.markPriceCache.set(instId, data as OkxMarkPrice);
+      this.emitMarketUpdate(instId);
+    } else if (channel === "funding-rate") {
+      this.fundingCache.set(instId, data as OkxFundingRate);
+      this.emitMarketUpdate(instId);
+    } else if (channel === "open-interest") {
+      this.openInterestCache.set(instId, data as OkxOpenInterest);
+      this.emitMarketUpdate(instId);
+    }
+  }
+
+  private emitMarketUpdate(instId: string): void {
+    const ticker = this.tickerCache.get(instId);
+    if (!ticker) {
+      return; // Wait for ticker data
+    }
+
+    const spec = this.contractSpecs.get(instId) ?? FALLBACK_CONTRACT_SPEC;
+
+    try {
+      const market = normalizeOkxTicker(
+        instId,
+        spec,
+        ticker,
+        this.markPriceCache.get(instId),
+        this.fundingCache.get(instId),
+        this.openInterestCache.get(instId)
+      );
+
+      this.emit("market", market);
+    } catch (error) {
+      logger.error("Failed to normalize OKX ticker", error as Error, {
+        instId,
+      });
+      this.recordError("normalization_error", (error as Error).message);
+    }
+  }
+
+  private recordError(code: string, message: string): void {
+    const error: ConnectorError = {
+      code,
+      message,
+      timestamp: Date.now(),
+    };
+
+    this.errors.push(error);
+
+    if (this.errors.length > 100) {
+      this.errors = this.errors.slice(-100);
+    }
+  }
+}
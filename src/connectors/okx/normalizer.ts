@@ -0,0 +1,268 @@
+/**
+ * OKX → UnifiedMarket Normalizer
+ *
+ * Transforms OKX V5 perpetual swap data into the unified UnifiedMarket schema.
+ *
+ * OKX quotes sizes (book sizes, 24h volume, open interest) in contracts, and
+ * each contract represents `ctVal` units of `ctValCcy`. All sizes are converted
+ * to base-currency units here so USD figures are comparable with other venues.
+ */
+
+import type { UnifiedMarket } from "../../types/unified.js";
+import type {
+  OkxTicker,
+  OkxMarkPrice,
+  OkxFundingRate,
+  OkxOpenInterest,
+  OkxInstrument,
+} from "../../types/okx.js";
+import { normalizeFundingRate, DEFAULT_FUNDING_INTERVAL_HOURS } from "../../utils/funding.js";
+
+// ══════════════════════════════════════════════════════════════════════
+// CONTRACT SPECIFICATION
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Contract sizing needed to convert OKX contract quantities.
+ */
+export interface OkxContractSpec {
+  ctVal: number;                 // Contract value
+  ctMult: number;                // Contract multiplier
+  ctType: "linear" | "inverse";  // linear: ctVal in base, inverse: ctVal in quote
+}
+
+/**
+ * Build a contract spec from an OKX instrument definition.
+ */
+export function getOkxContractSpec(instrument: OkxInstrument): OkxContractSpec {
+  return {
+    ctVal: parseFloat(instrument.ctVal) || 1,
+    ctMult: parseFloat(instrument.ctMult) || 1,
+    ctType: instrument.ctType === "inverse" ? "inverse" : "linear",
+  };
+}
+
+/**
+ * Convert a quantity in contracts to base-currency units.
+ * Inverse contracts are denominated in quote currency, so they need a price.
+ */
+export function contractsToBase(
+  contracts: number,
+  price: number,
+  spec: OkxContractSpec
+): number {
+  const value = contracts * spec.ctVal * spec.ctMult;
+  if (spec.ctType === "inverse") {
+    return price > 0 ? value / price : 0;
+  }
+  return value;
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// NORMALIZATION FUNCTIONS
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Normalize OKX instrument ID to unified format.
+ * Example: "BTC-USDT-SWAP" → "BTC-USDT-PERP"
+ */
+export function normalizeOkxSymbol(instId: string): string {
+  const parts = instId.split("-");
+  if (parts.length >= 3 && parts[parts.length - 1] === "SWAP") {
+    return `${parts[0]}-${parts[1]}-PERP`;
+  }
+
+  if (parts.length === 2) {
+    return `${parts[0]}-${parts[1]}-PERP`;
+  }
+
+  return `${instId}-PERP`;
+}
+
+/**
+ * Convert normalized symbol back to an OKX swap instrument ID.
+ * Example: "BTC-USDT-PERP" → "BTC-USDT-SWAP"
+ */
+export function denormalizeOkxSymbol(normalizedSymbol: string): string {
+  const parts = normalizedSymbol.split("-");
+  if (parts.length >= 2) {
+    return `${parts[0]}-${parts[1]}-SWAP`;
+  }
+  return normalizedSymbol;
+}
+
+/**
+ * Extract base and quote assets from normalized symbol.
+ */
+export function parseNormalizedSymbol(normalizedSymbol: string): {
+  baseAsset: string;
+  quoteAsset: string;
+} {
+  const parts = normalizedSymbol.split("-");
+  if (parts.length >= 2) {
+    return {
+      baseAsset: parts[0],
+      quoteAsset: parts[1],
+    };
+  }
+
+  return {
+    baseAsset: normalizedSymbol,
+    quoteAsset: "USDT",
+  };
+}
+
+/**
+ * Convert OKX ticker data to UnifiedMarket.
+ * Combines data from multiple OKX channels (tickers, mark-price, funding-rate, open-interest).
+ */
+export function normalizeOkxTicker(
+  instId: string,
+  spec: OkxContractSpec,
+  tickerData: OkxTicker,
+  markPriceData?: OkxMarkPrice,
+  fundingData?: OkxFundingRate,
+  openInterestData?: OkxOpenInterest
+): UnifiedMarket {
+  const normalizedSymbol = normalizeOkxSymbol(instId);
+  const { baseAsset, quoteAsset } = parseNormalizedSymbol(normalizedSymbol);
+
+  const now = Date.now();
+
+  // Price data
+  const lastPrice = parseFloat(tickerData.last) || 0;
+  const markPrice = markPriceData ? parseFloat(markPriceData.markPx) || null : null;
+  const indexPrice = null; // Index price requires the separate index-tickers channel
+  const bestBid = parseFloat(tickerData.bidPx) || 0;
+  const bestAsk = parseFloat(tickerData.askPx) || 0;
+  const bestBidQty = contractsToBase(parseFloat(tickerData.bidSz) || 0, bestBid, spec);
+  const bestAskQty = contractsToBase(parseFloat(tickerData.askSz) || 0, bestAsk, spec);
+
+  // Calculate mid price and spread
+  const midPrice = (bestBid + bestAsk) / 2;
+  const spreadAbsolute = bestAsk - bestBid;
+  const spreadPercent = midPrice > 0 ? (spreadAbsolute / midPrice) * 100 : 0;
+
+  // Funding data (from funding-rate channel)
+  const fundingRate = fundingData ? parseFloat(fundingData.fundingRate) : null;
+  const fundingRateNext = fundingData && fundingData.nextFundingRate
+    ? parseFloat(fundingData.nextFundingRate)
+    : null;
+  // fundingTime is the settlement of the current period, i.e. the next payment
+  const nextFundingTime = fundingData ? parseInt(fundingData.fundingTime) || null : null;
+  const timeToFunding = nextFundingTime ? Math.max(0, nextFundingTime - now) : null;
+
+  // OKX publishes both settlement times, so derive the interval instead of assuming 8h
+  const followingFundingTime = fundingData ? parseInt(fundingData.nextFundingTime) || null : null;
+  const fundingIntervalHours =
+    nextFundingTime && followingFundingTime && followingFundingTime > nextFundingTime
+      ? (followingFundingTime - nextFundingTime) / 3600000
+      : DEFAULT_FUNDING_INTERVAL_HOURS;
+  const { fundingRatePerHour, fundingRate8h, fundingRateAnnualized } =
+    normalizeFundingRate(fundingRate, fundingIntervalHours);
+
+  // Volume: volCcy24h is already in base currency for derivatives
+  const referencePrice = markPrice ?? lastPrice;
+  const volume24hBase = tickerData.volCcy24h
+    ? parseFloat(tickerData.volCcy24h) || 0
+    : contractsToBase(parseFloat(tickerData.vol24h) || 0, referencePrice, spec);
+  const volume24h = volume24hBase * lastPrice; // Quote currency
+  const volume24hUsd = volume24h; // USDT/USD quoted swaps, which are ~USD
+
+  // Open interest, expressed in base units to match other venues
+  let openInterest: number | null = null;
+  if (openInterestData) {
+    openInterest = openInterestData.oiCcy
+      ? parseFloat(openInterestData.oiCcy) || 0
+      : contractsToBase(parseFloat(openInterestData.oi) || 0, referencePrice, spec);
+  }
+  const openInterestUsd = openInterest !== null ? openInterest * referencePrice : null;
+
+  // 24h statistics
+  const high24h = parseFloat(tickerData.high24h) || 0;
+  const low24h = parseFloat(tickerData.low24h) || 0;
+  const open24h = parseFloat(tickerData.open24h) || 0;
+  const priceChange24h = lastPrice - open24h;
+  const priceChangePercent24h = open24h > 0 ? (priceChange24h / open24h) * 100 : 0;
+
+  // Create unified market
+  const market: UnifiedMarket = {
+    // Identifiers
+    id: `okx:${normalizedSymbol}`,
+    exchange: "okx",
+    symbol: normalizedSymbol,
+    baseAsset,
+    quoteAsset,
+    marketType: "perpetual",
+    expiryTime: null,
+    exchangeSymbol: instId,
+
+    // Price data
+    lastPrice,
+    markPrice,
+    indexPrice,
+    bestBid,
+    bestBidQty,
+    bestAsk,
+    bestAskQty,
+    midPrice,
+    spreadAbsolute,
+    spreadPercent,
+
+    // Funding
+    fundingRate,
+    fundingRateNext,
+    fundingRateAnnualized,
+    fundingRatePerHour,
+    fundingRate8h,
+    nextFundingTime,
+    timeToFunding,
+    fundingIntervalHours: fundingRate !== null ? fundingIntervalHours : null,
+
+    // Volume & OI
+    volume24h,
+    volume24hBase,
+    volume24hUsd,
+    tradeCount24h: null, // Not in ticker
+    openInterest,
+    openInterestUsd,
+
+    // 24h statistics
+    high24h,
+    low24h,
+    open24h,
+    priceChange24h,
+    priceChangePercent24h,
+
+    // Metadata
+    updatedAt: now,
+    dataAge: 0,
+    isFresh: true,
+
+    // Data quality flags
+    flags: {
+      hasRealTimeOI: true,         // OKX pushes open-interest over WebSocket
+      hasFullLiquidations: false,  // OKX liquidation feed is sampled
+      hasFunding: fundingRate !== null,
+    },
+  };
+
+  return market;
+}
+
+/**
+ * Validate OKX ticker data structure.
+ */
+export function validateOkxTicker(data: unknown): data is OkxTicker {
+  if (!data || typeof data !== "object") {
+    return false;
+  }
+
+  const ticker = data as Record<string, unknown>;
+
+  // Check required fields
+  return (
+    typeof ticker.instId === "string" &&
+    typeof ticker.last === "string"
+  );
+}
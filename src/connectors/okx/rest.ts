@@ -0,0 +1,124 @@
+/**
+ * OKX V5 REST API Client
+ *
+ * Handles REST API calls for instrument discovery and volume ranking.
+ */
+
+import axios from "axios";
+import { logger } from "../../utils/logger.js";
+import type { OkxInstrument, OkxResponse, OkxTicker } from "../../types/okx.js";
+import type { SymbolInfo } from "../../types/exchanges.js";
+import { normalizeOkxSymbol } from "./normalizer.js";
+
+const REST_BASE_URL = "https://www.okx.com";
+
+/**
+ * Fetch live perpetual swap instruments (includes ctVal contract sizing)
+ */
+export async function fetchOkxInstruments(): Promise<OkxInstrument[]> {
+  const url = `${REST_BASE_URL}/api/v5/public/instruments`;
+
+  try {
+    logger.info("Fetching OKX instruments", { url });
+
+    const response = await axios.get<OkxResponse<OkxInstrument>>(url, {
+      params: { instType: "SWAP" },
+      timeout: 10000,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+        "Accept": "application/json",
+      },
+    });
+
+    if (response.data.code !== "0") {
+      throw new Error(`OKX API error: ${response.data.msg}`);
+    }
+
+    const instruments = response.data.data;
+    const live = instruments.filter((inst) => inst.state === "live");
+
+    logger.info("Fetched OKX instruments", {
+      total: instruments.length,
+      live: live.length,
+    });
+
+    return live;
+  } catch (error) {
+    logger.error("Failed to fetch OKX instruments", error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Convert OKX instruments to SymbolInfo
+ */
+export function toOkxSymbolInfo(instrument: OkxInstrument): SymbolInfo {
+  const [base, quote] = instrument.uly ? instrument.uly.split("-") : instrument.instId.split("-");
+
+  return {
+    exchangeSymbol: instrument.instId,
+    normalizedSymbol: normalizeOkxSymbol(instrument.instId),
+    baseAsset: base,
+    quoteAsset: quote,
+    contractType: "perpetual",
+    isActive: instrument.state === "live",
+  };
+}
+
+/**
+ * Fetch all USDT swap instruments ranked by 24h USD volume, highest first.
+ * Throws on API failure so callers can decide on a fallback.
+ */
+export async function getRankedOkxSymbols(): Promise<string[]> {
+  const url = `${REST_BASE_URL}/api/v5/market/tickers`;
+  const response = await axios.get<OkxResponse<OkxTicker>>(url, {
+    params: { instType: "SWAP" },
+    timeout: 10000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; CryptoDashboard/1.0)",
+    },
+  });
+
+  if (response.data.code !== "0") {
+    throw new Error(`OKX API error: ${response.data.msg}`);
+  }
+
+  // volCcy24h is in base currency for swaps, so multiply by last price for USD volume
+  return response.data.data
+    .filter((ticker) => ticker.instId.endsWith("-USDT-SWAP"))
+    .map((ticker) => ({
+      instId: ticker.instId,
+      volumeUsd: (parseFloat(ticker.volCcy24h) || 0) * (parseFloat(ticker.last) || 0),
+    }))
+    .sort((a, b) => b.volumeUsd - a.volumeUsd)
+    .map((ticker) => ticker.instId);
+}
+
+/**
+ * Get top swap instruments by 24h USD volume
+ */
+export async function getTopOkxSymbols(count: number = 50): Promise<string[]> {
+  try {
+    const sorted = (await getRankedOkxSymbols()).slice(0, count);
+
+    logger.info("Fetched top OKX symbols by volume", { count: sorted.length });
+    return sorted;
+  } catch (error) {
+    logger.warn("Failed to fetch top OKX symbols, using fallback", { error });
+    return getFallbackSymbols(count);
+  }
+}
+
+/**
+ * Fallback list of common OKX perpetual swaps
+ */
+function getFallbackSymbols(count: number): string[] {
+  const commonSymbols = [
+    "BTC-USDT-SWAP", "ETH-USDT-SWAP", "SOL-USDT-SWAP", "XRP-USDT-SWAP", "DOGE-USDT-SWAP",
+    "BNB-USDT-SWAP", "ADA-USDT-SWAP", "AVAX-USDT-SWAP", "LINK-USDT-SWAP", "TRX-USDT-SWAP",
+    "DOT-USDT-SWAP", "LTC-USDT-SWAP", "UNI-USDT-SWAP", "ATOM-USDT-SWAP", "ETC-USDT-SWAP",
+    "FIL-USDT-SWAP", "NEAR-USDT-SWAP", "APT-USDT-SWAP", "ARB-USDT-SWAP", "OP-USDT-SWAP",
+    "SUI-USDT-SWAP", "AAVE-USDT-SWAP", "CRV-USDT-SWAP", "PEPE-USDT-SWAP", "WIF-USDT-SWAP",
+  ];
+  return commonSymbols.slice(0, count);
+}
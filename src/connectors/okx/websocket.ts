@@ -0,0 +1,311 @@
+/**
+ * OKX V5 WebSocket Connection Manager
+ *
+ * Handles WebSocket connection, subscriptions, message routing, and auto-reconnect.
+ * OKX subscription args are objects ({ channel, instId }) rather than topic strings,
+ * and keep-alive uses plain-text "ping"/"pong" frames.
+ */
+
+import WebSocket from "ws";
+import { EventEmitter } from "eventemitter3";
+import { logger } from "../../utils/logger.js";
+import type { ConnectionState } from "../../types/exchanges.js";
+import type { OkxChannelArg } from "../../types/okx.js";
+
+interface OkxWebSocketMessage {
+  event?: string;
+  arg?: OkxChannelArg;
+  data?: unknown[];
+  code?: string;
+  msg?: string;
+  connId?: string;
+}
+
+const ARGS_PER_REQUEST = 100; // Keeps each request well under OKX's 64KB frame limit
+
+export class OkxWebSocketManager extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private url: string;
+  private state: ConnectionState = "disconnected";
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 10;
+  private reconnectDelay = 1000; // Start with 1 second
+  private maxReconnectDelay = 30000; // Max 30 seconds
+  private pingInterval: NodeJS.Timeout | null = null;
+  private pingIntervalMs = 25000; // OKX closes idle connections after 30 seconds
+  private subscriptions = new Map<string, OkxChannelArg>(); // "channel:instId" -> arg
+  private isManualClose = false;
+
+  constructor(url: string = "wss://ws.okx.com:8443/ws/v5/public") {
+    super();
+    this.url = url;
+  }
+
+  /**
+   * Connect to OKX WebSocket
+   */
+  connect(): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      logger.warn("OKX WebSocket already connected");
+      return;
+    }
+
+    this.isManualClose = false;
+    this.setState("connecting");
+
+    logger.info("Connecting to OKX WebSocket", { url: this.url });
+
+    try {
+      this.ws = new WebSocket(this.url);
+
+      this.ws.on("open", () => {
+        logger.info("OKX WebSocket connected");
+        this.setState("connected");
+        this.reconnectAttempts = 0;
+        this.reconnectDelay = 1000;
+        this.startPingInterval();
+
+        // Re-subscribe to all previous subscriptions
+        if (this.subscriptions.size > 0) {
+          this.resubscribeAll();
+        }
+      });
+
+      this.ws.on("message", (data: WebSocket.Data) => {
+        this.handleMessage(data);
+      });
+
+      this.ws.on("error", (error: Error) => {
+        logger.error("OKX WebSocket error", error);
+        this.emit("error", error);
+      });
+
+      this.ws.on("close", (code: number, reason: Buffer) => {
+        logger.warn("OKX WebSocket closed", {
+          code,
+          reason: reason.toString(),
+          reconnectAttempts: this.reconnectAttempts,
+        });
+        this.stopPingInterval();
+        this.setState("disconnected");
+
+        // Auto-reconnect unless manually closed
+        if (!this.isManualClose) {
+          this.scheduleReconnect();
+        }
+      });
+    } catch (error) {
+      logger.error("Failed to create OKX WebSocket connection", error as Error);
+      this.setState("error");
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Disconnect from WebSocket
+   */
+  disconnect(): void {
+    this.isManualClose = true;
+    this.stopPingInterval();
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    this.setState("disconnected");
+    logger.info("OKX WebSocket disconnected");
+  }
+
+  /**
+   * Subscribe to channel args
+   */
+  subscribe(args: OkxChannelArg[]): void {
+    const newArgs = args.filter((arg) => !this.subscriptions.has(this.getKey(arg)));
+
+    if (newArgs.length === 0) {
+      logger.debug("All OKX channels already subscribed");
+      return;
+    }
+
+    // Track subscriptions (queued until connected if necessary)
+    newArgs.forEach((arg) => this.subscriptions.set(this.getKey(arg), arg));
+
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      logger.warn("Cannot subscribe: OKX WebSocket not connected, queued for reconnect");
+      return;
+    }
+
+    this.sendOperation("subscribe", newArgs);
+  }
+
+  /**
+   * Unsubscribe from channel args
+   */
+  unsubscribe(args: OkxChannelArg[]): void {
+    args.forEach((arg) => this.subscriptions.delete(this.getKey(arg)));
+
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      logger.warn("Cannot unsubscribe: OKX WebSocket not connected");
+      return;
+    }
+
+    this.sendOperation("unsubscribe", args);
+  }
+
+  /**
+   * Unsubscribe from all channels
+   */
+  unsubscribeAll(): void {
+    if (this.subscriptions.size > 0) {
+      this.unsubscribe(Array.from(this.subscriptions.values()));
+    }
+  }
+
+  /**
+   * Get current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Check if connected
+   */
+  isConnected(): boolean {
+    return this.state === "connected" && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Get subscribed channel args
+   */
+  getSubscriptions(): OkxChannelArg[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private getKey(arg: OkxChannelArg): string {
+    return `${arg.channel}:${arg.instId}`;
+  }
+
+  private sendOperation(op: "subscribe" | "unsubscribe", args: OkxChannelArg[]): void {
+    for (let i = 0; i < args.length; i += ARGS_PER_REQUEST) {
+      const chunk = args.slice(i, i + ARGS_PER_REQUEST);
+      logger.debug("Sending OKX operation", { op, count: chunk.length });
+      this.ws?.send(JSON.stringify({ op, args: chunk }));
+    }
+  }
+
+  private setState(newState: ConnectionState): void {
+    if (this.state !== newState) {
+      const oldState = this.state;
+      this.state = newState;
+      logger.debug("Connection state changed", { from: oldState, to: newState });
+      this.emit("connection", newState);
+    }
+  }
+
+  private handleMessage(data: WebSocket.Data): void {
+    const raw = data.toString();
+
+    // Keep-alive response is a plain-text frame
+    if (raw === "pong") {
+      logger.debug("Received OKX pong");
+      return;
+    }
+
+    try {
+      const message: OkxWebSocketMessage = JSON.parse(raw);
+
+      // Handle subscription confirmations and errors
+      if (message.event) {
+        if (message.event === "error") {
+          logger.warn("OKX operation failed", {
+            code: message.code,
+            msg: message.msg,
+          });
+          this.emit("error", new Error(`OKX error ${message.code}: ${message.msg}`));
+        } else {
+          logger.debug("OKX operation successful", {
+            event: message.event,
+            arg: message.arg,
+          });
+        }
+        return;
+      }
+
+      // Handle data messages
+      if (message.arg && Array.isArray(message.data)) {
+        this.emit("message", {
+          arg: message.arg,
+          data: message.data,
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to parse OKX WebSocket message", error as Error, {
+        data: raw.substring(0, 200),
+      });
+    }
+  }
+
+  private startPingInterval(): void {
+    this.stopPingInterval();
+
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send("ping");
+        logger.debug("Sent OKX ping");
+      }
+    }, this.pingIntervalMs);
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      const error = new Error("Max reconnect attempts reached");
+      logger.error("Max OKX reconnect attempts reached", error, {
+        reconnectAttempts: this.reconnectAttempts,
+      });
+      this.setState("error");
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
+      this.maxReconnectDelay
+    );
+
+    logger.info("Scheduling OKX reconnect", {
+      attempt: this.reconnectAttempts,
+      delayMs: delay,
+    });
+
+    this.setState("reconnecting");
+
+    setTimeout(() => {
+      if (!this.isManualClose) {
+        logger.info("Attempting to reconnect to OKX", {
+          attempt: this.reconnectAttempts,
+        });
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private resubscribeAll(): void {
+    logger.info("Resubscribing to OKX channels", {
+      count: this.subscriptions.size,
+    });
+    this.sendOperation("subscribe", Array.from(this.subscriptions.values()));
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Positioning Poller
+ *
+ * Polls long/short ratio endpoints for every symbol in each exchange's
+ * current universe. Requests run serially with a fixed delay so a full
+ * pass stays well inside the exchanges' REST rate limits.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { Exchange, PositioningSnapshot } from "../types/unified.js";
+import { getConfig } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+
+export interface PositioningSource {
+  exchange: Exchange;
+  /** Exchange symbols to poll (usually the current universe) */
+  getSymbols: () => string[];
+  /** Fetch the latest sample for a symbol; null when the exchange has none */
+  fetch: (symbol: string, period: string) => Promise<PositioningSnapshot | null>;
+}
+
+export class PositioningPoller extends EventEmitter {
+  private sources: Map<Exchange, PositioningSource> = new Map();
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private lastPollAt = 0;
+  private failureCount = 0;
+
+  /**
+   * Register an exchange's positioning source.
+   */
+  register(source: PositioningSource): void {
+    this.sources.set(source.exchange, source);
+  }
+
+  /**
+   * Poll every registered exchange once, emitting "positioning" per sample.
+   */
+  async pollAll(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    const { period, requestDelayMs } = getConfig().positioning;
+
+    try {
+      for (const source of this.sources.values()) {
+        for (const symbol of source.getSymbols()) {
+          try {
+            const snapshot = await source.fetch(symbol, period);
+            if (snapshot) {
+              this.emit("positioning", snapshot);
+            }
+          } catch (error) {
+            this.failureCount++;
+            logger.debug("Failed to fetch positioning", {
+              exchange: source.exchange,
+              symbol,
+              error: (error as Error).message,
+            });
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, requestDelayMs));
+        }
+      }
+    } finally {
+      this.isPolling = false;
+      this.lastPollAt = Date.now();
+    }
+  }
+
+  /**
+   * Start periodic polling. The first pass runs in the background.
+   */
+  start(): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    const intervalMs = getConfig().positioning.pollIntervalMs;
+
+    void this.pollAll();
+
+    this.pollInterval = setInterval(() => {
+      void this.pollAll();
+    }, intervalMs);
+
+    logger.info("Positioning polling started", {
+      intervalMs,
+      exchanges: Array.from(this.sources.keys()),
+    });
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  getStats(): {
+    exchanges: Exchange[];
+    lastPollAt: number;
+    failureCount: number;
+  } {
+    return {
+      exchanges: Array.from(this.sources.keys()),
+      lastPollAt: this.lastPollAt,
+      failureCount: this.failureCount,
+    };
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Symbol Universe Manager
+ *
+ * Selects which symbols each CEX connector tracks, ranked by 24h turnover
+ * and filtered by the include/exclude settings in config. The selection is
+ * re-evaluated on an interval: symbols entering the top N are subscribed
+ * live, and symbols leaving it are unsubscribed and reported via "change"
+ * so their store and metrics state can be retired. Pinned symbols (such
+ * as fresh listings with no volume yet) stay subscribed until they expire.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { ExchangeConnector } from "./interface.js";
+import type { Exchange } from "../types/unified.js";
+import type { SymbolInfo } from "../types/exchanges.js";
+import type { ExchangeUniverseConfig, UniversePatterns } from "../utils/config.js";
+import { getConfig, getUniversePatterns, isUniverseExchange } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+
+export interface UniverseSource {
+  exchange: Exchange;
+  connector: ExchangeConnector;
+  /** Exchange symbols ranked by 24h turnover, highest first. Throws on failure. */
+  rankSymbols: () => Promise<string[]>;
+  /** Fresh instrument list, re-fetched on every refresh. Throws on failure. */
+  fetchSymbols: () => Promise<SymbolInfo[]>;
+  /** Used when ranking fails before any universe has been selected */
+  fallbackSymbols: (count: number) => Promise<string[]>;
+  /** Subscribe every stream the connector provides for the symbols */
+  subscribe: (symbols: string[]) => Promise<void>;
+}
+
+export interface UniverseChange {
+  exchange: Exchange;
+  added: string[];        // Exchange symbols
+  removed: string[];      // Exchange symbols
+  removedIds: string[];   // Market IDs of removed symbols
+  size: number;
+}
+
+/**
+ * Number of symbols implied by the `symbols` setting.
+ */
+export function getUniverseSize(
+  setting: ExchangeUniverseConfig["symbols"],
+  maxSymbols: number
+): number {
+  if (Array.isArray(setting)) {
+    return Math.min(setting.length, maxSymbols);
+  }
+  if (setting === "top50") return Math.min(50, maxSymbols);
+  if (setting === "top100") return Math.min(100, maxSymbols);
+  return maxSymbols;
+}
+
+/**
+ * True when a symbol matches the `exclude` list or the compiled `excludePattern`.
+ */
+export function isExcludedSymbol(
+  symbol: string,
+  config: ExchangeUniverseConfig,
+  patterns: UniversePatterns,
+  normalize: (symbol: string) => string
+): boolean {
+  const normalized = normalize(symbol);
+
+  if (config.exclude && (config.exclude.includes(symbol) || config.exclude.includes(normalized))) {
+    return true;
+  }
+
+  if (patterns.exclude) {
+    return patterns.exclude.test(symbol) || patterns.exclude.test(normalized);
+  }
+
+  return false;
+}
+
+/**
+ * Select the universe from ranked symbols.
+ *
+ * Explicit symbol lists are used as-is; otherwise the top N ranked symbols
+ * passing the patterns are taken. `include` entries are always added and
+ * `exclude` entries always removed. Entries and patterns match the exchange
+ * or normalized symbol.
+ */
+export function selectUniverse(
+  ranked: string[],
+  config: ExchangeUniverseConfig,
+  patterns: UniversePatterns,
+  maxSymbols: number,
+  normalize: (symbol: string) => string
+): string[] {
+  const includePattern = patterns.include;
+  const matchesInclude = (symbol: string): boolean =>
+    !includePattern || includePattern.test(symbol) || includePattern.test(normalize(symbol));
+
+  const isExcluded = (symbol: string): boolean =>
+    isExcludedSymbol(symbol, config, patterns, normalize);
+
+  const count = getUniverseSize(config.symbols, maxSymbols);
+
+  const candidates = Array.isArray(config.symbols)
+    ? config.symbols
+    : ranked.filter(matchesInclude);
+
+  const selected = candidates.filter((symbol) => !isExcluded(symbol)).slice(0, count);
+
+  // Forced includes are resolved against the ranking so normalized entries work
+  for (const entry of config.include ?? []) {
+    const symbol = ranked.find((s) => s === entry || normalize(s) === entry) ?? entry;
+    if (!selected.includes(symbol) && !isExcluded(symbol)) {
+      selected.push(symbol);
+    }
+  }
+
+  return selected;
+}
+
+export class SymbolUniverseManager extends EventEmitter {
+  private sources: Map<Exchange, UniverseSource> = new Map();
+  private universes: Map<Exchange, Set<string>> = new Map();
+  private pinned: Map<Exchange, Map<string, number>> = new Map(); // symbol -> expiresAt
+  private queues: Map<Exchange, Promise<void>> = new Map(); // serializes refresh and pin
+  private refreshInterval: NodeJS.Timeout | null = null;
+  private isRefreshing = false;
+
+  /**
+   * Register a connector whose symbol set should be managed.
+   */
+  register(source: UniverseSource): void {
+    this.sources.set(source.exchange, source);
+  }
+
+  /**
+   * Re-select the universe for one exchange and apply the difference.
+   * The first call for an exchange subscribes its initial universe.
+   */
+  refresh(exchange: Exchange): Promise<UniverseChange | null> {
+    return this.runExclusive(exchange, () => this.applyRefresh(exchange));
+  }
+
+  /**
+   * Subscribe symbols immediately and keep them in the universe for
+   * `durationMs` regardless of volume rank.
+   */
+  pin(exchange: Exchange, symbols: string[], durationMs: number): Promise<void> {
+    return this.runExclusive(exchange, () => this.applyPin(exchange, symbols, durationMs));
+  }
+
+  /**
+   * Re-select every registered exchange, one at a time.
+   */
+  async refreshAll(): Promise<void> {
+    if (this.isRefreshing) {
+      return;
+    }
+
+    this.isRefreshing = true;
+    try {
+      for (const exchange of this.sources.keys()) {
+        try {
+          await this.refresh(exchange);
+        } catch (error) {
+          logger.error("Failed to refresh symbol universe", error as Error, { exchange });
+        }
+      }
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  /**
+   * Start periodic re-selection.
+   */
+  start(): void {
+    if (this.refreshInterval) {
+      return;
+    }
+
+    const intervalMs = getConfig().universe.refreshIntervalMs;
+
+    this.refreshInterval = setInterval(() => {
+      void this.refreshAll();
+    }, intervalMs);
+
+    logger.info("Symbol universe refresh started", { intervalMs });
+  }
+
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  /**
+   * Get the current universe (exchange symbols) for an exchange.
+   */
+  getUniverse(exchange: Exchange): string[] {
+    return Array.from(this.universes.get(exchange) ?? []);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Run a task after every earlier refresh or pin for the exchange has
+   * settled, so a pin cannot land while a refresh is between its
+   * subscription calls and its universe update.
+   */
+  private runExclusive<T>(exchange: Exchange, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(exchange) ?? Promise.resolve();
+    const result = previous.then(task);
+    this.queues.set(
+      exchange,
+      result.then(
+        () => undefined,
+        () => undefined
+      )
+    );
+    return result;
+  }
+
+  private async applyRefresh(exchange: Exchange): Promise<UniverseChange | null> {
+    const source = this.sources.get(exchange);
+    if (!source) {
+      return null;
+    }
+
+    const config = getConfig();
+    const exchangeConfig = this.getExchangeConfig(exchange);
+    if (!exchangeConfig) {
+      return null;
+    }
+
+    const maxSymbols = config.performance.maxSymbolsPerExchange;
+    const current = this.universes.get(exchange);
+
+    let next: string[];
+    try {
+      const ranked = await this.rankActiveSymbols(source);
+      next = selectUniverse(
+        ranked,
+        exchangeConfig,
+        getUniversePatterns(exchange),
+        maxSymbols,
+        (s) => source.connector.normalizeSymbol(s)
+      );
+    } catch (error) {
+      if (current) {
+        logger.warn("Universe ranking failed, keeping current symbols", { exchange, error });
+        return null;
+      }
+
+      logger.warn("Universe ranking failed, using fallback symbols", { exchange, error });
+      next = await source.fallbackSymbols(getUniverseSize(exchangeConfig.symbols, maxSymbols));
+    }
+
+    for (const symbol of this.getActivePins(exchange)) {
+      if (!next.includes(symbol)) {
+        next.push(symbol);
+      }
+    }
+
+    const previous = current ?? new Set<string>();
+    const nextSet = new Set(next);
+    const added = next.filter((symbol) => !previous.has(symbol));
+    const removed = Array.from(previous).filter((symbol) => !nextSet.has(symbol));
+
+    if (removed.length > 0) {
+      await source.connector.unsubscribeSymbols(removed);
+    }
+    if (added.length > 0) {
+      await source.subscribe(added);
+    }
+
+    this.universes.set(exchange, nextSet);
+
+    const change: UniverseChange = {
+      exchange,
+      added,
+      removed,
+      removedIds: removed.map(
+        (symbol) => `${exchange}:${source.connector.normalizeSymbol(symbol)}`
+      ),
+      size: nextSet.size,
+    };
+
+    if (added.length > 0 || removed.length > 0) {
+      logger.info("Symbol universe updated", {
+        exchange,
+        added: added.length,
+        removed: removed.length,
+        size: nextSet.size,
+      });
+      this.emit("change", change);
+    }
+
+    return change;
+  }
+
+  private async applyPin(exchange: Exchange, symbols: string[], durationMs: number): Promise<void> {
+    const source = this.sources.get(exchange);
+    const universe = this.universes.get(exchange);
+    const exchangeConfig = this.getExchangeConfig(exchange);
+    if (!source || !universe || !exchangeConfig) {
+      return; // Exchange not managed or not yet initialized
+    }
+
+    // Config exclusions still apply to pinned symbols
+    const patterns = getUniversePatterns(exchange);
+    symbols = symbols.filter(
+      (symbol) =>
+        !isExcludedSymbol(symbol, exchangeConfig, patterns, (s) => source.connector.normalizeSymbol(s))
+    );
+
+    const pins = this.pinned.get(exchange) ?? new Map<string, number>();
+    const expiresAt = Date.now() + durationMs;
+    symbols.forEach((symbol) => pins.set(symbol, expiresAt));
+    this.pinned.set(exchange, pins);
+
+    const added = symbols.filter((symbol) => !universe.has(symbol));
+    if (added.length === 0) {
+      return;
+    }
+
+    await source.subscribe(added);
+    added.forEach((symbol) => universe.add(symbol));
+
+    const change: UniverseChange = {
+      exchange,
+      added,
+      removed: [],
+      removedIds: [],
+      size: universe.size,
+    };
+
+    logger.info("Pinned symbols into universe", { exchange, symbols: added, durationMs });
+    this.emit("change", change);
+  }
+
+  /**
+   * Unexpired pins for an exchange; expired pins are dropped.
+   */
+  private getActivePins(exchange: Exchange): string[] {
+    const pins = this.pinned.get(exchange);
+    if (!pins) {
+      return [];
+    }
+
+    const now = Date.now();
+    for (const [symbol, expiresAt] of pins.entries()) {
+      if (expiresAt <= now) {
+        pins.delete(symbol);
+      }
+    }
+
+    return Array.from(pins.keys());
+  }
+
+  /**
+   * Fresh instrument list, or the connector's last known list when the
+   * fetch fails.
+   */
+  private async fetchActiveSymbols(source: UniverseSource): Promise<SymbolInfo[]> {
+    try {
+      return await source.fetchSymbols();
+    } catch (error) {
+      logger.warn("Instrument refresh failed, using last known list", {
+        exchange: source.exchange,
+        error,
+      });
+      return source.connector.getAvailableSymbols();
+    }
+  }
+
+  private getExchangeConfig(exchange: Exchange): ExchangeUniverseConfig | undefined {
+    return isUniverseExchange(exchange) ? getConfig().exchanges[exchange] : undefined;
+  }
+
+  /**
+   * Ranked symbols restricted to the exchange's active instruments, which
+   * drops dated futures and delisted contracts from ticker feeds. The
+   * instrument list is re-fetched so new listings can enter by rank.
+   */
+  private async rankActiveSymbols(source: UniverseSource): Promise<string[]> {
+    const [ranked, available] = await Promise.all([
+      source.rankSymbols(),
+      this.fetchActiveSymbols(source),
+    ]);
+
+    if (available.length === 0) {
+      return ranked; // Instrument list unavailable, trust the ranking
+    }
+
+    const active = new Set(
+      available.filter((symbol) => symbol.isActive).map((symbol) => symbol.exchangeSymbol)
+    );
+
+    return ranked.filter((symbol) => active.has(symbol));
+  }
+}
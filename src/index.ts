@@ -8,24 +8,82 @@ import { logger } from "./utils/logger.js";
 import { getConfig } from "./utils/config.js";
 import { BybitConnector } from "./connectors/bybit/index.js";
 import { BinanceConnector } from "./connectors/binance/index.js";
+import { OkxConnector } from "./connectors/okx/index.js";
+import { HyperliquidConnector } from "./connectors/hyperliquid/index.js";
 import { MarketStore } from "./store/markets.js";
+import { OrderBookStore } from "./store/orderbooks.js";
+import { PositioningStore } from "./store/positioning.js";
 import { LeaderboardStore } from "./store/leaderboards.js";
 import { EnhancedLeaderboardStore } from "./store/enhanced-leaderboards.js";
+import { CustomLeaderboardStore } from "./store/custom-leaderboards.js";
 import { MetricsManager } from "./compute/metrics-manager.js";
+import { FundingHistoryManager } from "./compute/funding-history.js";
+import { CompositeScoreEngine } from "./compute/composite-scores.js";
+import type { FundingFlip } from "./compute/funding-history.js";
 import { aggregateMarketsBySymbol } from "./compute/cross-exchange.js";
+import { buildConsolidatedBook } from "./compute/consolidated-book.js";
+import { calculateAllBasis, getSpotCounterpartId } from "./compute/basis.js";
+import { calculateAllTermStructures } from "./compute/term-structure.js";
+import type { TermStructure, TermStructureShape } from "./compute/term-structure.js";
+import { calculateFundingArbitrage } from "./compute/funding-arbitrage.js";
+import type { FundingArbitrageOpportunity } from "./compute/funding-arbitrage.js";
 import { ApiServer } from "./api/server.js";
 import { WebSocketAPI } from "./api/websocket.js";
-import { getTopBybitSymbols } from "./connectors/bybit/symbols.js";
-import { getTopBinanceSymbols } from "./connectors/binance/rest.js";
-import type { UnifiedMarket } from "./types/unified.js";
+import { SymbolUniverseManager } from "./connectors/universe.js";
+import type { UniverseChange } from "./connectors/universe.js";
+import { ListingDetector } from "./connectors/listings.js";
+import type { ListingSignal } from "./connectors/listings.js";
+import { PositioningPoller } from "./connectors/positioning.js";
+import {
+  getTopBybitSymbols,
+  getRankedBybitSymbols,
+  fetchBybitInstrumentStatuses,
+  fetchBybitAccountRatio,
+  fetchBybitFundingHistory,
+} from "./connectors/bybit/symbols.js";
+import {
+  getTopBinanceSymbols,
+  getRankedBinanceSymbols,
+  fetchBinanceInstrumentStatuses,
+  fetchGlobalLongShortAccountRatio,
+  fetchTopLongShortPositionRatio,
+  fetchFundingRateHistory,
+} from "./connectors/binance/rest.js";
+import { normalizeBybitAccountRatio } from "./connectors/bybit/normalizer.js";
+import { normalizeBinanceLongShortRatio } from "./connectors/binance/normalizer.js";
+import { getTopOkxSymbols, getRankedOkxSymbols } from "./connectors/okx/rest.js";
+import type {
+  UnifiedMarket,
+  UnifiedTrade,
+  UnifiedLiquidation,
+  UnifiedOrderBook,
+  PositioningSnapshot,
+  PerpSpotBasis,
+} from "./types/unified.js";
 import type { AggregatedMarket } from "./compute/cross-exchange.js";
 
 // Global stores
 const marketStore = new MarketStore();
+const spotMarketStore = new MarketStore();
+const futuresMarketStore = new MarketStore();
+const orderBookStore = new OrderBookStore();
+const positioningStore = new PositioningStore();
 const leaderboardStore = new LeaderboardStore();
 const enhancedLeaderboardStore = new EnhancedLeaderboardStore();
+const customLeaderboardStore = new CustomLeaderboardStore();
 const metricsManager = new MetricsManager();
+const fundingHistory = new FundingHistoryManager();
+const scoreEngine = new CompositeScoreEngine({
+  getMarkets: () => marketStore.getAll(),
+  getMetrics: () => metricsManager.getAll(),
+  getOrderBook: (id) => orderBookStore.get(id),
+  getFundingStats: () => fundingHistory.getAllStats(),
+});
 const aggregatedStore = new Map<string, AggregatedMarket>();
+let fundingArbitrage: FundingArbitrageOpportunity[] = [];
+let basisByMarket = new Map<string, PerpSpotBasis>();
+let termStructures = new Map<string, TermStructure>();
+const termStructureShapes = new Map<string, TermStructureShape>();
 
 // System metrics tracking
 const systemStartTime = Date.now();
@@ -35,6 +93,13 @@ let lastLeaderboardUpdate: number | null = null;
 // Connectors
 const bybitConnector = new BybitConnector();
 const binanceConnector = new BinanceConnector();
+const okxConnector = new OkxConnector();
+const hyperliquidConnector = new HyperliquidConnector();
+
+// Volume-ranked symbol selection for CEX connectors
+const universeManager = new SymbolUniverseManager();
+const listingDetector = new ListingDetector();
+const positioningPoller = new PositioningPoller();
 
 // WebSocket API
 const wsAPI = new WebSocketAPI();
@@ -43,12 +108,27 @@ const wsAPI = new WebSocketAPI();
 const apiServer = new ApiServer({
   port: parseInt(process.env.PORT || "3000", 10),
   marketStore,
+  spotMarketStore,
+  futuresMarketStore,
+  orderBookStore,
+  positioningStore,
+  fundingHistory,
   leaderboardStore,
   enhancedLeaderboardStore,
+  customLeaderboardStore,
   getMetricsStore: () => metricsManager.getAll(),
+  getScores: () => scoreEngine.getAll(),
   aggregatedStore,
+  getFundingArbitrage: () => fundingArbitrage,
+  getBasis: () => basisByMarket,
+  getTermStructure: (asset) => termStructures.get(asset),
   bybitConnector,
   binanceConnector,
+  okxConnector,
+  hyperliquidConnector,
+  getLiquidationClusters: (coin) => hyperliquidConnector.getLiquidationClusterSnapshot(coin),
+  getLiquidationClusterCoins: () => hyperliquidConnector.getClusterCoins(),
+  getListingSignals: (limit, type) => listingDetector.getRecent(limit, type),
   getSystemMetrics: () => ({
     startTime: systemStartTime,
     lastMetricsCompute,
@@ -77,6 +157,8 @@ async function main() {
   // Set up connector event handlers
   setupBybitHandlers();
   setupBinanceHandlers();
+  setupOkxHandlers();
+  setupHyperliquidHandlers();
 
   // Initialize and start connectors if enabled
   if (config.exchanges.bybit.enabled) {
@@ -91,6 +173,38 @@ async function main() {
     logger.info("Binance connector disabled in config");
   }
 
+  if (config.exchanges.okx.enabled) {
+    await initializeOkx();
+  } else {
+    logger.info("OKX connector disabled in config");
+  }
+
+  if (config.exchanges.hyperliquid.enabled) {
+    await initializeHyperliquid();
+  } else {
+    logger.info("Hyperliquid connector disabled in config");
+  }
+
+  // Periodically re-select symbol universes
+  universeManager.on("change", handleUniverseChange);
+  universeManager.start();
+
+  // Watch for new listings, delistings and status changes
+  listingDetector.on("signal", handleListingSignal);
+  await listingDetector.start();
+
+  // Poll long/short ratios for the selected universes
+  positioningPoller.on("positioning", (snapshot: PositioningSnapshot) => {
+    positioningStore.add(snapshot);
+  });
+  positioningPoller.start();
+
+  // Keep settled funding history current and publish sign flips
+  fundingHistory.on("flip", (flip: FundingFlip) => {
+    wsAPI.broadcastSignal("funding_flip", flip);
+  });
+  fundingHistory.start();
+
   // Start metrics computation
   metricsManager.start();
   
@@ -99,12 +213,21 @@ async function main() {
     lastMetricsCompute = Date.now();
   });
 
+  // Start composite scores (ranked across markets from the latest metrics)
+  scoreEngine.start();
+
+  // Restore user-defined leaderboards
+  customLeaderboardStore.load();
+
   // Start API server
   await apiServer.start();
 
   // Start WebSocket server (attached to HTTP server)
   const httpServer = apiServer.getServer();
   if (httpServer) {
+    wsAPI.setConsolidatedBookBuilder((symbol) =>
+      buildConsolidatedBook(symbol, orderBookStore.getBySymbol(symbol))
+    );
     wsAPI.start(httpServer);
   } else {
     logger.error("Failed to get HTTP server for WebSocket attachment");
@@ -136,10 +259,41 @@ function setupBybitHandlers(): void {
     marketStore.set(market);
     // Update metrics manager
     metricsManager.updateMarket(market);
+    fundingHistory.updateMarket(market);
     // Broadcast to WebSocket subscribers
     wsAPI.broadcastMarket(market);
   });
 
+  // Handle spot counterparts (feed perp-spot basis)
+  bybitConnector.on("spot", (market: UnifiedMarket) => {
+    spotMarketStore.set(market);
+  });
+
+  // Handle dated futures (feed the basis term structure)
+  bybitConnector.on("futures", (market: UnifiedMarket) => {
+    futuresMarketStore.set(market);
+  });
+
+  // Handle trades (feeds CVD and volume windows)
+  bybitConnector.on("trade", (trade: UnifiedTrade) => {
+    metricsManager.updateTrade(trade);
+  });
+
+  // Handle liquidations (feeds liquidation windows)
+  bybitConnector.on("liquidation", (liquidation: UnifiedLiquidation) => {
+    metricsManager.updateLiquidation(liquidation);
+  });
+
+  // Handle locally maintained order books
+  bybitConnector.on("orderbook", (book: UnifiedOrderBook) => {
+    orderBookStore.set(book);
+    wsAPI.broadcastOrderBook(book);
+    wsAPI.markConsolidatedBookDirty(book.symbol);
+  });
+  orderBookStore.setFullDepthSource("bybit", (symbol) =>
+    bybitConnector.getFullDepthOrderBook(symbol)
+  );
+
   // Handle connection state changes
   bybitConnector.on("connection", (state) => {
     logger.info("Bybit connection state changed", { state });
@@ -163,10 +317,41 @@ function setupBinanceHandlers(): void {
     marketStore.set(market);
     // Update metrics manager
     metricsManager.updateMarket(market);
+    fundingHistory.updateMarket(market);
     // Broadcast to WebSocket subscribers
     wsAPI.broadcastMarket(market);
   });
 
+  // Handle spot counterparts (feed perp-spot basis)
+  binanceConnector.on("spot", (market: UnifiedMarket) => {
+    spotMarketStore.set(market);
+  });
+
+  // Handle dated futures (feed the basis term structure)
+  binanceConnector.on("futures", (market: UnifiedMarket) => {
+    futuresMarketStore.set(market);
+  });
+
+  // Handle trades (feeds CVD and volume windows)
+  binanceConnector.on("trade", (trade: UnifiedTrade) => {
+    metricsManager.updateTrade(trade);
+  });
+
+  // Handle liquidations (feeds liquidation windows)
+  binanceConnector.on("liquidation", (liquidation: UnifiedLiquidation) => {
+    metricsManager.updateLiquidation(liquidation);
+  });
+
+  // Handle locally maintained order books
+  binanceConnector.on("orderbook", (book: UnifiedOrderBook) => {
+    orderBookStore.set(book);
+    wsAPI.broadcastOrderBook(book);
+    wsAPI.markConsolidatedBookDirty(book.symbol);
+  });
+  orderBookStore.setFullDepthSource("binance", (symbol) =>
+    binanceConnector.getFullDepthOrderBook(symbol)
+  );
+
   // Handle connection state changes
   binanceConnector.on("connection", (state) => {
     logger.info("Binance connection state changed", { state });
@@ -180,6 +365,85 @@ function setupBinanceHandlers(): void {
   });
 }
 
+/**
+ * Set up OKX connector event handlers.
+ */
+function setupOkxHandlers(): void {
+  // Handle normalized market data
+  okxConnector.on("market", (market: UnifiedMarket) => {
+    // Update market store
+    marketStore.set(market);
+    // Update metrics manager
+    metricsManager.updateMarket(market);
+    fundingHistory.updateMarket(market);
+    // Broadcast to WebSocket subscribers
+    wsAPI.broadcastMarket(market);
+  });
+
+  // Handle connection state changes
+  okxConnector.on("connection", (state) => {
+    logger.info("OKX connection state changed", { state });
+  });
+
+  // Handle errors
+  okxConnector.on("error", (error) => {
+    logger.error("OKX connector error", new Error(error.message), {
+      code: error.code,
+    });
+  });
+}
+
+/**
+ * Set up Hyperliquid connector event handlers.
+ */
+function setupHyperliquidHandlers(): void {
+  // Handle normalized market data
+  hyperliquidConnector.on("market", (market: UnifiedMarket) => {
+    marketStore.set(market);
+    metricsManager.updateMarket(market);
+    fundingHistory.updateMarket(market);
+    wsAPI.broadcastMarket(market);
+  });
+
+  // Handle tracked position changes
+  hyperliquidConnector.on("position", (position) => {
+    logger.debug("Hyperliquid position updated", {
+      address: position.address,
+      coin: position.coin,
+      side: position.side,
+      sizeUsd: position.sizeUsd,
+      distanceToLiqPercent: position.distanceToLiqPercent,
+    });
+  });
+
+  // Broadcast positions approaching liquidation as signals
+  hyperliquidConnector.on("liquidationRisk", (risk) => {
+    logger.info("Hyperliquid position at liquidation risk", {
+      address: risk.address,
+      coin: risk.coin,
+      riskLevel: risk.riskLevel,
+    });
+    wsAPI.broadcastSignal("liquidation_risk", risk);
+  });
+
+  // Stream recomputed liquidation clusters
+  hyperliquidConnector.on("liquidationClusters", (snapshot) => {
+    wsAPI.broadcastLiquidationClusters(snapshot);
+  });
+
+  // Handle connection state changes
+  hyperliquidConnector.on("connection", (state) => {
+    logger.info("Hyperliquid connection state changed", { state });
+  });
+
+  // Handle errors
+  hyperliquidConnector.on("error", (error) => {
+    logger.error("Hyperliquid connector error", new Error(error.message), {
+      code: error.code,
+    });
+  });
+}
+
 /**
  * Initialize and start Bybit connector.
  */
@@ -196,28 +460,28 @@ async function initializeBybit(): Promise<void> {
     // Wait a bit for connection to establish
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
-    // Get top symbols to subscribe to
-    const config = getConfig();
-    const symbolCount =
-      config.exchanges.bybit.symbols === "all"
-        ? 200
-        : config.exchanges.bybit.symbols === "top100"
-        ? 100
-        : Array.isArray(config.exchanges.bybit.symbols)
-        ? config.exchanges.bybit.symbols.length
-        : 50;
-
-    logger.info("Fetching top Bybit symbols", { count: symbolCount });
-    const topSymbols = await getTopBybitSymbols(symbolCount);
-
-    // Subscribe to tickers
-    logger.info("Subscribing to Bybit tickers", {
-      symbolCount: topSymbols.length,
+    // Backfill funding history as markets arrive
+    fundingHistory.register("bybit", fetchBybitFundingHistory);
+
+    // Select symbols by 24h turnover and subscribe
+    universeManager.register({
+      exchange: "bybit",
+      connector: bybitConnector,
+      rankSymbols: getRankedBybitSymbols,
+      fetchSymbols: () => bybitConnector.refreshSymbols(),
+      fallbackSymbols: getTopBybitSymbols,
+      subscribe: subscribeBybitSymbols,
+    });
+    await universeManager.refresh("bybit");
+    listingDetector.register("bybit", fetchBybitInstrumentStatuses);
+    positioningPoller.register({
+      exchange: "bybit",
+      getSymbols: () => universeManager.getUniverse("bybit"),
+      fetch: fetchBybitPositioning,
     });
-    await bybitConnector.subscribeToTickers(topSymbols);
 
     logger.info("Bybit connector started and subscribed", {
-      symbolCount: topSymbols.length,
+      symbolCount: universeManager.getUniverse("bybit").length,
     });
   } catch (error) {
     logger.error("Failed to initialize Bybit connector", error as Error);
@@ -225,6 +489,123 @@ async function initializeBybit(): Promise<void> {
   }
 }
 
+/**
+ * Subscribe every Bybit stream for symbols entering the universe.
+ */
+async function subscribeBybitSymbols(symbols: string[]): Promise<void> {
+  await bybitConnector.subscribeToTickers(symbols);
+
+  // Trades and liquidations
+  await bybitConnector.subscribeToTrades(symbols);
+  await bybitConnector.subscribeToLiquidations(symbols);
+
+  // Order books (snapshot + deltas)
+  await bybitConnector.subscribeToOrderBooks(symbols);
+}
+
+/**
+ * Subscribe every Binance stream for symbols entering the universe.
+ */
+async function subscribeBinanceSymbols(symbols: string[]): Promise<void> {
+  await binanceConnector.subscribeToTickers(symbols);
+
+  // Trades and liquidations
+  await binanceConnector.subscribeToTrades(symbols);
+  await binanceConnector.subscribeToLiquidations(symbols);
+
+  // Diff depth (books bootstrap from REST snapshots)
+  await binanceConnector.subscribeToOrderBooks(symbols);
+}
+
+/**
+ * Retire state for symbols that left a connector's universe.
+ */
+function handleUniverseChange(change: UniverseChange): void {
+  if (change.removedIds.length === 0) {
+    return;
+  }
+
+  for (const id of change.removedIds) {
+    const market = marketStore.get(id);
+    if (market) {
+      spotMarketStore.delete(getSpotCounterpartId(market));
+    }
+
+    marketStore.delete(id);
+    orderBookStore.delete(id);
+    positioningStore.delete(id);
+    fundingHistory.removeMarket(id);
+    metricsManager.removeMarket(id);
+
+    // Dated futures are tracked per base asset, so keep them while any perp remains
+    if (
+      market &&
+      !marketStore
+        .getAllByExchange(market.exchange)
+        .some((perp) => perp.baseAsset === market.baseAsset)
+    ) {
+      for (const future of futuresMarketStore.getAllByExchange(market.exchange)) {
+        if (future.baseAsset === market.baseAsset) {
+          futuresMarketStore.delete(future.id);
+        }
+      }
+    }
+  }
+
+  logger.info("Retired symbols outside the universe", {
+    exchange: change.exchange,
+    removed: change.removed,
+  });
+}
+
+/**
+ * Publish listing signals and subscribe markets that start trading.
+ */
+function handleListingSignal(signal: ListingSignal): void {
+  wsAPI.broadcastSignal(signal.type, signal);
+
+  // Fresh listings have little volume, so pin them past the volume ranking
+  const startedTrading =
+    signal.isActive && (signal.type === "listing" || signal.type === "status_change");
+
+  if (startedTrading) {
+    const pinMs = getConfig().universe.newListingPinMs;
+    universeManager.pin(signal.exchange, [signal.symbol], pinMs).catch((error) => {
+      logger.error("Failed to subscribe new listing", error as Error, {
+        marketId: signal.marketId,
+      });
+    });
+  }
+}
+
+/**
+ * Fetch Bybit's all-account long/short ratio for a symbol.
+ */
+async function fetchBybitPositioning(
+  symbol: string,
+  period: string
+): Promise<PositioningSnapshot | null> {
+  const ratio = await fetchBybitAccountRatio(symbol, period);
+  return ratio ? normalizeBybitAccountRatio(ratio, period) : null;
+}
+
+/**
+ * Fetch Binance's all-account and top-trader position ratios for a symbol.
+ */
+async function fetchBinancePositioning(
+  symbol: string,
+  period: string
+): Promise<PositioningSnapshot | null> {
+  const [accountRatio, topPositionRatio] = await Promise.all([
+    fetchGlobalLongShortAccountRatio(symbol, period),
+    fetchTopLongShortPositionRatio(symbol, period),
+  ]);
+
+  return accountRatio
+    ? normalizeBinanceLongShortRatio(symbol, accountRatio, topPositionRatio, period)
+    : null;
+}
+
 /**
  * Initialize and start Binance connector.
  */
@@ -241,28 +622,28 @@ async function initializeBinance(): Promise<void> {
     // Wait a bit for connection to establish
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
-    // Get top symbols to subscribe to
-    const config = getConfig();
-    const symbolCount =
-      config.exchanges.binance.symbols === "all"
-        ? 200
-        : config.exchanges.binance.symbols === "top100"
-        ? 100
-        : Array.isArray(config.exchanges.binance.symbols)
-        ? config.exchanges.binance.symbols.length
-        : 50;
-
-    logger.info("Fetching top Binance symbols", { count: symbolCount });
-    const topSymbols = await getTopBinanceSymbols(symbolCount);
-
-    // Subscribe to tickers
-    logger.info("Subscribing to Binance tickers", {
-      symbolCount: topSymbols.length,
+    // Backfill funding history as markets arrive
+    fundingHistory.register("binance", fetchFundingRateHistory);
+
+    // Select symbols by 24h quote volume and subscribe
+    universeManager.register({
+      exchange: "binance",
+      connector: binanceConnector,
+      rankSymbols: getRankedBinanceSymbols,
+      fetchSymbols: () => binanceConnector.refreshSymbols(),
+      fallbackSymbols: getTopBinanceSymbols,
+      subscribe: subscribeBinanceSymbols,
+    });
+    await universeManager.refresh("binance");
+    listingDetector.register("binance", fetchBinanceInstrumentStatuses);
+    positioningPoller.register({
+      exchange: "binance",
+      getSymbols: () => universeManager.getUniverse("binance"),
+      fetch: fetchBinancePositioning,
     });
-    await binanceConnector.subscribeToTickers(topSymbols);
 
     logger.info("Binance connector started and subscribed", {
-      symbolCount: topSymbols.length,
+      symbolCount: universeManager.getUniverse("binance").length,
     });
   } catch (error) {
     logger.error("Failed to initialize Binance connector", error as Error);
@@ -270,6 +651,71 @@ async function initializeBinance(): Promise<void> {
   }
 }
 
+/**
+ * Initialize and start OKX connector.
+ */
+async function initializeOkx(): Promise<void> {
+  try {
+    logger.info("Initializing OKX connector");
+
+    // Initialize connector (fetches instruments and contract sizes)
+    await okxConnector.initialize();
+
+    // Start connector (connects WebSocket)
+    await okxConnector.start();
+
+    // Wait a bit for connection to establish
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    // Select symbols by 24h USD volume and subscribe
+    universeManager.register({
+      exchange: "okx",
+      connector: okxConnector,
+      rankSymbols: getRankedOkxSymbols,
+      fetchSymbols: () => okxConnector.refreshSymbols(),
+      fallbackSymbols: getTopOkxSymbols,
+      subscribe: (symbols) => okxConnector.subscribeToTickers(symbols),
+    });
+    await universeManager.refresh("okx");
+
+    logger.info("OKX connector started and subscribed", {
+      symbolCount: universeManager.getUniverse("okx").length,
+    });
+  } catch (error) {
+    logger.error("Failed to initialize OKX connector", error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Initialize and start Hyperliquid connector.
+ */
+async function initializeHyperliquid(): Promise<void> {
+  try {
+    logger.info("Initializing Hyperliquid connector");
+
+    // Initialize connector (fetches asset universe; starts degraded if unreachable)
+    await hyperliquidConnector.initialize();
+
+    // Start connector (market polling and address scanning)
+    await hyperliquidConnector.start();
+
+    // Every asset arrives in a single poll, so subscribe to all active coins
+    await hyperliquidConnector.subscribeToAllTickers();
+
+    // Seed the scanner with leaderboard accounts (retried by the connector on failure)
+    await hyperliquidConnector.trackLeaderboardAddresses();
+
+    logger.info("Hyperliquid connector started and subscribed", {
+      symbolCount: hyperliquidConnector.getHealth().subscriptionCount,
+      trackedAddresses: hyperliquidConnector.getTrackedAddresses().length,
+    });
+  } catch (error) {
+    logger.error("Failed to initialize Hyperliquid connector", error as Error);
+    throw error;
+  }
+}
+
 /**
  * Start periodic leaderboard updates.
  */
@@ -298,14 +744,27 @@ function updateLeaderboards(): void {
   // Update basic leaderboards
   leaderboardStore.update(markets);
   
+  // Perp premium over spot counterparts
+  basisByMarket = calculateAllBasis(markets, (id) => spotMarketStore.get(id));
+
   // Update enhanced leaderboards
-  enhancedLeaderboardStore.update(markets, metrics);
+  enhancedLeaderboardStore.update(
+    markets,
+    metrics,
+    positioningStore.getLatest(),
+    basisByMarket,
+    scoreEngine.getAll()
+  );
+  customLeaderboardStore.update(markets, metrics);
   
   // Broadcast leaderboard updates to WebSocket subscribers
   const allLeaderboards = enhancedLeaderboardStore.getAllLeaderboards();
   for (const [name, entries] of allLeaderboards.entries()) {
     wsAPI.broadcastLeaderboard(name, entries);
   }
+  for (const [name, entries] of customLeaderboardStore.getAllLeaderboards().entries()) {
+    wsAPI.broadcastLeaderboard(name, entries);
+  }
   
   // Track update time
   lastLeaderboardUpdate = Date.now();
@@ -331,13 +790,70 @@ function startAggregatedUpdates(): void {
  */
 function updateAggregated(): void {
   const markets = marketStore.getAll();
-  const aggregated = aggregateMarketsBySymbol(markets);
+  const aggregated = aggregateMarketsBySymbol(markets, (id) => orderBookStore.getFullDepth(id));
   
   // Clear and update
   aggregatedStore.clear();
   for (const [symbol, data] of aggregated.entries()) {
     aggregatedStore.set(symbol, data);
   }
+
+  // Funding carry pairs legs by base asset, so it uses all markets
+  fundingArbitrage = calculateFundingArbitrage(markets);
+  wsAPI.broadcastFundingArbitrage(fundingArbitrage);
+
+  updateTermStructures(markets);
+}
+
+/**
+ * Recompute basis term structures and signal contango/backwardation shifts.
+ */
+function updateTermStructures(markets: UnifiedMarket[]): void {
+  // Retire contracts that have delivered
+  const now = Date.now();
+  for (const future of futuresMarketStore.getAll()) {
+    if (future.expiryTime !== null && future.expiryTime <= now) {
+      futuresMarketStore.delete(future.id);
+    }
+  }
+
+  termStructures = calculateAllTermStructures(
+    markets,
+    futuresMarketStore.getAll(),
+    (id) => spotMarketStore.get(id)
+  );
+
+  for (const asset of termStructureShapes.keys()) {
+    if (!termStructures.has(asset)) {
+      termStructureShapes.delete(asset);
+    }
+  }
+
+  for (const [asset, structure] of termStructures.entries()) {
+    const previous = termStructureShapes.get(asset);
+    termStructureShapes.set(asset, structure.shape);
+
+    if (previous !== undefined && previous !== structure.shape) {
+      logger.info("Term structure shift detected", {
+        asset,
+        previousShape: previous,
+        shape: structure.shape,
+      });
+      wsAPI.broadcastSignal("term_structure_shift", {
+        asset,
+        previousShape: previous,
+        shape: structure.shape,
+        exchanges: structure.exchanges.map((exchange) => ({
+          exchange: exchange.exchange,
+          shape: exchange.shape,
+          perpAnnualized: exchange.perp?.annualizedPercent ?? null,
+          frontAnnualized: exchange.front?.annualizedPercent ?? null,
+          nextAnnualized: exchange.next?.annualizedPercent ?? null,
+        })),
+        detectedAt: now,
+      });
+    }
+  }
 }
 
 /**
@@ -346,6 +862,8 @@ function updateAggregated(): void {
 function logHealth(): void {
   const bybitHealth = bybitConnector.getHealth();
   const binanceHealth = binanceConnector.getHealth();
+  const okxHealth = okxConnector.getHealth();
+  const hyperliquidHealth = hyperliquidConnector.getHealth();
   const stats = marketStore.getStats();
 
   logger.info("System health", {
@@ -361,10 +879,26 @@ function logHealth(): void {
       messageRate: binanceHealth.messageRate.toFixed(2),
       reconnectCount: binanceHealth.reconnectCount,
     },
+    okx: {
+      connected: okxHealth.isConnected,
+      subscriptions: okxHealth.subscriptionCount,
+      messageRate: okxHealth.messageRate.toFixed(2),
+      reconnectCount: okxHealth.reconnectCount,
+    },
+    hyperliquid: {
+      connected: hyperliquidHealth.isConnected,
+      subscriptions: hyperliquidHealth.subscriptionCount,
+      trackedAddresses: hyperliquidHealth.extra?.trackedCount,
+      priorityAddresses: hyperliquidHealth.extra?.priorityCount,
+    },
     markets: {
       total: stats.totalMarkets,
       stale: stats.staleMarkets,
     },
+    spotMarkets: spotMarketStore.size(),
+    futuresMarkets: futuresMarketStore.size(),
+    orderBooks: orderBookStore.size(),
+    positioning: positioningStore.size(),
   });
 }
 
@@ -382,6 +916,11 @@ process.on("SIGINT", async () => {
 
   // Stop metrics computation
   metricsManager.stop();
+  scoreEngine.stop();
+  universeManager.stop();
+  listingDetector.stop();
+  positioningPoller.stop();
+  fundingHistory.stop();
 
   // Stop connectors
   if (bybitConnector) {
@@ -390,6 +929,12 @@ process.on("SIGINT", async () => {
   if (binanceConnector) {
     await binanceConnector.stop();
   }
+  if (okxConnector) {
+    await okxConnector.stop();
+  }
+  if (hyperliquidConnector) {
+    await hyperliquidConnector.stop();
+  }
 
   // Stop API server
   await apiServer.stop();
@@ -411,6 +956,11 @@ process.on("SIGTERM", async () => {
 
   // Stop metrics computation
   metricsManager.stop();
+  scoreEngine.stop();
+  universeManager.stop();
+  listingDetector.stop();
+  positioningPoller.stop();
+  fundingHistory.stop();
 
   // Stop connectors
   if (bybitConnector) {
@@ -419,6 +969,12 @@ process.on("SIGTERM", async () => {
   if (binanceConnector) {
     await binanceConnector.stop();
   }
+  if (okxConnector) {
+    await okxConnector.stop();
+  }
+  if (hyperliquidConnector) {
+    await hyperliquidConnector.stop();
+  }
 
   // Stop API server
   await apiServer.stop();
@@ -0,0 +1,295 @@
+/**
+ * Custom Leaderboard Store
+ *
+ * User-defined leaderboards ranked by an expression over UnifiedMarket and
+ * DerivedMetrics fields (see compute/leaderboard-expression.ts). Definitions
+ * are persisted as JSON so they survive restarts; entries are recomputed
+ * alongside the built-in leaderboards.
+ */
+
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { UnifiedMarket, DerivedMetrics } from "../types/unified.js";
+import type { LeaderboardEntry } from "../types/internal.js";
+import {
+  compileExpression,
+  evaluateExpression,
+  type CompiledExpression,
+} from "../compute/leaderboard-expression.js";
+import { getConfig } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+
+export type SortDirection = "desc" | "asc";
+
+export interface CustomLeaderboardDefinition {
+  name: string;
+  expression: string;
+  direction: SortDirection;
+  limit: number;
+  createdAt: number;
+}
+
+export interface CustomLeaderboard {
+  name: string;
+  definition: CustomLeaderboardDefinition;
+  entries: LeaderboardEntry[];
+  updatedAt: number;
+  totalCount: number;     // Markets that passed the filter, before the limit
+}
+
+interface CustomBoard {
+  definition: CustomLeaderboardDefinition;
+  compiled: CompiledExpression;
+  entries: LeaderboardEntry[];
+  totalCount: number;
+  updatedAt: number;
+}
+
+const NAME_PATTERN = /^[a-z0-9_]{1,48}$/;
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Rejected user input, as opposed to a storage failure
+ */
+export class CustomLeaderboardValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustomLeaderboardValidationError";
+  }
+}
+
+export class CustomLeaderboardStore {
+  private boards: Map<string, CustomBoard> = new Map();
+  private storagePath: string;
+
+  constructor(storagePath: string = getConfig().customLeaderboards.storagePath) {
+    this.storagePath = storagePath;
+  }
+
+  /**
+   * Load persisted definitions. Definitions that no longer compile (e.g.
+   * a field was renamed) are skipped with a warning and dropped from the
+   * file on the next save.
+   */
+  load(): void {
+    let definitions: CustomLeaderboardDefinition[];
+
+    try {
+      definitions = JSON.parse(readFileSync(this.storagePath, "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error("Failed to load custom leaderboards", error as Error, {
+          path: this.storagePath,
+        });
+      }
+      return;
+    }
+
+    if (!Array.isArray(definitions)) {
+      logger.warn("Custom leaderboards file is not a list, ignoring", { path: this.storagePath });
+      return;
+    }
+
+    for (const definition of definitions) {
+      try {
+        this.boards.set(definition.name, this.createBoard(definition));
+      } catch (error) {
+        logger.warn("Skipping invalid custom leaderboard", {
+          name: definition.name,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    logger.info("Custom leaderboards loaded", {
+      count: this.boards.size,
+      path: this.storagePath,
+    });
+  }
+
+  /**
+   * Validate, compile and persist a new definition. Throws a
+   * CustomLeaderboardValidationError with a user-facing message when the
+   * input is invalid; storage errors propagate and leave the store unchanged.
+   */
+  create(input: {
+    name: unknown;
+    expression: unknown;
+    direction?: unknown;
+    limit?: unknown;
+  }): CustomLeaderboardDefinition {
+    const { maxBoards, maxLimit } = getConfig().customLeaderboards;
+
+    if (typeof input.name !== "string" || !NAME_PATTERN.test(input.name)) {
+      throw new CustomLeaderboardValidationError("name must be 1-48 characters of a-z, 0-9 or _");
+    }
+    if (typeof input.expression !== "string" || input.expression.trim() === "") {
+      throw new CustomLeaderboardValidationError("expression is required");
+    }
+    if (input.direction !== undefined && input.direction !== "desc" && input.direction !== "asc") {
+      throw new CustomLeaderboardValidationError('direction must be "desc" or "asc"');
+    }
+    if (
+      input.limit !== undefined &&
+      (typeof input.limit !== "number" ||
+        !Number.isInteger(input.limit) ||
+        input.limit < 1 ||
+        input.limit > maxLimit)
+    ) {
+      throw new CustomLeaderboardValidationError(`limit must be an integer from 1 to ${maxLimit}`);
+    }
+    if (this.boards.size >= maxBoards) {
+      throw new CustomLeaderboardValidationError(`At most ${maxBoards} custom leaderboards are allowed`);
+    }
+
+    const definition: CustomLeaderboardDefinition = {
+      name: input.name,
+      expression: input.expression.trim(),
+      direction: (input.direction as SortDirection | undefined) ?? "desc",
+      limit: (input.limit as number | undefined) ?? DEFAULT_LIMIT,
+      createdAt: Date.now(),
+    };
+
+    let board: CustomBoard;
+    try {
+      board = this.createBoard(definition);
+    } catch (error) {
+      throw new CustomLeaderboardValidationError((error as Error).message);
+    }
+
+    this.save([...this.getDefinitions(), definition]);
+    this.boards.set(definition.name, board);
+
+    logger.info("Custom leaderboard created", {
+      name: definition.name,
+      expression: definition.expression,
+    });
+
+    return definition;
+  }
+
+  /**
+   * Remove a definition. Returns false when it does not exist; storage
+   * errors propagate and leave the store unchanged.
+   */
+  delete(name: string): boolean {
+    if (!this.boards.has(name)) {
+      return false;
+    }
+
+    this.save(this.getDefinitions().filter((definition) => definition.name !== name));
+    this.boards.delete(name);
+    logger.info("Custom leaderboard deleted", { name });
+    return true;
+  }
+
+  has(name: string): boolean {
+    return this.boards.has(name);
+  }
+
+  /**
+   * Recompute every custom leaderboard.
+   */
+  update(markets: UnifiedMarket[], metrics: Map<string, DerivedMetrics>): void {
+    const now = Date.now();
+
+    for (const board of this.boards.values()) {
+      const { direction, limit } = board.definition;
+      const entries: LeaderboardEntry[] = [];
+
+      for (const market of markets) {
+        const value = evaluateExpression(board.compiled, {
+          market,
+          metrics: metrics.get(market.id),
+        });
+
+        if (value === null) {
+          continue;
+        }
+
+        entries.push({
+          id: market.id,
+          exchange: market.exchange,
+          symbol: market.symbol,
+          value,
+          rank: 0,
+          metadata: {
+            lastPrice: market.lastPrice,
+            volume24h: market.volume24hUsd,
+          },
+        });
+      }
+
+      entries.sort((a, b) => (direction === "desc" ? b.value - a.value : a.value - b.value));
+      entries.forEach((entry, index) => {
+        entry.rank = index + 1;
+      });
+
+      board.entries = entries.slice(0, limit);
+      board.totalCount = entries.length;
+      board.updatedAt = now;
+    }
+  }
+
+  /**
+   * Get a custom leaderboard by name.
+   */
+  getLeaderboard(name: string, limit: number = 100): CustomLeaderboard | undefined {
+    const board = this.boards.get(name);
+    if (!board) {
+      return undefined;
+    }
+
+    return {
+      name,
+      definition: board.definition,
+      entries: board.entries.slice(0, limit),
+      updatedAt: board.updatedAt,
+      totalCount: board.totalCount,
+    };
+  }
+
+  /**
+   * Get all definitions, oldest first.
+   */
+  getDefinitions(): CustomLeaderboardDefinition[] {
+    return Array.from(this.boards.values(), (board) => board.definition);
+  }
+
+  /**
+   * Get all custom leaderboards as a map
+   */
+  getAllLeaderboards(): Map<string, LeaderboardEntry[]> {
+    const result = new Map<string, LeaderboardEntry[]>();
+    for (const [name, board] of this.boards.entries()) {
+      result.set(name, board.entries);
+    }
+    return result;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private createBoard(definition: CustomLeaderboardDefinition): CustomBoard {
+    return {
+      definition,
+      compiled: compileExpression(definition.expression),
+      entries: [],
+      totalCount: 0,
+      updatedAt: 0,
+    };
+  }
+
+  /**
+   * Write definitions to a temp file and rename it over the old one, so a
+   * crash mid-write never leaves a truncated file.
+   */
+  private save(definitions: CustomLeaderboardDefinition[]): void {
+    const tempPath = `${this.storagePath}.tmp`;
+
+    mkdirSync(dirname(this.storagePath), { recursive: true });
+    writeFileSync(tempPath, JSON.stringify(definitions, null, 2));
+    renameSync(tempPath, this.storagePath);
+  }
+}
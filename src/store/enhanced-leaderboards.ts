@@ -5,7 +5,12 @@
  */
 
 import type { UnifiedMarket } from "../types/unified.js";
-import type { DerivedMetrics } from "../types/unified.js";
+import type {
+  DerivedMetrics,
+  PositioningSnapshot,
+  PerpSpotBasis,
+  CompositeScores,
+} from "../types/unified.js";
 import type {
   Leaderboard,
   LeaderboardEntry,
@@ -18,18 +23,32 @@ export class EnhancedLeaderboardStore {
   /**
    * Update all leaderboards based on current market data and metrics.
    */
-  update(markets: UnifiedMarket[], metrics: Map<string, DerivedMetrics>): void {
+  update(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>,
+    positioning: Map<string, PositioningSnapshot> = new Map(),
+    basis: Map<string, PerpSpotBasis> = new Map(),
+    scores: Map<string, CompositeScores> = new Map()
+  ): void {
 
     // Price leaderboards
-    this.updateGainers1h(markets);
-    this.updateLosers1h(markets);
+    this.updateGainers(markets, metrics, "gainers_1h", (m) => m.priceChangePercent1h);
+    this.updateLosers(markets, metrics, "losers_1h", (m) => m.priceChangePercent1h);
+    this.updateGainers(markets, metrics, "gainers_4h", (m) => m.priceChangePercent4h);
+    this.updateLosers(markets, metrics, "losers_4h", (m) => m.priceChangePercent4h);
+    this.updateGainers24h(markets);
+    this.updateLosers24h(markets);
     this.updateMomentumHighest(markets, metrics);
     this.updateMomentumLowest(markets, metrics);
 
     // Volume leaderboards
     this.updateVolume24h(markets);
     this.updateVolumeSurge(markets, metrics);
-    this.updateActivityHighest(markets, metrics);
+    this.updateActivityHighest(markets, scores);
+
+    // Order flow leaderboards
+    this.updateCVDPositive4h(markets, metrics);
+    this.updateCVDNegative4h(markets, metrics);
 
     // Funding leaderboards
     this.updateFundingHighest(markets);
@@ -38,14 +57,35 @@ export class EnhancedLeaderboardStore {
 
     // OI leaderboards
     this.updateOIHighest(markets);
+    this.updateOIChange(markets, metrics, "oi_change_15m", (m) => m.oiChangePercent15m);
+    this.updateOIChange(markets, metrics, "oi_change_1h", (m) => m.oiChangePercent1h);
+    this.updateOIChange(markets, metrics, "oi_change_4h", (m) => m.oiChangePercent4h);
+    this.updateOIDrop1h(markets, metrics);
+
+    // Liquidation leaderboards
+    this.updateLiquidationsLong1h(markets, metrics);
+    this.updateLiquidationsShort1h(markets, metrics);
+
+    // Positioning leaderboards
+    this.updateCrowdedLongs(markets, positioning);
+    this.updateCrowdedShorts(markets, positioning);
+
+    // Basis leaderboards
+    this.updateBasisHighest(markets, basis);
+    this.updateBasisLowest(markets, basis);
 
     // Liquidity leaderboards
     this.updateSpreadTightest(markets);
     this.updateSpreadWidest(markets);
+    this.updateSpreadBlowout(markets, metrics);
 
     // Volatility leaderboards
-    this.updateVolatilityHighest(markets, metrics);
-    this.updateVolatilityLowest(markets, metrics);
+    this.updateVolatilityHighest(markets, scores);
+    this.updateVolatilityLowest(markets, scores);
+
+    // Composite score leaderboards
+    this.updateMomentumScore(markets, scores);
+    this.updatePumpScore(markets, scores);
 
     // Signal leaderboards
     this.updatePumping(markets, metrics);
@@ -93,22 +133,54 @@ export class EnhancedLeaderboardStore {
   // PRICE LEADERBOARDS
   // ══════════════════════════════════════════════════════════════════════
 
-  private updateGainers1h(markets: UnifiedMarket[]): void {
+  private updateGainers(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>,
+    name: LeaderboardName,
+    getValue: (metrics: DerivedMetrics) => number
+  ): void {
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      getValue,
+      (a, b) => b.value - a.value
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set(name, entries);
+  }
+
+  private updateLosers(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>,
+    name: LeaderboardName,
+    getValue: (metrics: DerivedMetrics) => number
+  ): void {
+    // Ranked by magnitude of the drop
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      (m) => -getValue(m),
+      (a, b) => b.value - a.value
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set(name, entries);
+  }
+
+  // 24h change comes from the exchange ticker, which covers the full day from startup
+  private updateGainers24h(markets: UnifiedMarket[]): void {
     const entries = this.createEntries(
       markets.filter((m) => (m.priceChangePercent24h || 0) > 0),
       (m) => m.priceChangePercent24h || 0,
       (a, b) => b.value - a.value
     );
-    this.leaderboards.set("gainers_1h", entries);
+    this.leaderboards.set("gainers_24h", entries);
   }
 
-  private updateLosers1h(markets: UnifiedMarket[]): void {
+  private updateLosers24h(markets: UnifiedMarket[]): void {
     const entries = this.createEntries(
       markets.filter((m) => (m.priceChangePercent24h || 0) < 0),
       (m) => Math.abs(m.priceChangePercent24h || 0),
       (a, b) => b.value - a.value
     );
-    this.leaderboards.set("losers_1h", entries);
+    this.leaderboards.set("losers_24h", entries);
   }
 
   private updateMomentumHighest(
@@ -166,45 +238,77 @@ export class EnhancedLeaderboardStore {
   }
 
   private updateActivityHighest(
+    markets: UnifiedMarket[],
+    scores: Map<string, CompositeScores>
+  ): void {
+    const entries = this.createScoreEntries(
+      markets,
+      scores,
+      (s) => s.activityScore,
+      (a, b) => b.value - a.value
+    );
+    this.leaderboards.set("activity_highest", entries);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // ORDER FLOW LEADERBOARDS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private updateCVDPositive4h(
     markets: UnifiedMarket[],
     metrics: Map<string, DerivedMetrics>
   ): void {
-    // Activity = volume * price change magnitude
+    // Net taker buying (USD); markets without trade subscriptions report 0
     const entries = this.createEntriesWithMetrics(
       markets,
       metrics,
-      (m) => (m.volume1h || 0) * Math.abs(m.priceChangePercent1h || 0),
+      (m) => m.cvd4h,
       (a, b) => b.value - a.value
-    );
-    this.leaderboards.set("activity_highest", entries);
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set("cvd_positive_4h", entries);
+  }
+
+  private updateCVDNegative4h(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>
+  ): void {
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      (m) => m.cvd4h,
+      (a, b) => a.value - b.value
+    ).filter((e) => e.value < 0);
+    this.leaderboards.set("cvd_negative_4h", entries);
   }
 
   // ══════════════════════════════════════════════════════════════════════
   // FUNDING LEADERBOARDS
   // ══════════════════════════════════════════════════════════════════════
 
+  // Funding boards rank the 8h-equivalent rate so 1h/4h/8h venues compare fairly
+
   private updateFundingHighest(markets: UnifiedMarket[]): void {
-    const entries = this.createEntries(
-      markets.filter((m) => m.fundingRateAnnualized !== null),
-      (m) => m.fundingRateAnnualized || 0,
+    const entries = this.createFundingEntries(
+      markets,
+      (m) => m.fundingRate8h || 0,
       (a, b) => b.value - a.value
     );
     this.leaderboards.set("funding_highest", entries);
   }
 
   private updateFundingLowest(markets: UnifiedMarket[]): void {
-    const entries = this.createEntries(
-      markets.filter((m) => m.fundingRateAnnualized !== null),
-      (m) => m.fundingRateAnnualized || 0,
+    const entries = this.createFundingEntries(
+      markets,
+      (m) => m.fundingRate8h || 0,
       (a, b) => a.value - b.value
     );
     this.leaderboards.set("funding_lowest", entries);
   }
 
   private updateFundingExtreme(markets: UnifiedMarket[]): void {
-    const entries = this.createEntries(
-      markets.filter((m) => m.fundingRateAnnualized !== null),
-      (m) => Math.abs(m.fundingRateAnnualized || 0),
+    const entries = this.createFundingEntries(
+      markets,
+      (m) => Math.abs(m.fundingRate8h || 0),
       (a, b) => b.value - a.value
     );
     this.leaderboards.set("funding_extreme", entries);
@@ -223,6 +327,124 @@ export class EnhancedLeaderboardStore {
     this.leaderboards.set("oi_highest", entries);
   }
 
+  private updateOIChange(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>,
+    name: LeaderboardName,
+    getValue: (metrics: DerivedMetrics) => number
+  ): void {
+    // Largest OI increase (%); markets without enough OI history report 0
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      getValue,
+      (a, b) => b.value - a.value
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set(name, entries);
+  }
+
+  private updateOIDrop1h(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>
+  ): void {
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      (m) => m.oiChangePercent1h,
+      (a, b) => a.value - b.value
+    ).filter((e) => e.value < 0);
+    this.leaderboards.set("oi_drop_1h", entries);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // LIQUIDATION LEADERBOARDS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private updateLiquidationsLong1h(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>
+  ): void {
+    // Only markets with liquidations; CEX streams are sampled
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      (m) => m.liquidationsLong1h,
+      (a, b) => b.value - a.value
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set("liquidations_long_1h", entries);
+  }
+
+  private updateLiquidationsShort1h(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>
+  ): void {
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      (m) => m.liquidationsShort1h,
+      (a, b) => b.value - a.value
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set("liquidations_short_1h", entries);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // POSITIONING LEADERBOARDS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private updateCrowdedLongs(
+    markets: UnifiedMarket[],
+    positioning: Map<string, PositioningSnapshot>
+  ): void {
+    // Share of accounts long (%); only markets with polled ratios
+    const entries = this.createEntries(
+      markets.filter((m) => positioning.has(m.id)),
+      (m) => positioning.get(m.id)!.longAccountPercent,
+      (a, b) => b.value - a.value
+    );
+    this.leaderboards.set("crowded_longs", entries);
+  }
+
+  private updateCrowdedShorts(
+    markets: UnifiedMarket[],
+    positioning: Map<string, PositioningSnapshot>
+  ): void {
+    const entries = this.createEntries(
+      markets.filter((m) => positioning.has(m.id)),
+      (m) => positioning.get(m.id)!.shortAccountPercent,
+      (a, b) => b.value - a.value
+    );
+    this.leaderboards.set("crowded_shorts", entries);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════
+  // BASIS LEADERBOARDS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private updateBasisHighest(
+    markets: UnifiedMarket[],
+    basis: Map<string, PerpSpotBasis>
+  ): void {
+    // Perp premium over spot (bps); only perps with a spot counterpart
+    const entries = this.createBasisEntries(
+      markets,
+      basis,
+      (a, b) => b.value - a.value
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set("basis_highest", entries);
+  }
+
+  private updateBasisLowest(
+    markets: UnifiedMarket[],
+    basis: Map<string, PerpSpotBasis>
+  ): void {
+    const entries = this.createBasisEntries(
+      markets,
+      basis,
+      (a, b) => a.value - b.value
+    ).filter((e) => e.value < 0);
+    this.leaderboards.set("basis_lowest", entries);
+  }
+
   // ══════════════════════════════════════════════════════════════════════
   // LIQUIDITY LEADERBOARDS
   // ══════════════════════════════════════════════════════════════════════
@@ -245,19 +467,32 @@ export class EnhancedLeaderboardStore {
     this.leaderboards.set("spread_widest", entries);
   }
 
+  private updateSpreadBlowout(
+    markets: UnifiedMarket[],
+    metrics: Map<string, DerivedMetrics>
+  ): void {
+    // Current spread vs its own 24h history; 0 until an hour of history
+    const entries = this.createEntriesWithMetrics(
+      markets,
+      metrics,
+      (m) => m.spreadPercentile24h,
+      (a, b) => b.value - a.value
+    ).filter((e) => e.value > 0);
+    this.leaderboards.set("spread_blowout", entries);
+  }
+
   // ══════════════════════════════════════════════════════════════════════
   // VOLATILITY LEADERBOARDS
   // ══════════════════════════════════════════════════════════════════════
 
   private updateVolatilityHighest(
     markets: UnifiedMarket[],
-    metrics: Map<string, DerivedMetrics>
+    scores: Map<string, CompositeScores>
   ): void {
-    // Volatility = price velocity magnitude
-    const entries = this.createEntriesWithMetrics(
+    const entries = this.createScoreEntries(
       markets,
-      metrics,
-      (m) => Math.abs(m.priceVelocity || 0),
+      scores,
+      (s) => s.volatilityScore,
       (a, b) => b.value - a.value
     );
     this.leaderboards.set("volatility_highest", entries);
@@ -265,17 +500,47 @@ export class EnhancedLeaderboardStore {
 
   private updateVolatilityLowest(
     markets: UnifiedMarket[],
-    metrics: Map<string, DerivedMetrics>
+    scores: Map<string, CompositeScores>
   ): void {
-    const entries = this.createEntriesWithMetrics(
+    const entries = this.createScoreEntries(
       markets,
-      metrics,
-      (m) => Math.abs(m.priceVelocity || 0),
+      scores,
+      (s) => s.volatilityScore,
       (a, b) => a.value - b.value
     );
     this.leaderboards.set("volatility_lowest", entries);
   }
 
+  // ══════════════════════════════════════════════════════════════════════
+  // COMPOSITE SCORE LEADERBOARDS
+  // ══════════════════════════════════════════════════════════════════════
+
+  private updateMomentumScore(
+    markets: UnifiedMarket[],
+    scores: Map<string, CompositeScores>
+  ): void {
+    const entries = this.createScoreEntries(
+      markets,
+      scores,
+      (s) => s.momentumScore,
+      (a, b) => b.value - a.value
+    );
+    this.leaderboards.set("momentum_score", entries);
+  }
+
+  private updatePumpScore(
+    markets: UnifiedMarket[],
+    scores: Map<string, CompositeScores>
+  ): void {
+    const entries = this.createScoreEntries(
+      markets,
+      scores,
+      (s) => s.pumpScore,
+      (a, b) => b.value - a.value
+    );
+    this.leaderboards.set("pump_score", entries);
+  }
+
   // ══════════════════════════════════════════════════════════════════════
   // SIGNAL LEADERBOARDS
   // ══════════════════════════════════════════════════════════════════════
@@ -352,6 +617,96 @@ export class EnhancedLeaderboardStore {
     return entries;
   }
 
+  /**
+   * Entries for markets with funding, with raw and normalized rates and
+   * the funding interval in metadata.
+   */
+  private createFundingEntries(
+    markets: UnifiedMarket[],
+    getValue: (market: UnifiedMarket) => number,
+    sortFn: (a: LeaderboardEntry, b: LeaderboardEntry) => number
+  ): LeaderboardEntry[] {
+    const withFunding = markets.filter((m) => m.fundingRate8h !== null);
+    const byId = new Map(withFunding.map((m) => [m.id, m]));
+
+    const entries: LeaderboardEntry[] = [];
+    for (const entry of this.createEntries(withFunding, getValue, sortFn)) {
+      const market = byId.get(entry.id);
+      if (!market) {
+        continue;
+      }
+
+      entries.push({
+        ...entry,
+        metadata: {
+          ...entry.metadata,
+          fundingRate: market.fundingRate,
+          fundingRatePerHour: market.fundingRatePerHour,
+          fundingRate8h: market.fundingRate8h,
+          fundingRateAnnualized: market.fundingRateAnnualized,
+          fundingIntervalHours: market.fundingIntervalHours,
+        },
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Entries valued by basis in bps, with spot and perp prices in metadata.
+   */
+  private createBasisEntries(
+    markets: UnifiedMarket[],
+    basis: Map<string, PerpSpotBasis>,
+    sortFn: (a: LeaderboardEntry, b: LeaderboardEntry) => number
+  ): LeaderboardEntry[] {
+    const withBasis = markets.filter((m) => basis.has(m.id));
+
+    const entries: LeaderboardEntry[] = [];
+    for (const entry of this.createEntries(withBasis, (m) => basis.get(m.id)!.basisBps, sortFn)) {
+      const b = basis.get(entry.id);
+      if (!b) {
+        continue;
+      }
+
+      entries.push({
+        ...entry,
+        metadata: {
+          ...entry.metadata,
+          spotId: b.spotId,
+          perpPrice: b.perpPrice,
+          spotPrice: b.spotPrice,
+          basisAbsolute: b.basisAbsolute,
+          basisAnnualized: b.basisAnnualized,
+        },
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Entries for markets with composite scores, with all scores in metadata.
+   */
+  private createScoreEntries(
+    markets: UnifiedMarket[],
+    scores: Map<string, CompositeScores>,
+    getValue: (scores: CompositeScores) => number,
+    sortFn: (a: LeaderboardEntry, b: LeaderboardEntry) => number
+  ): LeaderboardEntry[] {
+    const withScores = markets.filter((m) => scores.has(m.id));
+
+    return this.createEntries(withScores, (m) => getValue(scores.get(m.id)!), sortFn).map(
+      (entry) => ({
+        ...entry,
+        metadata: {
+          ...entry.metadata,
+          scores: scores.get(entry.id),
+        },
+      })
+    );
+  }
+
   private createEntriesWithMetrics(
     markets: UnifiedMarket[],
     metrics: Map<string, DerivedMetrics>,
@@ -132,6 +132,7 @@ export class LeaderboardStore {
         metadata: {
           fundingRate: market.fundingRate,
           fundingRateAnnualized: market.fundingRateAnnualized,
+          fundingIntervalHours: market.fundingIntervalHours,
           nextFundingTime: market.nextFundingTime,
         },
       }))
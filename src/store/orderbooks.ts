@@ -0,0 +1,118 @@
+/**
+ * In-Memory Order Book Store
+ *
+ * Stores the latest UnifiedOrderBook per market. Stored books are cut to
+ * the subscribed depth; exchanges that keep a local book can register a
+ * full-depth source for estimators that walk the book.
+ */
+
+import type { UnifiedOrderBook, Exchange } from "../types/unified.js";
+import type { OrderBookStore as IOrderBookStore } from "../types/internal.js";
+import { logger } from "../utils/logger.js";
+
+export type FullDepthSource = (symbol: string) => UnifiedOrderBook | undefined;
+
+export class OrderBookStore implements IOrderBookStore {
+  private books: Map<string, UnifiedOrderBook> = new Map();
+  private fullDepthSources: Map<Exchange, FullDepthSource> = new Map();
+
+  /**
+   * Get an order book by market ID.
+   */
+  get(id: string): UnifiedOrderBook | undefined {
+    return this.books.get(id);
+  }
+
+  /**
+   * Get all order books.
+   */
+  getAll(): UnifiedOrderBook[] {
+    return Array.from(this.books.values());
+  }
+
+  /**
+   * Get all order books for a normalized symbol (across all exchanges).
+   */
+  getBySymbol(normalizedSymbol: string): UnifiedOrderBook[] {
+    return Array.from(this.books.values()).filter(
+      (book) => book.symbol === normalizedSymbol
+    );
+  }
+
+  /**
+   * Register where to read full-depth books for an exchange.
+   */
+  setFullDepthSource(exchange: Exchange, source: FullDepthSource): void {
+    this.fullDepthSources.set(exchange, source);
+  }
+
+  /**
+   * Get an order book with every level its exchange holds locally, falling
+   * back to the stored (depth-capped) book.
+   */
+  getFullDepth(id: string): UnifiedOrderBook | undefined {
+    const book = this.books.get(id);
+    if (!book) {
+      return undefined;
+    }
+
+    return this.fullDepthSources.get(book.exchange)?.(book.symbol) ?? book;
+  }
+
+  /**
+   * Get full-depth order books for a normalized symbol (across all exchanges).
+   */
+  getFullDepthBySymbol(normalizedSymbol: string): UnifiedOrderBook[] {
+    return this.getBySymbol(normalizedSymbol).map(
+      (book) => this.fullDepthSources.get(book.exchange)?.(book.symbol) ?? book
+    );
+  }
+
+  /**
+   * Update or insert an order book.
+   */
+  set(book: UnifiedOrderBook): void {
+    this.books.set(book.id, book);
+  }
+
+  /**
+   * Delete an order book.
+   */
+  delete(id: string): void {
+    this.books.delete(id);
+  }
+
+  /**
+   * Get the number of order books.
+   */
+  size(): number {
+    return this.books.size;
+  }
+
+  /**
+   * Clear all order books.
+   */
+  clear(): void {
+    this.books.clear();
+    logger.info("Order book store cleared");
+  }
+
+  /**
+   * Get statistics about the store.
+   */
+  getStats(): {
+    totalBooks: number;
+    booksByExchange: Record<Exchange, number>;
+  } {
+    const booksByExchange: Record<string, number> = {};
+
+    for (const book of this.books.values()) {
+      booksByExchange[book.exchange] = (booksByExchange[book.exchange] || 0) + 1;
+    }
+
+    return {
+      totalBooks: this.books.size,
+      booksByExchange: booksByExchange as Record<Exchange, number>,
+    };
+  }
+}
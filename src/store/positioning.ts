@@ -0,0 +1,104 @@
+/**
+ * In-Memory Positioning Store
+ *
+ * Keeps a bounded history of long/short ratio samples per market.
+ */
+
+import type { PositioningSnapshot, Exchange } from "../types/unified.js";
+import type { PositioningStore as IPositioningStore } from "../types/internal.js";
+import { getConfig } from "../utils/config.js";
+import { logger } from "../utils/logger.js";
+
+export class PositioningStore implements IPositioningStore {
+  private history: Map<string, PositioningSnapshot[]> = new Map();
+
+  /**
+   * Get the latest sample for a market ID.
+   */
+  get(id: string): PositioningSnapshot | undefined {
+    const series = this.history.get(id);
+    return series ? series[series.length - 1] : undefined;
+  }
+
+  /**
+   * Get the latest sample for every market, keyed by market ID.
+   */
+  getLatest(): Map<string, PositioningSnapshot> {
+    const latest = new Map<string, PositioningSnapshot>();
+    for (const [id, series] of this.history.entries()) {
+      latest.set(id, series[series.length - 1]);
+    }
+    return latest;
+  }
+
+  /**
+   * Get the most recent samples for a market, oldest first.
+   */
+  getHistory(id: string, limit?: number): PositioningSnapshot[] {
+    const series = this.history.get(id) ?? [];
+    return limit !== undefined ? series.slice(-limit) : [...series];
+  }
+
+  /**
+   * Append a sample. Samples repeating the last exchange timestamp are ignored.
+   */
+  add(snapshot: PositioningSnapshot): void {
+    const series = this.history.get(snapshot.id) ?? [];
+    const last = series[series.length - 1];
+
+    if (last && last.timestamp >= snapshot.timestamp) {
+      return;
+    }
+
+    series.push(snapshot);
+
+    const historySize = getConfig().positioning.historySize;
+    if (series.length > historySize) {
+      series.splice(0, series.length - historySize);
+    }
+
+    this.history.set(snapshot.id, series);
+  }
+
+  /**
+   * Delete a market's history.
+   */
+  delete(id: string): void {
+    this.history.delete(id);
+  }
+
+  /**
+   * Get the number of markets with positioning data.
+   */
+  size(): number {
+    return this.history.size;
+  }
+
+  /**
+   * Clear all history.
+   */
+  clear(): void {
+    this.history.clear();
+    logger.info("Positioning store cleared");
+  }
+
+  /**
+   * Get statistics about the store.
+   */
+  getStats(): {
+    totalMarkets: number;
+    marketsByExchange: Record<Exchange, number>;
+  } {
+    const marketsByExchange: Record<string, number> = {};
+
+    for (const series of this.history.values()) {
+      const exchange = series[0].exchange;
+      marketsByExchange[exchange] = (marketsByExchange[exchange] || 0) + 1;
+    }
+
+    return {
+      totalMarkets: this.history.size,
+      marketsByExchange: marketsByExchange as Record<Exchange, number>,
+    };
+  }
+}
@@ -72,6 +72,71 @@ export interface BinanceBookTickerMessage {
   A: string; // Best ask quantity
 }
 
+/**
+ * Binance REST book ticker (/fapi/v1/ticker/bookTicker)
+ */
+export interface BinanceBookTicker {
+  symbol: string;
+  bidPrice: string;
+  bidQty: string;
+  askPrice: string;
+  askQty: string;
+  time: number;
+}
+
+/**
+ * Binance aggregate trade message
+ */
+export interface BinanceAggTradeMessage {
+  e: string; // Event type: "aggTrade"
+  E: number; // Event time
+  s: string; // Symbol
+  a: number; // Aggregate trade ID
+  p: string; // Price
+  q: string; // Quantity
+  f: number; // First trade ID
+  l: number; // Last trade ID
+  T: number; // Trade time
+  m: boolean; // Is the buyer the market maker?
+}
+
+/**
+ * Binance liquidation order message (forceOrder)
+ * Only the latest liquidation per symbol per second is pushed.
+ */
+export interface BinanceForceOrderMessage {
+  e: string; // Event type: "forceOrder"
+  E: number; // Event time
+  o: {
+    s: string; // Symbol
+    S: "BUY" | "SELL"; // Order side (SELL liquidates a long)
+    o: string; // Order type
+    f: string; // Time in force
+    q: string; // Original quantity
+    p: string; // Price
+    ap: string; // Average price
+    X: string; // Order status
+    l: string; // Last filled quantity
+    z: string; // Accumulated filled quantity
+    T: number; // Trade time
+  };
+}
+
+/**
+ * Binance diff depth message (depthUpdate)
+ */
+export interface BinanceDepthUpdateMessage {
+  e: string; // Event type: "depthUpdate"
+  E: number; // Event time
+  T: number; // Transaction time
+  s: string; // Symbol
+  U: number; // First update ID in event
+  u: number; // Final update ID in event
+  pu: number; // Final update ID in previous event
+  b: [string, string][]; // Bids to update [price, quantity]
+  a: [string, string][]; // Asks to update [price, quantity]
+}
+
 // ══════════════════════════════════════════════════════════════════════
 // REST API RESPONSE TYPES
 // ══════════════════════════════════════════════════════════════════════
@@ -96,7 +161,16 @@ export interface BinanceSymbolInfo {
   contractType: "PERPETUAL" | "CURRENT_QUARTER" | "NEXT_QUARTER";
   deliveryDate: number;
   onboardDate: number;
-  status: "TRADING" | "BREAK" | "PRE_TRADING" | "POST_TRADING" | "END_OF_DAY" | "AUCTION_MATCHING";
+  status:
+    | "TRADING"
+    | "PENDING_TRADING"
+    | "PRE_DELIVERING"
+    | "DELIVERING"
+    | "DELIVERED"
+    | "PRE_SETTLE"
+    | "SETTLING"
+    | "CLOSE"
+    | "BREAK";
   baseAsset: string;
   quoteAsset: string;
   marginAsset: string;
@@ -142,6 +216,17 @@ export interface Binance24hrTicker {
   count: number;
 }
 
+/**
+ * Binance order book snapshot response
+ */
+export interface BinanceDepthSnapshot {
+  lastUpdateId: number;
+  E: number; // Message output time
+  T: number; // Transaction time
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
 /**
  * Binance open interest response
  */
@@ -150,6 +235,38 @@ export interface BinanceOpenInterest {
   symbol: string;
 }
 
+/**
+ * Binance funding info entry (only symbols with adjusted cap/floor/interval)
+ */
+export interface BinanceFundingInfo {
+  symbol: string;
+  adjustedFundingRateCap: string;
+  adjustedFundingRateFloor: string;
+  fundingIntervalHours: number;
+}
+
+/**
+ * Binance funding rate history entry
+ */
+export interface BinanceFundingRate {
+  symbol: string;
+  fundingTime: number;
+  fundingRate: string;
+  markPrice: string;
+}
+
+/**
+ * Binance long/short ratio response entry
+ * (globalLongShortAccountRatio, topLongShortPositionRatio)
+ */
+export interface BinanceLongShortRatio {
+  symbol: string;
+  longShortRatio: string;
+  longAccount: string;  // Fraction 0-1 (long positions for position ratios)
+  shortAccount: string; // Fraction 0-1
+  timestamp: number;
+}
+
 /**
  * Binance mark price response
  */
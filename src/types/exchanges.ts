@@ -17,6 +17,35 @@ export interface SymbolInfo {
   quoteAsset: string;
   contractType: "perpetual" | "quarterly" | "spot";
   isActive: boolean;
+  fundingIntervalHours?: number;  // Perpetuals, from instrument/funding info
+  expiryTime?: number;            // Dated futures delivery time (ms)
+}
+
+/**
+ * Instrument with its exchange-native trading status, used to detect
+ * listings, delistings and status transitions.
+ */
+export interface InstrumentStatus {
+  exchangeSymbol: string;
+  normalizedSymbol: string;
+  status: string;       // Exchange-native, e.g. "Trading", "Settling", "PENDING_TRADING"
+  isActive: boolean;
+  launchTime?: number;  // Listing time (ms) when the exchange reports it
+}
+
+/**
+ * A settled funding payment as reported by an exchange's funding history.
+ */
+export interface FundingRateRecord {
+  fundingTime: number;  // Settlement time (ms)
+  rate: number;         // Decimal rate paid per interval (0.0001 = 0.01%)
+}
+
+/**
+ * A settled funding payment with the interval it was paid over.
+ */
+export interface FundingSettlement extends FundingRateRecord {
+  intervalHours: number;
 }
 
 // ══════════════════════════════════════════════════════════════════════
@@ -67,7 +96,7 @@ export interface PollingConfig {
 export interface ExchangeConfig {
   exchange: Exchange;
   enabled: boolean;
-  symbols: string[] | "top100" | "all";
+  symbols: string[] | "top50" | "top100" | "all";
   
   // Exchange-specific settings
   wsBaseUrl?: string;
@@ -0,0 +1,138 @@
+/**
+ * Hyperliquid API Types
+ *
+ * Type definitions for Hyperliquid info endpoint responses and WebSocket
+ * messages. All info requests are POSTs to /info with a { type, ... } body.
+ */
+
+// ══════════════════════════════════════════════════════════════════════
+// MARKET DATA TYPES
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Perpetual asset metadata (meta.universe entry)
+ */
+export interface HyperliquidAssetMeta {
+  name: string;          // Coin name, e.g., "BTC"
+  szDecimals: number;    // Size decimals
+  maxLeverage: number;
+  onlyIsolated?: boolean;
+  isDelisted?: boolean;
+}
+
+/**
+ * Perpetual metadata response ({ type: "meta" })
+ */
+export interface HyperliquidMeta {
+  universe: HyperliquidAssetMeta[];
+}
+
+/**
+ * Perpetual asset context (live market state)
+ */
+export interface HyperliquidAssetCtx {
+  funding: string;         // Current hourly funding rate
+  openInterest: string;    // Open interest in base currency
+  prevDayPx: string;       // Price 24h ago
+  dayNtlVlm: string;       // 24h notional volume (USD)
+  dayBaseVlm?: string;     // 24h volume in base currency
+  premium: string | null;
+  oraclePx: string;        // Oracle (index) price
+  markPx: string;          // Mark price
+  midPx: string | null;    // Book mid price
+  impactPxs: string[] | null; // [impact bid, impact ask]
+}
+
+/**
+ * Response of { type: "metaAndAssetCtxs" }: meta and contexts indexed alike
+ */
+export type HyperliquidMetaAndAssetCtxs = [HyperliquidMeta, HyperliquidAssetCtx[]];
+
+// ══════════════════════════════════════════════════════════════════════
+// WEBSOCKET TYPES
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Per-coin WebSocket subscription
+ */
+export interface HyperliquidSubscription {
+  type: "bbo";
+  coin: string;
+}
+
+export interface HyperliquidWsLevel {
+  px: string;
+  sz: string;
+  n: number;               // Number of orders at the level
+}
+
+/**
+ * Data of the "bbo" channel: best bid and ask, either side null when empty
+ */
+export interface HyperliquidWsBbo {
+  coin: string;
+  time: number;
+  bbo: [HyperliquidWsLevel | null, HyperliquidWsLevel | null];
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// ACCOUNT TYPES
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Open position on a single coin
+ */
+export interface HyperliquidRawPosition {
+  coin: string;
+  szi: string;                  // Signed size (positive = long)
+  entryPx: string | null;
+  positionValue: string;        // Notional value in USD
+  unrealizedPnl: string;
+  returnOnEquity: string;
+  liquidationPx: string | null; // null when the position cannot be liquidated
+  marginUsed: string;
+  maxLeverage: number;
+  leverage: {
+    type: "cross" | "isolated";
+    value: number;
+    rawUsd?: string;
+  };
+}
+
+export interface HyperliquidAssetPosition {
+  type: string; // "oneWay"
+  position: HyperliquidRawPosition;
+}
+
+export interface HyperliquidMarginSummary {
+  accountValue: string;
+  totalNtlPos: string;
+  totalRawUsd: string;
+  totalMarginUsed: string;
+}
+
+/**
+ * Response of { type: "clearinghouseState", user }
+ */
+export interface HyperliquidClearinghouseState {
+  assetPositions: HyperliquidAssetPosition[];
+  marginSummary: HyperliquidMarginSummary;
+  crossMarginSummary: HyperliquidMarginSummary;
+  crossMaintenanceMarginUsed: string;
+  withdrawable: string;
+  time: number;
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// LEADERBOARD TYPES
+// ══════════════════════════════════════════════════════════════════════
+
+export interface HyperliquidLeaderboardRow {
+  ethAddress: string;
+  accountValue: string;
+  displayName: string | null;
+}
+
+export interface HyperliquidLeaderboardResponse {
+  leaderboardRows: HyperliquidLeaderboardRow[];
+}
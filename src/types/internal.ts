@@ -3,7 +3,13 @@
  * These are not part of the public API but are essential for the system.
  */
 
-import type { UnifiedMarket, UnifiedTrade, UnifiedOrderBook, UnifiedLiquidation } from "./unified.js";
+import type {
+  UnifiedMarket,
+  UnifiedTrade,
+  UnifiedOrderBook,
+  UnifiedLiquidation,
+  PositioningSnapshot,
+} from "./unified.js";
 import type { Exchange } from "./unified.js";
 
 // ══════════════════════════════════════════════════════════════════════
@@ -62,17 +68,26 @@ export interface SymbolRollingData {
 
 export type LeaderboardName =
   // Price movement
-  | "gainers_1h" | "losers_1h" | "momentum_highest" | "momentum_lowest"
+  | "gainers_1h" | "losers_1h" | "gainers_4h" | "losers_4h"
+  | "momentum_highest" | "momentum_lowest"
   // Volume
   | "volume_24h" | "volume_surge" | "activity_highest"
+  // Order flow
+  | "cvd_positive_4h" | "cvd_negative_4h"
   // Funding
   | "funding_highest" | "funding_lowest" | "funding_extreme"
   // Open interest
-  | "oi_highest"
+  | "oi_highest" | "oi_change_15m" | "oi_change_4h" | "oi_drop_1h"
+  // Positioning
+  | "crowded_longs" | "crowded_shorts"
+  // Perp-spot basis
+  | "basis_highest" | "basis_lowest"
   // Liquidity
-  | "spread_tightest" | "spread_widest"
+  | "spread_tightest" | "spread_widest" | "spread_blowout"
   // Volatility
   | "volatility_highest" | "volatility_lowest"
+  // Composite scores
+  | "momentum_score" | "pump_score"
   // Signals
   | "pumping" | "dumping"
   // Legacy (keep for compatibility)
@@ -82,7 +97,7 @@ export type LeaderboardName =
   | "cvd_positive_1h" | "cvd_negative_1h"
   | "depth_highest" | "oi_change_1h"
   | "liquidations_long_1h" | "liquidations_short_1h"
-  | "momentum_score" | "pump_score" | "activity_score"
+  | "activity_score"
   | "liquidation_risk" | "whale_positions";
 
 export interface LeaderboardEntry {
@@ -120,6 +135,13 @@ export interface OrderBookStore {
   delete(id: string): void;
 }
 
+export interface PositioningStore {
+  get(id: string): PositioningSnapshot | undefined;
+  getHistory(id: string, limit?: number): PositioningSnapshot[];
+  add(snapshot: PositioningSnapshot): void;
+  delete(id: string): void;
+}
+
 export interface TradeStore {
   add(trade: UnifiedTrade): void;
   getRecent(symbol: string, since: number): UnifiedTrade[];
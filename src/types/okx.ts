@@ -0,0 +1,114 @@
+/**
+ * OKX V5 API Types
+ *
+ * Type definitions for OKX perpetual swap WebSocket and REST API responses.
+ */
+
+// ══════════════════════════════════════════════════════════════════════
+// WEBSOCKET MESSAGE TYPES
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * OKX WebSocket subscription argument
+ */
+export interface OkxChannelArg {
+  channel: string; // "tickers" | "mark-price" | "funding-rate" | "open-interest"
+  instId: string;  // e.g., "BTC-USDT-SWAP"
+}
+
+/**
+ * OKX WebSocket push message
+ */
+export interface OkxPushMessage<T = unknown> {
+  arg: OkxChannelArg;
+  data: T[];
+}
+
+/**
+ * OKX ticker (tickers channel and /market/tickers)
+ */
+export interface OkxTicker {
+  instType: string;
+  instId: string;
+  last: string;      // Last traded price
+  lastSz: string;    // Last traded size (contracts)
+  askPx: string;     // Best ask price
+  askSz: string;     // Best ask size (contracts)
+  bidPx: string;     // Best bid price
+  bidSz: string;     // Best bid size (contracts)
+  open24h: string;   // Open price in the past 24 hours
+  high24h: string;   // Highest price in the past 24 hours
+  low24h: string;    // Lowest price in the past 24 hours
+  volCcy24h: string; // 24h volume in base currency (derivatives)
+  vol24h: string;    // 24h volume in contracts
+  sodUtc0: string;   // Open price at UTC 0
+  sodUtc8: string;   // Open price at UTC 8
+  ts: string;        // Ticker data generation time (ms)
+}
+
+/**
+ * OKX mark price (mark-price channel)
+ */
+export interface OkxMarkPrice {
+  instType: string;
+  instId: string;
+  markPx: string;
+  ts: string;
+}
+
+/**
+ * OKX funding rate (funding-rate channel)
+ */
+export interface OkxFundingRate {
+  instType: string;
+  instId: string;
+  fundingRate: string;     // Current period funding rate
+  nextFundingRate: string; // Forecasted funding rate (may be empty)
+  fundingTime: string;     // Settlement time of the current period (ms)
+  nextFundingTime: string; // Settlement time of the next period (ms)
+}
+
+/**
+ * OKX open interest (open-interest channel)
+ */
+export interface OkxOpenInterest {
+  instType: string;
+  instId: string;
+  oi: string;     // Open interest in contracts
+  oiCcy: string;  // Open interest in base currency
+  ts: string;
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// REST API RESPONSE TYPES
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * OKX REST response envelope
+ */
+export interface OkxResponse<T> {
+  code: string; // "0" on success
+  msg: string;
+  data: T[];
+}
+
+/**
+ * OKX instrument (/public/instruments)
+ */
+export interface OkxInstrument {
+  instType: string;   // "SWAP"
+  instId: string;     // e.g., "BTC-USDT-SWAP"
+  uly: string;        // Underlying, e.g., "BTC-USDT"
+  instFamily: string;
+  settleCcy: string;  // Settlement currency
+  ctVal: string;      // Contract value
+  ctMult: string;     // Contract multiplier
+  ctValCcy: string;   // Contract value currency (base for linear, quote for inverse)
+  ctType: "linear" | "inverse";
+  state: "live" | "suspend" | "preopen" | "test";
+  tickSz: string;
+  lotSz: string;
+  minSz: string;
+  listTime: string;
+  expTime: string;
+}
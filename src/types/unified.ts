@@ -20,6 +20,20 @@ export type PositionSide = "long" | "short";
 
 export type RiskLevel = "low" | "medium" | "high" | "critical";
 
+/**
+ * Open interest vs price regime:
+ * - long_buildup:     price up, OI up
+ * - short_covering:   price up, OI down
+ * - long_liquidation: price down, OI down
+ * - short_buildup:    price down, OI up
+ */
+export type OIQuadrant =
+  | "long_buildup"
+  | "short_covering"
+  | "long_liquidation"
+  | "short_buildup"
+  | "neutral";
+
 // ══════════════════════════════════════════════════════════════════════
 // SCHEMA 1: UNIFIED MARKET (TICKER) DATA
 // ══════════════════════════════════════════════════════════════════════
@@ -51,6 +65,9 @@ export interface UnifiedMarket {
   /** Market type */
   marketType: MarketType;
   
+  /** Delivery time (ms) for dated futures; null for perpetuals and spot */
+  expiryTime: number | null;
+  
   /** Exchange's native symbol (for API calls) */
   exchangeSymbol: string;
 
@@ -101,13 +118,19 @@ export interface UnifiedMarket {
   /** Annualized funding rate: fundingRate * intervalsPerYear * 100 */
   fundingRateAnnualized: number | null;
   
+  /** Funding rate per hour: fundingRate / fundingIntervalHours */
+  fundingRatePerHour: number | null;
+  
+  /** 8h-equivalent funding rate, comparable across funding intervals */
+  fundingRate8h: number | null;
+  
   /** Unix timestamp (ms) of next funding */
   nextFundingTime: number | null;
   
   /** Milliseconds until next funding */
   timeToFunding: number | null;
   
-  /** Funding interval in hours (typically 8) */
+  /** Funding interval in hours, from instrument info (8, 4 or 1 on most venues) */
   fundingIntervalHours: number | null;
 
   // ══════════════════════════════════════════════════════════════════════
@@ -350,12 +373,14 @@ export interface DerivedMetrics {
   priceChange15m: number;
   priceChange1h: number;
   priceChange4h: number;
+  priceChange24h: number;
   
   priceChangePercent1m: number;
   priceChangePercent5m: number;
   priceChangePercent15m: number;
   priceChangePercent1h: number;
   priceChangePercent4h: number;
+  priceChangePercent24h: number;
   
   // Price velocity (% per minute, smoothed)
   priceVelocity: number;
@@ -370,6 +395,7 @@ export interface DerivedMetrics {
   cvd15m: number;
   cvd1h: number;
   cvd4h: number;
+  cvd24h: number;
   
   // CVD as percentage of total volume
   cvdPercent1h: number;
@@ -383,6 +409,8 @@ export interface DerivedMetrics {
   volume5m: number;
   volume15m: number;
   volume1h: number;
+  volume4h: number;
+  volume24h: number;              // From trades seen, not the exchange ticker
   
   // Volume surge (current / 20-period average)
   volumeSurge1m: number;
@@ -405,17 +433,47 @@ export interface DerivedMetrics {
   liquidationsLong24h: number;
   liquidationsShort24h: number;
 
+  // ══════════════════════════════════════════════════════════════════════
+  // OPEN INTEREST CHANGE
+  // ══════════════════════════════════════════════════════════════════════
+  
+  // Change in OI (base units); 0 until the window has enough history
+  oiChange5m: number;
+  oiChange15m: number;
+  oiChange1h: number;
+  oiChange4h: number;
+  
+  oiChangePercent5m: number;
+  oiChangePercent15m: number;
+  oiChangePercent1h: number;
+  oiChangePercent4h: number;
+  
+  oiChangeUsd1h: number;
+  
+  // OI vs price regime over the last hour
+  oiQuadrant1h: OIQuadrant;
+
   // ══════════════════════════════════════════════════════════════════════
   // SPREAD ANALYSIS
   // ══════════════════════════════════════════════════════════════════════
   
-  // Current spread percentile vs 24h distribution (0-100)
+  // Current spread percentile vs 24h of 5m average spreads (0-100);
+  // 0 until an hour of history
   spreadPercentile24h: number;
   
-  // Average spread over periods
+  // Average spread over periods (current spread until sampled)
   spreadAvg1h: number;
   spreadAvg24h: number;
 
+  // ══════════════════════════════════════════════════════════════════════
+  // HISTORY COVERAGE
+  // ══════════════════════════════════════════════════════════════════════
+
+  // Share of the window held in the time series (0-1). Below 1 while a
+  // market warms up; 4h/24h values then cover only that share
+  coverage4h: number;
+  coverage24h: number;
+
   // ══════════════════════════════════════════════════════════════════════
   // TIMESTAMPS
   // ══════════════════════════════════════════════════════════════════════
@@ -467,3 +525,94 @@ export interface CompositeScores {
   computedAt: number;
 }
 
+
+// ══════════════════════════════════════════════════════════════════════
+// SCHEMA 8: POSITIONING (Long/Short Ratios)
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Long/short positioning sample for a market, polled from exchange
+ * REST endpoints. Percentages are 0-100.
+ */
+export interface PositioningSnapshot {
+  id: string;               // Same as UnifiedMarket.id
+  exchange: Exchange;
+  symbol: string;
+  period: string;           // Exchange aggregation period ("5m", "1h", ...)
+  
+  // All accounts (Binance globalLongShortAccountRatio, Bybit account-ratio)
+  longShortAccountRatio: number;
+  longAccountPercent: number;
+  shortAccountPercent: number;
+  
+  // Top traders by position size (Binance only)
+  topTraderLongShortPositionRatio: number | null;
+  topTraderLongPercent: number | null;
+  topTraderShortPercent: number | null;
+  
+  timestamp: number;        // Exchange sample time
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// SCHEMA 9: FUNDING HISTORY STATISTICS
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Current funding rate compared against settled funding history.
+ * Percentiles are 0-100; cumulative funding is the sum of settled rates
+ * in percent (positive = longs paid shorts).
+ */
+export interface FundingStats {
+  id: string;               // Same as UnifiedMarket.id
+  exchange: Exchange;
+  symbol: string;
+  
+  currentRate: number | null;
+  fundingIntervalHours: number | null;
+  /** 8h-equivalent current rate; percentiles and z-scores compare on this basis */
+  currentRate8h: number | null;
+  
+  fundingPercentile7d: number | null;
+  fundingPercentile30d: number | null;
+  
+  fundingZScore7d: number | null;
+  fundingZScore30d: number | null;
+  
+  cumulativeFunding7d: number;
+  cumulativeFunding30d: number;
+  
+  settlementCount7d: number;
+  settlementCount30d: number;
+  lastSettlementTime: number | null;
+  
+  computedAt: number;
+}
+
+// ══════════════════════════════════════════════════════════════════════
+// SCHEMA 10: PERP-SPOT BASIS
+// ══════════════════════════════════════════════════════════════════════
+
+/**
+ * Premium of a perpetual's mark price over its spot counterpart on the
+ * same exchange. Positive basis = perp trades above spot.
+ */
+export interface PerpSpotBasis {
+  id: string;               // Perpetual UnifiedMarket.id
+  exchange: Exchange;
+  symbol: string;           // Perpetual symbol
+  spotId: string;           // Spot UnifiedMarket.id
+  
+  perpPrice: number;        // Mark price (last price when unavailable)
+  spotPrice: number;        // Spot mid price
+  
+  basisAbsolute: number;    // perpPrice - spotPrice
+  basisBps: number;         // basisAbsolute / spotPrice * 10000
+  
+  // Basis as a percent, scaled by funding intervals per year. Funding
+  // pulls the perp back towards spot each interval, so this is the
+  // annual rate the premium implies if it persists.
+  basisAnnualized: number;
+  
+  updatedAt: number;
+}
+
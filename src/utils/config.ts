@@ -13,21 +13,101 @@ import { logger } from "./logger.js";
 // CONFIGURATION INTERFACE
 // ══════════════════════════════════════════════════════════════════════
 
+/**
+ * Symbol universe selection for a CEX connector.
+ * List entries and patterns match either the exchange symbol ("BTCUSDT")
+ * or the normalized symbol ("BTC-USDT-PERP").
+ */
+export interface ExchangeUniverseConfig {
+  enabled: boolean;
+  symbols: string[] | "top50" | "top100" | "all";
+  include?: string[];          // Always subscribed, regardless of volume rank
+  exclude?: string[];          // Never subscribed
+  includePattern?: string;     // Regex; when set, only matching symbols are ranked
+  excludePattern?: string;     // Regex; matching symbols are never subscribed
+}
+
+/**
+ * An exchange's includePattern/excludePattern, compiled when config is loaded.
+ */
+export interface UniversePatterns {
+  include: RegExp | null;
+  exclude: RegExp | null;
+}
+
+/** Exchanges whose symbols are selected by an ExchangeUniverseConfig */
+const UNIVERSE_EXCHANGES = ["binance", "bybit", "okx"] as const;
+
+export type UniverseExchange = (typeof UNIVERSE_EXCHANGES)[number];
+
+export function isUniverseExchange(exchange: Exchange): exchange is UniverseExchange {
+  return (UNIVERSE_EXCHANGES as readonly Exchange[]).includes(exchange);
+}
+
+/**
+ * Factor weights per composite score. Factors are percentile-ranked across
+ * markets before weighting; weights are relative and need not sum to 1.
+ */
+export interface CompositeScoreWeights {
+  momentum: { priceChange: number; volumeSurge: number; cvd: number };
+  pump: { priceChange: number; volumeSurge: number; relativeVolume: number };
+  liquidity: { spread: number; depth: number; volume: number };
+  volatility: { range: number; velocity: number; expansion: number };
+  fundingExtremeness: { rate: number; zScore: number; percentile: number };
+  orderBookHealth: { spread: number; depthBalance: number; imbalanceStability: number };
+  activity: { volume: number; priceMove: number; volumeSurge: number; oiChange: number };
+}
+
 export interface SystemConfig {
   // Exchange enablement
-  exchanges: {
-    binance: { enabled: boolean; symbols: string[] | "top100" | "all" };
-    bybit: { enabled: boolean; symbols: string[] | "top100" | "all" };
-    okx: { enabled: boolean; symbols: string[] | "top100" | "all" };
+  exchanges: Record<UniverseExchange, ExchangeUniverseConfig> & {
     hyperliquid: { enabled: boolean; addressScanCount: number };
   };
 
+  // Symbol universe re-selection
+  universe: {
+    refreshIntervalMs: number;         // Default: 300000 (5 minutes)
+    listingCheckIntervalMs: number;    // Default: 60000
+    newListingPinMs: number;           // Default: 86400000 (keep new listings for 24h)
+  };
+
+  // Long/short ratio polling
+  positioning: {
+    pollIntervalMs: number;     // Default: 300000 (matches the 5m period)
+    period: string;             // Default: "5m"
+    requestDelayMs: number;     // Default: 250 (between REST requests)
+    historySize: number;        // Default: 288 (24h of 5m samples)
+  };
+
+  // Funding rate history
+  funding: {
+    historyDays: number;        // Default: 30
+    refreshIntervalMs: number;  // Default: 900000 (15 minutes)
+    requestDelayMs: number;     // Default: 250 (between REST requests)
+  };
+
+  // Spot counterparts of subscribed perpetuals (REST polled)
+  spot: {
+    pollIntervalMs: number;     // Default: 5000
+  };
+
+  futures: {
+    pollIntervalMs: number;     // Default: 15000
+  };
+
+  // Arbitrage fee model and funding carry projection
+  arbitrage: {
+    takerFeePercent: Partial<Record<Exchange, number>>; // Default: binance 0.05, bybit 0.055, okx 0.05, hyperliquid 0.045
+    defaultTakerFeePercent: number;    // Default: 0.06 (exchanges not listed above)
+    holdingPeriodHours: number;        // Default: 168 (fees and basis amortized over 7 days)
+    minNetCarryAnnualized: number;     // Default: 0 (percent)
+  };
+
   // Data retention
   rolling: {
-    tradeBucketSizeMs: number;    // Default: 1000 (1 second)
-    tradeBucketCount: number;      // Default: 14400 (4 hours)
-    priceBucketSizeMs: number;     // Default: 1000
-    priceBucketCount: number;      // Default: 86400 (24 hours)
+    secondTierSpanMs: number;      // Default: 300000 (5 minutes of 1s buckets)
+    minuteTierSpanMs: number;      // Default: 14400000 (4 hours of 1m buckets)
+    fiveMinuteTierSpanMs: number;  // Default: 86400000 (24 hours of 5m buckets)
   };
 
   // Computation
@@ -35,14 +115,31 @@ export interface SystemConfig {
     derivedMetricsIntervalMs: number;      // Default: 250
     leaderboardUpdateIntervalMs: number;   // Default: 100
     compositeScoreIntervalMs: number;       // Default: 1000
+    largeTradeThresholdUsd: number;         // Default: 100000
+  };
+
+  // Composite score factor weights (see DEFAULT_CONFIG for defaults)
+  scores: {
+    weights: CompositeScoreWeights;
+  };
+
+  // User-defined leaderboards
+  customLeaderboards: {
+    storagePath: string;   // Default: "data/custom-leaderboards.json"
+    maxBoards: number;     // Default: 50
+    maxLimit: number;      // Default: 200
   };
 
   // Hyperliquid scanning
   hyperliquid: {
     priorityScanIntervalMs: number;    // Default: 10000
-    backgroundScanIntervalMs: number;  // Default: 60000
+    backgroundScanIntervalMs: number;  // Default: 60000 (shortest full pass; the weight budget may stretch it)
     maxParallelScans: number;          // Default: 20
     atRiskThresholdPercent: number;    // Default: 5
+    marketPollIntervalMs: number;      // Default: 5000
+    clusterBucketPercent: number;      // Default: 0.25
+    clusterUpdateIntervalMs: number;   // Default: 1000
+    requestWeightBudgetPerMinute: number; // Default: 1000 (Hyperliquid allows 1200 per IP)
   };
 
   // Performance
@@ -69,22 +166,75 @@ const DEFAULT_CONFIG: SystemConfig = {
     okx: { enabled: false, symbols: "top100" },
     hyperliquid: { enabled: false, addressScanCount: 1000 },
   },
+  universe: {
+    refreshIntervalMs: 300000,
+    listingCheckIntervalMs: 60000,
+    newListingPinMs: 86400000,
+  },
+  positioning: {
+    pollIntervalMs: 300000,
+    period: "5m",
+    requestDelayMs: 250,
+    historySize: 288,
+  },
+  funding: {
+    historyDays: 30,
+    refreshIntervalMs: 900000,
+    requestDelayMs: 250,
+  },
+  spot: {
+    pollIntervalMs: 5000,
+  },
+  futures: {
+    pollIntervalMs: 15000,
+  },
+  arbitrage: {
+    takerFeePercent: {
+      binance: 0.05,
+      bybit: 0.055,
+      okx: 0.05,
+      hyperliquid: 0.045,
+    },
+    defaultTakerFeePercent: 0.06,
+    holdingPeriodHours: 168,
+    minNetCarryAnnualized: 0,
+  },
   rolling: {
-    tradeBucketSizeMs: 1000,
-    tradeBucketCount: 14400,  // 4 hours
-    priceBucketSizeMs: 1000,
-    priceBucketCount: 86400,  // 24 hours
+    secondTierSpanMs: 300000,       // 5 minutes
+    minuteTierSpanMs: 14400000,     // 4 hours
+    fiveMinuteTierSpanMs: 86400000, // 24 hours
   },
   compute: {
     derivedMetricsIntervalMs: 250,
     leaderboardUpdateIntervalMs: 100,
     compositeScoreIntervalMs: 1000,
+    largeTradeThresholdUsd: 100000,
+  },
+  scores: {
+    weights: {
+      momentum: { priceChange: 0.5, volumeSurge: 0.2, cvd: 0.3 },
+      pump: { priceChange: 0.4, volumeSurge: 0.35, relativeVolume: 0.25 },
+      liquidity: { spread: 0.35, depth: 0.4, volume: 0.25 },
+      volatility: { range: 0.4, velocity: 0.35, expansion: 0.25 },
+      fundingExtremeness: { rate: 0.4, zScore: 0.4, percentile: 0.2 },
+      orderBookHealth: { spread: 0.4, depthBalance: 0.3, imbalanceStability: 0.3 },
+      activity: { volume: 0.3, priceMove: 0.3, volumeSurge: 0.2, oiChange: 0.2 },
+    },
+  },
+  customLeaderboards: {
+    storagePath: "data/custom-leaderboards.json",
+    maxBoards: 50,
+    maxLimit: 200,
   },
   hyperliquid: {
     priorityScanIntervalMs: 10000,
     backgroundScanIntervalMs: 60000,
     maxParallelScans: 20,
     atRiskThresholdPercent: 5,
+    marketPollIntervalMs: 5000,
+    clusterBucketPercent: 0.25,
+    clusterUpdateIntervalMs: 1000,
+    requestWeightBudgetPerMinute: 1000,
   },
   performance: {
     maxSymbolsPerExchange: 200,
@@ -102,9 +252,11 @@ const DEFAULT_CONFIG: SystemConfig = {
 
 class ConfigManager {
   private config: SystemConfig;
+  private universePatterns: Map<Exchange, UniversePatterns>;
 
   constructor() {
     this.config = this.loadConfig();
+    this.universePatterns = this.compileUniversePatterns(this.config);
   }
 
   /**
@@ -136,6 +288,36 @@ class ConfigManager {
     return merged;
   }
 
+  /**
+   * Compile every exchange's universe patterns. Throws on an invalid regex
+   * so a bad pattern fails the load instead of every universe refresh.
+   */
+  private compileUniversePatterns(config: SystemConfig): Map<Exchange, UniversePatterns> {
+    const patterns = new Map<Exchange, UniversePatterns>();
+
+    for (const exchange of UNIVERSE_EXCHANGES) {
+      const { includePattern, excludePattern } = config.exchanges[exchange];
+      patterns.set(exchange, {
+        include: this.compilePattern(includePattern, `exchanges.${exchange}.includePattern`),
+        exclude: this.compilePattern(excludePattern, `exchanges.${exchange}.excludePattern`),
+      });
+    }
+
+    return patterns;
+  }
+
+  private compilePattern(pattern: string | undefined, path: string): RegExp | null {
+    if (!pattern) {
+      return null;
+    }
+
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`Invalid ${path} "${pattern}": ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Deep merge two objects.
    */
@@ -193,6 +375,13 @@ class ConfigManager {
     return { ...this.config };
   }
 
+  /**
+   * Get an exchange's compiled universe patterns (both null when unset).
+   */
+  getUniversePatterns(exchange: Exchange): UniversePatterns {
+    return this.universePatterns.get(exchange) ?? { include: null, exclude: null };
+  }
+
   /**
    * Get exchange-specific configuration.
    */
@@ -211,9 +400,12 @@ class ConfigManager {
     }
 
     // Handle other exchanges
-    const exchanges = this.config.exchanges as unknown as Record<string, { enabled: boolean; symbols: string[] | "top100" | "all" }>;
-    const exchangeConfig = exchanges[exchange];
-    if (!exchangeConfig || !exchangeConfig.enabled) {
+    if (!isUniverseExchange(exchange)) {
+      return undefined;
+    }
+
+    const exchangeConfig = this.config.exchanges[exchange];
+    if (!exchangeConfig.enabled) {
       return undefined;
     }
 
@@ -229,7 +421,9 @@ class ConfigManager {
    * Reload configuration from file.
    */
   reload(): void {
-    this.config = this.loadConfig();
+    const config = this.loadConfig();
+    this.universePatterns = this.compileUniversePatterns(config);
+    this.config = config;
     logger.info("Configuration reloaded");
   }
 }
@@ -242,3 +436,8 @@ export function getConfig(): SystemConfig {
   return configManager.getConfig();
 }
 
+// Convenience function to get an exchange's compiled universe patterns
+export function getUniversePatterns(exchange: Exchange): UniversePatterns {
+  return configManager.getUniversePatterns(exchange);
+}
+
@@ -0,0 +1,38 @@
+/**
+ * Dated futures naming.
+ *
+ * Exchanges encode expiry differently (Binance "BTCUSDT_250627", Bybit
+ * "BTCUSDT-27JUN25"), so dated contracts are normalized from their
+ * delivery time to "{BASE}-{QUOTE}-{YYMMDD}".
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC delivery date as YYMMDD, e.g. 2025-06-27 → "250627".
+ */
+export function formatExpiryCode(expiryTime: number): string {
+  const date = new Date(expiryTime);
+  const yy = String(date.getUTCFullYear() % 100).padStart(2, "0");
+  const mm = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(date.getUTCDate()).padStart(2, "0");
+  return `${yy}${mm}${dd}`;
+}
+
+/**
+ * Normalized symbol for a dated future, e.g. "BTC-USDT-250627".
+ */
+export function normalizeDatedSymbol(
+  baseAsset: string,
+  quoteAsset: string,
+  expiryTime: number
+): string {
+  return `${baseAsset}-${quoteAsset}-${formatExpiryCode(expiryTime)}`;
+}
+
+/**
+ * Days until expiry (fractional, never negative).
+ */
+export function daysToExpiry(expiryTime: number, now: number = Date.now()): number {
+  return Math.max(0, (expiryTime - now) / DAY_MS);
+}
@@ -0,0 +1,35 @@
+/**
+ * Funding rate normalization.
+ *
+ * Venues settle funding every 1h, 4h or 8h, so raw rates are only
+ * comparable after scaling to a common period.
+ */
+
+/** Interval assumed when an exchange does not report one (Binance default) */
+export const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+
+export interface NormalizedFunding {
+  fundingRatePerHour: number | null;
+  fundingRate8h: number | null;         // 8h-equivalent rate
+  fundingRateAnnualized: number | null; // Percent per year
+}
+
+/**
+ * Express a per-interval funding rate per hour, per 8h and annualized.
+ */
+export function normalizeFundingRate(
+  fundingRate: number | null,
+  fundingIntervalHours: number
+): NormalizedFunding {
+  if (fundingRate === null || fundingIntervalHours <= 0) {
+    return { fundingRatePerHour: null, fundingRate8h: null, fundingRateAnnualized: null };
+  }
+
+  const fundingRatePerHour = fundingRate / fundingIntervalHours;
+
+  return {
+    fundingRatePerHour,
+    fundingRate8h: fundingRatePerHour * 8,
+    fundingRateAnnualized: fundingRatePerHour * 365 * 24 * 100,
+  };
+}
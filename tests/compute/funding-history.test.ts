@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { UnifiedMarket } from "../../src/types/unified.js";
+import type { FundingRateRecord } from "../../src/types/exchanges.js";
+
+vi.mock("../../src/utils/config.js", () => ({
+  getConfig: () => ({
+    funding: { historyDays: 30, requestDelayMs: 0, refreshIntervalMs: 900000 },
+  }),
+}));
+
+import { FundingHistoryManager } from "../../src/compute/funding-history.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 10);
+const ID = "bybit:ETH-USDT-PERP";
+
+function market(fundingRate: number, fundingIntervalHours: number): UnifiedMarket {
+  return {
+    id: ID,
+    exchange: "bybit",
+    symbol: "ETH-USDT-PERP",
+    exchangeSymbol: "ETHUSDT",
+    fundingRate,
+    fundingIntervalHours,
+  } as UnifiedMarket;
+}
+
+/**
+ * `count` settlements `intervalHours` apart, the last one at `end`.
+ */
+function settlements(
+  count: number,
+  intervalHours: number,
+  rate: number,
+  end: number
+): FundingRateRecord[] {
+  return Array.from({ length: count }, (_, i) => ({
+    fundingTime: end - (count - 1 - i) * intervalHours * HOUR_MS,
+    rate,
+  }));
+}
+
+let manager: FundingHistoryManager;
+let history: FundingRateRecord[];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+
+  manager = new FundingHistoryManager();
+  manager.register("bybit", async () => history);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("FundingHistoryManager", () => {
+  it("records the interval each settlement was paid over", async () => {
+    // 8h settlements for two days, then 4h settlements after an interval change
+    const switchTime = NOW - 24 * HOUR_MS;
+    history = [
+      ...settlements(6, 8, 0.0001, switchTime - 8 * HOUR_MS),
+      ...settlements(6, 4, 0.00005, switchTime + 20 * HOUR_MS),
+    ];
+
+    manager.updateMarket(market(0.00005, 4));
+    await vi.runAllTimersAsync();
+
+    const intervals = manager.getHistory(ID).map((s) => s.intervalHours);
+    expect(intervals).toEqual([4, 8, 8, 8, 8, 8, 8, 4, 4, 4, 4, 4]);
+  });
+
+  it("compares the current rate to history on an 8h-equivalent basis", async () => {
+    // Raw rates would rank 0.01% per 4h below the 0.015% per 8h settlements
+    history = [
+      ...settlements(30, 8, 0.00015, NOW - 48 * HOUR_MS),
+      ...settlements(12, 4, 0.00008, NOW),
+    ];
+
+    manager.updateMarket(market(0.0001, 4));
+    await vi.runAllTimersAsync();
+
+    const stats = manager.getStats(ID)!;
+
+    expect(stats.currentRate).toBe(0.0001);
+    expect(stats.currentRate8h).toBeCloseTo(0.0002);
+    expect(stats.fundingPercentile7d).toBe(100);
+    expect(stats.fundingZScore7d).toBeGreaterThan(0);
+    expect(stats.settlementCount7d).toBe(12 + 16);
+  });
+
+  it("sums raw rates for cumulative funding", async () => {
+    history = [
+      ...settlements(3, 8, 0.0001, NOW - 8 * HOUR_MS),
+      ...settlements(2, 4, 0.00005, NOW),
+    ];
+
+    manager.updateMarket(market(0.00005, 4));
+    await vi.runAllTimersAsync();
+
+    expect(manager.getStats(ID)!.cumulativeFunding7d).toBeCloseTo(
+      (3 * 0.0001 + 2 * 0.00005) * 100
+    );
+  });
+});
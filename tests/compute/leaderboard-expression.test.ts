@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import type { UnifiedMarket, DerivedMetrics } from "../../src/types/unified.js";
+import {
+  compileExpression,
+  evaluateExpression,
+  getExpressionFields,
+  type ExpressionScope,
+} from "../../src/compute/leaderboard-expression.js";
+
+function scope(
+  market: Partial<UnifiedMarket>,
+  metrics?: Partial<DerivedMetrics>
+): ExpressionScope {
+  return {
+    market: market as UnifiedMarket,
+    metrics: metrics as DerivedMetrics | undefined,
+  };
+}
+
+function evaluate(source: string, context: ExpressionScope = scope({})): number | null {
+  return evaluateExpression(compileExpression(source), context);
+}
+
+describe("field whitelist", () => {
+  it("resolves market and metric fields", () => {
+    const context = scope({ fundingRate: 0.001 }, { volumeSurge5m: 3 });
+    expect(evaluate("fundingRate * 1000 + volumeSurge5m", context)).toBeCloseTo(4);
+  });
+
+  it("prefers the market on a name collision unless prefixed", () => {
+    const context = scope({ priceChange24h: 10 }, { priceChange24h: 20 });
+    expect(evaluate("priceChange24h", context)).toBe(10);
+    expect(evaluate("market.priceChange24h", context)).toBe(10);
+    expect(evaluate("metrics.priceChange24h", context)).toBe(20);
+  });
+
+  it("compiles every advertised field", () => {
+    const { market, metrics } = getExpressionFields();
+    for (const field of market) {
+      expect(() => compileExpression(`market.${field}`)).not.toThrow();
+    }
+    for (const field of metrics) {
+      expect(() => compileExpression(`metrics.${field}`)).not.toThrow();
+    }
+  });
+
+  it("records the fields referenced", () => {
+    expect(compileExpression("abs(fundingRate) where metrics.cvd1h > 0").fields).toEqual([
+      "fundingRate",
+      "metrics.cvd1h",
+    ]);
+  });
+
+  it.each([
+    "symbol",
+    "exchange",
+    "constructor",
+    "__proto__",
+    "toString",
+    "market.volumeSurge5m",
+    "metrics.openInterestUsd",
+    "other.fundingRate",
+    "market.fundingRate.value",
+  ])("rejects %s", (source) => {
+    expect(() => compileExpression(source)).toThrow(/Unknown field|Unexpected/);
+  });
+
+  it("rejects unknown functions", () => {
+    expect(() => compileExpression("exp(fundingRate)")).toThrow('Unknown function "exp"');
+    expect(() => compileExpression("constructor(1)")).toThrow('Unknown function "constructor"');
+  });
+
+  it("checks function arity", () => {
+    expect(() => compileExpression("abs(1, 2)")).toThrow("abs takes 1 argument");
+    expect(() => compileExpression("max(1)")).toThrow("max takes 2 to 8 arguments");
+  });
+});
+
+describe("length limit", () => {
+  it("accepts 500 characters", () => {
+    const source = "1" + " ".repeat(499);
+    expect(source).toHaveLength(500);
+    expect(evaluate(source)).toBe(1);
+  });
+
+  it("rejects 501 characters", () => {
+    const source = "1" + " ".repeat(500);
+    expect(() => compileExpression(source)).toThrow("longer than 500 characters");
+  });
+});
+
+describe("precedence", () => {
+  it.each([
+    ["2 + 3 * 4", 14],
+    ["(2 + 3) * 4", 20],
+    ["10 - 4 - 3", 3],
+    ["24 / 4 / 2", 3],
+    ["7 % 4 * 2", 6],
+    ["1 + 2 > 2", 1],
+    ["1 + 2 > 2 * 2", 0],
+    ["1 or 0 and 0", 1],
+    ["(1 or 0) and 0", 0],
+    ["1 || 0 && 0", 1],
+    ["not 0 and 0", 0],
+    ["not (0 and 0)", 1],
+    ["not 1 > 2", 1],
+  ])("%s = %d", (source, expected) => {
+    expect(evaluate(source)).toBe(expected);
+  });
+
+  it("ranks by the part before where and filters by the part after", () => {
+    const expression = compileExpression("fundingRate * 2 where volume24hUsd > 1e6 and fundingRate > 0");
+    expect(evaluateExpression(expression, scope({ fundingRate: 0.5, volume24hUsd: 2e6 }))).toBe(1);
+    expect(evaluateExpression(expression, scope({ fundingRate: 0.5, volume24hUsd: 1e5 }))).toBeNull();
+    expect(evaluateExpression(expression, scope({ fundingRate: -0.5, volume24hUsd: 2e6 }))).toBeNull();
+  });
+
+  it("treats keywords case-insensitively", () => {
+    expect(evaluate("1 WHERE 1 AND NOT 0")).toBe(1);
+  });
+});
+
+describe("unary operators", () => {
+  it.each([
+    ["-3", -3],
+    ["--3", 3],
+    ["-2 * 3", -6],
+    ["2 * -3", -6],
+    ["-(2 + 3)", -5],
+    ["+4", 4],
+    ["2 - -2", 4],
+  ])("%s = %d", (source, expected) => {
+    expect(evaluate(source)).toBe(expected);
+  });
+
+  it("negates fields", () => {
+    expect(evaluate("-fundingRate", scope({ fundingRate: 0.25 }))).toBe(-0.25);
+  });
+
+  it.each([
+    ["not 0", 1],
+    ["not 5", 0],
+    ["not not 5", 1],
+    ["!0", 1],
+    ["!!-2", 1],
+  ])("%s = %d", (source, expected) => {
+    expect(evaluate(source)).toBe(expected);
+  });
+});
+
+describe("non-finite results", () => {
+  it("returns null for division by zero", () => {
+    expect(evaluate("1 / 0")).toBeNull();
+    expect(evaluate("-1 / 0")).toBeNull();
+    expect(evaluate("0 / 0")).toBeNull();
+    expect(evaluate("fundingRate / openInterest", scope({ fundingRate: 1, openInterest: 0 }))).toBeNull();
+  });
+
+  it("returns null for NaN from math functions", () => {
+    expect(evaluate("sqrt(-1)")).toBeNull();
+    expect(evaluate("log(-1)")).toBeNull();
+    expect(evaluate("5 % 0")).toBeNull();
+  });
+
+  it("returns null when a referenced field is missing", () => {
+    expect(evaluate("fundingRate + 1", scope({}))).toBeNull();
+    expect(evaluate("volumeSurge5m", scope({}, undefined))).toBeNull();
+    expect(evaluate("indexPrice", scope({ indexPrice: null }))).toBeNull();
+  });
+
+  it("treats a NaN filter as false", () => {
+    expect(evaluate("1 where volumeSurge5m", scope({}))).toBeNull();
+    expect(evaluate("1 where not volumeSurge5m", scope({}))).toBe(1);
+  });
+
+  it("keeps zero and negative values", () => {
+    expect(evaluate("0")).toBe(0);
+    expect(evaluate("sign(-4)")).toBe(-1);
+  });
+});
+
+describe("syntax errors", () => {
+  it.each([
+    ["", "Unexpected end of expression"],
+    ["1 +", "Unexpected end of expression"],
+    ["(1 + 2", 'Missing ")"'],
+    ["1 2", 'Unexpected "2" at position 2'],
+    ["1 ; 2", 'Unexpected character ";" at position 2'],
+    ["fundingRate[0]", 'Unexpected character "["'],
+    ["1 where", "Unexpected end of expression"],
+  ])("%j", (source, message) => {
+    expect(() => compileExpression(source)).toThrow(message);
+  });
+});
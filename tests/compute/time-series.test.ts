@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TieredTimeSeries } from "../../src/compute/time-series.js";
+
+const SCHEMA = { price: "last", volume: "sum" } as const;
+
+// Aligned to every tier so bucket boundaries fall on whole offsets
+const T0 = 60_000_000;
+
+let series: TieredTimeSeries<typeof SCHEMA>;
+
+/**
+ * One sample per second at offsets [from, to): volume 1, price = offset in seconds.
+ */
+function fillSeconds(from: number, to: number): void {
+  for (let k = from; k < to; k++) {
+    series.add({ volume: 1, price: k }, T0 + k * 1000);
+  }
+}
+
+function at(seconds: number): number {
+  return T0 + seconds * 1000;
+}
+
+beforeEach(() => {
+  series = new TieredTimeSeries(SCHEMA, [
+    { bucketMs: 60000, spanMs: 300000 },   // 6 slots
+    { bucketMs: 1000, spanMs: 10000 },     // 11 slots
+    { bucketMs: 10000, spanMs: 60000 },    // 7 slots
+  ]);
+});
+
+describe("TieredTimeSeries", () => {
+  it("is empty before the first sample", () => {
+    expect(series.sum("volume", 60000, T0)).toBe(0);
+    expect(series.valueAt("price", T0)).toBeNaN();
+    expect(series.latest("volume")).toBe(0);
+    expect(series.getFirstTime("price")).toBeNull();
+    expect(series.getCoverage(60000, T0)).toBe(0);
+    expect(series.bucketSums("volume", 10000, 60000, T0)).toEqual([]);
+  });
+
+  it("sums windows on the finest tier exactly", () => {
+    fillSeconds(0, 120);
+    const now = at(119);
+
+    expect(series.sum("volume", 1000, now)).toBe(1);
+    expect(series.sum("volume", 5000, now)).toBe(5);
+    expect(series.sum("volume", 10000, now)).toBe(10);
+  });
+
+  it("sums across tier boundaries at the coarser tier's resolution", () => {
+    fillSeconds(0, 120);
+    const now = at(119);
+
+    // Start in the 10s tier: bucket 80-89 ends the excluded part
+    expect(series.sum("volume", 30000, now)).toBe(30);
+    // Start at 94s rounds up to the end of bucket 90-99
+    expect(series.sum("volume", 25000, now)).toBe(20);
+    // Start in the 60s tier: bucket 0-59 ends the excluded part
+    expect(series.sum("volume", 100000, now)).toBe(60);
+    // Window reaching back before the first sample counts everything
+    expect(series.sum("volume", 200000, now)).toBe(120);
+  });
+
+  it("keeps sums and gauges correct after the ring buffers wrap", () => {
+    fillSeconds(0, 1000);
+    const now = at(999);
+
+    expect(series.latest("volume")).toBe(1000);
+    expect(series.sum("volume", 5000, now)).toBe(5);
+    expect(series.sum("volume", 9000, now)).toBe(9);
+    expect(series.sum("volume", 50000, now)).toBe(50);
+    expect(series.sum("volume", 299000, now)).toBe(280);
+
+    expect(series.valueAt("price", at(995))).toBe(995);
+    expect(series.valueAt("price", at(954))).toBe(959);
+    expect(series.valueAt("price", at(700))).toBe(719);
+  });
+
+  it("splits a window into per-bucket sums", () => {
+    fillSeconds(0, 1000);
+
+    expect(series.bucketSums("volume", 10000, 30000, at(999))).toEqual([10, 10, 10]);
+    // The newest bucket (960-999) is still filling
+    expect(series.bucketSums("volume", 60000, 180000, at(999))).toEqual([60, 60, 40]);
+    expect(series.bucketSums("volume", 5000, 30000, at(999))).toEqual([]);
+  });
+
+  it("fills skipped buckets across a gap longer than every tier", () => {
+    fillSeconds(0, 10);
+    series.add({ volume: 1, price: 2000 }, at(2000));
+    const now = at(2000);
+
+    expect(series.sum("volume", 5000, now)).toBe(1);
+    expect(series.sum("volume", 60000, now)).toBe(1);
+    expect(series.sum("volume", 120000, now)).toBe(1);
+    expect(series.valueAt("price", at(1990))).toBe(9);
+  });
+
+  it("treats late samples as arriving at the newest time", () => {
+    fillSeconds(0, 20);
+    series.add({ volume: 5 }, at(3));
+
+    expect(series.sum("volume", 1000, at(19))).toBe(6);
+  });
+
+  describe("coverage", () => {
+    it("reports a partial window while the series is younger than it", () => {
+      fillSeconds(0, 120);
+      const now = at(119);
+
+      expect(series.getCoverage(60000, now)).toBe(1);
+      expect(series.getCoverage(240000, now)).toBeCloseTo(119 / 240);
+      expect(series.sum("volume", 240000, now)).toBe(120);
+    });
+
+    it("reports a partial window when it reaches past retention", () => {
+      fillSeconds(0, 1000);
+      const now = at(999);
+
+      // The oldest retained 60s bucket is 660-719
+      expect(series.getCoverage(299000, now)).toBe(1);
+      expect(series.getCoverage(600000, now)).toBeCloseTo(339 / 600);
+
+      // Beyond retention the sum only covers the retained part
+      expect(series.sum("volume", 600000, now)).toBe(series.sum("volume", 299000, now));
+    });
+
+    it("treats an empty window as covered", () => {
+      fillSeconds(0, 5);
+      expect(series.getCoverage(0, at(4))).toBe(1);
+    });
+  });
+
+  it("rejects unknown fields", () => {
+    expect(() => series.latest("missing" as "volume")).toThrow("Unknown series field: missing");
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { UnifiedOrderBook } from "../../../src/types/unified.js";
+import type {
+  BinanceDepthUpdateMessage,
+  BinanceDepthSnapshot,
+} from "../../../src/types/binance.js";
+
+vi.mock("../../../src/connectors/binance/rest.js", () => ({
+  fetchOrderBookSnapshot: vi.fn(),
+}));
+
+import { fetchOrderBookSnapshot } from "../../../src/connectors/binance/rest.js";
+import { BinanceOrderBookManager } from "../../../src/connectors/binance/orderbook.js";
+
+const SYMBOL = "BTCUSDT";
+const fetchSnapshot = vi.mocked(fetchOrderBookSnapshot);
+
+let pendingSnapshots: Array<(snapshot: BinanceDepthSnapshot) => void>;
+let manager: BinanceOrderBookManager;
+let books: UnifiedOrderBook[];
+
+function diff(
+  U: number,
+  u: number,
+  pu: number,
+  b: [string, string][] = [],
+  a: [string, string][] = []
+): BinanceDepthUpdateMessage {
+  return { e: "depthUpdate", E: u, T: u, s: SYMBOL, U, u, pu, b, a };
+}
+
+/**
+ * Resolve the oldest in-flight snapshot request and let the queue settle.
+ */
+async function deliverSnapshot(
+  lastUpdateId: number,
+  bids: [string, string][] = [["100", "1"]],
+  asks: [string, string][] = [["101", "1"]]
+): Promise<void> {
+  const resolve = pendingSnapshots.shift();
+  expect(resolve).toBeDefined();
+  resolve!({ lastUpdateId, E: lastUpdateId, T: lastUpdateId, bids, asks });
+  await vi.advanceTimersByTimeAsync(300);
+}
+
+function latestBook(): UnifiedOrderBook {
+  expect(books.length).toBeGreaterThan(0);
+  return books[books.length - 1];
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  pendingSnapshots = [];
+  fetchSnapshot.mockReset();
+  fetchSnapshot.mockImplementation(
+    () => new Promise((resolve) => pendingSnapshots.push(resolve))
+  );
+
+  manager = new BinanceOrderBookManager(20);
+  books = [];
+  manager.on("orderbook", (book: UnifiedOrderBook) => books.push(book));
+  manager.track(SYMBOL);
+});
+
+afterEach(() => {
+  manager.clear();
+  vi.useRealTimers();
+});
+
+describe("BinanceOrderBookManager", () => {
+  it("buffers diffs until the snapshot arrives", async () => {
+    manager.handleDepthUpdate(diff(101, 102, 100, [["100", "2"]]));
+
+    expect(books).toHaveLength(0);
+    expect(manager.getStats()).toMatchObject({ trackedBooks: 1, syncedBooks: 0 });
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+
+    await deliverSnapshot(101);
+
+    expect(manager.getStats().syncedBooks).toBe(1);
+    expect(latestBook().lastUpdateId).toBe(102);
+    expect(latestBook().bids[0]).toMatchObject({ price: 100, quantity: 2 });
+  });
+
+  it("drops buffered diffs with u below the snapshot lastUpdateId", async () => {
+    manager.handleDepthUpdate(diff(90, 95, 89, [["100", "5"]]));
+    manager.handleDepthUpdate(diff(96, 99, 95, [["99", "5"]]));
+
+    await deliverSnapshot(100);
+
+    expect(manager.getStats()).toMatchObject({ syncedBooks: 1, resyncCount: 0 });
+    expect(latestBook().lastUpdateId).toBe(100);
+    expect(latestBook().bids).toEqual([{ price: 100, quantity: 1, quantityUsd: 100 }]);
+  });
+
+  it("applies the first diff whose range brackets lastUpdateId, then follows pu", async () => {
+    manager.handleDepthUpdate(diff(95, 99, 94, [["100", "5"]]));
+    manager.handleDepthUpdate(diff(100, 103, 99, [["100", "3"]]));
+    manager.handleDepthUpdate(diff(104, 106, 103, [], [["101", "0"], ["102", "4"]]));
+
+    await deliverSnapshot(101);
+
+    const book = latestBook();
+    expect(book.lastUpdateId).toBe(106);
+    expect(book.bids[0]).toMatchObject({ price: 100, quantity: 3 });
+    expect(book.asks).toEqual([{ price: 102, quantity: 4, quantityUsd: 408 }]);
+  });
+
+  it("accepts a first diff that ends exactly at lastUpdateId", async () => {
+    manager.handleDepthUpdate(diff(98, 100, 97, [["100", "7"]]));
+    await deliverSnapshot(100);
+
+    expect(manager.getStats().resyncCount).toBe(0);
+    expect(latestBook().bids[0]).toMatchObject({ price: 100, quantity: 7 });
+  });
+
+  it("requires the bracketing check for the first live diff after an empty buffer", async () => {
+    await deliverSnapshot(100);
+    const emitted = books.length;
+
+    manager.handleDepthUpdate(diff(95, 99, 94, [["100", "9"]]));
+    expect(latestBook().bids[0]).toMatchObject({ price: 100, quantity: 1 });
+
+    manager.handleDepthUpdate(diff(100, 102, 99, [["100", "2"]]));
+    expect(latestBook().lastUpdateId).toBe(102);
+    expect(latestBook().bids[0]).toMatchObject({ price: 100, quantity: 2 });
+    expect(books.length).toBeGreaterThan(emitted);
+    expect(manager.getStats().resyncCount).toBe(0);
+  });
+
+  it("resyncs when the snapshot is older than the first buffered diff", async () => {
+    manager.handleDepthUpdate(diff(105, 110, 104, [["100", "2"]]));
+
+    await deliverSnapshot(100);
+
+    expect(manager.getStats()).toMatchObject({ syncedBooks: 0, resyncCount: 1 });
+    expect(books).toHaveLength(0);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+
+    manager.handleDepthUpdate(diff(111, 112, 110, [["100", "4"]]));
+    await deliverSnapshot(111);
+
+    expect(manager.getStats()).toMatchObject({ syncedBooks: 1, resyncCount: 1 });
+    expect(latestBook().lastUpdateId).toBe(112);
+    expect(latestBook().bids[0]).toMatchObject({ price: 100, quantity: 4 });
+  });
+
+  it("resyncs on a pu gap and buffers diffs until the next snapshot", async () => {
+    manager.handleDepthUpdate(diff(100, 102, 99));
+    await deliverSnapshot(101);
+    expect(latestBook().lastUpdateId).toBe(102);
+
+    // pu should be 102; 103..104 was missed
+    manager.handleDepthUpdate(diff(105, 106, 104, [["100", "9"]]));
+
+    expect(manager.getStats()).toMatchObject({ syncedBooks: 0, resyncCount: 1 });
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+    expect(latestBook().lastUpdateId).toBe(102);
+
+    const emitted = books.length;
+    manager.handleDepthUpdate(diff(107, 108, 106, [["100", "6"]]));
+    expect(books).toHaveLength(emitted);
+
+    await deliverSnapshot(107, [["100", "5"]], [["101", "5"]]);
+
+    expect(manager.getStats().syncedBooks).toBe(1);
+    expect(latestBook().lastUpdateId).toBe(108);
+    expect(latestBook().bids[0]).toMatchObject({ price: 100, quantity: 6 });
+  });
+
+  it("resyncs on a gap in the buffered diffs", async () => {
+    manager.handleDepthUpdate(diff(100, 102, 99));
+    manager.handleDepthUpdate(diff(105, 106, 104));
+
+    await deliverSnapshot(101);
+
+    expect(manager.getStats()).toMatchObject({ syncedBooks: 0, resyncCount: 1 });
+    expect(books).toHaveLength(0);
+  });
+
+  it("exposes every local level beyond the published depth", async () => {
+    manager.setDepth(1);
+    expect(manager.getFullDepthBook(SYMBOL)).toBeUndefined();
+
+    await deliverSnapshot(100, [["100", "1"], ["99", "1"], ["98", "1"]], [["101", "1"], ["102", "1"]]);
+
+    expect(latestBook().bids).toHaveLength(1);
+    const full = manager.getFullDepthBook(SYMBOL);
+    expect(full?.bids.map((level) => level.price)).toEqual([100, 99, 98]);
+    expect(full?.asks.map((level) => level.price)).toEqual([101, 102]);
+
+    manager.handleDepthUpdate(diff(101, 102, 99));
+    manager.handleDepthUpdate(diff(105, 106, 104));
+    expect(manager.getFullDepthBook(SYMBOL)).toBeUndefined();
+  });
+
+  it("ignores diffs for untracked symbols", async () => {
+    manager.untrack(SYMBOL);
+    manager.handleDepthUpdate(diff(100, 102, 99));
+    await deliverSnapshot(101);
+
+    expect(manager.getStats().trackedBooks).toBe(0);
+    expect(books).toHaveLength(0);
+  });
+
+  it("fetches snapshots one at a time and retries failures after a backoff", async () => {
+    fetchSnapshot.mockRejectedValueOnce(new Error("timeout"));
+    manager.on("error", () => {});
+
+    manager.track("ETHUSDT");
+    await vi.advanceTimersByTimeAsync(600);
+    expect(fetchSnapshot.mock.calls.map(([symbol]) => symbol)).toEqual([SYMBOL]);
+
+    await deliverSnapshot(100);
+    expect(fetchSnapshot.mock.calls.map(([symbol]) => symbol)).toEqual([SYMBOL, "ETHUSDT"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(fetchSnapshot.mock.calls.map(([symbol]) => symbol)).toEqual([
+      SYMBOL,
+      "ETHUSDT",
+      "ETHUSDT",
+    ]);
+    expect(manager.getStats()).toMatchObject({ trackedBooks: 2, syncedBooks: 1 });
+  });
+
+  it("waits for Retry-After when rate limited", async () => {
+    const rateLimited = Object.assign(new Error("Request failed with status code 429"), {
+      isAxiosError: true,
+      response: { status: 429, headers: { "retry-after": "5" } },
+    });
+    fetchSnapshot.mockRejectedValueOnce(rateLimited);
+    manager.on("error", () => {});
+
+    manager.track("ETHUSDT");
+    await deliverSnapshot(100);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(4500);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(3);
+  });
+
+  it("paces snapshots by the per-minute weight budget", async () => {
+    await deliverSnapshot(100);
+    fetchSnapshot.mockImplementation(async () => ({
+      lastUpdateId: 1,
+      E: 1,
+      T: 1,
+      bids: [["100", "1"]],
+      asks: [["101", "1"]],
+    }));
+
+    for (let i = 0; i < 70; i++) {
+      manager.track(`COIN${i}USDT`);
+    }
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // 1200 weight at 20 per snapshot, including the first symbol's
+    expect(fetchSnapshot).toHaveBeenCalledTimes(60);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(71);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { UnifiedOrderBook } from "../../../src/types/unified.js";
+import type { RawPriceLevel } from "../../../src/compute/orderbook.js";
+import {
+  BybitOrderBookManager,
+  type BybitOrderBookData,
+} from "../../../src/connectors/bybit/orderbook.js";
+
+const SYMBOL = "BTCUSDT";
+
+let manager: BybitOrderBookManager;
+let books: UnifiedOrderBook[];
+let resyncs: string[];
+
+function data(
+  u: number,
+  seq: number,
+  b: RawPriceLevel[] = [],
+  a: RawPriceLevel[] = []
+): BybitOrderBookData {
+  return { s: SYMBOL, b, a, u, seq };
+}
+
+function snapshot(u: number, seq: number): void {
+  manager.handleMessage("snapshot", data(u, seq, [["100", "1"]], [["101", "1"]]), u);
+}
+
+function delta(u: number, seq: number, b: RawPriceLevel[] = [], a: RawPriceLevel[] = []): void {
+  manager.handleMessage("delta", data(u, seq, b, a), u);
+}
+
+function latestBook(): UnifiedOrderBook {
+  expect(books.length).toBeGreaterThan(0);
+  return books[books.length - 1];
+}
+
+beforeEach(() => {
+  manager = new BybitOrderBookManager(20);
+  books = [];
+  resyncs = [];
+  manager.on("orderbook", (book: UnifiedOrderBook) => books.push(book));
+  manager.on("resync", (symbol: string) => resyncs.push(symbol));
+  manager.track(SYMBOL);
+});
+
+describe("BybitOrderBookManager", () => {
+  it("ignores deltas until the first snapshot", () => {
+    delta(5, 50, [["100", "2"]]);
+
+    expect(books).toHaveLength(0);
+    expect(resyncs).toHaveLength(0);
+    expect(manager.getStats().validBooks).toBe(0);
+  });
+
+  it("applies consecutive deltas on top of a snapshot", () => {
+    snapshot(10, 100);
+    delta(11, 101, [["100", "3"]]);
+    delta(12, 105, [["99", "2"]], [["101", "0"], ["102", "4"]]);
+
+    const book = latestBook();
+    expect(book.id).toBe("bybit:BTC-USDT-PERP");
+    expect(book.lastUpdateId).toBe(12);
+    expect(book.bids).toEqual([
+      { price: 100, quantity: 3, quantityUsd: 300 },
+      { price: 99, quantity: 2, quantityUsd: 198 },
+    ]);
+    expect(book.asks).toEqual([{ price: 102, quantity: 4, quantityUsd: 408 }]);
+    expect(manager.getStats()).toMatchObject({ validBooks: 1, resyncCount: 0 });
+  });
+
+  it("resyncs when an update id is skipped", () => {
+    snapshot(10, 100);
+    const emitted = books.length;
+
+    delta(12, 102, [["100", "3"]]);
+
+    expect(resyncs).toEqual([SYMBOL]);
+    expect(books).toHaveLength(emitted);
+    expect(manager.getStats()).toMatchObject({ validBooks: 0, resyncCount: 1 });
+  });
+
+  it("resyncs when an update id repeats", () => {
+    snapshot(10, 100);
+    delta(11, 101);
+    delta(11, 101);
+
+    expect(resyncs).toEqual([SYMBOL]);
+  });
+
+  it("resyncs when the cross sequence goes backwards", () => {
+    snapshot(10, 100);
+    delta(11, 99, [["100", "3"]]);
+
+    expect(resyncs).toEqual([SYMBOL]);
+    expect(manager.getStats().validBooks).toBe(0);
+  });
+
+  it("accepts an unchanged cross sequence", () => {
+    snapshot(10, 100);
+    delta(11, 100, [["100", "3"]]);
+
+    expect(resyncs).toHaveLength(0);
+    expect(latestBook().lastUpdateId).toBe(11);
+  });
+
+  it("resyncs when a delta crosses the book", () => {
+    snapshot(10, 100);
+    delta(11, 101, [["101.5", "1"]]);
+
+    expect(resyncs).toEqual([SYMBOL]);
+    expect(manager.getStats().validBooks).toBe(0);
+  });
+
+  it("drops deltas after a resync until the next snapshot", () => {
+    snapshot(10, 100);
+    delta(12, 102);
+    const emitted = books.length;
+
+    delta(13, 103, [["100", "9"]]);
+    expect(books).toHaveLength(emitted);
+    expect(resyncs).toHaveLength(1);
+
+    snapshot(20, 200);
+    delta(21, 201, [["100", "5"]]);
+
+    expect(manager.getStats().validBooks).toBe(1);
+    expect(latestBook().lastUpdateId).toBe(21);
+    expect(latestBook().bids[0]).toMatchObject({ price: 100, quantity: 5 });
+  });
+
+  it("treats u = 1 as a snapshot after a service restart", () => {
+    snapshot(10, 100);
+    manager.handleMessage("delta", data(1, 5, [["90", "1"]], [["91", "1"]]), 1);
+
+    expect(resyncs).toHaveLength(0);
+    expect(latestBook().bids).toEqual([{ price: 90, quantity: 1, quantityUsd: 90 }]);
+    expect(latestBook().asks).toEqual([{ price: 91, quantity: 1, quantityUsd: 91 }]);
+
+    delta(2, 6);
+    expect(resyncs).toHaveLength(0);
+    expect(latestBook().lastUpdateId).toBe(2);
+  });
+
+  it("ignores messages for untracked symbols", () => {
+    manager.untrack(SYMBOL);
+    snapshot(10, 100);
+
+    expect(books).toHaveLength(0);
+    expect(manager.getStats().trackedBooks).toBe(0);
+  });
+
+  it("exposes every local level beyond the published depth", () => {
+    manager.setDepth(1);
+    expect(manager.getFullDepthBook(SYMBOL)).toBeUndefined();
+
+    manager.handleMessage(
+      "snapshot",
+      data(10, 100, [["100", "1"], ["99", "1"], ["98", "1"]], [["101", "1"], ["102", "1"]]),
+      10
+    );
+
+    expect(latestBook().bids).toHaveLength(1);
+    const full = manager.getFullDepthBook(SYMBOL);
+    expect(full?.bids.map((level) => level.price)).toEqual([100, 99, 98]);
+    expect(full?.asks.map((level) => level.price)).toEqual([101, 102]);
+
+    delta(12, 102);
+    expect(manager.getFullDepthBook(SYMBOL)).toBeUndefined();
+  });
+
+  it("picks the smallest topic depth covering the requested levels", () => {
+    expect(manager.getTopicDepth()).toBe(50);
+    manager.setDepth(1);
+    expect(manager.getTopicDepth()).toBe(1);
+    manager.setDepth(200);
+    expect(manager.getTopicDepth()).toBe(200);
+    manager.setDepth(1000);
+    expect(manager.getTopicDepth()).toBe(500);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { HyperliquidScanner } from "../../../src/connectors/hyperliquid/scanner.js";
+
+const ADDRESSES = ["0xa", "0xb", "0xc", "0xd", "0xe"];
+
+let scanned: string[];
+let scanner: HyperliquidScanner;
+
+/**
+ * Addresses scanned by the next priority pass.
+ */
+async function nextPriorityPass(): Promise<string[]> {
+  scanned = [];
+  await vi.advanceTimersByTimeAsync(1000);
+  return scanned;
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  scanned = [];
+
+  // 240 weight per minute at one pass per second leaves 2 priority scans per pass
+  scanner = new HyperliquidScanner(
+    {
+      priorityScanIntervalMs: 1000,
+      backgroundScanIntervalMs: 3600000,
+      maxParallelScans: 1,
+      weightPerScan: 1,
+      weightBudgetPerMinute: 240,
+    },
+    async (address) => {
+      scanned.push(address);
+    }
+  );
+
+  scanner.addAddresses(ADDRESSES);
+  ADDRESSES.forEach((address) => scanner.setPriority(address, true));
+  scanner.start();
+  await vi.advanceTimersByTimeAsync(0); // Initial background page
+});
+
+afterEach(() => {
+  scanner.stop();
+  vi.useRealTimers();
+});
+
+describe("HyperliquidScanner priority tier", () => {
+  it("rotates through priority addresses beyond one pass's capacity", async () => {
+    expect(await nextPriorityPass()).toEqual(["0xa", "0xb"]);
+    expect(await nextPriorityPass()).toEqual(["0xc", "0xd"]);
+    expect(await nextPriorityPass()).toEqual(["0xe", "0xa"]);
+    expect(await nextPriorityPass()).toEqual(["0xb", "0xc"]);
+  });
+
+  it("scans every priority address each pass when they fit", async () => {
+    scanner.setPriority("0xc", false);
+    scanner.setPriority("0xd", false);
+    scanner.setPriority("0xe", false);
+
+    expect(await nextPriorityPass()).toEqual(["0xa", "0xb"]);
+    expect(await nextPriorityPass()).toEqual(["0xa", "0xb"]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ExchangeConnector } from "../../src/connectors/interface.js";
+import type { SymbolInfo } from "../../src/types/exchanges.js";
+
+vi.mock("../../src/utils/config.js", () => ({
+  getConfig: () => ({
+    exchanges: { bybit: { enabled: true, symbols: "top50" } },
+    performance: { maxSymbolsPerExchange: 200 },
+    universe: { refreshIntervalMs: 300000 },
+  }),
+  getUniversePatterns: () => ({ include: null, exclude: null }),
+  isUniverseExchange: (exchange: string) => exchange === "bybit",
+}));
+
+import { SymbolUniverseManager } from "../../src/connectors/universe.js";
+import type { UniverseChange, UniverseSource } from "../../src/connectors/universe.js";
+
+function symbol(exchangeSymbol: string, isActive = true): SymbolInfo {
+  return {
+    exchangeSymbol,
+    normalizedSymbol: exchangeSymbol.replace("USDT", "/USDT"),
+    baseAsset: exchangeSymbol.replace("USDT", ""),
+    quoteAsset: "USDT",
+    contractType: "perpetual",
+    isActive,
+  };
+}
+
+let ranked: string[];
+let instruments: SymbolInfo[];
+let cachedInstruments: SymbolInfo[];
+let source: UniverseSource;
+let manager: SymbolUniverseManager;
+let changes: UniverseChange[];
+
+beforeEach(() => {
+  ranked = ["BTCUSDT", "NEWUSDT", "ETHUSDT"];
+  instruments = [symbol("BTCUSDT"), symbol("ETHUSDT")];
+  cachedInstruments = [symbol("BTCUSDT"), symbol("ETHUSDT")];
+
+  const connector = {
+    normalizeSymbol: (s: string) => s.replace("USDT", "/USDT"),
+    unsubscribeSymbols: vi.fn(async () => {}),
+    getAvailableSymbols: vi.fn(async () => cachedInstruments),
+  } as unknown as ExchangeConnector;
+
+  source = {
+    exchange: "bybit",
+    connector,
+    rankSymbols: vi.fn(async () => ranked),
+    fetchSymbols: vi.fn(async () => instruments),
+    fallbackSymbols: vi.fn(async () => []),
+    subscribe: vi.fn(async () => {}),
+  };
+
+  manager = new SymbolUniverseManager();
+  manager.register(source);
+  changes = [];
+  manager.on("change", (change: UniverseChange) => changes.push(change));
+});
+
+describe("SymbolUniverseManager.refresh", () => {
+  it("adds a symbol that becomes active after the first refresh", async () => {
+    await manager.refresh("bybit");
+    expect(manager.getUniverse("bybit")).toEqual(["BTCUSDT", "ETHUSDT"]);
+
+    // NEWUSDT moves from PreLaunch to Trading
+    instruments = [symbol("BTCUSDT"), symbol("ETHUSDT"), symbol("NEWUSDT")];
+
+    const change = await manager.refresh("bybit");
+
+    expect(change?.added).toEqual(["NEWUSDT"]);
+    expect(source.subscribe).toHaveBeenLastCalledWith(["NEWUSDT"]);
+    expect(manager.getUniverse("bybit")).toContain("NEWUSDT");
+    expect(source.fetchSymbols).toHaveBeenCalledTimes(2);
+    expect(changes.map((c) => c.added)).toEqual([["BTCUSDT", "ETHUSDT"], ["NEWUSDT"]]);
+  });
+
+  it("removes a symbol that becomes inactive", async () => {
+    await manager.refresh("bybit");
+
+    instruments = [symbol("BTCUSDT"), symbol("ETHUSDT", false)];
+
+    const change = await manager.refresh("bybit");
+
+    expect(change?.removed).toEqual(["ETHUSDT"]);
+    expect(change?.removedIds).toEqual(["bybit:ETH/USDT"]);
+    expect(source.connector.unsubscribeSymbols).toHaveBeenCalledWith(["ETHUSDT"]);
+    expect(manager.getUniverse("bybit")).toEqual(["BTCUSDT"]);
+  });
+
+  it("falls back to the connector's instrument list when the fetch fails", async () => {
+    vi.mocked(source.fetchSymbols).mockRejectedValueOnce(new Error("timeout"));
+
+    await manager.refresh("bybit");
+
+    expect(source.connector.getAvailableSymbols).toHaveBeenCalled();
+    expect(manager.getUniverse("bybit")).toEqual(["BTCUSDT", "ETHUSDT"]);
+  });
+});
+
+describe("SymbolUniverseManager.pin", () => {
+  it("keeps a pin that lands while a refresh is unsubscribing", async () => {
+    await manager.refresh("bybit");
+
+    let finishUnsubscribe!: () => void;
+    vi.mocked(source.connector.unsubscribeSymbols).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finishUnsubscribe = resolve))
+    );
+    instruments = [symbol("BTCUSDT"), symbol("ETHUSDT", false)];
+
+    const refreshing = manager.refresh("bybit");
+    await vi.waitFor(() => expect(finishUnsubscribe).toBeDefined());
+
+    const pinning = manager.pin("bybit", ["NEWUSDT"], 60000);
+    finishUnsubscribe();
+    await Promise.all([refreshing, pinning]);
+
+    expect(manager.getUniverse("bybit")).toEqual(["BTCUSDT", "NEWUSDT"]);
+  });
+
+  it("keeps pinned symbols through later refreshes", async () => {
+    await manager.refresh("bybit");
+    await manager.pin("bybit", ["NEWUSDT"], 60000);
+
+    const change = await manager.refresh("bybit");
+
+    expect(change?.removed).toEqual([]);
+    expect(manager.getUniverse("bybit")).toContain("NEWUSDT");
+  });
+});